@@ -1,11 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { Ancestor, AncestorFormData } from './types';
+import { Ancestor, AncestorFormData, DuplicateDismissal, EditProposal, ExtractedPerson, FamilyTree, Source, Union } from './types';
 import { StorageService } from './services/storage';
+import { DEFAULT_TREE_ID, SyncStatus } from './services/storageAdapter';
 import { auth } from './services/firebase';
-import { signInAnonymously, onAuthStateChanged, User, signInWithEmailAndPassword, signOut } from 'firebase/auth';
+import { signInAnonymously, onAuthStateChanged, User, signInWithEmailAndPassword, createUserWithEmailAndPassword, signOut } from 'firebase/auth';
 import { generateFamilyReport } from './services/reportGenerator';
+import { ResearchQueue } from './services/researchQueue';
+import { AiUsageService } from './services/aiUsageService';
+import { getUnionsForPerson } from './utils/genealogy';
+import { BudgetLimit, describeLimit } from './utils/aiUsage';
+import { ROLE_LABELS, canEditTree, canManageTree, canProposeEdits, getTreeRole } from './utils/roles';
+import { getProposalChanges } from './utils/proposals';
+import { UNDO_LIMIT, UndoCommand, UndoableRunner, collapseChanges, countConflicts, getRedoStates, getUndoStates } from './utils/undo';
+import { formDataToDate, getSortYear } from './utils/dates';
 import { AncestorForm } from './components/AncestorForm';
 import { TreeVisualization } from './components/TreeVisualization';
+import { RadialChart } from './components/RadialChart';
 import { Dashboard } from './components/Dashboard';
 import { AncestorProfile } from './components/AncestorProfile';
 import { RecordVault } from './components/RecordVault';
@@ -16,19 +26,45 @@ import { DataScrutinizer } from './components/DataScrutinizer';
 import { AnalyticsDashboard } from './components/AnalyticsDashboard';
 import { ReportGenerationModal } from './components/ReportGenerationModal';
 import { LoginModal } from './components/LoginModal';
-
-type View = 'dashboard' | 'tree' | 'records' | 'profile' | 'search' | 'analytics';
+import { RelationshipCalculator } from './components/RelationshipCalculator';
+import { GedcomExportModal } from './components/GedcomExportModal';
+import { ResearchQueueModal } from './components/ResearchQueueModal';
+import { TreeSwitcher } from './components/TreeSwitcher';
+import { TreeMembersModal } from './components/TreeMembersModal';
+import { ProposalReviewQueue } from './components/ProposalReviewQueue';
+import { TreeHistoryModal } from './components/TreeHistoryModal';
+import { UndoToast } from './components/UndoToast';
+
+type View = 'dashboard' | 'tree' | 'radial' | 'records' | 'profile' | 'search' | 'analytics';
+
+// Remembers the last opened tree between visits
+const ACTIVE_TREE_KEY = 'activeTreeId';
+
+// Helper to safely parse numbers, treating NaN/empty as null
+const parseNumber = (val: string) => {
+    if (!val) return null;
+    const num = parseInt(val, 10);
+    return isNaN(num) ? null : num;
+};
 
 const App: React.FC = () => {
   const [ancestors, setAncestors] = useState<Ancestor[]>([]);
+  const [unions, setUnions] = useState<Union[]>([]);
+  const [sources, setSources] = useState<Source[]>([]);
+  const [duplicateDismissals, setDuplicateDismissals] = useState<DuplicateDismissal[]>([]);
+  const [proposals, setProposals] = useState<EditProposal[]>([]);
+  const [trees, setTrees] = useState<FamilyTree[]>([]);
+  const [treesLoaded, setTreesLoaded] = useState(false);
+  const [activeTreeId, setActiveTreeId] = useState<string>(() => localStorage.getItem(ACTIVE_TREE_KEY) || DEFAULT_TREE_ID);
   const [currentView, setCurrentView] = useState<View>('dashboard');
   const [theme, setTheme] = useState<'dark' | 'light'>('dark');
   
   // Auth & Data State
   const [user, setUser] = useState<User | null>(null);
-  const [isAdminLocal, setIsAdminLocal] = useState(false); // Local state for hardcoded admin
   const [isAuthLoading, setIsAuthLoading] = useState(true);
   const [dbError, setDbError] = useState<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [aiBudgetWarning, setAiBudgetWarning] = useState<BudgetLimit | null>(null);
 
   // Modals & Overlays
   const [showForm, setShowForm] = useState(false);
@@ -37,19 +73,34 @@ const App: React.FC = () => {
   const [showThreeView, setShowThreeView] = useState(false);
   const [showScrutinizer, setShowScrutinizer] = useState(false);
   const [showReportGenerator, setShowReportGenerator] = useState(false);
+  const [showGedcomExport, setShowGedcomExport] = useState(false);
+  const [showResearchQueue, setShowResearchQueue] = useState(false);
   const [showLogin, setShowLogin] = useState(false);
+  const [showRelationship, setShowRelationship] = useState(false);
+  const [membersTreeId, setMembersTreeId] = useState<string | null>(null);
+  const [showProposals, setShowProposals] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   
   // Selection State
   const [editingId, setEditingId] = useState<string | null>(null);
   const [selectedAncestorId, setSelectedAncestorId] = useState<string | null>(null);
-  const [prefillData, setPrefillData] = useState<any>(null);
+  const [prefillData, setPrefillData] = useState<ExtractedPerson | null>(null);
+  const [amendingProposal, setAmendingProposal] = useState<EditProposal | null>(null);
   
   // Filters
   const [filteredIds, setFilteredIds] = useState<string[] | null>(null);
+  const [highlightPath, setHighlightPath] = useState<string[] | null>(null);
+
+  // Undo / Redo (this session's own changes to the active tree)
+  const [undoStack, setUndoStack] = useState<UndoCommand[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoCommand[]>([]);
+  const [undoBusy, setUndoBusy] = useState(false);
+  const [toast, setToast] = useState<UndoCommand | null>(null);
 
   // Auth Effect
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, (u) => {
+        StorageService.setCurrentUser(u ? { uid: u.uid, email: u.email, isAnonymous: u.isAnonymous } : null);
         if (u) {
             setUser(u);
             setIsAuthLoading(false);
@@ -66,10 +117,47 @@ const App: React.FC = () => {
     return unsubscribe;
   }, []);
 
-  // Data Loading Effect
+  // Tree Catalogue Effect (trees this account belongs to or is invited to)
+  useEffect(() => {
+    setTreesLoaded(false);
+    if (!user) return;
+    StorageService.claimLegacyTree();
+    return StorageService.subscribeTrees((data) => {
+        setTrees(data);
+        setTreesLoaded(true);
+    });
+  }, [user]);
+
+  const activeTree = trees.find(t => t.id === activeTreeId);
+  const role = getTreeRole(activeTree, user?.uid);
+  const hasAccess = !!role;
+
+  // Fall back to the first tree this account belongs to when the remembered one is gone
   useEffect(() => {
-    // Only try to seed if we have a user to write with, otherwise we might get permission errors silently or noisily
-    if (user) {
+    const memberTrees = trees.filter(t => getTreeRole(t, user?.uid));
+    if (memberTrees.length > 0 && !hasAccess) {
+      setActiveTreeId(memberTrees[0].id);
+    }
+  }, [trees, hasAccess, user]);
+
+  // Data Loading Effect (scoped to the active tree, once membership is known)
+  useEffect(() => {
+    StorageService.setActiveTree(activeTreeId);
+    ResearchQueue.setTree(activeTreeId, []); // Queued research waits for this tree's people
+    setUndoStack([]);
+    setRedoStack([]);
+    setToast(null);
+    if (!hasAccess) {
+        setAncestors([]);
+        setUnions([]);
+        setSources([]);
+        setDuplicateDismissals([]);
+        return;
+    }
+    localStorage.setItem(ACTIVE_TREE_KEY, activeTreeId);
+
+    // Only seed trees this account may write to, otherwise we might get permission errors silently or noisily
+    if (user && canEditTree(role)) {
         StorageService.checkAndSeed(); 
     }
 
@@ -77,6 +165,7 @@ const App: React.FC = () => {
     const unsubscribe = StorageService.subscribe(
         (data) => {
             setAncestors(data);
+            ResearchQueue.setTree(activeTreeId, data);
             setDbError(null); // Clear previous errors on success
         },
         (error: any) => {
@@ -88,8 +177,36 @@ const App: React.FC = () => {
              }
         }
     );
-    return () => unsubscribe();
-  }, [user]);
+    // Partnerships are optional data; a failure here should not block the tree
+    const unsubscribeUnions = StorageService.subscribeUnions(setUnions);
+    const unsubscribeSources = StorageService.subscribeSources(setSources);
+    const unsubscribeDismissals = StorageService.subscribeDuplicateDismissals(setDuplicateDismissals);
+    const unsubscribeUsage = AiUsageService.watchTree();
+
+    return () => {
+        unsubscribe();
+        unsubscribeUnions();
+        unsubscribeSources();
+        unsubscribeDismissals();
+        unsubscribeUsage();
+    };
+  }, [user, activeTreeId, hasAccess]);
+
+  // Review Queue Effect (only owners may read proposals)
+  const canReview = canManageTree(role);
+  useEffect(() => {
+    setProposals([]);
+    if (!hasAccess || !canReview) return;
+    return StorageService.subscribeProposals(setProposals);
+  }, [user, activeTreeId, hasAccess, canReview]);
+
+  // Sync Status Effect (local backends report queued offline changes)
+  useEffect(() => StorageService.subscribeSyncStatus(setSyncStatus), []);
+
+  // AI Budget Effect (owners set it on the tree; calls over it are blocked or flagged)
+  const aiBudget = activeTree?.aiBudget;
+  useEffect(() => AiUsageService.setBudget(aiBudget), [aiBudget]);
+  useEffect(() => AiUsageService.subscribe(snapshot => setAiBudgetWarning(snapshot.warning)), []);
 
   // Theme Effect
   useEffect(() => {
@@ -113,13 +230,41 @@ const App: React.FC = () => {
     setCurrentView('profile');
   };
 
-  const isAdmin = isAdminLocal || (user && !user.isAnonymous);
-  const isReadOnly = !isAdmin;
+  // Selections and filters belong to the tree they were made in
+  const handleSelectTree = (treeId: string) => {
+    if (treeId === activeTreeId) return;
+    setSelectedAncestorId(null);
+    setFilteredIds(null);
+    setHighlightPath(null);
+    if (currentView === 'profile') setCurrentView('dashboard');
+    setActiveTreeId(treeId);
+  };
+
+  const isSignedIn = !!user && !user.isAnonymous;
+  // Only editors and owners change records directly; everyone else sees the tree read-only
+  const isReadOnly = !canEditTree(role);
+  // Contributors send additions and edits to the review queue instead
+  const canPropose = isReadOnly && canProposeEdits(role);
+  const pendingProposals = proposals.filter(p => p.status === 'pending');
+
+  // Guests are asked to sign in; members with a lesser role are told why they cannot edit
+  const explainReadOnly = () => {
+    if (!isSignedIn) {
+        setShowLogin(true);
+    } else {
+        alert(canPropose
+            ? "Contributors suggest people and edits one at a time for an owner to review; imports and deletions need an editor."
+            : role
+            ? `As ${ROLE_LABELS[role].toLowerCase()} of this tree you cannot change its records.`
+            : "You are not a member of this tree.");
+    }
+  };
 
   const handleQuickAction = (action: string) => {
     // Permission Check
-    if (isReadOnly && (action === 'manual-add' || action === 'import' || action === 'smart')) {
-        setShowLogin(true); // Prompt login
+    const proposable = action === 'manual-add' || action === 'smart';
+    if (isReadOnly && (action === 'import' || (proposable && !canPropose))) {
+        explainReadOnly();
         return;
     }
 
@@ -129,6 +274,8 @@ const App: React.FC = () => {
     if (action === 'smart') setShowScrutinizer(true);
     if (action === 'analytics') setCurrentView('analytics');
     if (action === 'generate-book') setShowReportGenerator(true);
+    if (action === 'export-gedcom') setShowGedcomExport(true);
+    if (action === 'batch-research') setShowResearchQueue(true);
     
     // Fallback simple report if needed (deprecated by book generator)
     if (action === 'report') generateFamilyReport(ancestors);
@@ -140,29 +287,34 @@ const App: React.FC = () => {
     }
   };
 
-  const handleScrutinyComplete = (data: any) => {
+  const handleScrutinyComplete = (data: ExtractedPerson) => {
     setPrefillData(data);
     setShowScrutinizer(false);
     setShowForm(true);
   };
 
-  const handleSaveForm = async (data: AncestorFormData) => {
-    if (isReadOnly) {
-        alert("Action Denied: You must be an admin to modify records.");
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setPrefillData(null);
+    setAmendingProposal(null);
+  };
+
+  const handleSaveForm = async (data: AncestorFormData, source?: string) => {
+    if (isReadOnly && !canPropose) {
+        explainReadOnly();
         return;
     }
 
-    // Helper to safely parse numbers, treating NaN/empty as null
-    const parseNumber = (val: string) => {
-        if (!val) return null;
-        const num = parseInt(val, 10);
-        return isNaN(num) ? null : num;
-    };
+    const birthDate = formDataToDate(data.birthDate);
+    const deathDate = formDataToDate(data.deathDate);
 
     const payload = {
         name: data.name,
-        birthYear: parseNumber(data.birthYear),
-        deathYear: parseNumber(data.deathYear),
+        birthYear: birthDate ? getSortYear(birthDate) : null,
+        deathYear: deathDate ? getSortYear(deathDate) : null,
+        birthDate,
+        deathDate,
         gender: data.gender,
         country: data.country || null,
         fatherId: data.fatherId || null,
@@ -173,15 +325,31 @@ const App: React.FC = () => {
         photoUrl: data.photoUrl ? data.photoUrl : null
     };
 
+    const current = editingId ? ancestors.find(a => a.id === editingId) : undefined;
+
     try {
-        if (editingId) {
-            await StorageService.update(editingId, payload);
+        if (amendingProposal) {
+            await StorageService.acceptProposal(amendingProposal, current ? getProposalChanges(current, payload, ancestors) : payload);
+        } else if (isReadOnly) {
+            const changes = current ? getProposalChanges(current, payload, ancestors) : payload;
+            if (current && Object.keys(changes).length === 0) {
+                alert("Nothing was changed.");
+                return;
+            }
+            await StorageService.submitProposal({ kind: current ? 'edit' : 'add', ancestorId: current?.id, changes, source });
+            alert("Thanks! Your suggestion has been sent to the tree's owners for review.");
         } else {
-            await StorageService.add(payload);
+            await runUndoable(`${editingId ? 'Edited' : 'Added'} ${data.name}`, async () => {
+                let personId = editingId;
+                if (editingId) {
+                    await StorageService.update(editingId, payload);
+                } else {
+                    personId = await StorageService.add(payload);
+                }
+                if (personId) await syncUnions(personId, data);
+            });
         }
-        setShowForm(false);
-        setEditingId(null);
-        setPrefillData(null);
+        closeForm();
     } catch (e: any) {
         // Robust check for permission errors
         if (e.code === 'permission-denied' || e.message?.toLowerCase().includes('permission') || e.message?.toLowerCase().includes('access')) {
@@ -194,12 +362,39 @@ const App: React.FC = () => {
     }
   };
   
+  // Reconcile the unions edited in the form with the stored union records for this person
+  const syncUnions = async (personId: string, data: AncestorFormData) => {
+    const existing = getUnionsForPerson(unions, personId);
+    const keptIds = new Set(data.unions.map(u => u.id).filter(Boolean));
+
+    for (const union of existing) {
+        if (!keptIds.has(union.id)) await StorageService.deleteUnion(union.id);
+    }
+
+    for (const u of data.unions) {
+        const unionPayload = {
+            partner1Id: personId,
+            partner2Id: u.partnerId || null,
+            type: u.type,
+            marriageYear: parseNumber(u.marriageYear),
+            divorceYear: parseNumber(u.divorceYear),
+            place: u.place || undefined
+        };
+        if (u.id) {
+            await StorageService.updateUnion(u.id, unionPayload);
+        } else {
+            await StorageService.addUnion(unionPayload);
+        }
+    }
+  };
+
   const handleUpdateAncestor = (id: string, updates: Partial<Ancestor>) => {
       if (isReadOnly) {
-          setShowLogin(true);
+          explainReadOnly();
           return;
       }
-      StorageService.update(id, updates).catch((e) => {
+      const name = ancestors.find(a => a.id === id)?.name || 'record';
+      runUndoable(`Updated ${name}`, () => StorageService.update(id, updates)).catch((e) => {
           if (e.code === 'permission-denied' || e.message?.toLowerCase().includes('permission')) {
               setDbError("Access denied. Unable to update record.");
           } else {
@@ -210,46 +405,116 @@ const App: React.FC = () => {
 
   const handleDeleteAncestor = (id: string) => {
       if (isReadOnly) {
-          setShowLogin(true);
+          explainReadOnly();
+          return;
+      }
+      const orphanedUnions = getUnionsForPerson(unions, id);
+      const name = ancestors.find(a => a.id === id)?.name || 'record';
+      runUndoable(`Deleted ${name}`, async () => {
+          await StorageService.delete(id);
+          await Promise.all(orphanedUnions.map(u => StorageService.deleteUnion(u.id)));
+      }, { destructive: true })
+          .catch((e) => {
+              if (e.code === 'permission-denied' || e.message?.toLowerCase().includes('permission')) {
+                   setDbError("Access denied. Unable to delete record.");
+              } else {
+                   alert("Delete failed.");
+              }
+          });
+      setSelectedAncestorId(null);
+  };
+
+  // Records everything the action commits as one undo step. Whatever was written before a
+  // failure is still recorded, so a half-finished import can be undone too.
+  const runUndoable: UndoableRunner = async (label, action, options = {}) => {
+      const recording = StorageService.startRecording();
+      try {
+          return await action();
+      } finally {
+          const changes = collapseChanges(recording.stop());
+          if (changes.length > 0) {
+              const command: UndoCommand = { label, changes, destructive: options.destructive };
+              setUndoStack(prev => [...prev, command].slice(-UNDO_LIMIT));
+              setRedoStack([]);
+              setToast(options.destructive ? command : null);
+          }
+      }
+  };
+
+  // Moves the newest command from one stack to the other, writing its records back.
+  // Records someone has changed since are only overwritten once confirmed.
+  const replayCommand = async (direction: 'undo' | 'redo') => {
+      const stack = direction === 'undo' ? undoStack : redoStack;
+      const command = stack[stack.length - 1];
+      if (!command || undoBusy) return;
+      if (isReadOnly) {
+          explainReadOnly();
           return;
       }
-      StorageService.delete(id).catch((e) => {
+      const conflicts = countConflicts(command, direction, { ancestors, unions, sources });
+      if (conflicts > 0 && !window.confirm(`${conflicts} record(s) touched by "${command.label}" have changed since. ${direction === 'undo' ? 'Undo' : 'Redo'} anyway and overwrite those changes?`)) return;
+
+      setUndoBusy(true);
+      setToast(null);
+      try {
+          await StorageService.applyRecordStates(direction === 'undo' ? getUndoStates(command) : getRedoStates(command));
+          const [setFrom, setTo] = direction === 'undo' ? [setUndoStack, setRedoStack] : [setRedoStack, setUndoStack];
+          setFrom(prev => prev.filter(c => c !== command));
+          setTo(prev => [...prev, command]);
+      } catch (e: any) {
           if (e.code === 'permission-denied' || e.message?.toLowerCase().includes('permission')) {
-               setDbError("Access denied. Unable to delete record.");
+              setDbError(`Access denied. Unable to ${direction} "${command.label}".`);
           } else {
-               alert("Delete failed.");
+              alert(`Could not ${direction} "${command.label}".`);
           }
-      });
-      setSelectedAncestorId(null);
+      } finally {
+          setUndoBusy(false);
+      }
   };
 
-  const handleAdminLogin = async (id: string, pass: string) => {
-    // Normalize input
-    const username = id.trim().toLowerCase();
-    const password = pass.trim();
+  const handleUndo = () => replayCommand('undo');
+  const handleRedo = () => replayCommand('redo');
 
-    // Check for hardcoded credentials first
-    if (username === 'admin' && password === 'password') {
-        setIsAdminLocal(true);
-        setShowLogin(false);
-        return;
-    }
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text fields keep their own undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Reviewers amend a proposal by editing its values in the form before accepting
+  const handleAmendProposal = (proposal: EditProposal) => {
+    setShowProposals(false);
+    setAmendingProposal(proposal);
+    setEditingId(proposal.kind === 'edit' ? proposal.ancestorId || null : null);
+    setPrefillData(null);
+    setShowForm(true);
+  };
 
-    // Fallback to Firebase Auth
-    try {
-        await signInWithEmailAndPassword(auth, id.trim(), pass.trim());
-        setShowLogin(false);
-    } catch (e) {
-        throw e; // Modal will handle error display
+  const handleLogin = async (email: string, pass: string, createAccount: boolean) => {
+    if (createAccount) {
+        await createUserWithEmailAndPassword(auth, email, pass);
+    } else {
+        await signInWithEmailAndPassword(auth, email, pass);
     }
+    setShowLogin(false);
   };
 
+  // Signing out drops back to an anonymous session (see Auth Effect)
   const handleLogout = async () => {
-    if (isAdminLocal) {
-        setIsAdminLocal(false);
-    } else {
-        await signOut(auth);
-    }
+    await signOut(auth);
   };
 
   const selectedAncestor = ancestors.find(a => a.id === selectedAncestorId);
@@ -272,22 +537,15 @@ const App: React.FC = () => {
               <p className="text-slate-400 max-w-lg mb-6">{dbError}</p>
               
               <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 max-w-xl w-full text-left">
-                  <p className="text-sm text-slate-300 mb-3 font-semibold">Action Required: Update Firestore Rules</p>
+                  <p className="text-sm text-slate-300 mb-3 font-semibold">Action Required: Deploy Firestore Rules</p>
                   <p className="text-xs text-slate-500 mb-3">
-                      Go to <strong>Firebase Console</strong> &gt; <strong>Firestore Database</strong> &gt; <strong>Rules</strong> and paste this configuration:
+                      Access is granted per tree by its owner. If you should have access, make sure the rules in <strong>firestore.rules</strong> are deployed:
                   </p>
                   <div className="bg-black/50 p-4 rounded border border-slate-600 font-mono text-xs text-green-400 overflow-x-auto">
-                       <pre>{`rules_version = '2';
-service cloud.firestore {
-  match /databases/{database}/documents {
-    match /{document=**} {
-      allow read, write: if request.auth != null;
-    }
-  }
-}`}</pre>
+                       <pre>{`npx firebase-tools deploy --only firestore:rules`}</pre>
                   </div>
                   <p className="text-xs text-slate-500 mt-3">
-                      Ensure <strong>Anonymous Authentication</strong> is enabled in <strong>Authentication</strong> &gt; <strong>Sign-in method</strong>.
+                      Ensure <strong>Anonymous</strong> and <strong>Email/Password</strong> sign-in are enabled in <strong>Authentication</strong> &gt; <strong>Sign-in method</strong>.
                   </p>
                   <button 
                     onClick={() => setDbError(null)} 
@@ -303,53 +561,161 @@ service cloud.firestore {
   return (
     <div className="h-screen w-full bg-slate-50 dark:bg-slate-900 flex flex-col relative overflow-hidden font-sans text-slate-900 dark:text-white transition-colors duration-300">
       
-      {/* Admin Login Button */}
-      <button 
-        onClick={() => isAdmin ? handleLogout() : setShowLogin(true)}
-        className="absolute top-4 right-20 z-50 px-3 py-2 rounded-full bg-white/50 dark:bg-white/10 backdrop-blur-md text-slate-700 dark:text-white border border-slate-200 dark:border-white/10 hover:bg-white dark:hover:bg-white/20 transition shadow-sm flex items-center gap-2"
-        title={isAdmin ? "Logout Admin" : "Admin Login"}
-      >
-         <span className="material-symbols-outlined filled-icon text-[20px]">
-            {isAdmin ? 'logout' : 'admin_panel_settings'}
-         </span>
-         <span className="text-xs font-bold hidden sm:inline">
-            {isAdmin ? 'Logout' : 'Admin'}
-         </span>
-      </button>
-
-      {/* Theme Toggle Button */}
-      <button 
-        onClick={toggleTheme}
-        className="absolute top-4 right-4 z-50 p-2 rounded-full bg-white/50 dark:bg-white/10 backdrop-blur-md text-slate-700 dark:text-white border border-slate-200 dark:border-white/10 hover:bg-white dark:hover:bg-white/20 transition shadow-sm"
-        title={`Switch to ${theme === 'dark' ? 'Light' : 'Dark'} Mode`}
-      >
-         <span className="material-symbols-outlined filled-icon">
-            {theme === 'dark' ? 'light_mode' : 'dark_mode'}
-         </span>
-      </button>
+      {/* Header controls */}
+      <div className="absolute top-4 right-4 z-50 flex items-center gap-2">
+        {/* Offline / pending sync indicator */}
+        {syncStatus && syncStatus.backend !== 'firestore' && (!syncStatus.online || syncStatus.pending > 0) && (
+          <div
+            className="px-3 py-2 rounded-full bg-white/50 dark:bg-white/10 backdrop-blur-md text-slate-700 dark:text-white border border-slate-200 dark:border-white/10 shadow-sm flex items-center gap-2"
+            title={syncStatus.backend === 'local-only' ? 'Saved on this device only' : 'Changes are saved on this device and sync when Firestore is reachable'}
+          >
+            <span className={`material-symbols-outlined text-[18px] ${syncStatus.syncing ? 'animate-spin' : ''}`}>
+              {syncStatus.syncing ? 'sync' : syncStatus.online ? 'cloud_upload' : 'cloud_off'}
+            </span>
+            <span className="text-xs font-bold">
+              {syncStatus.online ? '' : 'Offline'}
+              {syncStatus.backend === 'local' && syncStatus.pending > 0 && `${syncStatus.online ? '' : ' · '}${syncStatus.pending} pending`}
+            </span>
+          </div>
+        )}
+
+        {aiBudgetWarning && (
+          <button
+            onClick={() => setCurrentView('analytics')}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-full bg-amber-100/80 dark:bg-amber-500/20 backdrop-blur-md text-amber-700 dark:text-amber-300 border border-amber-200 dark:border-amber-500/30 shadow-sm"
+            title={describeLimit(aiBudgetWarning)}
+          >
+            <span className="material-symbols-outlined text-[18px]">savings</span>
+            <span className="text-xs font-bold hidden sm:inline">Over AI budget</span>
+          </button>
+        )}
+
+        {/* Undo / Redo */}
+        {!isReadOnly && (undoStack.length > 0 || redoStack.length > 0) && (
+          <div className="flex items-center rounded-full bg-white/50 dark:bg-white/10 backdrop-blur-md border border-slate-200 dark:border-white/10 shadow-sm">
+            <button
+              onClick={handleUndo}
+              disabled={undoStack.length === 0 || undoBusy}
+              className="p-2 rounded-l-full text-slate-700 dark:text-white hover:bg-white dark:hover:bg-white/20 transition disabled:opacity-30"
+              title={undoStack.length > 0 ? `Undo: ${undoStack[undoStack.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+              <span className="material-symbols-outlined text-[20px] block">undo</span>
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={redoStack.length === 0 || undoBusy}
+              className="p-2 rounded-r-full text-slate-700 dark:text-white hover:bg-white dark:hover:bg-white/20 transition disabled:opacity-30"
+              title={redoStack.length > 0 ? `Redo: ${redoStack[redoStack.length - 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+              <span className="material-symbols-outlined text-[20px] block">redo</span>
+            </button>
+          </div>
+        )}
+
+        {/* Review queue for owners */}
+        {hasAccess && canReview && (
+          <button
+            onClick={() => setShowProposals(true)}
+            className="relative p-2 rounded-full bg-white/50 dark:bg-white/10 backdrop-blur-md text-slate-700 dark:text-white border border-slate-200 dark:border-white/10 hover:bg-white dark:hover:bg-white/20 transition shadow-sm"
+            title="Proposed changes"
+          >
+            <span className="material-symbols-outlined text-[20px] block">rate_review</span>
+            {pendingProposals.length > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-amber-500 text-white text-[10px] font-bold flex items-center justify-center">
+                {pendingProposals.length}
+              </span>
+            )}
+          </button>
+        )}
+
+        <TreeSwitcher
+          trees={trees}
+          activeTreeId={activeTreeId}
+          userId={user?.uid}
+          userEmail={user?.email}
+          canCreate={isSignedIn}
+          onSelect={handleSelectTree}
+          onManageMembers={setMembersTreeId}
+          onShowHistory={() => setShowHistory(true)}
+        />
+
+        {/* Sign In / Out Button */}
+        <button 
+          onClick={() => isSignedIn ? handleLogout() : setShowLogin(true)}
+          className="px-3 py-2 rounded-full bg-white/50 dark:bg-white/10 backdrop-blur-md text-slate-700 dark:text-white border border-slate-200 dark:border-white/10 hover:bg-white dark:hover:bg-white/20 transition shadow-sm flex items-center gap-2"
+          title={isSignedIn ? `Signed in as ${user?.email || 'member'}. Sign out` : "Sign in"}
+        >
+           <span className="material-symbols-outlined filled-icon text-[20px]">
+              {isSignedIn ? 'logout' : 'login'}
+           </span>
+           <span className="text-xs font-bold hidden sm:inline">
+              {isSignedIn ? 'Sign out' : 'Sign in'}
+           </span>
+        </button>
+
+        {/* Theme Toggle Button */}
+        <button 
+          onClick={toggleTheme}
+          className="p-2 rounded-full bg-white/50 dark:bg-white/10 backdrop-blur-md text-slate-700 dark:text-white border border-slate-200 dark:border-white/10 hover:bg-white dark:hover:bg-white/20 transition shadow-sm"
+          title={`Switch to ${theme === 'dark' ? 'Light' : 'Dark'} Mode`}
+        >
+           <span className="material-symbols-outlined filled-icon">
+              {theme === 'dark' ? 'light_mode' : 'dark_mode'}
+           </span>
+        </button>
+      </div>
 
       {/* Main Content Area */}
       <main className="flex-1 relative overflow-hidden">
-        {currentView === 'dashboard' && (
+        {treesLoaded && !hasAccess && (
+            <div className="h-full flex flex-col items-center justify-center text-center p-6 gap-3">
+                <span className="material-symbols-outlined text-5xl text-slate-400">account_tree</span>
+                <h2 className="text-xl font-bold">No family tree to show</h2>
+                <p className="text-sm text-slate-500 dark:text-gray-400 max-w-sm">
+                    {isSignedIn
+                        ? 'Create a tree from the tree menu above, or ask an owner to invite this email address.'
+                        : 'Sign in to see the trees you have been invited to.'}
+                </p>
+                {!isSignedIn && (
+                    <button onClick={() => setShowLogin(true)} className="mt-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold transition">
+                        Sign in
+                    </button>
+                )}
+            </div>
+        )}
+
+        {hasAccess && currentView === 'dashboard' && (
             <Dashboard 
                 ancestors={ancestors} 
-                isReadOnly={isReadOnly}
+                duplicateDismissals={duplicateDismissals}
+                isReadOnly={isReadOnly && !canPropose}
                 onNavigate={handleNavigate}
                 onQuickAction={handleQuickAction}
                 onSelectAncestor={handleSelectAncestor}
             />
         )}
         
-        {currentView === 'tree' && (
+        {hasAccess && currentView === 'tree' && (
             <div className="h-full w-full relative">
                  <button onClick={() => setCurrentView('dashboard')} className="absolute top-4 left-4 z-20 p-2 rounded-full bg-white/50 dark:bg-slate-800/50 text-slate-900 dark:text-white backdrop-blur hover:bg-white dark:hover:bg-slate-800 transition border border-slate-200 dark:border-white/10 shadow-sm">
                     <span className="material-symbols-outlined">arrow_back</span>
                  </button>
                  <TreeVisualization 
                     ancestors={ancestors}
+                    unions={unions}
                     filteredIds={filteredIds}
+                    highlightPath={highlightPath}
                     onSelectNode={handleSelectAncestor}
                  />
+                 {showRelationship && (
+                     <div className="absolute top-16 right-4 z-30 w-[min(420px,calc(100%-2rem))] max-h-[60vh] overflow-y-auto">
+                         <RelationshipCalculator
+                            ancestors={ancestors}
+                            onShowPath={setHighlightPath}
+                            onClose={() => { setShowRelationship(false); setHighlightPath(null); }}
+                         />
+                     </div>
+                 )}
                  <div className="absolute bottom-24 left-0 right-0 flex justify-center pointer-events-none">
                      <div className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-xl border border-slate-200 dark:border-white/10 rounded-full p-1.5 shadow-2xl flex items-center gap-1 pointer-events-auto">
                         <button className="w-10 h-10 rounded-full flex flex-col items-center justify-center text-slate-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-white/5 transition">
@@ -361,33 +727,60 @@ service cloud.firestore {
                         <button onClick={() => setShowThreeView(true)} className="w-10 h-10 rounded-full flex flex-col items-center justify-center text-slate-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-white/5 transition">
                             <span className="material-symbols-outlined text-[20px]">view_in_ar</span>
                         </button>
+                        <button onClick={() => setCurrentView('radial')} className="w-10 h-10 rounded-full flex flex-col items-center justify-center text-slate-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-white/5 transition" title="Fan & descendant charts">
+                            <span className="material-symbols-outlined text-[20px]">donut_large</span>
+                        </button>
+                        <button
+                            onClick={() => { if (showRelationship) setHighlightPath(null); setShowRelationship(!showRelationship); }}
+                            className={`w-10 h-10 rounded-full flex flex-col items-center justify-center transition ${showRelationship ? 'text-primary bg-primary/10' : 'text-slate-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-white/5'}`}
+                        >
+                            <span className="material-symbols-outlined text-[20px]">diversity_3</span>
+                        </button>
                      </div>
                  </div>
             </div>
         )}
 
-        {currentView === 'profile' && selectedAncestor && (
+        {hasAccess && currentView === 'radial' && (
+            <div className="h-full w-full relative">
+                 <button onClick={() => setCurrentView('tree')} className="absolute top-4 left-4 z-20 p-2 rounded-full bg-white/50 dark:bg-slate-800/50 text-slate-900 dark:text-white backdrop-blur hover:bg-white dark:hover:bg-slate-800 transition border border-slate-200 dark:border-white/10 shadow-sm">
+                    <span className="material-symbols-outlined">arrow_back</span>
+                 </button>
+                 <RadialChart
+                    ancestors={ancestors}
+                    onSelectNode={handleSelectAncestor}
+                 />
+            </div>
+        )}
+
+        {hasAccess && currentView === 'profile' && selectedAncestor && (
             <AncestorProfile 
                 ancestor={selectedAncestor}
                 allAncestors={ancestors}
+                unions={unions}
+                sources={sources}
                 isReadOnly={isReadOnly}
+                canSuggestEdits={canPropose}
                 onBack={() => setCurrentView('tree')}
                 onEdit={(id) => { setEditingId(id); setShowForm(true); }}
                 onDelete={handleDeleteAncestor}
                 onNavigateTree={() => setCurrentView('tree')}
                 onSelectRelative={handleSelectAncestor}
+                onUpdateAncestor={handleUpdateAncestor}
             />
         )}
 
-        {currentView === 'records' && (
+        {hasAccess && currentView === 'records' && (
             <RecordVault 
                 ancestors={ancestors}
+                sources={sources}
                 isReadOnly={isReadOnly}
                 onImportClick={() => setShowImportWizard(true)}
+                onSelectAncestor={handleSelectAncestor}
             />
         )}
         
-        {currentView === 'analytics' && (
+        {hasAccess && currentView === 'analytics' && (
              <div className="h-full w-full overflow-y-auto bg-slate-50 dark:bg-slate-900 p-4 pb-24 animate-fade-in transition-colors duration-300">
                  <div className="max-w-4xl mx-auto">
                      <div className="flex items-center mb-6 sticky top-0 bg-slate-50/95 dark:bg-slate-900/95 backdrop-blur-sm z-10 py-2 transition-colors duration-300">
@@ -404,14 +797,20 @@ service cloud.firestore {
                      </div>
                      <AnalyticsDashboard 
                         ancestors={ancestors} 
+                        unions={unions}
+                        duplicateDismissals={duplicateDismissals}
                         isReadOnly={isReadOnly}
                         onUpdateAncestor={handleUpdateAncestor}
+                        runUndoable={runUndoable}
+                        tree={activeTree}
+                        trees={trees}
+                        canManageTree={canManageTree(role)}
                      />
                  </div>
              </div>
         )}
 
-        {currentView === 'search' && (
+        {hasAccess && currentView === 'search' && (
              <div className="p-6 h-full flex flex-col items-center justify-center text-gray-500">
                  <span className="material-symbols-outlined text-4xl mb-2">construction</span>
                  <p>Advanced Search Coming Soon</p>
@@ -420,13 +819,13 @@ service cloud.firestore {
       </main>
 
       {/* Bottom Navigation */}
-      {currentView !== 'tree' && currentView !== 'profile' && (
+      {currentView !== 'tree' && currentView !== 'radial' && currentView !== 'profile' && (
           <nav className="absolute bottom-0 left-0 right-0 bg-white/95 dark:bg-slate-900/95 backdrop-blur-lg border-t border-slate-200 dark:border-white/5 py-3 px-6 flex justify-between items-center z-50 transition-colors duration-300">
             {[
                 { id: 'dashboard', icon: 'dashboard', label: 'Home' },
                 { id: 'tree', icon: 'account_tree', label: 'Tree' },
                 { id: 'analytics', icon: 'insights', label: 'Insights' },
-                { id: 'records', icon: 'folder_open', label: 'Records' },
+                { id: 'records', icon: 'menu_book', label: 'Sources' },
             ].map((item) => (
                 <button 
                     key={item.id}
@@ -440,21 +839,37 @@ service cloud.firestore {
           </nav>
       )}
 
+      {toast && !isReadOnly && (
+        <UndoToast
+            message={toast.label}
+            busy={undoBusy}
+            onUndo={handleUndo}
+            onDismiss={() => setToast(null)}
+        />
+      )}
+
       {/* Modals */}
       {showForm && (
         <AncestorForm 
             ancestors={ancestors}
+            unions={unions}
             editingId={editingId}
             prefillData={prefillData}
+            mode={amendingProposal ? 'amend' : canPropose ? 'propose' : 'record'}
+            proposed={amendingProposal?.changes}
             onSave={handleSaveForm}
-            onCancel={() => { setShowForm(false); setEditingId(null); setPrefillData(null); }}
+            onCancel={closeForm}
         />
       )}
       
       {showImportWizard && (
         <ImportWizard 
+            existingAncestors={ancestors}
+            existingUnions={unions}
+            existingSources={sources}
             onClose={() => setShowImportWizard(false)} 
             onImportComplete={() => {}}
+            runUndoable={runUndoable}
         />
       )}
       
@@ -479,17 +894,65 @@ service cloud.firestore {
       {showReportGenerator && (
         <ReportGenerationModal 
             ancestors={ancestors}
+            unions={unions}
             onClose={() => setShowReportGenerator(false)}
         />
       )}
 
+      {showGedcomExport && (
+        <GedcomExportModal 
+            ancestors={ancestors}
+            unions={unions}
+            sources={sources}
+            onClose={() => setShowGedcomExport(false)}
+        />
+      )}
+
+      {showResearchQueue && (
+        <ResearchQueueModal
+            ancestors={ancestors}
+            treeId={activeTreeId}
+            initialPersonId={selectedAncestorId}
+            onSelectAncestor={(id) => { setShowResearchQueue(false); handleSelectAncestor(id); }}
+            onClose={() => setShowResearchQueue(false)}
+        />
+      )}
+
       {showLogin && (
         <LoginModal 
-            onLogin={handleAdminLogin}
+            onLogin={handleLogin}
             onCancel={() => setShowLogin(false)}
         />
       )}
 
+      {membersTreeId && user && trees.some(t => t.id === membersTreeId) && (
+        <TreeMembersModal
+            tree={trees.find(t => t.id === membersTreeId)!}
+            currentUserId={user.uid}
+            onClose={() => setMembersTreeId(null)}
+        />
+      )}
+
+      {showProposals && canReview && (
+        <ProposalReviewQueue
+            proposals={proposals}
+            ancestors={ancestors}
+            onAmend={handleAmendProposal}
+            onClose={() => setShowProposals(false)}
+        />
+      )}
+
+      {showHistory && activeTree && !isReadOnly && (
+        <TreeHistoryModal
+            treeName={activeTree.name}
+            ancestors={ancestors}
+            unions={unions}
+            sources={sources}
+            canRollback={canManageTree(role)}
+            onClose={() => setShowHistory(false)}
+        />
+      )}
+
     </div>
   );
 };
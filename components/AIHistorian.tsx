@@ -1,83 +1,93 @@
 import React, { useState, useEffect } from 'react';
-import { Ancestor, TimelineEvent, SESResult } from '../types';
-import { 
-    generateGroundedHistory, 
-    generateFamilyStory, 
-    analyzeMissingData, 
-    generateTimeline, 
-    predictSES,
-    generateAlternateHistory,
-    HistoricalContextResponse 
-} from '../services/geminiService';
+import { AiContentEntry, AiContentKind, Ancestor } from '../types';
+import { StorageService } from '../services/storage';
+import { generateAiContent, isUnsavedAiContent } from '../services/aiContentService';
+import { describeAiError } from '../services/aiProvider';
+import { AI_CONTENT_KINDS, getAiVersions, getShownAiVersion, isAiContentStale } from '../utils/aiContent';
 
 interface Props {
   selectedAncestorId: string | null;
   ancestors: Ancestor[];
+  isReadOnly?: boolean; // Pinning is for editors
 }
 
-type TabMode = 'history' | 'story' | 'timeline' | 'insights' | 'suggestions' | 'simulation';
+type TabMode = AiContentKind;
 
-export const AIHistorian: React.FC<Props> = ({ selectedAncestorId, ancestors }) => {
+// Versions that could not be kept have no id yet
+const versionKey = (entry: AiContentEntry) => entry.id || `unsaved-${entry.dateAdded}`;
+
+// Generated content is kept per person (see aiContentService), so coming back to someone
+// shows what was generated before. Each tab pages through its versions and marks those
+// written from an older state of the record.
+export const AIHistorian: React.FC<Props> = ({ selectedAncestorId, ancestors, isReadOnly = false }) => {
   const [mode, setMode] = useState<TabMode>('history');
   
-  // State storage for different modes
-  const [historyData, setHistoryData] = useState<HistoricalContextResponse | null>(null);
-  const [storyData, setStoryData] = useState<string | null>(null);
-  const [suggestionsData, setSuggestionsData] = useState<string | null>(null);
-  const [timelineData, setTimelineData] = useState<TimelineEvent[] | null>(null);
-  const [sesData, setSesData] = useState<SESResult | null>(null);
-  const [simulationData, setSimulationData] = useState<string | null>(null);
+  const [entries, setEntries] = useState<AiContentEntry[]>([]);
+  const [unsaved, setUnsaved] = useState<AiContentEntry[]>([]);
+  // The version picked in each tab; otherwise the pinned or newest one is shown
+  const [selectedVersions, setSelectedVersions] = useState<Partial<Record<TabMode, string>>>({});
+  // Showing the form for a new version although one exists
+  const [composing, setComposing] = useState(false);
   
   const [simulationPrompt, setSimulationPrompt] = useState('');
 
   const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
   const [storyStyle, setStoryStyle] = useState<string>('Standard');
   
   const currentAncestor = selectedAncestorId ? ancestors.find(a => a.id === selectedAncestorId) : null;
 
   useEffect(() => {
-    // Reset all data when selection changes
-    setHistoryData(null);
-    setStoryData(null);
-    setSuggestionsData(null);
-    setTimelineData(null);
-    setSesData(null);
-    setSimulationData(null);
+    setEntries([]);
+    setUnsaved([]);
+    setSelectedVersions({});
+    setComposing(false);
+    setError(null);
     setSimulationPrompt('');
     setMode('history');
+    if (!selectedAncestorId) return;
+    return StorageService.subscribeAiContent(selectedAncestorId, setEntries);
   }, [selectedAncestorId]);
 
+  useEffect(() => {
+    setComposing(false);
+    setError(null);
+  }, [mode]);
+
+  const allEntries = [...unsaved.filter(e => e.ancestorIds[0] === selectedAncestorId), ...entries];
+  const versions = getAiVersions(allEntries, mode);
+  const shown = versions.find(v => versionKey(v) === selectedVersions[mode]) || getShownAiVersion(allEntries, mode);
+
   const handleGenerate = async () => {
     if (!currentAncestor) return;
+    const kind = mode;
     setLoading(true);
+    setError(null);
 
     try {
-        if (mode === 'history') {
-            const res = await generateGroundedHistory(currentAncestor);
-            setHistoryData(res);
-        } else if (mode === 'story') {
-            const res = await generateFamilyStory(currentAncestor, ancestors, storyStyle);
-            setStoryData(res);
-        } else if (mode === 'timeline') {
-            const res = await generateTimeline(currentAncestor);
-            setTimelineData(res);
-        } else if (mode === 'insights') {
-            const res = await predictSES(currentAncestor);
-            setSesData(res);
-        } else if (mode === 'suggestions') {
-            const res = await analyzeMissingData(currentAncestor);
-            setSuggestionsData(res);
-        } else if (mode === 'simulation') {
-            const res = await generateAlternateHistory(currentAncestor, simulationPrompt);
-            setSimulationData(res);
-        }
+        const entry = await generateAiContent(kind, currentAncestor, ancestors, {
+            style: kind === 'story' ? storyStyle : undefined,
+            scenario: kind === 'simulation' ? simulationPrompt : undefined
+        });
+        if (isUnsavedAiContent(entry)) setUnsaved(prev => [entry, ...prev]);
+        setSelectedVersions(prev => ({ ...prev, [kind]: versionKey(entry) }));
+        setComposing(false);
     } catch (e) {
         console.error(e);
+        setError(describeAiError(e));
     } finally {
         setLoading(false);
     }
   };
 
+  const handlePin = async (entry: AiContentEntry) => {
+    try {
+        await StorageService.pinAiContent(entry, entries, !entry.pinned);
+    } catch (e) {
+        alert("Pinning failed.");
+    }
+  };
+
   if (!currentAncestor) {
     return (
       <div className="bg-gradient-to-br from-indigo-50 to-purple-50 dark:from-slate-800 dark:to-slate-900 p-6 rounded-xl shadow-md border border-indigo-100 dark:border-slate-700 h-full flex flex-col justify-center items-center text-center min-h-[300px]">
@@ -100,11 +110,15 @@ export const AIHistorian: React.FC<Props> = ({ selectedAncestorId, ancestors })
         );
     }
 
+    const current = composing ? null : shown;
+
     // --- HISTORY TAB ---
     if (mode === 'history') {
-        if (!historyData) return renderGenerateButton("Discover History");
+        if (!current || current.kind !== 'history') return renderGenerateButton("Discover History");
+        const historyData = current.result;
         return (
             <div className="space-y-4 animate-fade-in">
+                {renderVersionBar(current)}
                 <p className="text-sm leading-relaxed text-indigo-900 dark:text-indigo-100">{historyData.text}</p>
                 {historyData.sources && historyData.sources.length > 0 && (
                     <div className="border-t border-indigo-200 dark:border-slate-600 pt-3">
@@ -126,7 +140,7 @@ export const AIHistorian: React.FC<Props> = ({ selectedAncestorId, ancestors })
 
     // --- STORY TAB ---
     if (mode === 'story') {
-        if (!storyData) {
+        if (!current || current.kind !== 'story') {
             return (
                 <div className="text-center py-4">
                      <label className="block text-xs font-medium text-indigo-800 dark:text-indigo-200 mb-2">Narrative Style</label>
@@ -147,12 +161,12 @@ export const AIHistorian: React.FC<Props> = ({ selectedAncestorId, ancestors })
         }
         return (
             <div className="animate-fade-in">
-                <div className="flex justify-between items-center mb-2">
-                    <span className="text-xs text-indigo-500 dark:text-indigo-300 uppercase font-bold tracking-wide">{storyStyle} Mode</span>
-                    <button onClick={() => setStoryData(null)} className="text-xs text-indigo-400 hover:text-indigo-600">Regenerate</button>
+                {renderVersionBar(current)}
+                <div className="mb-2">
+                    <span className="text-xs text-indigo-500 dark:text-indigo-300 uppercase font-bold tracking-wide">{current.inputs.style || 'Standard'} Mode</span>
                 </div>
                 <div className="prose prose-sm text-indigo-900 dark:text-indigo-100 max-h-[300px] overflow-y-auto p-2 bg-white/50 dark:bg-slate-800/50 rounded">
-                    <p className="whitespace-pre-line">{storyData}</p>
+                    <p className="whitespace-pre-line">{current.result}</p>
                 </div>
             </div>
         );
@@ -160,10 +174,12 @@ export const AIHistorian: React.FC<Props> = ({ selectedAncestorId, ancestors })
 
     // --- TIMELINE TAB ---
     if (mode === 'timeline') {
-        if (!timelineData) return renderGenerateButton("Build Timeline");
+        if (!current || current.kind !== 'timeline') return renderGenerateButton("Build Timeline");
         return (
-            <div className="animate-fade-in relative pl-4 border-l-2 border-indigo-200 dark:border-indigo-800 ml-2 space-y-6 py-2">
-                {timelineData.map((t, idx) => (
+            <div className="animate-fade-in">
+            {renderVersionBar(current)}
+            <div className="relative pl-4 border-l-2 border-indigo-200 dark:border-indigo-800 ml-2 space-y-6 py-2">
+                {current.result.map((t, idx) => (
                     <div key={idx} className="relative">
                         <span className="absolute -left-[21px] top-1 h-3 w-3 rounded-full bg-indigo-500 border-2 border-white dark:border-slate-800"></span>
                         <span className="text-xs font-bold text-indigo-600 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900 px-2 py-0.5 rounded-full border border-indigo-100 dark:border-indigo-800">{t.year}</span>
@@ -171,36 +187,44 @@ export const AIHistorian: React.FC<Props> = ({ selectedAncestorId, ancestors })
                     </div>
                 ))}
             </div>
+            </div>
         );
     }
 
     // --- INSIGHTS (SES) TAB ---
     if (mode === 'insights') {
-        if (!sesData) return renderGenerateButton("Analyze SES");
+        if (!current || current.kind !== 'insights') return renderGenerateButton("Analyze SES");
+        const sesData = current.result;
         return (
-            <div className="animate-fade-in p-4 bg-white/60 dark:bg-slate-800/60 rounded-lg border border-indigo-100 dark:border-slate-700">
+            <div className="animate-fade-in">
+            {renderVersionBar(current)}
+            <div className="p-4 bg-white/60 dark:bg-slate-800/60 rounded-lg border border-indigo-100 dark:border-slate-700">
                 <h4 className="font-bold text-indigo-900 dark:text-indigo-100 mb-1">Socio-Economic Status Prediction</h4>
                 <p className="text-lg font-light text-indigo-700 dark:text-indigo-300 mb-3">{sesData.socialClass}</p>
                 <div className="text-xs text-indigo-800 dark:text-indigo-200 bg-indigo-50 dark:bg-indigo-900/40 p-3 rounded border border-indigo-100 dark:border-indigo-800">
                     <strong>Reasoning:</strong> {sesData.reasoning}
                 </div>
             </div>
+            </div>
         );
     }
 
     // --- SUGGESTIONS TAB ---
     if (mode === 'suggestions') {
-        if (!suggestionsData) return renderGenerateButton("Find Missing Data");
+        if (!current || current.kind !== 'suggestions') return renderGenerateButton("Find Missing Data");
         return (
-             <div className="prose prose-sm text-indigo-900 dark:text-indigo-100 max-h-[300px] overflow-y-auto">
-                <p className="whitespace-pre-line">{suggestionsData}</p>
+            <div className="animate-fade-in">
+                {renderVersionBar(current)}
+                <div className="prose prose-sm text-indigo-900 dark:text-indigo-100 max-h-[300px] overflow-y-auto">
+                    <p className="whitespace-pre-line">{current.result}</p>
+                </div>
             </div>
         );
     }
 
     // --- SIMULATION TAB ("What If?") ---
     if (mode === 'simulation') {
-        if (!simulationData) {
+        if (!current || current.kind !== 'simulation') {
             return (
                 <div className="text-center py-2 animate-fade-in">
                     <p className="text-xs text-indigo-600 dark:text-indigo-300 mb-3 font-semibold">
@@ -238,15 +262,13 @@ export const AIHistorian: React.FC<Props> = ({ selectedAncestorId, ancestors })
         }
         return (
             <div className="animate-fade-in">
-                <div className="flex justify-between items-start mb-3 pb-2 border-b border-indigo-100 dark:border-slate-700">
-                    <div className="text-left">
-                        <span className="text-xs font-bold text-fuchsia-600 dark:text-fuchsia-400 uppercase tracking-wide block">Alternate History</span>
-                        <p className="text-[10px] text-slate-500 truncate max-w-[200px] italic">"{simulationPrompt}"</p>
-                    </div>
-                    <button onClick={() => setSimulationData(null)} className="text-xs text-indigo-400 hover:text-indigo-600 bg-white dark:bg-slate-800 px-2 py-1 rounded border border-indigo-100 dark:border-slate-600">Reset</button>
+                {renderVersionBar(current)}
+                <div className="mb-3 pb-2 border-b border-indigo-100 dark:border-slate-700 text-left">
+                    <span className="text-xs font-bold text-fuchsia-600 dark:text-fuchsia-400 uppercase tracking-wide block">Alternate History</span>
+                    <p className="text-[10px] text-slate-500 truncate max-w-[200px] italic">"{current.inputs.scenario}"</p>
                 </div>
                 <div className="prose prose-sm text-indigo-900 dark:text-indigo-100 max-h-[300px] overflow-y-auto p-3 bg-fuchsia-50/50 dark:bg-slate-800/50 rounded border border-fuchsia-100 dark:border-slate-700">
-                    <p className="whitespace-pre-line leading-relaxed">{simulationData}</p>
+                    <p className="whitespace-pre-line leading-relaxed">{current.result}</p>
                 </div>
             </div>
         );
@@ -255,6 +277,40 @@ export const AIHistorian: React.FC<Props> = ({ selectedAncestorId, ancestors })
     return null;
   };
 
+  // Paging through versions, with what each was generated from
+  const renderVersionBar = (entry: AiContentEntry) => {
+    const index = versions.findIndex(v => versionKey(v) === versionKey(entry));
+    const showVersion = (i: number) => setSelectedVersions(prev => ({ ...prev, [mode]: versionKey(versions[i]) }));
+    const stale = !!currentAncestor && isAiContentStale(entry, currentAncestor, ancestors);
+    // Options go straight to the form; the other kinds have nothing to choose
+    const newVersion = mode === 'story' || mode === 'simulation' ? () => setComposing(true) : handleGenerate;
+    return (
+        <div className="flex justify-between items-center mb-3 text-[10px] text-indigo-500 dark:text-indigo-300">
+            <div className="flex items-center gap-1 min-w-0">
+                {versions.length > 1 && (
+                    <>
+                        <button onClick={() => showVersion(index + 1)} disabled={index >= versions.length - 1} className="px-1 rounded hover:bg-indigo-100 dark:hover:bg-slate-700 disabled:opacity-30" title="Older version">‹</button>
+                        <span className="whitespace-nowrap">{versions.length - index} / {versions.length}</span>
+                        <button onClick={() => showVersion(index - 1)} disabled={index <= 0} className="px-1 rounded hover:bg-indigo-100 dark:hover:bg-slate-700 disabled:opacity-30" title="Newer version">›</button>
+                    </>
+                )}
+                <span className="truncate" title={`${entry.provider} · ${entry.model}`}>{new Date(entry.dateAdded).toLocaleDateString()}</span>
+                {entry.pinned && <span className="bg-indigo-600 text-white px-1.5 py-0.5 rounded font-bold">Pinned</span>}
+                {stale && <span className="bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200 px-1.5 py-0.5 rounded font-bold" title="The record has changed since this was generated">Stale</span>}
+                {isUnsavedAiContent(entry) && <span className="text-slate-400" title="Could not be kept; it will be gone when you leave">Not saved</span>}
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+                {!isReadOnly && !isUnsavedAiContent(entry) && (
+                    <button onClick={() => handlePin(entry)} className="hover:text-indigo-700 dark:hover:text-indigo-100" title={entry.pinned ? 'Stop using this as the canonical version' : 'Use this as the canonical version'}>
+                        {entry.pinned ? 'Unpin' : 'Pin'}
+                    </button>
+                )}
+                <button onClick={newVersion} className="hover:text-indigo-700 dark:hover:text-indigo-100">Regenerate</button>
+            </div>
+        </div>
+    );
+  };
+
   const renderGenerateButton = (label: string) => (
     <div className="text-center py-8">
         <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
@@ -283,7 +339,7 @@ export const AIHistorian: React.FC<Props> = ({ selectedAncestorId, ancestors })
 
       {/* Scrollable Tabs */}
       <div className="flex border-b border-indigo-100 dark:border-slate-700 bg-white/50 dark:bg-slate-800/50 overflow-x-auto no-scrollbar">
-        {(['history', 'story', 'timeline', 'insights', 'suggestions', 'simulation'] as TabMode[]).map((t) => (
+        {AI_CONTENT_KINDS.map((t) => (
             <button
                 key={t}
                 onClick={() => setMode(t)}
@@ -300,6 +356,10 @@ export const AIHistorian: React.FC<Props> = ({ selectedAncestorId, ancestors })
 
       {/* Content */}
       <div className="p-6 flex-grow overflow-hidden flex flex-col">
+        {error && !loading && <p className="text-xs text-red-600 dark:text-red-400 mb-3 text-center">{error}</p>}
+        {composing && !loading && (
+            <button onClick={() => setComposing(false)} className="text-xs text-indigo-400 hover:text-indigo-600 self-start mb-2">‹ Back to saved version</button>
+        )}
         {renderContent()}
       </div>
     </div>
@@ -0,0 +1,239 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AiBudget, AiFeature, FamilyTree } from '../types';
+import { StorageService } from '../services/storage';
+import { AiUsageService, AiUsageSnapshot } from '../services/aiUsageService';
+import {
+  AI_FEATURE_LABELS,
+  UsageTotals,
+  formatUsd,
+  getBudgetLimits,
+  getRecordsInMonth,
+  getUsageMonth,
+  groupUsage,
+  isPricedModel,
+  sumUsage
+} from '../utils/aiUsage';
+
+interface Props {
+  tree?: FamilyTree;
+  trees: FamilyTree[];
+  canManage: boolean; // Owners set the budget
+}
+
+const formatMonth = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(year, m - 1, 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+};
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+// Spending on AI calls in the open tree, by feature and member, with the tree's budget
+export const AiUsagePanel: React.FC<Props> = ({ tree, trees, canManage }) => {
+  const [usage, setUsage] = useState<AiUsageSnapshot>({ records: [], warning: null });
+  const currentMonth = getUsageMonth(Date.now());
+  const [month, setMonth] = useState(currentMonth);
+  const [treeTotals, setTreeTotals] = useState<{ tree: FamilyTree; totals: UsageTotals | null }[] | null>(null);
+  const [loadingTrees, setLoadingTrees] = useState(false);
+  const [treeLimit, setTreeLimit] = useState('');
+  const [memberLimit, setMemberLimit] = useState('');
+  const [onExceed, setOnExceed] = useState<AiBudget['onExceed']>('warn');
+  const [savingBudget, setSavingBudget] = useState(false);
+
+  useEffect(() => AiUsageService.subscribe(setUsage), []);
+
+  // The form follows the saved budget, e.g. after another owner changed it
+  useEffect(() => {
+    const budget = tree?.aiBudget;
+    setTreeLimit(budget?.treeMonthlyUsd ? String(budget.treeMonthlyUsd) : '');
+    setMemberLimit(budget?.memberMonthlyUsd ? String(budget.memberMonthlyUsd) : '');
+    setOnExceed(budget?.onExceed || 'warn');
+  }, [tree?.aiBudget]);
+
+  useEffect(() => { setTreeTotals(null); }, [tree?.id]);
+
+  const months = useMemo(() => {
+    const found = new Set(usage.records.map(r => getUsageMonth(r.dateAdded)));
+    found.add(currentMonth);
+    return Array.from(found).sort().reverse();
+  }, [usage.records, currentMonth]);
+
+  const monthRecords = useMemo(() => getRecordsInMonth(usage.records, month), [usage.records, month]);
+  const totals = sumUsage(monthRecords);
+  const byFeature = groupUsage(monthRecords, r => r.feature);
+  const byMember = groupUsage(monthRecords, r => r.user?.uid || '');
+  const limits = getBudgetLimits(usage.budget, usage.records, StorageService.getCurrentUserId());
+  const unpriced = monthRecords.filter(r => !isPricedModel(r.model)).length;
+  const estimated = monthRecords.filter(r => r.estimated).length;
+
+  const memberName = (uid: string) => {
+    if (!uid) return 'Signed out';
+    const record = monthRecords.find(r => r.user?.uid === uid);
+    const email = record?.user?.email || tree?.members?.[uid]?.email;
+    const name = email || 'Unknown member';
+    return uid === StorageService.getCurrentUserId() ? `${name} (you)` : name;
+  };
+
+  // Other trees are read once, on request
+  const loadTreeTotals = async () => {
+    setLoadingTrees(true);
+    const results: { tree: FamilyTree; totals: UsageTotals | null }[] = [];
+    for (const t of trees) {
+      try {
+        results.push({ tree: t, totals: sumUsage(getRecordsInMonth(await StorageService.getAiUsage(t.id), month)) });
+      } catch (e) {
+        results.push({ tree: t, totals: null });
+      }
+    }
+    setTreeTotals(results.sort((a, b) => (b.totals?.costUsd || 0) - (a.totals?.costUsd || 0)));
+    setLoadingTrees(false);
+  };
+
+  const handleSaveBudget = async () => {
+    if (!tree) return;
+    const parseLimit = (value: string) => {
+      const amount = parseFloat(value);
+      return amount > 0 ? amount : undefined;
+    };
+    const treeMonthlyUsd = parseLimit(treeLimit);
+    const memberMonthlyUsd = parseLimit(memberLimit);
+    const aiBudget: AiBudget | undefined = treeMonthlyUsd || memberMonthlyUsd
+      ? { onExceed, ...(treeMonthlyUsd ? { treeMonthlyUsd } : {}), ...(memberMonthlyUsd ? { memberMonthlyUsd } : {}) }
+      : undefined;
+    setSavingBudget(true);
+    try {
+      const { aiBudget: _, ...rest } = tree;
+      await StorageService.updateTree(aiBudget ? { ...rest, aiBudget } : rest, {});
+    } catch (e) {
+      alert("Could not save the budget.");
+    }
+    setSavingBudget(false);
+  };
+
+  const inputClass = "w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white p-2 text-sm outline-none focus:border-indigo-500";
+
+  const renderTable = (title: string, rows: { key: string; label: string; totals: UsageTotals }[]) => (
+    <div>
+      <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">{title}</h4>
+      {rows.length === 0 ? (
+        <p className="text-xs text-slate-400 dark:text-slate-500">No calls.</p>
+      ) : (
+        <table className="w-full text-xs">
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {rows.map(row => (
+              <tr key={row.key} className="text-slate-700 dark:text-slate-300">
+                <td className="py-1.5 pr-2 truncate max-w-[10rem]">{row.label}</td>
+                <td className="py-1.5 pr-2 text-right text-slate-500 dark:text-slate-400">{row.totals.calls} calls</td>
+                <td className="py-1.5 pr-2 text-right text-slate-500 dark:text-slate-400">{formatTokens(row.totals.inputTokens + row.totals.outputTokens)} tokens</td>
+                <td className="py-1.5 text-right font-semibold">{formatUsd(row.totals.costUsd)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-md border border-slate-200 dark:border-slate-700 transition-colors space-y-6">
+      <div className="flex justify-between items-center gap-3">
+        <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100 flex items-center">
+          <span className="mr-2">💳</span> AI Usage & Costs
+        </h3>
+        <select value={month} onChange={(e) => { setMonth(e.target.value); setTreeTotals(null); }} className="rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white p-2 text-sm outline-none">
+          {months.map(m => <option key={m} value={m}>{formatMonth(m)}</option>)}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {[
+          { label: 'Calls', value: totals.calls.toLocaleString() },
+          { label: 'Input tokens', value: formatTokens(totals.inputTokens) },
+          { label: 'Output tokens', value: formatTokens(totals.outputTokens) },
+          { label: 'Estimated cost', value: formatUsd(totals.costUsd) }
+        ].map(stat => (
+          <div key={stat.label} className="bg-slate-50 dark:bg-slate-900/40 rounded-lg p-3">
+            <p className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">{stat.label}</p>
+            <p className="text-lg font-bold text-slate-800 dark:text-white">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {month === currentMonth && limits.length > 0 && (
+        <div className="space-y-3">
+          {limits.map(limit => {
+            const share = Math.min(1, limit.spentUsd / limit.limitUsd);
+            return (
+              <div key={limit.scope}>
+                <div className="flex justify-between text-xs text-slate-600 dark:text-slate-300 mb-1">
+                  <span>{limit.scope === 'tree' ? 'Tree budget' : 'Your budget'}</span>
+                  <span>{formatUsd(limit.spentUsd)} of {formatUsd(limit.limitUsd)}</span>
+                </div>
+                <div className="h-1.5 w-full bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                  <div className={`h-full rounded-full transition-all ${share >= 1 ? 'bg-red-500' : share >= 0.8 ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${share * 100}%` }}></div>
+                </div>
+              </div>
+            );
+          })}
+          <p className="text-[11px] text-slate-400">
+            Calls that would go over a budget are {usage.budget?.onExceed === 'block' ? 'blocked' : 'made, with a warning'}.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {renderTable('By feature', byFeature.map(g => ({ ...g, label: AI_FEATURE_LABELS[g.key as AiFeature] || g.key })))}
+        {renderTable('By member', byMember.map(g => ({ ...g, label: memberName(g.key) })))}
+      </div>
+
+      {trees.length > 1 && (
+        <div>
+          {treeTotals ? (
+            renderTable('By tree', treeTotals.filter(t => t.totals).map(t => ({ key: t.tree.id, label: t.tree.name, totals: t.totals! })))
+          ) : (
+            <button onClick={loadTreeTotals} disabled={loadingTrees} className="text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50">
+              {loadingTrees ? 'Reading your trees...' : `Compare ${formatMonth(month)} across your ${trees.length} trees`}
+            </button>
+          )}
+        </div>
+      )}
+
+      {(unpriced > 0 || estimated > 0) && (
+        <p className="text-[11px] text-slate-400">
+          {unpriced > 0 && `${unpriced} calls used models without a known price and count as free. `}
+          {estimated > 0 && `${estimated} calls reported no token counts; theirs were estimated from the text.`}
+        </p>
+      )}
+      <p className="text-[11px] text-slate-400">Costs are estimates from list prices and leave out search grounding fees.</p>
+
+      {canManage && tree && (
+        <div className="border-t border-slate-100 dark:border-slate-700 pt-4">
+          <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-3">Monthly budget</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+            <div>
+              <label className="block text-xs text-slate-600 dark:text-slate-300 mb-1">Whole tree (USD)</label>
+              <input type="number" min={0} step={0.5} value={treeLimit} onChange={(e) => setTreeLimit(e.target.value)} placeholder="No limit" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-600 dark:text-slate-300 mb-1">Each member (USD)</label>
+              <input type="number" min={0} step={0.5} value={memberLimit} onChange={(e) => setMemberLimit(e.target.value)} placeholder="No limit" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-600 dark:text-slate-300 mb-1">When a call would go over</label>
+              <select value={onExceed} onChange={(e) => setOnExceed(e.target.value as AiBudget['onExceed'])} className={inputClass}>
+                <option value="warn">Warn and allow it</option>
+                <option value="block">Block it</option>
+              </select>
+            </div>
+          </div>
+          <button
+            onClick={handleSaveBudget}
+            disabled={savingBudget}
+            className="mt-3 px-4 py-2 bg-indigo-600 text-white rounded text-sm font-medium hover:bg-indigo-700 transition disabled:bg-indigo-300"
+          >
+            {savingBudget ? 'Saving...' : 'Save budget'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,25 +1,74 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { select, scaleBand, max, scaleLinear, axisBottom, axisLeft } from 'd3';
-import { Ancestor } from '../types';
-import { getLifespanDistribution, getAverageGenerationSpan, findPotentialDuplicates, findLocalAnomalies, Anomaly } from '../utils/genealogy';
-import { getPredictiveAnalysis, PredictionResult } from '../services/geminiService';
+import { Ancestor, DuplicateDismissal, FamilyTree, PredictionResult, Union } from '../types';
+import { AnalyticsProgress, TreeAnalytics } from '../utils/analytics';
+import { formatLifeDate } from '../utils/dates';
+import { getPredictiveAnalysis } from '../services/geminiService';
+import { describeAiError } from '../services/aiProvider';
+import { StorageService } from '../services/storage';
+import { AnalyticsService, isAnalyticsCancelled } from '../services/analyticsService';
+import { UndoableRunner } from '../utils/undo';
+import { MergeTool } from './MergeTool';
+import { AiUsagePanel } from './AiUsagePanel';
 
 interface Props {
   ancestors: Ancestor[];
+  unions?: Union[];
+  duplicateDismissals?: DuplicateDismissal[];
   isReadOnly: boolean;
   onUpdateAncestor?: (id: string, updates: Partial<Ancestor>) => void;
+  runUndoable: UndoableRunner;
+  tree?: FamilyTree;
+  trees?: FamilyTree[];
+  canManageTree?: boolean;
 }
 
-export const AnalyticsDashboard: React.FC<Props> = ({ ancestors, isReadOnly, onUpdateAncestor }) => {
+// A fresh default on every render would look like new data to the analytics cache
+const NO_DISMISSALS: DuplicateDismissal[] = [];
+
+export const AnalyticsDashboard: React.FC<Props> = ({ ancestors, unions = [], duplicateDismissals = NO_DISMISSALS, isReadOnly, onUpdateAncestor, runUndoable, tree, trees = [], canManageTree = false }) => {
   const histogramRef = useRef<SVGSVGElement>(null);
-  
-  const duplicates = findPotentialDuplicates(ancestors);
-  const avgGenSpan = getAverageGenerationSpan(ancestors);
-  const lifespanData = getLifespanDistribution(ancestors);
-  const localAnomalies = findLocalAnomalies(ancestors);
+
+  const [analytics, setAnalytics] = useState<TreeAnalytics | null>(() => AnalyticsService.getCached(ancestors, duplicateDismissals));
+  const [progress, setProgress] = useState<AnalyticsProgress | null>(null);
+
+  // Computed in a worker; the previous results stay up while newer data is analysed
+  useEffect(() => {
+    let active = true;
+    AnalyticsService.analyze(ancestors, duplicateDismissals, p => { if (active) setProgress(p); })
+      .then(result => {
+        if (!active) return;
+        setAnalytics(result);
+        setProgress(null);
+      })
+      .catch(e => {
+        if (!active || isAnalyticsCancelled(e)) return;
+        console.error("Tree analytics failed:", e);
+        setProgress(null);
+      });
+    return () => { active = false; };
+  }, [ancestors, duplicateDismissals]);
+
+  const duplicates = analytics ? analytics.duplicates : [];
+  const avgGenSpan = analytics ? analytics.averageGenerationSpan : null;
+  const lifespanData = useMemo(() => (analytics ? analytics.lifespanDistribution : []), [analytics]);
+  const localAnomalies = analytics ? analytics.anomalies : [];
 
   const [aiPredictions, setAiPredictions] = useState<PredictionResult[]>([]);
   const [loadingAi, setLoadingAi] = useState(false);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [mergeGroup, setMergeGroup] = useState<Ancestor[] | null>(null);
+  const [dismissing, setDismissing] = useState<string | null>(null);
+
+  const handleDismissDuplicate = async (idA: string, idB: string, key: string) => {
+    setDismissing(key);
+    try {
+      await StorageService.dismissDuplicate(idA, idB);
+    } catch (e) {
+      alert("Could not save the decision.");
+    }
+    setDismissing(null);
+  };
 
   useEffect(() => {
     if (!histogramRef.current || lifespanData.length === 0) return;
@@ -87,14 +136,26 @@ export const AnalyticsDashboard: React.FC<Props> = ({ ancestors, isReadOnly, onU
 
   const runPredictiveCheck = async () => {
     setLoadingAi(true);
-    const results = await getPredictiveAnalysis(ancestors);
-    setAiPredictions(results);
-    setLoadingAi(false);
+    setAiError(null);
+    try {
+        setAiPredictions(await getPredictiveAnalysis(ancestors));
+    } catch (e) {
+        console.error("Predictive Analysis Error:", e);
+        setAiError(describeAiError(e));
+    } finally {
+        setLoadingAi(false);
+    }
   };
 
   const handleApplyPrediction = (pred: PredictionResult) => {
     if (onUpdateAncestor) {
-        onUpdateAncestor(pred.ancestorId, { [pred.field]: pred.predictedValue });
+        const updates: Partial<Ancestor> = { [pred.field]: pred.predictedValue };
+        // Predicted years are estimates; keep the structured date in step with the year field
+        const year = parseInt(pred.predictedValue, 10);
+        if (!isNaN(year) && (pred.field === 'birthYear' || pred.field === 'deathYear')) {
+            updates[pred.field === 'birthYear' ? 'birthDate' : 'deathDate'] = { qualifier: 'estimated', year, calendar: 'Gregorian' };
+        }
+        onUpdateAncestor(pred.ancestorId, updates);
         // Remove applied prediction
         setAiPredictions(prev => prev.filter(p => p !== pred));
     }
@@ -102,6 +163,18 @@ export const AnalyticsDashboard: React.FC<Props> = ({ ancestors, isReadOnly, onU
 
   return (
     <div className="space-y-6">
+        {progress && (
+            <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 shadow-sm">
+                <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400 mb-2">
+                    <span>{analytics ? 'Updating checks' : 'Checking the tree'}: {progress.label.toLowerCase()}...</span>
+                    <span>{progress.completed + 1} / {progress.total}</span>
+                </div>
+                <div className="h-1.5 w-full bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500 rounded-full transition-all" style={{ width: `${Math.round((progress.completed / progress.total) * 100)}%` }}></div>
+                </div>
+            </div>
+        )}
+
         {/* Data Quality Alerts */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
              {duplicates.length > 0 && (
@@ -110,10 +183,36 @@ export const AnalyticsDashboard: React.FC<Props> = ({ ancestors, isReadOnly, onU
                         <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
                         Potential Duplicates
                     </h4>
-                    <ul className="mt-2 text-xs text-amber-700 dark:text-amber-300 list-disc list-inside">
-                        {duplicates.map((group, idx) => (
-                            <li key={idx}>
-                                <strong>{group[0].name}</strong> ({group[0].birthYear}) - Found {group.length}.
+                    <ul className="mt-2 space-y-2 max-h-72 overflow-y-auto pr-1">
+                        {duplicates.map(pair => (
+                            <li key={pair.key} className="text-xs text-amber-700 dark:text-amber-300 bg-white/60 dark:bg-slate-900/30 rounded p-2">
+                                <div className="flex items-start justify-between gap-2">
+                                    <div>
+                                        <strong>{pair.a.name}</strong> ({formatLifeDate(pair.a, 'birth') || '?'})
+                                        <span className="mx-1">&harr;</span>
+                                        <strong>{pair.b.name}</strong> ({formatLifeDate(pair.b, 'birth') || '?'})
+                                    </div>
+                                    <span className="shrink-0 px-1.5 py-0.5 rounded bg-amber-200 dark:bg-amber-800 text-amber-900 dark:text-amber-100 font-bold">
+                                        {Math.round(pair.confidence * 100)}%
+                                    </span>
+                                </div>
+                                <ul className="mt-1 list-disc list-inside text-amber-600 dark:text-amber-400">
+                                    {pair.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                                </ul>
+                                {!isReadOnly && (
+                                    <div className="mt-1 flex gap-3">
+                                        <button onClick={() => setMergeGroup([pair.a, pair.b])} className="underline font-semibold hover:text-amber-900 dark:hover:text-amber-100">
+                                            Review & merge
+                                        </button>
+                                        <button
+                                            onClick={() => handleDismissDuplicate(pair.a.id, pair.b.id, pair.key)}
+                                            disabled={dismissing === pair.key}
+                                            className="underline hover:text-amber-900 dark:hover:text-amber-100 disabled:opacity-50"
+                                        >
+                                            Not a duplicate
+                                        </button>
+                                    </div>
+                                )}
                             </li>
                         ))}
                     </ul>
@@ -155,6 +254,10 @@ export const AnalyticsDashboard: React.FC<Props> = ({ ancestors, isReadOnly, onU
                  Uses AI and historical grounding to find gaps, suggest dates, and identify anomalies.
              </p>
 
+             {aiError && !loadingAi && (
+                 <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 text-sm p-3 rounded">{aiError}</div>
+             )}
+
              {aiPredictions.length > 0 ? (
                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                      {aiPredictions.map((pred, i) => {
@@ -195,14 +298,14 @@ export const AnalyticsDashboard: React.FC<Props> = ({ ancestors, isReadOnly, onU
                                             : 'bg-white border-indigo-200 text-indigo-600 hover:bg-indigo-100 dark:bg-slate-800 dark:border-indigo-600 dark:text-indigo-300'
                                     }`}
                                 >
-                                    {isReadOnly ? 'Locked (Admin Only)' : 'Apply Correction'}
+                                    {isReadOnly ? 'Locked (Editors Only)' : 'Apply Correction'}
                                 </button>
                             </div>
                          )
                      })}
                  </div>
              ) : (
-                 !loadingAi && <div className="text-center py-6 text-slate-400 dark:text-slate-500 text-sm border-2 border-dashed border-slate-100 dark:border-slate-700 rounded">No active predictions. Run the check to analyze.</div>
+                 !loadingAi && !aiError && <div className="text-center py-6 text-slate-400 dark:text-slate-500 text-sm border-2 border-dashed border-slate-100 dark:border-slate-700 rounded">No active predictions. Run the check to analyze.</div>
              )}
         </div>
 
@@ -225,6 +328,18 @@ export const AnalyticsDashboard: React.FC<Props> = ({ ancestors, isReadOnly, onU
                 </p>
             </div>
         </div>
+
+        <AiUsagePanel tree={tree} trees={trees} canManage={canManageTree} />
+
+        {mergeGroup && (
+            <MergeTool
+                group={mergeGroup}
+                ancestors={ancestors}
+                unions={unions}
+                onClose={() => setMergeGroup(null)}
+                runUndoable={runUndoable}
+            />
+        )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,12 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { Ancestor, AncestorFormData } from '../types';
-import { hasCircularReference } from '../utils/genealogy';
+import { Ancestor, AncestorFormData, DateFormData, DateQualifier, ExtractedPerson, Union, UnionFormData, UnionType } from '../types';
+import { hasCircularReference, getUnionsForPerson, getPartnerId } from '../utils/genealogy';
+import { dateToFormData, emptyDateForm, formDataToDate, formatDisplayDate, getDateBounds, getLifeDate } from '../utils/dates';
 
 interface Props {
   ancestors: Ancestor[];
+  unions: Union[];
   editingId: string | null;
-  prefillData?: any; // Data from AI Scrutinizer
-  onSave: (data: AncestorFormData) => void;
+  prefillData?: ExtractedPerson | null; // Data from AI Scrutinizer
+  // 'propose' submits for review (contributors); 'amend' accepts a proposal with the reviewer's changes
+  mode?: 'record' | 'propose' | 'amend';
+  proposed?: Partial<Ancestor>; // Values from the proposal being amended, shown over the current record
+  onSave: (data: AncestorFormData, source?: string) => void;
   onCancel: () => void;
 }
 
@@ -24,20 +29,109 @@ const COUNTRIES = [
   "United Arab Emirates", "Vietnam", "Zimbabwe"
 ];
 
+const DATE_QUALIFIERS: { id: DateQualifier; label: string }[] = [
+  { id: 'exact', label: 'Exact' },
+  { id: 'about', label: 'About' },
+  { id: 'estimated', label: 'Estimated' },
+  { id: 'calculated', label: 'Calculated' },
+  { id: 'before', label: 'Before' },
+  { id: 'after', label: 'After' },
+  { id: 'between', label: 'Between' }
+];
+
+const inputClass = "block w-full rounded-md border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 border p-2 text-sm";
+
+interface DateFieldsProps {
+  label: string;
+  value: DateFormData;
+  onChange: (value: DateFormData) => void;
+}
+
+// Qualifier, date text and calendar for one life event, with a preview of how it was understood
+const DateFields: React.FC<DateFieldsProps> = ({ label, value, onChange }) => {
+  const parsed = formDataToDate(value);
+  const update = (field: keyof DateFormData, fieldValue: string) => onChange({ ...value, [field]: fieldValue });
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{label}</label>
+      <div className="mt-1 grid grid-cols-3 gap-2">
+        <select value={value.qualifier} onChange={(e) => update('qualifier', e.target.value)} className={inputClass}>
+          {DATE_QUALIFIERS.map(q => <option key={q.id} value={q.id}>{q.label}</option>)}
+        </select>
+        <input
+          type="text"
+          placeholder="e.g. 3 Mar 1901"
+          value={value.value}
+          onChange={(e) => update('value', e.target.value)}
+          className={`${inputClass} ${value.qualifier === 'between' ? '' : 'col-span-2'}`}
+        />
+        {value.qualifier === 'between' && (
+          <input
+            type="text"
+            placeholder="and..."
+            value={value.endValue}
+            onChange={(e) => update('endValue', e.target.value)}
+            className={inputClass}
+          />
+        )}
+      </div>
+      <div className="flex justify-between items-center mt-1">
+        <p className={`text-xs ${value.value && !parsed ? 'text-amber-600' : 'text-slate-400'}`}>
+          {value.value ? (parsed ? `Recorded as: ${formatDisplayDate(parsed)}` : 'No year recognised') : 'Leave blank if unknown'}
+        </p>
+        <select
+          value={value.calendar}
+          onChange={(e) => update('calendar', e.target.value)}
+          className="text-xs bg-transparent text-slate-500 dark:text-slate-400 border-none p-0"
+        >
+          <option value="Gregorian">Gregorian</option>
+          <option value="Julian">Julian</option>
+        </select>
+      </div>
+    </div>
+  );
+};
+
+const UNION_TYPES: UnionType[] = ['Marriage', 'Civil Partnership', 'Cohabitation', 'Engagement', 'Unknown'];
+
+const emptyUnion: UnionFormData = {
+  partnerId: '',
+  type: 'Marriage',
+  marriageYear: '',
+  divorceYear: '',
+  place: ''
+};
+
+// The person fields of the form; partnerships are filled in separately
+const personToForm = (person: Partial<Ancestor>): Omit<AncestorFormData, 'unions'> => ({
+  name: person.name || '',
+  birthDate: dateToFormData(getLifeDate(person as Ancestor, 'birth')),
+  deathDate: dateToFormData(getLifeDate(person as Ancestor, 'death')),
+  gender: person.gender || 'Unknown',
+  country: person.country || '',
+  fatherId: person.fatherId || '',
+  motherId: person.motherId || '',
+  notes: person.notes || '',
+  photoUrl: person.photoUrl || ''
+});
+
 const initialForm: AncestorFormData = {
   name: '',
-  birthYear: '',
-  deathYear: '',
+  birthDate: emptyDateForm,
+  deathDate: emptyDateForm,
   gender: 'Unknown',
   country: '',
   fatherId: '',
   motherId: '',
   notes: '',
-  photoUrl: ''
+  photoUrl: '',
+  unions: []
 };
 
-export const AncestorForm: React.FC<Props> = ({ ancestors, editingId, prefillData, onSave, onCancel }) => {
+export const AncestorForm: React.FC<Props> = ({ ancestors, unions, editingId, prefillData, mode = 'record', proposed, onSave, onCancel }) => {
   const [form, setForm] = useState<AncestorFormData>(initialForm);
+  const [source, setSource] = useState('');
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -46,17 +140,20 @@ export const AncestorForm: React.FC<Props> = ({ ancestors, editingId, prefillDat
       const existing = ancestors.find(a => a.id === editingId);
       if (existing) {
         setForm({
-          name: existing.name,
-          birthYear: existing.birthYear?.toString() || '',
-          deathYear: existing.deathYear?.toString() || '',
-          gender: existing.gender,
-          country: existing.country || '',
-          fatherId: existing.fatherId || '',
-          motherId: existing.motherId || '',
-          notes: existing.notes,
-          photoUrl: existing.photoUrl || ''
+          ...personToForm({ ...existing, ...proposed }),
+          unions: getUnionsForPerson(unions, existing.id).map(u => ({
+            id: u.id,
+            partnerId: getPartnerId(u, existing.id) || '',
+            type: u.type,
+            marriageYear: u.marriageYear?.toString() || '',
+            divorceYear: u.divorceYear?.toString() || '',
+            place: u.place || ''
+          }))
         });
       }
+    } else if (proposed) {
+      // AMEND A PROPOSED ADDITION
+      setForm({ ...personToForm(proposed), unions: [] });
     } else if (prefillData) {
       // AI SMART ADD MODE
       // Try to match parents by name
@@ -75,26 +172,46 @@ export const AncestorForm: React.FC<Props> = ({ ancestors, editingId, prefillDat
 
       setForm({
         name: prefillData.name || '',
-        birthYear: prefillData.birthYear || '',
-        deathYear: prefillData.deathYear || '',
+        birthDate: { ...emptyDateForm, value: prefillData.birthYear || '' },
+        deathDate: { ...emptyDateForm, value: prefillData.deathYear || '' },
         gender: prefillData.gender || 'Unknown',
         country: prefillData.country || '',
         fatherId: foundFatherId,
         motherId: foundMotherId,
         notes: prefillData.notes || '',
-        photoUrl: prefillData.photoUrl || ''
+        photoUrl: '',
+        unions: []
       });
     } else {
       // NEW BLANK MODE
       setForm(initialForm);
     }
-  }, [editingId, ancestors, prefillData]);
+  }, [editingId, ancestors, unions, prefillData, proposed]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     setForm({ ...form, [e.target.name]: e.target.value });
     setError(null);
   };
 
+  const handleDateChange = (field: 'birthDate' | 'deathDate', value: DateFormData) => {
+    setForm({ ...form, [field]: value });
+    setError(null);
+  };
+
+  const handleUnionChange = (index: number, field: keyof UnionFormData, value: string) => {
+    const next = form.unions.map((u, i) => i === index ? { ...u, [field]: value } : u);
+    setForm({ ...form, unions: next });
+    setError(null);
+  };
+
+  const addUnion = () => {
+    setForm({ ...form, unions: [...form.unions, { ...emptyUnion }] });
+  };
+
+  const removeUnion = (index: number) => {
+    setForm({ ...form, unions: form.unions.filter((_, i) => i !== index) });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -110,7 +227,23 @@ export const AncestorForm: React.FC<Props> = ({ ancestors, editingId, prefillDat
       }
     }
 
-    onSave(form);
+    // Date Check
+    const birth = formDataToDate(form.birthDate);
+    const death = formDataToDate(form.deathDate);
+    if (birth && death && getDateBounds(death).latest < getDateBounds(birth).earliest) {
+      setError("The death date is before the birth date.");
+      return;
+    }
+
+    // Union Check
+    for (const u of form.unions) {
+      if (u.marriageYear && u.divorceYear && parseInt(u.divorceYear, 10) < parseInt(u.marriageYear, 10)) {
+        setError("A union cannot end before it began. Please check the divorce year.");
+        return;
+      }
+    }
+
+    onSave(form, source.trim() || undefined);
   };
 
   // Filter potential parents: Can't be self.
@@ -121,9 +254,13 @@ export const AncestorForm: React.FC<Props> = ({ ancestors, editingId, prefillDat
       <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl w-full max-w-lg overflow-hidden border border-slate-200 dark:border-slate-700">
         <div className="bg-indigo-600 p-4">
           <h2 className="text-white text-xl font-bold">
-            {editingId ? 'Edit Ancestor' : (prefillData ? 'Review AI Extracted Data' : 'Add New Ancestor')}
+            {mode === 'amend' ? 'Amend Proposal'
+              : mode === 'propose' ? (editingId ? 'Suggest Changes' : 'Suggest a Person')
+              : editingId ? 'Edit Ancestor' : (prefillData ? 'Review AI Extracted Data' : 'Add New Ancestor')}
           </h2>
-          {prefillData && <p className="text-indigo-200 text-xs">Please verify the AI suggestions below.</p>}
+          {mode === 'propose' && <p className="text-indigo-200 text-xs">An owner of this tree reviews your suggestion before it is added.</p>}
+          {mode === 'amend' && <p className="text-indigo-200 text-xs">Saving accepts the proposal with your changes.</p>}
+          {mode === 'record' && prefillData && <p className="text-indigo-200 text-xs">Please verify the AI suggestions below.</p>}
         </div>
         
         <form onSubmit={handleSubmit} className="p-6 space-y-4 max-h-[80vh] overflow-y-auto">
@@ -158,28 +295,8 @@ export const AncestorForm: React.FC<Props> = ({ ancestors, editingId, prefillDat
             />
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Birth Year</label>
-              <input
-                type="number"
-                name="birthYear"
-                value={form.birthYear}
-                onChange={handleChange}
-                className="mt-1 block w-full rounded-md border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 border p-2"
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Death Year</label>
-              <input
-                type="number"
-                name="deathYear"
-                value={form.deathYear}
-                onChange={handleChange}
-                className="mt-1 block w-full rounded-md border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 border p-2"
-              />
-            </div>
-          </div>
+          <DateFields label="Birth Date" value={form.birthDate} onChange={(v) => handleDateChange('birthDate', v)} />
+          <DateFields label="Death Date" value={form.deathDate} onChange={(v) => handleDateChange('deathDate', v)} />
 
           <div className="grid grid-cols-2 gap-4">
             <div>
@@ -252,6 +369,81 @@ export const AncestorForm: React.FC<Props> = ({ ancestors, editingId, prefillDat
             </div>
           </div>
 
+          {/* Proposals cover the person's own record; partnerships are edited directly */}
+          {mode === 'record' && (
+            <div>
+              <div className="flex justify-between items-center">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Partners & Marriages</label>
+                <button
+                  type="button"
+                  onClick={addUnion}
+                  className="text-xs text-indigo-600 dark:text-indigo-300 font-medium hover:underline"
+                >
+                  + Add Partner
+                </button>
+              </div>
+              {form.unions.length === 0 && (
+                <p className="text-xs text-slate-400 mt-1">No partnerships recorded.</p>
+            )}
+            <div className="space-y-3 mt-2">
+              {form.unions.map((u, index) => (
+                <div key={u.id || `new-${index}`} className="p-3 rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-700/40 space-y-2">
+                  <div className="flex gap-2">
+                    <select
+                      value={u.partnerId}
+                      onChange={(e) => handleUnionChange(index, 'partnerId', e.target.value)}
+                      className="flex-1 rounded-md border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white border p-2 text-sm"
+                    >
+                      <option value="">-- Partner not in tree --</option>
+                      {eligibleParents.map(p => (
+                        <option key={p.id} value={p.id}>{p.name} ({p.birthYear || '?'})</option>
+                      ))}
+                    </select>
+                    <select
+                      value={u.type}
+                      onChange={(e) => handleUnionChange(index, 'type', e.target.value)}
+                      className="w-36 rounded-md border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white border p-2 text-sm"
+                    >
+                      {UNION_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => removeUnion(index)}
+                      className="px-2 text-slate-400 hover:text-red-500 transition"
+                      title="Remove Partner"
+                    >
+                      <span className="material-symbols-outlined text-lg">delete</span>
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <input
+                      type="number"
+                      placeholder="Married"
+                      value={u.marriageYear}
+                      onChange={(e) => handleUnionChange(index, 'marriageYear', e.target.value)}
+                      className="rounded-md border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white border p-2 text-sm"
+                    />
+                    <input
+                      type="number"
+                      placeholder="Divorced"
+                      value={u.divorceYear}
+                      onChange={(e) => handleUnionChange(index, 'divorceYear', e.target.value)}
+                      className="rounded-md border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white border p-2 text-sm"
+                    />
+                    <input
+                      type="text"
+                      placeholder="Place"
+                      value={u.place}
+                      onChange={(e) => handleUnionChange(index, 'place', e.target.value)}
+                      className="rounded-md border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white border p-2 text-sm"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Notes</label>
             <textarea
@@ -263,6 +455,19 @@ export const AncestorForm: React.FC<Props> = ({ ancestors, editingId, prefillDat
             />
           </div>
 
+          {mode === 'propose' && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Source (Optional)</label>
+              <input
+                type="text"
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                placeholder="e.g. Parish register, family bible, Grandma's memory"
+                className={`mt-1 ${inputClass}`}
+              />
+            </div>
+          )}
+
           <div className="flex justify-end space-x-3 pt-4 border-t dark:border-slate-700">
             <button
               type="button"
@@ -275,7 +480,7 @@ export const AncestorForm: React.FC<Props> = ({ ancestors, editingId, prefillDat
               type="submit"
               className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition shadow-md"
             >
-              {prefillData ? 'Confirm & Save' : 'Save Record'}
+              {mode === 'propose' ? 'Submit for Review' : mode === 'amend' ? 'Accept with Changes' : prefillData ? 'Confirm & Save' : 'Save Record'}
             </button>
           </div>
         </form>
@@ -1,25 +1,104 @@
-import React from 'react';
-import { Ancestor } from '../types';
+import React, { useState } from 'react';
+import { Ancestor, Citation, CitationFact, Source, Union } from '../types';
+import { getUnionsForPerson, getPartnerId } from '../utils/genealogy';
+import { getTreeIndex } from '../utils/treeIndex';
+import { formatLifeDate, isApproximate } from '../utils/dates';
+import { CITATION_QUALITY_LABELS, describeSource } from '../utils/sources';
+import { CitationModal } from './CitationModal';
+import { HistoryTimeline } from './HistoryTimeline';
 
 interface Props {
   ancestor: Ancestor;
   allAncestors: Ancestor[];
+  unions: Union[];
+  sources: Source[];
   isReadOnly: boolean;
+  canSuggestEdits?: boolean; // Contributors propose edits for review instead of editing
   onBack: () => void;
   onEdit: (id: string) => void;
   onDelete: (id: string) => void;
   onNavigateTree: () => void;
   onSelectRelative: (id: string) => void;
+  onUpdateAncestor: (id: string, updates: Partial<Ancestor>) => void;
 }
 
-export const AncestorProfile: React.FC<Props> = ({ ancestor, allAncestors, isReadOnly, onBack, onEdit, onDelete, onNavigateTree, onSelectRelative }) => {
-  const father = allAncestors.find(a => a.id === ancestor.fatherId);
-  const mother = allAncestors.find(a => a.id === ancestor.motherId);
-  const children = allAncestors.filter(a => a.fatherId === ancestor.id || a.motherId === ancestor.id);
+const QUALITY_COLORS: Record<string, string> = {
+  primary: 'bg-green-500/10 text-green-400',
+  secondary: 'bg-blue-500/10 text-blue-400',
+  questionable: 'bg-amber-500/10 text-amber-400',
+  unreliable: 'bg-red-500/10 text-red-400'
+};
+
+export const AncestorProfile: React.FC<Props> = ({ ancestor, allAncestors, unions, sources, isReadOnly, canSuggestEdits, onBack, onEdit, onDelete, onNavigateTree, onSelectRelative, onUpdateAncestor }) => {
+  const [citingFact, setCitingFact] = useState<CitationFact | null>(null);
+  const { byId, childrenOf } = getTreeIndex(allAncestors);
+  const father = ancestor.fatherId ? byId.get(ancestor.fatherId) : undefined;
+  const mother = ancestor.motherId ? byId.get(ancestor.motherId) : undefined;
+  const children = childrenOf.get(ancestor.id) || [];
+  const partnerships = getUnionsForPerson(unions, ancestor.id)
+    .sort((a, b) => (a.marriageYear || 9999) - (b.marriageYear || 9999))
+    .map(union => {
+        const partnerId = getPartnerId(union, ancestor.id);
+        return { union, partner: partnerId ? byId.get(partnerId) : undefined };
+    });
 
   const lifespan = (ancestor.birthYear && ancestor.deathYear) 
     ? ancestor.deathYear - ancestor.birthYear 
     : null;
+  const birthText = formatLifeDate(ancestor, 'birth');
+  const deathText = formatLifeDate(ancestor, 'death');
+  const isApproxLifespan = [ancestor.birthDate, ancestor.deathDate].some(d => d && isApproximate(d));
+
+  const citations = ancestor.citations || [];
+
+  const addCitation = (citation: Citation) => {
+    onUpdateAncestor(ancestor.id, { citations: [...citations, citation] });
+  };
+
+  const removeCitation = (citation: Citation) => {
+    onUpdateAncestor(ancestor.id, { citations: citations.filter(c => c !== citation) });
+  };
+
+  // Citations backing one fact, with a button to add another
+  const renderCitations = (fact: CitationFact) => {
+    const forFact = citations.filter(c => c.fact === fact);
+    if (forFact.length === 0 && isReadOnly) return null;
+    return (
+      <div className="mt-2 space-y-1.5">
+        {forFact.map((citation, i) => {
+          const source = sources.find(s => s.id === citation.sourceId);
+          return (
+            <div key={i} className="flex items-start gap-2 text-xs bg-background/60 border border-white/5 rounded-lg px-2 py-1.5">
+              <span className="material-symbols-outlined text-[14px] text-gray-500 mt-0.5">format_quote</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-gray-300 truncate">
+                  {source ? describeSource(source) : 'Missing source'}
+                  {citation.page && <span className="text-gray-500"> • {citation.page}</span>}
+                </p>
+                {citation.detail && <p className="text-gray-500 whitespace-pre-line">{citation.detail}</p>}
+              </div>
+              {citation.quality && (
+                <span className={`shrink-0 text-[10px] px-1.5 py-0.5 rounded ${QUALITY_COLORS[citation.quality]}`}>
+                  {CITATION_QUALITY_LABELS[citation.quality]}
+                </span>
+              )}
+              {!isReadOnly && (
+                <button onClick={() => removeCitation(citation)} className="text-gray-500 hover:text-red-400" title="Remove citation">
+                  <span className="material-symbols-outlined text-[14px]">close</span>
+                </button>
+              )}
+            </div>
+          );
+        })}
+        {!isReadOnly && (
+          <button onClick={() => setCitingFact(fact)} className="text-[11px] text-primary font-medium flex items-center gap-1 hover:underline">
+            <span className="material-symbols-outlined text-[14px]">add</span>
+            Cite source
+          </button>
+        )}
+      </div>
+    );
+  };
 
   const handleDelete = () => {
     if (window.confirm(`Are you sure you want to delete ${ancestor.name}? This cannot be undone.`)) {
@@ -73,10 +152,13 @@ export const AncestorProfile: React.FC<Props> = ({ ancestor, allAncestors, isRea
       {/* Main Info */}
       <div className="mt-20 px-6 text-center">
          <h1 className="text-2xl font-bold text-white">{ancestor.name}</h1>
+         {ancestor.alternateNames && ancestor.alternateNames.length > 0 && (
+            <p className="text-xs text-gray-500 mt-1">Also known as {ancestor.alternateNames.join(', ')}</p>
+         )}
          <p className="text-gray-400 font-medium mt-1">
             {ancestor.birthYear || '?'} – {ancestor.deathYear || 'Present'} 
             {lifespan && <span className="mx-2">•</span>}
-            {lifespan && `${lifespan} Years`}
+            {lifespan && `${isApproxLifespan ? '~' : ''}${lifespan} Years`}
          </p>
       </div>
 
@@ -92,6 +174,12 @@ export const AncestorProfile: React.FC<Props> = ({ ancestor, allAncestors, isRea
                 Edit Profile
              </button>
          )}
+         {isReadOnly && canSuggestEdits && (
+             <button onClick={() => onEdit(ancestor.id)} className="flex-1 bg-surface border border-primary/40 hover:bg-primary/10 text-primary py-2.5 rounded-xl font-medium flex items-center justify-center gap-2 transition">
+                <span className="material-symbols-outlined text-lg">rate_review</span>
+                Suggest Edit
+             </button>
+         )}
       </div>
 
       {/* Details Container */}
@@ -103,10 +191,11 @@ export const AncestorProfile: React.FC<Props> = ({ ancestor, allAncestors, isRea
                   <div className="w-10 h-10 rounded-lg bg-surface-light flex items-center justify-center text-gray-400 shrink-0">
                       <span className="material-symbols-outlined">cake</span>
                   </div>
-                  <div>
+                  <div className="flex-1 min-w-0">
                       <p className="text-xs text-gray-400">Born</p>
-                      <p className="text-white font-medium">{ancestor.birthYear ? `Approx. ${ancestor.birthYear}` : 'Unknown'}</p>
-                      <p className="text-xs text-blue-400 mt-0.5">{ancestor.country}</p>
+                      <p className="text-white font-medium">{birthText || 'Unknown'}</p>
+                      <p className="text-xs text-blue-400 mt-0.5">{ancestor.birthPlace || ancestor.country}</p>
+                      {renderCitations('birth')}
                   </div>
               </div>
               
@@ -114,12 +203,39 @@ export const AncestorProfile: React.FC<Props> = ({ ancestor, allAncestors, isRea
                   <div className="w-10 h-10 rounded-lg bg-surface-light flex items-center justify-center text-gray-400 shrink-0">
                       <span className="material-symbols-outlined">church</span>
                   </div>
-                  <div>
+                  <div className="flex-1 min-w-0">
                       <p className="text-xs text-gray-400">Died</p>
-                      <p className="text-white font-medium">{ancestor.deathYear ? `Approx. ${ancestor.deathYear}` : 'Living / Unknown'}</p>
+                      <p className="text-white font-medium">{deathText || 'Living / Unknown'}</p>
+                      {ancestor.deathPlace && <p className="text-xs text-blue-400 mt-0.5">{ancestor.deathPlace}</p>}
+                      {renderCitations('death')}
                   </div>
               </div>
 
+              {(ancestor.country || citations.some(c => c.fact === 'country')) && (
+                  <div className="flex gap-4">
+                      <div className="w-10 h-10 rounded-lg bg-surface-light flex items-center justify-center text-gray-400 shrink-0">
+                          <span className="material-symbols-outlined">public</span>
+                      </div>
+                      <div className="flex-1 min-w-0">
+                          <p className="text-xs text-gray-400">Country</p>
+                          <p className="text-white font-medium">{ancestor.country || 'Unknown'}</p>
+                          {renderCitations('country')}
+                      </div>
+                  </div>
+              )}
+
+              {ancestor.occupations && ancestor.occupations.length > 0 && (
+                  <div className="flex gap-4">
+                      <div className="w-10 h-10 rounded-lg bg-surface-light flex items-center justify-center text-gray-400 shrink-0">
+                          <span className="material-symbols-outlined">work</span>
+                      </div>
+                      <div>
+                          <p className="text-xs text-gray-400">Occupation</p>
+                          <p className="text-white font-medium">{ancestor.occupations.join(', ')}</p>
+                      </div>
+                  </div>
+              )}
+
               {ancestor.notes && (
                   <div className="flex gap-4">
                       <div className="w-10 h-10 rounded-lg bg-surface-light flex items-center justify-center text-gray-400 shrink-0">
@@ -127,13 +243,21 @@ export const AncestorProfile: React.FC<Props> = ({ ancestor, allAncestors, isRea
                       </div>
                       <div>
                           <p className="text-xs text-gray-400">Notes</p>
-                          <p className="text-white text-sm mt-1 leading-relaxed">{ancestor.notes}</p>
+                          <p className="text-white text-sm mt-1 leading-relaxed whitespace-pre-line">{ancestor.notes}</p>
                       </div>
                   </div>
               )}
           </div>
       </div>
 
+      {/* Sources for the record as a whole */}
+      {(citations.some(c => c.fact === 'general') || !isReadOnly) && (
+          <div className="mt-4 mx-4 bg-surface border border-white/5 rounded-2xl p-5 shadow-lg">
+              <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Sources</h3>
+              {renderCitations('general')}
+          </div>
+      )}
+
       {/* Family Links */}
       <div className="mt-6 mx-4 mb-8">
           <div className="flex justify-between items-center mb-3">
@@ -168,6 +292,38 @@ export const AncestorProfile: React.FC<Props> = ({ ancestor, allAncestors, isRea
                  </div>
              )}
           </div>
+          {(father || mother) && renderCitations('parentage')}
+
+          {/* Partners */}
+          {partnerships.length > 0 && (
+             <div className="mt-4">
+                 <p className="text-xs text-gray-500 font-medium mb-2 uppercase">Partners ({partnerships.length})</p>
+                 <div className="space-y-2">
+                     {partnerships.map(({ union, partner }) => (
+                         <div
+                             key={union.id}
+                             onClick={() => partner && onSelectRelative(partner.id)}
+                             className={`bg-surface border border-white/5 p-3 rounded-xl flex items-center gap-3 transition ${partner ? 'cursor-pointer hover:bg-surface-light/50' : ''}`}
+                         >
+                             <div className="w-10 h-10 rounded-full bg-surface-light flex items-center justify-center text-amber-400 shrink-0 border border-white/10">
+                                 {partner?.photoUrl
+                                    ? <img src={partner.photoUrl} className="w-full h-full rounded-full object-cover"/>
+                                    : <span className="material-symbols-outlined text-lg">favorite</span>}
+                             </div>
+                             <div className="min-w-0 flex-1">
+                                 <p className="text-xs text-amber-400 font-bold uppercase tracking-wide mb-0.5">{union.type}</p>
+                                 <p className="text-white text-sm font-medium truncate">{partner ? partner.name : 'Partner not recorded'}</p>
+                                 <p className="text-[10px] text-gray-500">
+                                     {union.marriageYear ? `Married ${union.marriageYear}` : 'Date unknown'}
+                                     {union.place && ` • ${union.place}`}
+                                     {union.divorceYear && ` • Ended ${union.divorceYear}`}
+                                 </p>
+                             </div>
+                         </div>
+                     ))}
+                 </div>
+             </div>
+          )}
 
           {/* Children */}
           {children.length > 0 && (
@@ -186,6 +342,22 @@ export const AncestorProfile: React.FC<Props> = ({ ancestor, allAncestors, isRea
              </div>
           )}
       </div>
+
+      <HistoryTimeline
+          ancestorId={ancestor.id}
+          records={{ ancestors: allAncestors, unions, sources }}
+          isReadOnly={isReadOnly}
+      />
+
+      {citingFact && (
+          <CitationModal
+              personName={ancestor.name}
+              fact={citingFact}
+              sources={sources}
+              onClose={() => setCitingFact(null)}
+              onSave={addCitation}
+          />
+      )}
     </div>
   );
 };
\ No newline at end of file
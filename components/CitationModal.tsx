@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Citation, CitationFact, CitationQuality, Source } from '../types';
+import { StorageService } from '../services/storage';
+import { CITATION_FACT_LABELS, CITATION_QUALITIES, CITATION_QUALITY_LABELS, createCitation, describeSource } from '../utils/sources';
+
+interface Props {
+  personName: string;
+  fact: CitationFact;
+  sources: Source[];
+  onClose: () => void;
+  onSave: (citation: Citation) => void;
+}
+
+const NEW_SOURCE = '__new__';
+
+export const CitationModal: React.FC<Props> = ({ personName, fact, sources, onClose, onSave }) => {
+  const sortedSources = [...sources].sort((a, b) => a.title.localeCompare(b.title));
+  const [sourceId, setSourceId] = useState<string>(sortedSources[0]?.id || NEW_SOURCE);
+  const [newTitle, setNewTitle] = useState('');
+  const [newAuthor, setNewAuthor] = useState('');
+  const [page, setPage] = useState('');
+  const [detail, setDetail] = useState('');
+  const [quality, setQuality] = useState<CitationQuality | ''>('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canSave = sourceId === NEW_SOURCE ? newTitle.trim().length > 0 : !!sourceId;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setSaving(true);
+    setError(null);
+    try {
+      let id = sourceId;
+      if (sourceId === NEW_SOURCE) {
+        id = await StorageService.addSource({ title: newTitle.trim(), ...(newAuthor.trim() ? { author: newAuthor.trim() } : {}) });
+      }
+      onSave(createCitation(id, fact, { page, detail, quality: quality || undefined }));
+      onClose();
+    } catch (e) {
+      setError("Could not save the source.");
+      setSaving(false);
+    }
+  };
+
+  const inputClass = "w-full bg-background border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-primary/50";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4 animate-fade-in backdrop-blur-sm">
+      <div className="bg-surface rounded-2xl shadow-2xl w-full max-w-md overflow-hidden border border-white/10">
+        <div className="p-5 border-b border-white/5 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-bold text-white flex items-center gap-2">
+              <span className="material-symbols-outlined">format_quote</span>
+              Cite a Source
+            </h2>
+            <p className="text-xs text-gray-400 mt-0.5">{CITATION_FACT_LABELS[fact]} of {personName}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Source</label>
+            <select value={sourceId} onChange={(e) => setSourceId(e.target.value)} className={inputClass}>
+              {sortedSources.map(s => <option key={s.id} value={s.id}>{describeSource(s)}</option>)}
+              <option value={NEW_SOURCE}>+ New source…</option>
+            </select>
+          </div>
+
+          {sourceId === NEW_SOURCE && (
+            <div className="grid grid-cols-2 gap-2">
+              <input value={newTitle} onChange={(e) => setNewTitle(e.target.value)} placeholder="Title" className={inputClass} />
+              <input value={newAuthor} onChange={(e) => setNewAuthor(e.target.value)} placeholder="Author (optional)" className={inputClass} />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Page or entry</label>
+            <input value={page} onChange={(e) => setPage(e.target.value)} placeholder="e.g. folio 12, entry 143" className={inputClass} />
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Detail</label>
+            <textarea value={detail} onChange={(e) => setDetail(e.target.value)} rows={3} placeholder="Transcription or remarks" className={inputClass} />
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Quality</label>
+            <select value={quality} onChange={(e) => setQuality(e.target.value as CitationQuality | '')} className={inputClass}>
+              <option value="">Not assessed</option>
+              {CITATION_QUALITIES.map(q => <option key={q} value={q}>{CITATION_QUALITY_LABELS[q]}</option>)}
+            </select>
+          </div>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <button
+            onClick={handleSave}
+            disabled={!canSave || saving}
+            className="w-full py-2.5 bg-primary hover:bg-primary-dark text-white font-bold rounded-xl shadow-lg shadow-primary/20 transition disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Add Citation'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,36 +1,61 @@
-import React, { useState, useEffect } from 'react';
-import { Ancestor } from '../types';
-import { generateGroundedHistory, HistoricalContextResponse } from '../services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { AiContentEntry, Ancestor } from '../types';
+import { StorageService } from '../services/storage';
+import { generateAiContent } from '../services/aiContentService';
+import { describeAiError } from '../services/aiProvider';
+import { getShownAiVersion, isAiContentStale } from '../utils/aiContent';
 
 interface Props {
   ancestor: Ancestor;
   onClose: () => void;
 }
 
+// Shows the historical context kept for this person (shared with AIHistorian's history
+// tab), generating it only when there is none yet or when asked to
 export const ContextModal: React.FC<Props> = ({ ancestor, onClose }) => {
-  const [data, setData] = useState<HistoricalContextResponse | null>(null);
+  const [entries, setEntries] = useState<AiContentEntry[] | null>(null); // null until loaded
+  const [unsaved, setUnsaved] = useState<AiContentEntry | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const isMounted = useRef(true);
+  const requested = useRef(false);
 
   useEffect(() => {
-    let isMounted = true;
-    
-    const fetchData = async () => {
-      setLoading(true);
-      try {
-        const result = await generateGroundedHistory(ancestor);
-        if (isMounted) setData(result);
-      } catch (err) {
-        if (isMounted) setError("Failed to retrieve historical context.");
-      } finally {
-        if (isMounted) setLoading(false);
-      }
-    };
+    isMounted.current = true;
+    return () => { isMounted.current = false; };
+  }, []);
 
-    fetchData();
+  useEffect(() => {
+    setEntries(null);
+    setUnsaved(null);
+    setError(null);
+    requested.current = false;
+    return StorageService.subscribeAiContent(ancestor.id, setEntries, () => setEntries([]));
+  }, [ancestor.id]);
+
+  const fetchData = async () => {
+    requested.current = true;
+    setLoading(true);
+    setError(null);
+    try {
+      const entry = await generateAiContent('history', ancestor, [ancestor]);
+      if (isMounted.current) setUnsaved(entry.id ? null : entry);
+    } catch (err) {
+      if (isMounted.current) setError(describeAiError(err));
+    } finally {
+      if (isMounted.current) setLoading(false);
+    }
+  };
+
+  const kept = entries ? getShownAiVersion(entries, 'history') : null;
+  const shown = unsaved || kept;
+  const data = shown && shown.kind === 'history' ? shown.result : null;
+  const stale = !!shown && isAiContentStale(shown, ancestor, [ancestor]);
 
-    return () => { isMounted = false; };
-  }, [ancestor]);
+  // Nothing kept yet: generate once
+  useEffect(() => {
+    if (entries && !kept && !requested.current) fetchData();
+  }, [entries, kept]);
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4 animate-fade-in backdrop-blur-sm">
@@ -54,7 +79,7 @@ export const ContextModal: React.FC<Props> = ({ ancestor, onClose }) => {
         </div>
 
         <div className="p-6 overflow-y-auto flex-grow">
-          {loading && (
+          {(loading || !entries) && (
              <div className="flex flex-col items-center justify-center py-12 space-y-4">
                   <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-600"></div>
                   <p className="text-emerald-600 font-medium animate-pulse">Researching historical archives...</p>
@@ -74,8 +99,14 @@ export const ContextModal: React.FC<Props> = ({ ancestor, onClose }) => {
             </div>
           )}
 
-          {data && !loading && (
+          {data && shown && !loading && (
             <div className="animate-fade-in space-y-6">
+               {stale && (
+                  <div className="bg-amber-50 border border-amber-200 text-amber-800 text-sm p-3 rounded-lg flex items-center justify-between gap-3">
+                    <span>{ancestor.name}'s record has changed since this was written.</span>
+                    <button onClick={fetchData} className="px-3 py-1 bg-amber-100 rounded hover:bg-amber-200 font-medium shrink-0">Refresh</button>
+                  </div>
+               )}
                <div className="prose prose-emerald max-w-none text-slate-800 leading-relaxed">
                   <p className="whitespace-pre-line text-lg">{data.text}</p>
                </div>
@@ -104,8 +135,11 @@ export const ContextModal: React.FC<Props> = ({ ancestor, onClose }) => {
           )}
         </div>
         
-        {data && !loading && (
-            <div className="p-4 bg-slate-50 border-t border-slate-200 text-right">
+        {data && shown && !loading && (
+            <div className="p-4 bg-slate-50 border-t border-slate-200 flex items-center justify-between gap-3">
+                <span className="text-xs text-slate-400 text-left">
+                    {shown.pinned ? 'Pinned · ' : ''}Generated {new Date(shown.dateAdded).toLocaleDateString()} by {shown.model}
+                </span>
                 <button 
                     onClick={onClose}
                     className="px-6 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition font-medium shadow"
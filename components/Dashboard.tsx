@@ -1,9 +1,13 @@
-import React from 'react';
-import { Ancestor } from '../types';
-import { calculateStats } from '../utils/genealogy';
+import React, { useEffect, useState } from 'react';
+import { Ancestor, DuplicateDismissal } from '../types';
+import { AnalyticsProgress, TreeAnalytics } from '../utils/analytics';
+import { AnalyticsService, isAnalyticsCancelled } from '../services/analyticsService';
+import { ResearchQueue } from '../services/researchQueue';
+import { ResearchJob, summarizeJob } from '../utils/research';
 
 interface Props {
   ancestors: Ancestor[];
+  duplicateDismissals: DuplicateDismissal[];
   userName?: string;
   isReadOnly: boolean;
   onNavigate: (view: string) => void;
@@ -11,14 +15,42 @@ interface Props {
   onSelectAncestor: (id: string) => void;
 }
 
-export const Dashboard: React.FC<Props> = ({ ancestors, userName = "Michael", isReadOnly, onNavigate, onQuickAction, onSelectAncestor }) => {
-  const stats = calculateStats(ancestors);
-  
+export const Dashboard: React.FC<Props> = ({ ancestors, duplicateDismissals, userName = "Michael", isReadOnly, onNavigate, onQuickAction, onSelectAncestor }) => {
+  const [analytics, setAnalytics] = useState<TreeAnalytics | null>(() => AnalyticsService.getCached(ancestors, duplicateDismissals));
+  const [progress, setProgress] = useState<AnalyticsProgress | null>(null);
+  const [researchJobs, setResearchJobs] = useState<ResearchJob[]>([]);
+
+  useEffect(() => ResearchQueue.subscribe(setResearchJobs), []);
+
+  // Computed off the main thread; the previous figures stay up while newer data is analysed
+  useEffect(() => {
+    let active = true;
+    AnalyticsService.analyze(ancestors, duplicateDismissals, p => { if (active) setProgress(p); })
+      .then(result => {
+        if (!active) return;
+        setAnalytics(result);
+        setProgress(null);
+      })
+      .catch(e => {
+        if (!active || isAnalyticsCancelled(e)) return;
+        console.error("Tree analytics failed:", e);
+        setProgress(null);
+      });
+    return () => { active = false; };
+  }, [ancestors, duplicateDismissals]);
+
+  // Batch research still to finish
+  const activeResearch = researchJobs.filter(j => j.status === 'running' || j.status === 'paused').map(summarizeJob);
+  const researchTotal = activeResearch.reduce((sum, s) => sum + s.total, 0);
+  const researchRemaining = activeResearch.reduce((sum, s) => sum + s.remaining, 0);
+
   // Stats calculations
-  const total = stats.total;
-  const malePct = total > 0 ? Math.round((stats.male / total) * 100) : 0;
-  const femalePct = total > 0 ? Math.round((stats.female / total) * 100) : 0;
-  const avgLife = parseFloat(stats.avgLifespan as string) || 0;
+  const stats = analytics?.stats;
+  const total = ancestors.length;
+  const malePct = stats && stats.total > 0 ? Math.round((stats.male / stats.total) * 100) : 0;
+  const femalePct = stats && stats.total > 0 ? Math.round((stats.female / stats.total) * 100) : 0;
+  const avgLife = stats ? parseFloat(stats.avgLifespan as string) || 0 : 0;
+  const issueCount = analytics ? analytics.anomalies.length + analytics.duplicates.length : 0;
 
   const recentActivity = [...ancestors]
     .sort((a, b) => (b.dateAdded || 0) - (a.dateAdded || 0))
@@ -55,6 +87,14 @@ export const Dashboard: React.FC<Props> = ({ ancestors, userName = "Michael", is
                    <span className="material-symbols-outlined text-sm">trending_up</span>
                    <span>+{recentActivity.length} recently</span>
                 </div>
+                {progress && (
+                    <div className="mt-3 max-w-xs">
+                        <p className="text-[10px] text-blue-100">{progress.label}...</p>
+                        <div className="mt-1 h-1 w-full bg-white/20 rounded-full overflow-hidden">
+                            <div className="h-full bg-white rounded-full transition-all" style={{width: `${Math.round((progress.completed / progress.total) * 100)}%`}}></div>
+                        </div>
+                    </div>
+                )}
             </div>
          </div>
       </div>
@@ -76,6 +116,44 @@ export const Dashboard: React.FC<Props> = ({ ancestors, userName = "Michael", is
         <span className="material-symbols-outlined text-indigo-400 group-hover:translate-x-1 transition">arrow_forward</span>
       </button>
 
+      {/* GEDCOM Export CTA */}
+      <button 
+        onClick={() => onQuickAction('export-gedcom')}
+        className="-mt-3 mb-6 w-full bg-white dark:bg-slate-800 border border-slate-200 dark:border-emerald-500/30 hover:border-emerald-500 hover:bg-slate-50 dark:hover:bg-slate-700/80 p-4 rounded-xl flex items-center justify-between group transition shadow-lg"
+      >
+        <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-lg bg-emerald-600 text-white flex items-center justify-center shadow-lg shadow-emerald-600/20 group-hover:scale-110 transition">
+                <span className="material-symbols-outlined text-2xl">file_export</span>
+            </div>
+            <div className="text-left">
+                <h4 className="text-slate-900 dark:text-white font-bold text-sm">Export GEDCOM</h4>
+                <p className="text-emerald-600 dark:text-emerald-300 text-xs">GEDCOM 5.5.1 or 7.0 • Whole tree or a branch</p>
+            </div>
+        </div>
+        <span className="material-symbols-outlined text-emerald-400 group-hover:translate-x-1 transition">arrow_forward</span>
+      </button>
+
+      {/* Batch Research CTA */}
+      <button 
+        onClick={() => onQuickAction('batch-research')}
+        className="-mt-3 mb-6 w-full bg-white dark:bg-slate-800 border border-slate-200 dark:border-purple-500/30 hover:border-purple-500 hover:bg-slate-50 dark:hover:bg-slate-700/80 p-4 rounded-xl flex items-center justify-between group transition shadow-lg"
+      >
+        <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-lg bg-purple-600 text-white flex items-center justify-center shadow-lg shadow-purple-600/20 group-hover:scale-110 transition">
+                <span className="material-symbols-outlined text-2xl">travel_explore</span>
+            </div>
+            <div className="text-left">
+                <h4 className="text-slate-900 dark:text-white font-bold text-sm">Batch AI Research</h4>
+                <p className="text-purple-600 dark:text-purple-300 text-xs">
+                  {activeResearch.length > 0
+                    ? `${researchTotal - researchRemaining} of ${researchTotal} tasks finished • ${activeResearch.length} ${activeResearch.length === 1 ? 'job' : 'jobs'} queued`
+                    : 'History, timelines & suggestions • A whole branch at once'}
+                </p>
+            </div>
+        </div>
+        <span className="material-symbols-outlined text-purple-400 group-hover:translate-x-1 transition">arrow_forward</span>
+      </button>
+
       {/* Secondary Stats Grid */}
       <div className="grid grid-cols-2 gap-4 mb-6">
         {/* Lifespan */}
@@ -138,6 +216,11 @@ export const Dashboard: React.FC<Props> = ({ ancestors, userName = "Michael", is
                         ${action.restricted && isReadOnly ? 'opacity-70 grayscale-[0.5]' : ''}
                         `}>
                         <span className="material-symbols-outlined text-2xl">{action.icon}</span>
+                        {action.id === 'analytics' && issueCount > 0 && (
+                            <div className="absolute top-0 right-0 min-w-[18px] h-[18px] px-1 bg-rose-500 rounded-full border-2 border-white dark:border-slate-900 text-[9px] font-bold text-white flex items-center justify-center transform translate-x-1 -translate-y-1" title={`${issueCount} possible data issues`}>
+                                {issueCount > 99 ? '99+' : issueCount}
+                            </div>
+                        )}
                         {action.restricted && isReadOnly && (
                             <div className="absolute top-0 right-0 p-0.5 bg-slate-900 rounded-full border border-slate-700 shadow-md transform translate-x-1 -translate-y-1">
                                 <span className="material-symbols-outlined text-[10px] text-white">lock</span>
@@ -1,9 +1,11 @@
 import React, { useState } from 'react';
+import { ExtractedPerson } from '../types';
 import { parseNaturalLanguageData } from '../services/geminiService';
+import { describeAiError } from '../services/aiProvider';
 
 interface Props {
   onCancel: () => void;
-  onAnalysisComplete: (data: any) => void;
+  onAnalysisComplete: (data: ExtractedPerson) => void;
 }
 
 export const DataScrutinizer: React.FC<Props> = ({ onCancel, onAnalysisComplete }) => {
@@ -18,13 +20,14 @@ export const DataScrutinizer: React.FC<Props> = ({ onCancel, onAnalysisComplete
 
     try {
       const result = await parseNaturalLanguageData(text);
-      if (result) {
+      if (result.name.trim()) {
         onAnalysisComplete(result);
       } else {
         setError("Could not identify valid genealogical data. Please try again with more detail.");
       }
     } catch (err) {
-      setError("AI Service error. Please check your connection or API key.");
+      console.error("Parse error", err);
+      setError(describeAiError(err));
     } finally {
       setLoading(false);
     }
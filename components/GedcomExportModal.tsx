@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import { Ancestor, Source, Union } from '../types';
+import { exportGEDCOM, GedcomVersion } from '../utils/exporters';
+import { getAncestorIds, getDescendantIds } from '../utils/genealogy';
+
+interface Props {
+  ancestors: Ancestor[];
+  unions: Union[];
+  sources: Source[];
+  onClose: () => void;
+}
+
+type Scope = 'all' | 'ancestors' | 'descendants';
+
+export const GedcomExportModal: React.FC<Props> = ({ ancestors, unions, sources, onClose }) => {
+  const [version, setVersion] = useState<GedcomVersion>('5.5.1');
+  const [scope, setScope] = useState<Scope>('all');
+  const [personId, setPersonId] = useState<string>(ancestors[0]?.id || '');
+
+  const sortedPeople = useMemo(() => [...ancestors].sort((a, b) => a.name.localeCompare(b.name)), [ancestors]);
+
+  const includeIds = useMemo(() => {
+    if (scope === 'all' || !personId) return null;
+    return scope === 'ancestors' ? getAncestorIds(ancestors, personId) : getDescendantIds(ancestors, personId);
+  }, [ancestors, scope, personId]);
+
+  const count = includeIds ? includeIds.size : ancestors.length;
+
+  const handleDownload = () => {
+    const content = exportGEDCOM(ancestors, unions, { version, includeIds, sources });
+    const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `AncestryAI_Family_Tree_${version === '7.0' ? 'v7' : 'v551'}.ged`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    onClose();
+  };
+
+  const selectClass = "w-full rounded-lg border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 p-2.5 outline-none transition text-sm border";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4 animate-fade-in backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-md overflow-hidden border border-slate-200 dark:border-slate-700">
+        <div className="bg-slate-900 p-6 flex justify-between items-center">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <span className="material-symbols-outlined">file_export</span>
+            Export GEDCOM
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Format</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(['5.5.1', '7.0'] as GedcomVersion[]).map(v => (
+                <button
+                  key={v}
+                  onClick={() => setVersion(v)}
+                  className={`p-2.5 rounded-lg border text-sm font-medium transition ${version === v ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-200' : 'border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
+                >
+                  GEDCOM {v}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+              {version === '5.5.1' ? 'Widest compatibility with desktop genealogy software.' : 'Latest standard, UTF-8 with multimedia records.'}
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">People to include</label>
+            <select value={scope} onChange={(e) => setScope(e.target.value as Scope)} className={selectClass}>
+              <option value="all">Whole tree</option>
+              <option value="ancestors">Ancestors of one person</option>
+              <option value="descendants">Descendants of one person</option>
+            </select>
+          </div>
+
+          {scope !== 'all' && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Starting person</label>
+              <select value={personId} onChange={(e) => setPersonId(e.target.value)} className={selectClass}>
+                {sortedPeople.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            </div>
+          )}
+
+          <button
+            onClick={handleDownload}
+            disabled={count === 0}
+            className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg shadow-lg shadow-indigo-500/30 transition flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <span className="material-symbols-outlined">download</span>
+            Download {count} {count === 1 ? 'person' : 'people'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
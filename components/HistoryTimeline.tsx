@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { HistoryEntry } from '../types';
+import { StorageService } from '../services/storage';
+import { TreeRecords, canRestoreEntry, describeChangeAuthor, describeHistoryEntry } from '../utils/history';
+
+interface Props {
+  ancestorId: string;
+  records: TreeRecords;
+  isReadOnly: boolean;
+}
+
+const ACTION_ICONS: Record<HistoryEntry['action'], string> = {
+  add: 'add_circle',
+  update: 'edit',
+  delete: 'delete'
+};
+
+const PAGE_SIZE = 5;
+
+// Change timeline of one person (their record and their partnerships), newest first.
+// Editors can put any earlier version back.
+export const HistoryTimeline: React.FC<Props> = ({ ancestorId, records, isReadOnly }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setEntries([]);
+    setShowAll(false);
+    return StorageService.subscribeHistory(setEntries, ancestorId);
+  }, [ancestorId]);
+
+  const handleRestore = async (entry: HistoryEntry) => {
+    const when = new Date(entry.dateAdded).toLocaleString();
+    if (!window.confirm(entry.action === 'delete' ? 'Restore this record as it was before it was deleted?' : `Restore this record as it was on ${when}?`)) return;
+    setBusyId(entry.id);
+    try {
+      await StorageService.restoreVersion(entry);
+    } catch (e) {
+      alert("Restore failed.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (entries.length === 0) return null;
+  const visible = showAll ? entries : entries.slice(0, PAGE_SIZE);
+
+  return (
+    <div className="mx-4 mb-8 bg-surface border border-white/5 rounded-2xl p-5 shadow-lg">
+      <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-4">History</h3>
+      <div className="space-y-3">
+        {visible.map(entry => (
+          <div key={entry.id} className="flex gap-3">
+            <div className="w-8 h-8 rounded-lg bg-surface-light flex items-center justify-center text-gray-400 shrink-0">
+              <span className="material-symbols-outlined text-[18px]">{entry.restoredFrom ? 'history' : ACTION_ICONS[entry.action]}</span>
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-white">{describeHistoryEntry(entry)}</p>
+              <p className="text-[10px] text-gray-500">
+                {describeChangeAuthor(entry)} · {new Date(entry.dateAdded).toLocaleString()}
+                {entry.restoredFrom && ` · version of ${new Date(entry.restoredFrom).toLocaleDateString()}`}
+              </p>
+            </div>
+            {!isReadOnly && canRestoreEntry(entry, records) && (
+              <button
+                onClick={() => handleRestore(entry)}
+                disabled={busyId !== null}
+                className="text-xs text-primary font-medium hover:underline shrink-0 self-center disabled:opacity-50"
+              >
+                {busyId === entry.id ? 'Restoring...' : 'Restore'}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      {entries.length > PAGE_SIZE && (
+        <button onClick={() => setShowAll(!showAll)} className="mt-4 text-xs text-primary font-medium">
+          {showAll ? 'Show less' : `Show all ${entries.length} changes`}
+        </button>
+      )}
+    </div>
+  );
+};
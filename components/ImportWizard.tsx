@@ -1,16 +1,47 @@
-import React, { useState, useRef } from 'react';
-import { Ancestor } from '../types';
-import { parseGEDCOM, parseCSVLines, convertCSVToAncestors, CsvMapping } from '../utils/importers';
+import React, { useState, useRef, useMemo } from 'react';
+import { Ancestor, Citation, Source, Union } from '../types';
+import { parseGEDCOM, parseCSVLines, convertCSVToAncestors, CsvMapping, GedcomImportReport, ImportAction } from '../utils/importers';
+import { findImportMatches, hasCircularReference, ImportMatch } from '../utils/genealogy';
+import { findFieldConflicts, mergeAncestorFields, MergeChoice, MergeChoices, MergeField } from '../utils/merge';
+import { formatLifeDate } from '../utils/dates';
+import { findMatchingSource } from '../utils/sources';
 import { StorageService } from '../services/storage';
+import { UndoableRunner } from '../utils/undo';
 
 interface Props {
+  existingAncestors: Ancestor[];
+  existingUnions: Union[];
+  existingSources: Source[];
   onClose: () => void;
   onImportComplete: () => void;
+  runUndoable: UndoableRunner;
+}
+
+// What to do with an incoming person that matches someone already in the tree
+type MatchAction = 'merge' | 'skip' | 'add';
+
+interface MatchDecision {
+  action: MatchAction;
+  choices: MergeChoices;
 }
 
 type Step = 'upload' | 'map-csv' | 'review' | 'processing';
 
-export const ImportWizard: React.FC<Props> = ({ onClose, onImportComplete }) => {
+const REPORT_TITLES: Record<ImportAction, string> = {
+  kept: 'Imported',
+  converted: 'Converted to notes',
+  discarded: 'Not imported'
+};
+
+const REPORT_COLORS: Record<ImportAction, string> = {
+  kept: 'text-green-400',
+  converted: 'text-blue-400',
+  discarded: 'text-red-400'
+};
+
+const lifeSpan = (a: Ancestor) => `${formatLifeDate(a, 'birth') || '?'} – ${formatLifeDate(a, 'death') || ''}`;
+
+export const ImportWizard: React.FC<Props> = ({ existingAncestors, existingUnions, existingSources, onClose, onImportComplete, runUndoable }) => {
   const [step, setStep] = useState<Step>('upload');
   const [fileContent, setFileContent] = useState<string>('');
   const [fileType, setFileType] = useState<'ged' | 'csv' | null>(null);
@@ -30,6 +61,11 @@ export const ImportWizard: React.FC<Props> = ({ onClose, onImportComplete }) =>
   });
 
   const [parsedAncestors, setParsedAncestors] = useState<Ancestor[]>([]);
+  const [parsedUnions, setParsedUnions] = useState<Union[]>([]);
+  const [parsedSources, setParsedSources] = useState<Source[]>([]);
+  const [importReport, setImportReport] = useState<GedcomImportReport | null>(null);
+  const [matches, setMatches] = useState<ImportMatch[]>([]);
+  const [decisions, setDecisions] = useState<Record<string, MatchDecision>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -40,16 +76,28 @@ export const ImportWizard: React.FC<Props> = ({ onClose, onImportComplete }) =>
     const extension = file.name.split('.').pop()?.toLowerCase();
 
     const reader = new FileReader();
+
+    // GEDCOM is read as bytes so ANSEL and UTF-16 files can be decoded properly
+    if (extension === 'ged') {
+      reader.onload = (evt) => {
+        setFileType('ged');
+        const data = parseGEDCOM(evt.target?.result as ArrayBuffer);
+        setParsedAncestors(data.ancestors);
+        setParsedUnions(data.unions);
+        setParsedSources(data.sources);
+        setImportReport(data.report);
+        prepareMatches(data.ancestors);
+        setStep('review');
+      };
+      reader.readAsArrayBuffer(file);
+      return;
+    }
+
     reader.onload = (evt) => {
       const content = evt.target?.result as string;
       setFileContent(content);
 
-      if (extension === 'ged') {
-        setFileType('ged');
-        const data = parseGEDCOM(content);
-        setParsedAncestors(data);
-        setStep('review');
-      } else if (extension === 'csv') {
+      if (extension === 'csv') {
         setFileType('csv');
         const rows = parseCSVLines(content);
         if (rows.length > 0) {
@@ -66,34 +114,150 @@ export const ImportWizard: React.FC<Props> = ({ onClose, onImportComplete }) =>
     reader.readAsText(file);
   };
 
-  const executeImport = async () => {
+  // Match incoming people against the tree; matches default to a merge keeping existing values
+  const prepareMatches = (incoming: Ancestor[]) => {
+    const found = findImportMatches(incoming, existingAncestors);
+    setMatches(found);
+    const initial: Record<string, MatchDecision> = {};
+    found.forEach(m => { initial[m.incomingId] = { action: 'merge', choices: {} }; });
+    setDecisions(initial);
+  };
+
+  const incomingById = useMemo(() => new Map(parsedAncestors.map(a => [a.id, a])), [parsedAncestors]);
+
+  const setMatchAction = (incomingId: string, action: MatchAction) => {
+    setDecisions(prev => ({ ...prev, [incomingId]: { ...prev[incomingId], action } }));
+  };
+
+  const setFieldChoice = (incomingId: string, field: MergeField, choice: MergeChoice) => {
+    setDecisions(prev => ({
+      ...prev,
+      [incomingId]: { ...prev[incomingId], choices: { ...prev[incomingId].choices, [field]: choice } }
+    }));
+  };
+
+  const importRecords = async () => {
     setStep('processing');
-    const total = parsedAncestors.length;
+    const total = parsedSources.length + parsedAncestors.length + parsedUnions.length;
     let count = 0;
+
+    // Sources first, so citations can point at catalogue ids; works already catalogued are reused
+    const sourceIdMap = new Map<string, string>();
+    for (const source of parsedSources) {
+        const existing = findMatchingSource(existingSources, source);
+        if (existing) {
+            sourceIdMap.set(source.id, existing.id);
+        } else {
+            const { id, dateAdded, ...data } = source;
+            sourceIdMap.set(id, await StorageService.addSource(data));
+        }
+        count++;
+        setProgress(Math.round((count/total) * 100));
+    }
+    const remapCitations = (citations: Citation[] | undefined): Citation[] | undefined => {
+        return citations
+            ?.filter(c => sourceIdMap.has(c.sourceId))
+            .map(c => ({ ...c, sourceId: sourceIdMap.get(c.sourceId)! }));
+    };
+    // File-internal IDs -> Firestore IDs, so links and unions can be re-pointed after insertion
+    const idMap = new Map<string, string>();
     
+    const matchByIncoming = new Map<string, ImportMatch>(matches.map(m => [m.incomingId, m]));
+    const mergedIds = new Set<string>();
+    const skippedIds = new Set<string>();
+
     for (const ancestor of parsedAncestors) {
-        await StorageService.add({
-            name: ancestor.name,
-            birthYear: ancestor.birthYear,
-            deathYear: ancestor.deathYear,
-            gender: ancestor.gender,
-            country: ancestor.country || null,
-            fatherId: null,
-            motherId: null,
-            notes: ancestor.notes
-        });
+        const match = matchByIncoming.get(ancestor.id);
+        const decision = decisions[ancestor.id];
+
+        if (match && decision?.action === 'merge') {
+            const updates = mergeAncestorFields(match.existing, { ...ancestor, citations: remapCitations(ancestor.citations) }, decision.choices);
+            if (Object.keys(updates).length > 0) await StorageService.update(match.existing.id, updates);
+            idMap.set(ancestor.id, match.existing.id);
+            mergedIds.add(ancestor.id);
+        } else if (match && decision?.action === 'skip') {
+            // Left untouched, but still linked to so relatives in the file attach to them
+            idMap.set(ancestor.id, match.existing.id);
+            skippedIds.add(ancestor.id);
+        } else {
+            const newId = await StorageService.add({
+                name: ancestor.name,
+                birthYear: ancestor.birthYear,
+                deathYear: ancestor.deathYear,
+                birthDate: ancestor.birthDate || null,
+                deathDate: ancestor.deathDate || null,
+                gender: ancestor.gender,
+                country: ancestor.country || null,
+                birthPlace: ancestor.birthPlace,
+                deathPlace: ancestor.deathPlace,
+                alternateNames: ancestor.alternateNames,
+                occupations: ancestor.occupations,
+                fatherId: null,
+                motherId: null,
+                notes: ancestor.notes,
+                photoUrl: ancestor.photoUrl,
+                citations: remapCitations(ancestor.citations)
+            });
+            idMap.set(ancestor.id, newId);
+        }
         count++;
         setProgress(Math.round((count/total) * 100));
         // Mock delay for visual effect
         await new Promise(r => setTimeout(r, 10));
     }
 
+    for (const ancestor of parsedAncestors) {
+        if (skippedIds.has(ancestor.id)) continue;
+        const fatherId = ancestor.fatherId ? idMap.get(ancestor.fatherId) : undefined;
+        const motherId = ancestor.motherId ? idMap.get(ancestor.motherId) : undefined;
+        const targetId = idMap.get(ancestor.id)!;
+
+        if (mergedIds.has(ancestor.id)) {
+            // Merged people only gain parents they were missing, and never in a loop
+            const existing = matchByIncoming.get(ancestor.id)!.existing;
+            const updates: Partial<Ancestor> = {};
+            if (!existing.fatherId && fatherId && !hasCircularReference(existingAncestors, targetId, fatherId)) updates.fatherId = fatherId;
+            if (!existing.motherId && motherId && !hasCircularReference(existingAncestors, targetId, motherId)) updates.motherId = motherId;
+            if (Object.keys(updates).length > 0) await StorageService.update(targetId, updates);
+        } else if (fatherId || motherId) {
+            await StorageService.update(targetId, {
+                fatherId: fatherId || null,
+                motherId: motherId || null
+            });
+        }
+    }
+
+    // Partnerships already recorded between the same two people are not duplicated
+    const existingPairs = new Set(existingUnions.map(u => [u.partner1Id, u.partner2Id || ''].sort().join('|')));
+    for (const union of parsedUnions) {
+        const partner1Id = idMap.get(union.partner1Id);
+        const partner2Id = union.partner2Id ? idMap.get(union.partner2Id) || null : null;
+        count++;
+        setProgress(Math.round((count/total) * 100));
+        if (!partner1Id) continue;
+        const pairKey = [partner1Id, partner2Id || ''].sort().join('|');
+        if (existingPairs.has(pairKey)) continue;
+        existingPairs.add(pairKey);
+        await StorageService.addUnion({
+            partner1Id,
+            partner2Id,
+            type: union.type,
+            marriageYear: union.marriageYear,
+            divorceYear: union.divorceYear,
+            place: union.place,
+            notes: union.notes
+        });
+    }
+
     setTimeout(() => {
         onImportComplete();
         onClose();
     }, 500);
   };
 
+  // The whole import is one undo step
+  const executeImport = () => runUndoable(`Imported ${fileName}`, importRecords, { destructive: true });
+
   return (
     <div className="fixed inset-0 bg-background/90 flex items-center justify-center z-50 p-4 animate-fade-in backdrop-blur-md">
       <div className="bg-surface rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden border border-white/10 flex flex-col max-h-[90vh]">
@@ -134,7 +298,7 @@ export const ImportWizard: React.FC<Props> = ({ onClose, onImportComplete }) =>
                     <div className="bg-surface-light border border-white/5 rounded-xl p-4 text-left">
                         <div className="flex justify-between items-center mb-2">
                              <span className="text-white font-bold">{fileName}</span>
-                             <span className="text-xs bg-primary/20 text-primary px-2 py-0.5 rounded">{parsedAncestors.length} Records</span>
+                             <span className="text-xs bg-primary/20 text-primary px-2 py-0.5 rounded">{parsedAncestors.length} Records{parsedUnions.length > 0 && ` • ${parsedUnions.length} Families`}{parsedSources.length > 0 && ` • ${parsedSources.length} Sources`}</span>
                         </div>
                         <div className="h-1 w-full bg-background rounded-full overflow-hidden">
                              <div className="h-full bg-green-500 w-full"></div>
@@ -142,6 +306,114 @@ export const ImportWizard: React.FC<Props> = ({ onClose, onImportComplete }) =>
                         <p className="text-xs text-gray-400 mt-2">Ready to process. This may take a few moments.</p>
                     </div>
 
+                    {matches.length > 0 && (
+                        <div className="bg-surface-light border border-white/5 rounded-xl p-4 text-left space-y-3">
+                            <div className="flex justify-between items-center">
+                                <span className="text-white font-bold text-sm">Already in your tree</span>
+                                <span className="text-[10px] text-gray-400">
+                                    {matches.length} matched • {parsedAncestors.length - matches.length} new
+                                </span>
+                            </div>
+                            <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+                                {matches.map(m => {
+                                    const incoming = incomingById.get(m.incomingId);
+                                    const decision = decisions[m.incomingId];
+                                    if (!incoming || !decision) return null;
+                                    const conflicts = findFieldConflicts(m.existing, incoming);
+                                    return (
+                                        <div key={m.incomingId} className="bg-background/60 border border-white/5 rounded-lg p-3">
+                                            <div className="flex justify-between items-start gap-2">
+                                                <div className="min-w-0">
+                                                    <p className="text-sm text-white font-medium truncate">{incoming.name} <span className="text-gray-500 text-xs">{lifeSpan(incoming)}</span></p>
+                                                    <p className="text-xs text-gray-400 truncate">
+                                                        matches {m.existing.name} ({lifeSpan(m.existing)}) • {Math.round(m.match.score * 100)}%
+                                                    </p>
+                                                    <p className="text-[10px] text-gray-500 truncate">{m.match.reasons.join(' • ')}</p>
+                                                </div>
+                                                <div className="flex bg-background rounded-lg p-0.5 shrink-0">
+                                                    {(['merge', 'skip', 'add'] as MatchAction[]).map(action => (
+                                                        <button
+                                                            key={action}
+                                                            onClick={() => setMatchAction(m.incomingId, action)}
+                                                            className={`px-2 py-1 rounded text-[10px] font-bold uppercase transition ${decision.action === action ? 'bg-primary text-white' : 'text-gray-400 hover:text-white'}`}
+                                                        >
+                                                            {action === 'add' ? 'Add new' : action}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                            {decision.action === 'merge' && conflicts.length > 0 && (
+                                                <div className="mt-2 space-y-1 border-t border-white/5 pt-2">
+                                                    {conflicts.map(c => (
+                                                        <div key={c.field} className="grid grid-cols-[80px_1fr] gap-2 items-center text-xs">
+                                                            <span className="text-gray-500">{c.label}</span>
+                                                            <div className="flex flex-wrap gap-1">
+                                                                {([['base', c.base], ['other', c.other]] as [MergeChoice, string][]).map(([choice, value]) => (
+                                                                    <button
+                                                                        key={choice}
+                                                                        onClick={() => setFieldChoice(m.incomingId, c.field, choice)}
+                                                                        title={choice === 'base' ? 'Keep existing' : 'Use imported'}
+                                                                        className={`px-2 py-0.5 rounded border max-w-[180px] truncate transition ${(decision.choices[c.field] || 'base') === choice ? 'border-primary text-white bg-primary/20' : 'border-white/10 text-gray-400 hover:text-white'}`}
+                                                                    >
+                                                                        {value}
+                                                                    </button>
+                                                                ))}
+                                                                {c.field === 'notes' && (
+                                                                    <button
+                                                                        onClick={() => setFieldChoice(m.incomingId, c.field, 'both')}
+                                                                        className={`px-2 py-0.5 rounded border transition ${decision.choices.notes === 'both' ? 'border-primary text-white bg-primary/20' : 'border-white/10 text-gray-400 hover:text-white'}`}
+                                                                    >
+                                                                        Keep both
+                                                                    </button>
+                                                                )}
+                                                            </div>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    {importReport && (
+                        <div className="bg-surface-light border border-white/5 rounded-xl p-4 text-left space-y-3">
+                            <div className="flex justify-between items-center">
+                                <span className="text-white font-bold text-sm">Import Report</span>
+                                <span className="text-[10px] text-gray-400">
+                                    {[importReport.sourceProgram, importReport.version && `GEDCOM ${importReport.version}`, importReport.encoding].filter(Boolean).join(' • ')}
+                                </span>
+                            </div>
+                            {(['kept', 'converted', 'discarded'] as ImportAction[]).map(action => {
+                                const entries = importReport.entries.filter(e => e.action === action);
+                                if (entries.length === 0) return null;
+                                return (
+                                    <div key={action}>
+                                        <p className={`text-[10px] uppercase font-bold mb-1 ${REPORT_COLORS[action]}`}>{REPORT_TITLES[action]}</p>
+                                        <ul className="space-y-0.5">
+                                            {entries.map(e => (
+                                                <li key={e.label} className="flex justify-between text-xs text-gray-300" title={e.detail}>
+                                                    <span>{e.label}</span>
+                                                    <span className="text-gray-500">{e.count}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                );
+                            })}
+                            {importReport.warnings.length > 0 && (
+                                <div>
+                                    <p className="text-[10px] uppercase font-bold mb-1 text-amber-400">Warnings</p>
+                                    <ul className="space-y-0.5 max-h-24 overflow-y-auto">
+                                        {importReport.warnings.map((w, i) => <li key={i} className="text-xs text-gray-400">{w}</li>)}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     <button onClick={executeImport} className="bg-primary text-white w-full py-3 rounded-xl font-bold shadow-lg shadow-primary/20 hover:bg-primary-dark transition">
                         Start Import
                     </button>
@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 
 interface Props {
-  onLogin: (email: string, pass: string) => Promise<void>;
+  onLogin: (email: string, pass: string, createAccount: boolean) => Promise<void>;
   onCancel: () => void;
 }
 
@@ -10,15 +10,16 @@ export const LoginModal: React.FC<Props> = ({ onLogin, onCancel }) => {
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [createAccount, setCreateAccount] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError(null);
     try {
-      await onLogin(email.trim(), password.trim());
+      await onLogin(email.trim(), password.trim(), createAccount);
     } catch (err: any) {
-      setError("Invalid credentials or login failed.");
+      setError(createAccount ? "Could not create the account. The email may already be registered or the password is too short." : "Invalid credentials or login failed.");
       setLoading(false);
     }
   };
@@ -28,8 +29,8 @@ export const LoginModal: React.FC<Props> = ({ onLogin, onCancel }) => {
       <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-md overflow-hidden border border-slate-200 dark:border-slate-700">
         <div className="bg-slate-900 p-6 flex justify-between items-center">
           <h2 className="text-xl font-bold text-white flex items-center gap-2">
-            <span className="material-symbols-outlined">admin_panel_settings</span>
-            Admin Login
+            <span className="material-symbols-outlined">{createAccount ? 'person_add' : 'login'}</span>
+            {createAccount ? 'Create Account' : 'Sign In'}
           </h2>
           <button onClick={onCancel} className="text-slate-400 hover:text-white transition">
             <span className="material-symbols-outlined">close</span>
@@ -45,14 +46,14 @@ export const LoginModal: React.FC<Props> = ({ onLogin, onCancel }) => {
             )}
 
             <div>
-                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Email or Username</label>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Email</label>
                 <input 
-                    type="text" 
+                    type="email" 
                     required
                     value={email}
                     onChange={(e) => setEmail(e.target.value)}
                     className="w-full rounded-lg border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 p-2.5 outline-none transition"
-                    placeholder="admin"
+                    placeholder="name@example.com"
                 />
             </div>
             
@@ -77,11 +78,18 @@ export const LoginModal: React.FC<Props> = ({ onLogin, onCancel }) => {
                     <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
                 ) : (
                     <>
-                        <span>Sign In</span>
-                        <span className="material-symbols-outlined text-lg">login</span>
+                        <span>{createAccount ? 'Create Account' : 'Sign In'}</span>
+                        <span className="material-symbols-outlined text-lg">{createAccount ? 'person_add' : 'login'}</span>
                     </>
                 )}
             </button>
+
+            <p className="text-center text-sm text-slate-500 dark:text-slate-400">
+                {createAccount ? 'Already have an account?' : 'Invited to a tree?'}{' '}
+                <button type="button" onClick={() => { setCreateAccount(!createAccount); setError(null); }} className="text-indigo-600 dark:text-indigo-400 font-medium hover:underline">
+                    {createAccount ? 'Sign in' : 'Create an account'}
+                </button>
+            </p>
         </form>
       </div>
     </div>
@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { Ancestor, Union } from '../types';
+import { StorageService } from '../services/storage';
+import { formatLifeDate } from '../utils/dates';
+import { UndoableRunner } from '../utils/undo';
+import { findFieldConflicts, mergeCreatesCycle, MergeChoice, MergeChoices, ParentField, planMerge } from '../utils/merge';
+
+interface Props {
+  group: Ancestor[];
+  ancestors: Ancestor[];
+  unions: Union[];
+  onClose: () => void;
+  runUndoable: UndoableRunner;
+}
+
+const PARENT_LABELS: Record<ParentField, string> = { fatherId: 'Father', motherId: 'Mother' };
+
+export const MergeTool: React.FC<Props> = ({ group, ancestors, unions, onClose, runUndoable }) => {
+  const [survivorId, setSurvivorId] = useState(group[0].id);
+  const [duplicateId, setDuplicateId] = useState(group[1].id);
+  const [choices, setChoices] = useState<MergeChoices>({});
+  const [parentChoices, setParentChoices] = useState<Partial<Record<ParentField, MergeChoice>>>({});
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const survivor = group.find(a => a.id === survivorId)!;
+  const duplicate = group.find(a => a.id === duplicateId && a.id !== survivorId) || group.find(a => a.id !== survivorId)!;
+  const nameOf = (id: string | null) => (id ? ancestors.find(a => a.id === id)?.name || 'Unknown' : '');
+
+  const conflicts = findFieldConflicts(survivor, duplicate);
+  const parentConflicts = (['fatherId', 'motherId'] as ParentField[]).filter(f =>
+    survivor[f] && duplicate[f] && survivor[f] !== duplicate[f] && duplicate[f] !== survivor.id
+  );
+
+  const plan = useMemo(
+    () => planMerge(survivor, duplicate, choices, parentChoices, ancestors, unions),
+    [survivor, duplicate, choices, parentChoices, ancestors, unions]
+  );
+  const createsCycle = useMemo(() => mergeCreatesCycle(plan, ancestors), [plan, ancestors]);
+
+  const selectSurvivor = (id: string) => {
+    setSurvivorId(id);
+    if (id === duplicateId) setDuplicateId(group.find(a => a.id !== id)!.id);
+    setChoices({});
+    setParentChoices({});
+  };
+
+  const handleMerge = async () => {
+    if (createsCycle) return;
+    setMerging(true);
+    setError(null);
+    try {
+      await runUndoable(`Merged ${duplicate.name} into ${survivor.name}`, () => StorageService.mergeAncestors(plan), { destructive: true });
+      onClose();
+    } catch (e) {
+      setError("Merge failed. No changes were saved.");
+      setMerging(false);
+    }
+  };
+
+  const choiceButton = (active: boolean, label: string, onClick: () => void) => (
+    <button
+      onClick={onClick}
+      className={`px-2 py-1 rounded border text-xs max-w-[200px] truncate transition ${active ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-200' : 'border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4 animate-fade-in backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden border border-slate-200 dark:border-slate-700 flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <span className="material-symbols-outlined">merge</span>
+            Merge Duplicates
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div>
+            <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">Keep this record</p>
+            <div className="space-y-1">
+              {group.map(a => (
+                <label key={a.id} className="flex items-center gap-2 text-sm text-slate-800 dark:text-slate-100 cursor-pointer">
+                  <input type="radio" checked={a.id === survivorId} onChange={() => selectSurvivor(a.id)} />
+                  <span className="font-medium">{a.name}</span>
+                  <span className="text-xs text-slate-500">{formatLifeDate(a, 'birth') || '?'} – {formatLifeDate(a, 'death') || ''}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {group.length > 2 && (
+            <div>
+              <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">Merge into it</p>
+              <select
+                value={duplicate.id}
+                onChange={(e) => { setDuplicateId(e.target.value); setChoices({}); setParentChoices({}); }}
+                className="w-full border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 rounded-md shadow-sm border p-2 text-sm"
+              >
+                {group.filter(a => a.id !== survivorId).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            </div>
+          )}
+
+          {(conflicts.length > 0 || parentConflicts.length > 0) ? (
+            <div>
+              <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">Conflicting fields</p>
+              <div className="space-y-2">
+                {conflicts.map(c => (
+                  <div key={c.field} className="grid grid-cols-[90px_1fr] gap-2 items-center">
+                    <span className="text-xs text-slate-500">{c.label}</span>
+                    <div className="flex flex-wrap gap-1">
+                      {choiceButton((choices[c.field] || 'base') === 'base', c.base, () => setChoices({ ...choices, [c.field]: 'base' }))}
+                      {choiceButton(choices[c.field] === 'other', c.other, () => setChoices({ ...choices, [c.field]: 'other' }))}
+                      {c.field === 'notes' && choiceButton(choices.notes === 'both', 'Keep both', () => setChoices({ ...choices, notes: 'both' }))}
+                    </div>
+                  </div>
+                ))}
+                {parentConflicts.map(f => (
+                  <div key={f} className="grid grid-cols-[90px_1fr] gap-2 items-center">
+                    <span className="text-xs text-slate-500">{PARENT_LABELS[f]}</span>
+                    <div className="flex flex-wrap gap-1">
+                      {choiceButton((parentChoices[f] || 'base') === 'base', nameOf(survivor[f]), () => setParentChoices({ ...parentChoices, [f]: 'base' }))}
+                      {choiceButton(parentChoices[f] === 'other', nameOf(duplicate[f]), () => setParentChoices({ ...parentChoices, [f]: 'other' }))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500 dark:text-slate-400">No conflicting fields. Missing details will be filled in from the duplicate.</p>
+          )}
+
+          <div className="text-xs text-slate-500 dark:text-slate-400 bg-slate-50 dark:bg-slate-700/50 rounded-lg p-3 space-y-1">
+            <p>• {duplicate.name} will be deleted.</p>
+            {plan.childRepoints.length > 0 && <p>• {plan.childRepoints.length} child link(s) move to {survivor.name}.</p>}
+            {plan.unionRepoints.length > 0 && <p>• {plan.unionRepoints.length} partnership(s) move to {survivor.name}.</p>}
+            {plan.unionDeletes.length > 0 && <p>• {plan.unionDeletes.length} partnership(s) between the two records are removed.</p>}
+          </div>
+
+          {createsCycle && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-200 text-sm rounded-lg flex items-center gap-2">
+              <span className="material-symbols-outlined text-lg">error</span>
+              This merge would make {survivor.name} their own ancestor. Choose different parents.
+            </div>
+          )}
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-200 text-sm rounded-lg flex items-center gap-2">
+              <span className="material-symbols-outlined text-lg">error</span>
+              {error}
+            </div>
+          )}
+
+          <button
+            onClick={handleMerge}
+            disabled={merging || createsCycle}
+            className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg shadow-lg shadow-indigo-500/30 transition flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <span className="material-symbols-outlined">merge</span>
+            {merging ? 'Merging...' : `Merge into ${survivor.name}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
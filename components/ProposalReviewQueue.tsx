@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Ancestor, EditProposal } from '../types';
+import { StorageService } from '../services/storage';
+import { describeAuthor, diffProposal } from '../utils/proposals';
+
+interface Props {
+  proposals: EditProposal[];
+  ancestors: Ancestor[];
+  onAmend: (proposal: EditProposal) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  accepted: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  rejected: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+};
+
+// Owners review what contributors proposed: a diff against the current record, then
+// accept, reject or amend (which opens the form with the proposed values)
+export const ProposalReviewQueue: React.FC<Props> = ({ proposals, ancestors, onAmend, onClose }) => {
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const pending = proposals.filter(p => p.status === 'pending').sort((a, b) => a.dateAdded - b.dateAdded);
+  const reviewed = proposals.filter(p => p.status !== 'pending').sort((a, b) => (b.reviewedAt || 0) - (a.reviewedAt || 0)).slice(0, 20);
+
+  const run = async (proposal: EditProposal, action: () => Promise<unknown>, failure: string) => {
+    setBusyId(proposal.id);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(failure);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const personName = (proposal: EditProposal) => {
+    const current = proposal.ancestorId ? ancestors.find(a => a.id === proposal.ancestorId) : undefined;
+    return current?.name || proposal.changes.name || 'Unnamed person';
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4 animate-fade-in backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden border border-slate-200 dark:border-slate-700 flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <span className="material-symbols-outlined">rate_review</span>
+              Proposed Changes
+            </h2>
+            <p className="text-xs text-slate-400 mt-0.5">{pending.length} waiting for review</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-200 text-sm rounded-lg flex items-center gap-2">
+              <span className="material-symbols-outlined text-lg">error</span>
+              {error}
+            </div>
+          )}
+
+          {pending.length === 0 && (
+            <div className="text-center py-8 text-slate-500 dark:text-gray-400">
+              <span className="material-symbols-outlined text-4xl mb-2 block">task_alt</span>
+              <p className="text-sm">Nothing to review. Contributors' suggestions appear here.</p>
+            </div>
+          )}
+
+          {pending.map(proposal => {
+            const current = proposal.ancestorId ? ancestors.find(a => a.id === proposal.ancestorId) : undefined;
+            const missing = proposal.kind === 'edit' && !current;
+            const rows = diffProposal(proposal, current, ancestors);
+            const busy = busyId === proposal.id;
+            return (
+              <div key={proposal.id} className="rounded-xl border border-slate-200 dark:border-slate-700 overflow-hidden">
+                <div className="p-4 bg-slate-50 dark:bg-slate-700/40 flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-bold text-slate-900 dark:text-white truncate">
+                      <span className={`mr-2 text-[10px] font-bold uppercase px-2 py-0.5 rounded ${proposal.kind === 'add' ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300' : 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300'}`}>
+                        {proposal.kind === 'add' ? 'New person' : 'Edit'}
+                      </span>
+                      {personName(proposal)}
+                    </p>
+                    <p className="text-xs text-slate-500 dark:text-gray-400 mt-1">
+                      {describeAuthor(proposal)} · {new Date(proposal.dateAdded).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="p-4 space-y-3">
+                  {missing ? (
+                    <p className="text-sm text-amber-600 dark:text-amber-400">This person has been deleted since the edit was proposed.</p>
+                  ) : rows.length === 0 ? (
+                    <p className="text-sm text-slate-500 dark:text-gray-400">The record already matches this proposal.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-[10px] uppercase text-slate-400 text-left">
+                          <th className="pb-1 font-bold w-24">Field</th>
+                          {proposal.kind === 'edit' && <th className="pb-1 font-bold">Current</th>}
+                          <th className="pb-1 font-bold">Proposed</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rows.map(row => (
+                          <tr key={row.field} className="border-t border-slate-100 dark:border-slate-700 align-top">
+                            <td className="py-1.5 pr-2 text-slate-500 dark:text-gray-400">{row.label}</td>
+                            {proposal.kind === 'edit' && (
+                              <td className="py-1.5 pr-2 text-red-600 dark:text-red-300 line-through decoration-red-400/50 break-words">{row.current || '—'}</td>
+                            )}
+                            <td className="py-1.5 text-green-700 dark:text-green-300 break-words">{row.proposed || '—'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+
+                  {proposal.source && (
+                    <p className="text-xs text-slate-600 dark:text-slate-300 flex gap-1">
+                      <span className="material-symbols-outlined text-[16px] text-slate-400">menu_book</span>
+                      <span><span className="font-bold">Source:</span> {proposal.source}</span>
+                    </p>
+                  )}
+
+                  <input
+                    type="text"
+                    value={notes[proposal.id] || ''}
+                    onChange={(e) => setNotes({ ...notes, [proposal.id]: e.target.value })}
+                    placeholder="Note to the contributor (optional)"
+                    className="w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white p-2 text-xs outline-none focus:border-indigo-500"
+                  />
+
+                  <div className="flex gap-2 justify-end">
+                    <button
+                      onClick={() => run(proposal, () => StorageService.rejectProposal(proposal, notes[proposal.id]), "Could not reject the proposal.")}
+                      disabled={busy}
+                      className="px-3 py-1.5 rounded-lg text-xs font-bold text-red-600 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20 transition disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                    <button
+                      onClick={() => onAmend(proposal)}
+                      disabled={busy || missing}
+                      className="px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 transition disabled:opacity-50"
+                    >
+                      Amend
+                    </button>
+                    <button
+                      onClick={() => run(proposal, () => StorageService.acceptProposal(proposal, undefined, notes[proposal.id]), "Could not apply the proposal.")}
+                      disabled={busy || missing}
+                      className="px-3 py-1.5 rounded-lg text-xs font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition disabled:opacity-50"
+                    >
+                      {busy ? 'Saving...' : 'Accept'}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          {reviewed.length > 0 && (
+            <div className="border-t border-slate-200 dark:border-slate-700 pt-4">
+              <button onClick={() => setShowHistory(!showHistory)} className="text-xs font-bold uppercase text-slate-400 flex items-center gap-1">
+                <span className="material-symbols-outlined text-[16px]">{showHistory ? 'expand_less' : 'expand_more'}</span>
+                Recently reviewed
+              </button>
+              {showHistory && (
+                <div className="space-y-2 mt-2">
+                  {reviewed.map(proposal => (
+                    <div key={proposal.id} className="flex items-center gap-2 p-2 rounded-lg bg-slate-50 dark:bg-slate-700/50 text-sm">
+                      <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded ${STATUS_STYLES[proposal.status]}`}>
+                        {proposal.amended ? 'amended' : proposal.status}
+                      </span>
+                      <span className="flex-1 text-slate-800 dark:text-white truncate">{personName(proposal)}</span>
+                      <span className="text-xs text-slate-500 dark:text-gray-400 truncate">{describeAuthor(proposal)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,314 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { select, arc, hierarchy, partition, scaleOrdinal, schemeTableau10, interpolateRdYlGn } from 'd3';
+import { Ancestor } from '../types';
+import { calculateCompleteness } from '../utils/genealogy';
+import {
+  ChartNode,
+  FAN_COLOR_MODES,
+  FanColorMode,
+  FanShape,
+  MAX_CHART_GENERATIONS,
+  MIN_FAN_GENERATIONS,
+  RadialChartKind,
+  buildDescendants,
+  getAhnentafel,
+  getDefaultDescendantFocusId,
+  getDefaultFocusId
+} from '../utils/charts';
+import { generateChartReport, renderSvgToPng } from '../services/reportGenerator';
+
+interface Props {
+  ancestors: Ancestor[];
+  onSelectNode: (id: string) => void;
+  initialKind?: RadialChartKind;
+  showControls?: boolean; // Off for the hidden copies captured into the family book
+}
+
+const GENDER_COLORS: Record<string, string> = { Male: '#14b8a6', Female: '#ec4899' };
+const UNKNOWN_COLOR = '#64748b';
+const EMPTY_FILL = '#94a3b8';
+const SEGMENT_STROKE = '#0f172a';
+
+const CENTRE_RADIUS = 70;
+// Inner rings carry names along the arc; outer rings are narrow, so names run outward
+const TANGENTIAL_GENERATIONS = 3;
+const TANGENTIAL_RING = 55;
+const RADIAL_RING = 85;
+const EXPORT_WIDTH = 1600;
+
+const ringInner = (generation: number) => generation === 0
+  ? 0
+  : CENTRE_RADIUS + Math.min(generation - 1, TANGENTIAL_GENERATIONS) * TANGENTIAL_RING + Math.max(0, generation - 1 - TANGENTIAL_GENERATIONS) * RADIAL_RING;
+const ringOuter = (generation: number) => generation === 0 ? CENTRE_RADIUS : ringInner(generation + 1);
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, Math.max(1, max - 1))}…` : text);
+const lifeSpan = (person: Ancestor) => `${person.birthYear || '?'}–${person.deathYear || ''}`;
+
+interface Segment {
+  person: Ancestor | null; // null for an empty fan slot
+  generation: number;
+  startAngle: number;
+  endAngle: number;
+}
+
+// Fan chart (ancestors in fixed Ahnentafel slots) and descendant wheel, half or full circle
+export const RadialChart: React.FC<Props> = ({ ancestors, onSelectNode, initialKind = 'fan', showControls = true }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [kind, setKind] = useState<RadialChartKind>(initialKind);
+  const [shape, setShape] = useState<FanShape>('half');
+  const [generations, setGenerations] = useState(5);
+  const [colorMode, setColorMode] = useState<FanColorMode>('gender');
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const sortedPeople = useMemo(() => [...ancestors].sort((a, b) => a.name.localeCompare(b.name)), [ancestors]);
+  const defaultFocusId = useMemo(
+    () => (kind === 'fan' ? getDefaultFocusId(ancestors) : getDefaultDescendantFocusId(ancestors)),
+    [ancestors, kind]
+  );
+  const focus = ancestors.find(a => a.id === focusId) || ancestors.find(a => a.id === defaultFocusId);
+  const minGenerations = kind === 'fan' ? MIN_FAN_GENERATIONS : 1;
+
+  const countryScale = useMemo(() => {
+    const countries = Array.from(new Set(ancestors.map(a => a.country).filter(Boolean) as string[])).sort();
+    return scaleOrdinal<string, string>(schemeTableau10).domain(countries);
+  }, [ancestors]);
+
+  const colorFor = (person: Ancestor) => {
+    if (colorMode === 'country') return person.country ? countryScale(person.country) : UNKNOWN_COLOR;
+    if (colorMode === 'completeness') return interpolateRdYlGn(calculateCompleteness(person) / 100);
+    return GENDER_COLORS[person.gender] || UNKNOWN_COLOR;
+  };
+
+  const startAngle = shape === 'half' ? -Math.PI / 2 : -Math.PI;
+  const span = shape === 'half' ? Math.PI : 2 * Math.PI;
+
+  const segments = useMemo((): Segment[] => {
+    if (!focus) return [];
+    if (kind === 'fan') {
+      const slots = getAhnentafel(focus, ancestors, generations);
+      const result: Segment[] = [];
+      for (let generation = 0; generation <= generations; generation++) {
+        const count = 2 ** generation;
+        for (let position = 0; position < count; position++) {
+          result.push({
+            person: slots.get(count + position) || null,
+            generation,
+            startAngle: startAngle + (span * position) / count,
+            endAngle: startAngle + (span * (position + 1)) / count
+          });
+        }
+      }
+      return result;
+    }
+    // Each descendant gets a share of the ring in proportion to the families below them
+    const root = partition<ChartNode>().size([span, generations + 1])(
+      hierarchy(buildDescendants(focus, ancestors, generations)).count()
+    );
+    return root.descendants().map(node => ({
+      person: node.data.person,
+      generation: node.depth,
+      startAngle: startAngle + node.x0,
+      endAngle: startAngle + node.x1
+    }));
+  }, [focus, ancestors, kind, generations, startAngle, span]);
+
+  const outerRadius = ringOuter(generations);
+  const viewBox = shape === 'half'
+    ? [-outerRadius - 10, -outerRadius - 10, outerRadius * 2 + 20, outerRadius + 30]
+    : [-outerRadius - 10, -outerRadius - 10, outerRadius * 2 + 20, outerRadius * 2 + 20];
+
+  // --- DRAWING EFFECT ---
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = select(svgRef.current);
+    svg.selectAll("*").remove();
+    svg.attr("viewBox", viewBox.join(' '));
+    const g = svg.append("g");
+
+    const arcPath = arc<Segment>()
+      .innerRadius(d => ringInner(d.generation))
+      .outerRadius(d => ringOuter(d.generation))
+      .startAngle(d => d.startAngle)
+      .endAngle(d => d.endAngle);
+
+    const cells = g.selectAll(".segment")
+      .data(segments)
+      .enter()
+      .append("g")
+      .attr("class", "segment")
+      .style("cursor", d => (d.person ? "pointer" : "default"))
+      .on("click", (e, d) => {
+          if (d.person) onSelectNode(d.person.id);
+      });
+
+    cells.append("path")
+      .attr("d", arcPath)
+      .attr("fill", d => (d.person ? colorFor(d.person) : EMPTY_FILL))
+      .attr("fill-opacity", d => (d.person ? 0.9 : 0.12))
+      .attr("stroke", SEGMENT_STROKE)
+      .attr("stroke-width", 1.5);
+
+    cells.filter(d => !!d.person)
+      .append("title")
+      .text(d => `${d.person!.name} (${lifeSpan(d.person!)})`);
+
+    // Labels
+    cells.filter(d => !!d.person).each(function(d) {
+        const cell = select(this);
+        const person = d.person!;
+        const angle = (d.startAngle + d.endAngle) / 2;
+        const degrees = (angle * 180) / Math.PI;
+
+        if (d.generation === 0) {
+            const y = shape === 'half' ? -CENTRE_RADIUS / 2.5 : 0;
+            cell.append("text").attr("x", 0).attr("y", y - 4).attr("text-anchor", "middle")
+                .attr("fill", "white").attr("font-family", "Inter, sans-serif").attr("font-size", 13).attr("font-weight", 700)
+                .text(truncate(person.name, 16));
+            cell.append("text").attr("x", 0).attr("y", y + 12).attr("text-anchor", "middle")
+                .attr("fill", "white").attr("fill-opacity", 0.8).attr("font-family", "Inter, sans-serif").attr("font-size", 10)
+                .text(lifeSpan(person));
+            return;
+        }
+
+        const inner = ringInner(d.generation);
+        const outer = ringOuter(d.generation);
+        const radius = (inner + outer) / 2;
+        const arcLength = (d.endAngle - d.startAngle) * radius;
+        const radial = kind === 'fan' ? d.generation > TANGENTIAL_GENERATIONS : arcLength < outer - inner;
+        // Along the ring the arc limits the text; running outward, the ring width does
+        const length = radial ? outer - inner - 8 : arcLength - 8;
+        const thickness = radial ? arcLength : outer - inner;
+        const fontSize = Math.min(11, thickness * (radial ? 0.7 : 0.3));
+        if (fontSize < 4 || length < 12) return;
+
+        // Keep text upright on both sides of the chart
+        const rotation = radial
+            ? (degrees < 0 ? degrees + 90 : degrees - 90)
+            : (Math.abs(degrees) > 90 ? degrees + 180 : degrees);
+        const x = radius * Math.sin(angle);
+        const y = -radius * Math.cos(angle);
+        const label = cell.append("text")
+            .attr("transform", `translate(${x},${y}) rotate(${rotation})`)
+            .attr("text-anchor", "middle")
+            .attr("fill", "white")
+            .attr("font-family", "Inter, sans-serif")
+            .attr("font-size", fontSize);
+        const maxChars = Math.floor(length / (fontSize * 0.6));
+        const twoLines = thickness > fontSize * 3;
+        label.append("tspan").attr("x", 0).attr("dy", twoLines ? -fontSize * 0.2 : fontSize * 0.35).attr("font-weight", 600)
+            .text(truncate(person.name, maxChars));
+        if (twoLines) {
+            label.append("tspan").attr("x", 0).attr("dy", fontSize * 1.1).attr("fill-opacity", 0.8)
+                .text(truncate(lifeSpan(person), maxChars));
+        }
+    });
+  }, [segments, colorMode, countryScale, shape, kind]);
+
+  const handleExport = async () => {
+    if (!svgRef.current || !focus) return;
+    setExporting(true);
+    try {
+      const height = Math.round(EXPORT_WIDTH * viewBox[3] / viewBox[2]);
+      const image = await renderSvgToPng(svgRef.current, EXPORT_WIDTH, height);
+      const title = kind === 'fan' ? `Ancestors of ${focus.name}` : `Descendants of ${focus.name}`;
+      const colorLabel = FAN_COLOR_MODES.find(m => m.mode === colorMode)!.label.toLowerCase();
+      generateChartReport(title, `${generations} generations · coloured by ${colorLabel}`, image, `${kind === 'fan' ? 'Fan_Chart' : 'Descendant_Wheel'}_${focus.name.replace(/\s+/g, '_')}.pdf`);
+    } catch (e) {
+      alert("Could not export the chart.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const selectKind = (next: RadialChartKind) => {
+    setKind(next);
+    setFocusId(null);
+    if (next === 'fan') setGenerations(Math.max(MIN_FAN_GENERATIONS, generations));
+  };
+
+  const legend: { label: string; color: string }[] =
+    colorMode === 'gender'
+      ? [{ label: 'Male', color: GENDER_COLORS.Male }, { label: 'Female', color: GENDER_COLORS.Female }, { label: 'Unknown', color: UNKNOWN_COLOR }]
+      : colorMode === 'country'
+      ? [...countryScale.domain().slice(0, 8).map(c => ({ label: c, color: countryScale(c) })), { label: 'Unknown', color: UNKNOWN_COLOR }]
+      : [0, 50, 100].map(score => ({ label: `${score}%`, color: interpolateRdYlGn(score / 100) }));
+
+  const toggleClass = (active: boolean) =>
+    `flex-1 py-1 rounded-lg text-[11px] font-bold transition ${active ? 'bg-primary/15 text-primary' : 'text-slate-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white'}`;
+
+  return (
+    <div className="relative w-full h-full bg-slate-50 dark:bg-slate-900 overflow-hidden animate-fade-in transition-colors duration-300">
+        {!focus && (
+            <div className="h-full flex items-center justify-center text-sm text-slate-500 dark:text-gray-400">No people in this tree yet.</div>
+        )}
+
+        <svg ref={svgRef} className="w-full h-full p-4" preserveAspectRatio="xMidYMid meet"></svg>
+
+        {showControls && focus && (
+            <div className="absolute top-16 right-4 z-10 w-56 bg-white/90 dark:bg-slate-800/90 backdrop-blur border border-slate-200 dark:border-white/10 rounded-xl p-3 shadow-xl space-y-3">
+                <div className="flex gap-1">
+                    <button onClick={() => selectKind('fan')} className={toggleClass(kind === 'fan')}>Fan</button>
+                    <button onClick={() => selectKind('descendants')} className={toggleClass(kind === 'descendants')}>Descendants</button>
+                </div>
+
+                <div>
+                    <p className="text-[10px] text-slate-500 dark:text-gray-400 font-bold uppercase tracking-wider mb-1">Centre</p>
+                    <select
+                        value={focus.id}
+                        onChange={(e) => setFocusId(e.target.value)}
+                        className="w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white p-1.5 text-xs outline-none focus:border-primary"
+                    >
+                        {sortedPeople.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                </div>
+
+                <div className="flex gap-1">
+                    <button onClick={() => setShape('half')} className={toggleClass(shape === 'half')}>Half circle</button>
+                    <button onClick={() => setShape('full')} className={toggleClass(shape === 'full')}>Full circle</button>
+                </div>
+
+                <div>
+                    <p className="text-[10px] text-slate-500 dark:text-gray-400 font-bold uppercase tracking-wider mb-1 flex justify-between">
+                        Generations <span className="text-slate-900 dark:text-white">{generations}</span>
+                    </p>
+                    <input
+                        type="range"
+                        min={minGenerations}
+                        max={MAX_CHART_GENERATIONS}
+                        value={generations}
+                        onChange={(e) => setGenerations(parseInt(e.target.value, 10))}
+                        className="w-full accent-primary"
+                    />
+                </div>
+
+                <div>
+                    <p className="text-[10px] text-slate-500 dark:text-gray-400 font-bold uppercase tracking-wider mb-1">Colour by</p>
+                    <div className="flex gap-1">
+                        {FAN_COLOR_MODES.map(({ mode, label }) => (
+                            <button key={mode} onClick={() => setColorMode(mode)} className={toggleClass(colorMode === mode)}>{label}</button>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2">
+                        {legend.map(item => (
+                            <span key={item.label} className="flex items-center gap-1 text-[10px] text-slate-600 dark:text-gray-300">
+                                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: item.color }}></span>
+                                {item.label}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+
+                <button
+                    onClick={handleExport}
+                    disabled={exporting}
+                    className="w-full py-2 rounded-lg bg-primary hover:bg-primary-dark text-white text-xs font-bold transition flex items-center justify-center gap-1 disabled:opacity-50"
+                >
+                    <span className="material-symbols-outlined text-[16px]">picture_as_pdf</span>
+                    {exporting ? 'Exporting...' : 'Export PDF'}
+                </button>
+            </div>
+        )}
+    </div>
+  );
+};
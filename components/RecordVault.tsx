@@ -1,51 +1,84 @@
-import React, { useState } from 'react';
-import { Ancestor } from '../types';
+import React, { useMemo, useState } from 'react';
+import { Ancestor, Source } from '../types';
+import { StorageService } from '../services/storage';
+import { CITATION_FACT_LABELS, countCitationsBySource, getCitingRecords } from '../utils/sources';
+import { SourceForm } from './SourceForm';
 
 interface Props {
   ancestors: Ancestor[];
+  sources: Source[];
   isReadOnly: boolean;
   onImportClick: () => void;
+  onSelectAncestor: (id: string) => void;
 }
 
-export const RecordVault: React.FC<Props> = ({ ancestors, isReadOnly, onImportClick }) => {
+type Tab = 'all' | 'cited' | 'uncited';
+
+const TABS: { id: Tab; label: string }[] = [
+  { id: 'all', label: 'All Sources' },
+  { id: 'cited', label: 'Cited' },
+  { id: 'uncited', label: 'Not Cited' }
+];
+
+// The source library: every catalogued source, who cites it and for which facts
+export const RecordVault: React.FC<Props> = ({ ancestors, sources, isReadOnly, onImportClick, onSelectAncestor }) => {
   const [filter, setFilter] = useState('');
-  
-  const filtered = ancestors.filter(a => 
-      a.name.toLowerCase().includes(filter.toLowerCase()) || 
-      a.country?.toLowerCase().includes(filter.toLowerCase())
-  );
+  const [tab, setTab] = useState<Tab>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Source | 'new' | null>(null);
+
+  const citationCounts = useMemo(() => countCitationsBySource(ancestors), [ancestors]);
+  const totalCitations = ancestors.reduce((sum, a) => sum + (a.citations?.length || 0), 0);
+  const unsourcedPeople = ancestors.filter(a => !a.citations || a.citations.length === 0).length;
+
+  const query = filter.toLowerCase();
+  const filtered = sources
+    .filter(s => [s.title, s.author, s.repository, s.archiveReference].some(v => v?.toLowerCase().includes(query)))
+    .filter(s => tab === 'all' || (tab === 'cited') === citationCounts.has(s.id))
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  const handleDelete = async (source: Source) => {
+    if (!window.confirm(`Delete "${source.title}" from the source library?`)) return;
+    try {
+      await StorageService.deleteSource(source.id);
+    } catch (e) {
+      alert("Could not delete the source.");
+    }
+  };
 
   return (
     <div className="flex flex-col h-full bg-background pb-20 animate-fade-in px-4 pt-4">
       {/* Header */}
       <div className="flex justify-between items-center mb-6">
           <div>
-              <h2 className="text-xl font-bold text-white">Record Management</h2>
-              <p className="text-xs text-gray-400">Harrison Family Vault</p>
+              <h2 className="text-xl font-bold text-white">Source Library</h2>
+              <p className="text-xs text-gray-400">Documents and records cited in the tree</p>
           </div>
-          <button className="p-2 text-gray-400 hover:text-white">
-              <span className="material-symbols-outlined">notifications</span>
-          </button>
+          {!isReadOnly && (
+              <button onClick={() => setEditing('new')} className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-primary text-white text-xs font-bold hover:bg-primary-dark transition">
+                  <span className="material-symbols-outlined text-[18px]">add</span>
+                  New Source
+              </button>
+          )}
       </div>
 
       {/* Search */}
       <div className="relative mb-6">
           <span className="absolute left-3 top-2.5 text-gray-500 material-symbols-outlined text-[20px]">search</span>
-          <input 
-             type="text" 
-             placeholder="Search records, dates, or people..."
+          <input
+             type="text"
+             placeholder="Search titles, authors, archives..."
              value={filter}
              onChange={(e) => setFilter(e.target.value)}
-             className="w-full bg-surface border border-white/10 rounded-xl py-2.5 pl-10 pr-10 text-white placeholder-gray-500 focus:outline-none focus:border-primary/50 text-sm"
+             className="w-full bg-surface border border-white/10 rounded-xl py-2.5 pl-10 pr-4 text-white placeholder-gray-500 focus:outline-none focus:border-primary/50 text-sm"
           />
-          <span className="absolute right-3 top-2.5 text-gray-500 material-symbols-outlined text-[20px]">tune</span>
       </div>
 
       {/* Tabs */}
       <div className="flex gap-2 overflow-x-auto pb-2 mb-4 no-scrollbar">
-          {['All Records', 'Birth Certs', 'Census Data', 'Photos'].map((tab, i) => (
-              <button key={tab} className={`px-4 py-1.5 rounded-full text-xs font-medium whitespace-nowrap transition ${i === 0 ? 'bg-primary text-white' : 'bg-surface border border-white/10 text-gray-400'}`}>
-                  {tab}
+          {TABS.map(t => (
+              <button key={t.id} onClick={() => setTab(t.id)} className={`px-4 py-1.5 rounded-full text-xs font-medium whitespace-nowrap transition ${tab === t.id ? 'bg-primary text-white' : 'bg-surface border border-white/10 text-gray-400'}`}>
+                  {t.label}
               </button>
           ))}
       </div>
@@ -54,11 +87,12 @@ export const RecordVault: React.FC<Props> = ({ ancestors, isReadOnly, onImportCl
       <div className="grid grid-cols-2 gap-4 mb-6">
           <div className="bg-surface border border-white/10 rounded-xl p-4 flex items-center gap-3">
               <div className="w-10 h-10 rounded-lg bg-blue-500/10 flex items-center justify-center text-blue-400">
-                  <span className="material-symbols-outlined">description</span>
+                  <span className="material-symbols-outlined">menu_book</span>
               </div>
               <div>
-                  <p className="text-gray-400 text-[10px] uppercase font-bold">Total Records</p>
-                  <p className="text-xl font-bold text-white">{ancestors.length}</p>
+                  <p className="text-gray-400 text-[10px] uppercase font-bold">Sources</p>
+                  <p className="text-xl font-bold text-white">{sources.length}</p>
+                  <p className="text-[10px] text-gray-500">{totalCitations} citations</p>
               </div>
           </div>
           <div className="bg-surface border border-white/10 rounded-xl p-4 flex items-center gap-3">
@@ -66,8 +100,8 @@ export const RecordVault: React.FC<Props> = ({ ancestors, isReadOnly, onImportCl
                   <span className="material-symbols-outlined">warning</span>
               </div>
               <div>
-                  <p className="text-gray-400 text-[10px] uppercase font-bold">Unlinked</p>
-                  <p className="text-xl font-bold text-white">8</p>
+                  <p className="text-gray-400 text-[10px] uppercase font-bold">Unsourced People</p>
+                  <p className="text-xl font-bold text-white">{unsourcedPeople}</p>
               </div>
           </div>
       </div>
@@ -76,39 +110,92 @@ export const RecordVault: React.FC<Props> = ({ ancestors, isReadOnly, onImportCl
       {!isReadOnly && (
           <button onClick={onImportClick} className="w-full mb-6 bg-surface border border-dashed border-white/20 rounded-xl p-4 flex flex-col items-center justify-center text-gray-400 hover:bg-surface-light/30 transition gap-2">
                <span className="material-symbols-outlined text-3xl text-gray-500">cloud_upload</span>
-               <span className="text-sm font-medium">Tap to Upload New Record</span>
+               <span className="text-sm font-medium">Import a GEDCOM with its sources</span>
           </button>
       )}
       {isReadOnly && (
            <div className="w-full mb-6 bg-surface border border-dashed border-white/10 rounded-xl p-4 flex flex-col items-center justify-center text-gray-500 gap-1 opacity-60">
                <span className="material-symbols-outlined text-3xl">lock</span>
-               <span className="text-xs font-medium">Uploads restricted to Admin</span>
+               <span className="text-xs font-medium">Uploads restricted to editors</span>
           </div>
       )}
 
-      {/* Recent List */}
-      <h3 className="text-gray-400 text-xs font-bold uppercase mb-3">Recently Added</h3>
+      {/* Source List */}
+      <h3 className="text-gray-400 text-xs font-bold uppercase mb-3">Sources</h3>
       <div className="space-y-3 flex-1 overflow-y-auto">
-          {filtered.length > 0 ? filtered.map((rec) => (
-              <div key={rec.id} className="bg-surface border border-white/5 rounded-xl p-3 flex gap-3 group">
-                  <div className="w-12 h-12 rounded-lg bg-surface-light flex items-center justify-center shrink-0">
-                      <span className="material-symbols-outlined text-gray-400">article</span>
-                  </div>
-                  <div className="flex-1 min-w-0">
-                      <p className="text-white text-sm font-bold truncate">{rec.name}</p>
-                      <div className="flex items-center gap-2 mt-1">
-                          <span className="text-[10px] bg-white/10 text-gray-300 px-1.5 py-0.5 rounded">Person</span>
-                          <span className="text-[10px] text-gray-500">• {rec.birthYear || 'No Date'}</span>
+          {filtered.length > 0 ? filtered.map((source) => {
+              const count = citationCounts.get(source.id) || 0;
+              const expanded = expandedId === source.id;
+              return (
+                  <div key={source.id} className="bg-surface border border-white/5 rounded-xl p-3">
+                      <div className="flex gap-3 cursor-pointer" onClick={() => setExpandedId(expanded ? null : source.id)}>
+                          <div className="w-12 h-12 rounded-lg bg-surface-light flex items-center justify-center shrink-0">
+                              <span className="material-symbols-outlined text-gray-400">article</span>
+                          </div>
+                          <div className="flex-1 min-w-0">
+                              <p className="text-white text-sm font-bold truncate">{source.title}</p>
+                              <div className="flex items-center gap-2 mt-1">
+                                  <span className="text-[10px] bg-white/10 text-gray-300 px-1.5 py-0.5 rounded">{count} {count === 1 ? 'citation' : 'citations'}</span>
+                                  {source.author && <span className="text-[10px] text-gray-500 truncate">• {source.author}</span>}
+                              </div>
+                          </div>
+                          <span className="material-symbols-outlined text-gray-500">{expanded ? 'expand_less' : 'expand_more'}</span>
                       </div>
+
+                      {expanded && (
+                          <div className="mt-3 pt-3 border-t border-white/5 space-y-2 text-xs">
+                              {source.repository && <p className="text-gray-400">Repository: <span className="text-gray-200">{source.repository}</span></p>}
+                              {source.archiveReference && <p className="text-gray-400">Reference: <span className="text-gray-200">{source.archiveReference}</span></p>}
+                              {source.url && (
+                                  <a href={source.url} target="_blank" rel="noreferrer" className="text-primary hover:underline break-all block">{source.url}</a>
+                              )}
+                              {source.notes && <p className="text-gray-400 whitespace-pre-line">{source.notes}</p>}
+
+                              {count > 0 && (
+                                  <div>
+                                      <p className="text-gray-500 uppercase font-bold text-[10px] mt-2 mb-1">Cited by</p>
+                                      {getCitingRecords(ancestors, source.id).map(({ ancestor, citations }) => (
+                                          <button
+                                              key={ancestor.id}
+                                              onClick={() => onSelectAncestor(ancestor.id)}
+                                              className="w-full text-left flex justify-between gap-2 p-1.5 rounded hover:bg-white/5 transition"
+                                          >
+                                              <span className="text-white truncate">{ancestor.name}</span>
+                                              <span className="text-gray-500 shrink-0">
+                                                  {Array.from(new Set(citations.map(c => CITATION_FACT_LABELS[c.fact]))).join(', ')}
+                                              </span>
+                                          </button>
+                                      ))}
+                                  </div>
+                              )}
+
+                              {!isReadOnly && (
+                                  <div className="flex gap-3 pt-1">
+                                      <button onClick={() => setEditing(source)} className="text-primary font-medium hover:underline">Edit</button>
+                                      <button
+                                          onClick={() => handleDelete(source)}
+                                          disabled={count > 0}
+                                          title={count > 0 ? 'Remove its citations before deleting' : undefined}
+                                          className="text-red-400 font-medium hover:underline disabled:opacity-40 disabled:no-underline"
+                                      >
+                                          Delete
+                                      </button>
+                                  </div>
+                              )}
+                          </div>
+                      )}
                   </div>
-                  <button className="text-gray-500 hover:text-white">
-                      <span className="material-symbols-outlined">more_vert</span>
-                  </button>
+              );
+          }) : (
+              <div className="text-center text-gray-500 py-10">
+                  {sources.length === 0 ? 'No sources yet. Add one or cite a source from a profile.' : 'No sources found matching filter.'}
               </div>
-          )) : (
-              <div className="text-center text-gray-500 py-10">No records found matching filter.</div>
           )}
       </div>
+
+      {editing && (
+          <SourceForm source={editing === 'new' ? undefined : editing} onClose={() => setEditing(null)} />
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,23 +1,40 @@
 import React, { useState } from 'react';
 import { Ancestor } from '../types';
-import { calculateRelationship } from '../utils/genealogy';
+import { computeKinship, KinshipResult } from '../utils/genealogy';
 
 interface Props {
   ancestors: Ancestor[];
+  onShowPath?: (path: string[] | null) => void;
+  onClose?: () => void;
 }
 
-export const RelationshipCalculator: React.FC<Props> = ({ ancestors }) => {
+export const RelationshipCalculator: React.FC<Props> = ({ ancestors, onShowPath, onClose }) => {
   const [personA, setPersonA] = useState<string>('');
   const [personB, setPersonB] = useState<string>('');
   const [result, setResult] = useState<string | null>(null);
+  const [kinship, setKinship] = useState<KinshipResult[]>([]);
+
+  const nameOf = (id: string) => ancestors.find(a => a.id === id)?.name || 'Unknown';
 
   const handleCalculate = () => {
+    setKinship([]);
+    onShowPath?.(null);
     if (!personA || !personB) {
       setResult("Please select two people.");
       return;
     }
-    const rel = calculateRelationship(ancestors, personA, personB);
-    setResult(rel);
+    if (personA === personB) {
+      setResult("Self");
+      return;
+    }
+    const relations = computeKinship(ancestors, personA, personB);
+    if (relations.length === 0) {
+      setResult("No blood relation found");
+      return;
+    }
+    setResult(null);
+    setKinship(relations);
+    onShowPath?.(relations[0].path);
   };
 
   return (
@@ -27,6 +44,11 @@ export const RelationshipCalculator: React.FC<Props> = ({ ancestors }) => {
           <path fillRule="evenodd" d="M12.586 4.586a2 2 0 112.828 2.828l-3 3a2 2 0 01-2.828 0 1 1 0 00-2.828-1.414l-7 7a1 1 0 101.414 1.414l3-3a1 1 0 001.414 0 1 1 0 001.414 1.414l7-7z" clipRule="evenodd" />
         </svg>
         Relationship Calculator
+        {onClose && (
+          <button onClick={onClose} className="ml-auto text-slate-400 hover:text-slate-700 dark:hover:text-white">
+            <span className="material-symbols-outlined text-[20px]">close</span>
+          </button>
+        )}
       </h3>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
         <div>
@@ -65,6 +87,35 @@ export const RelationshipCalculator: React.FC<Props> = ({ ancestors }) => {
           <p className="text-lg font-bold text-slate-800 dark:text-white">{result}</p>
         </div>
       )}
+
+      {kinship.map((rel, i) => (
+        <div key={i} className="mt-4 p-4 bg-slate-50 dark:bg-slate-700 rounded border border-slate-200 dark:border-slate-600">
+          <span className="text-slate-500 dark:text-slate-400 text-sm">{i === 0 ? 'Result:' : 'Also related as:'}</span>
+          <p className="text-lg font-bold text-slate-800 dark:text-white">{rel.description}</p>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+            Common ancestor{rel.commonAncestorIds.length > 1 ? 's' : ''}: {rel.commonAncestorIds.map(nameOf).join(' & ')}
+            {' '}({rel.generationsFromA} / {rel.generationsFromB} generations)
+          </p>
+          <div className="flex flex-wrap items-center gap-1 mt-3 text-xs">
+            {rel.path.map((id, j) => (
+              <React.Fragment key={id}>
+                {j > 0 && <span className="material-symbols-outlined text-[14px] text-slate-400">chevron_right</span>}
+                <span className={`px-2 py-0.5 rounded ${rel.commonAncestorIds.includes(id) ? 'bg-indigo-100 dark:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300' : 'bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200'}`}>
+                  {nameOf(id)}
+                </span>
+              </React.Fragment>
+            ))}
+          </div>
+          {onShowPath && (
+            <button
+              onClick={() => onShowPath(rel.path)}
+              className="mt-3 text-xs font-medium text-indigo-600 dark:text-indigo-300 hover:underline flex items-center gap-1"
+            >
+              <span className="material-symbols-outlined text-[16px]">account_tree</span> Highlight in tree
+            </button>
+          )}
+        </div>
+      ))}
     </div>
   );
 };
\ No newline at end of file
@@ -1,19 +1,21 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Ancestor } from '../types';
+import { Ancestor, Union } from '../types';
 import { TreeVisualization } from './TreeVisualization';
 import { ThreeView } from './ThreeView';
-import { generateFamilyReport } from '../services/reportGenerator';
+import { RadialChart } from './RadialChart';
+import { generateFamilyReport, renderSvgToPng } from '../services/reportGenerator';
 
 interface Props {
   ancestors: Ancestor[];
+  unions: Union[];
   onClose: () => void;
 }
 
-type Step = 'init' | 'capturing-tree' | 'capturing-3d' | 'generating-pdf' | 'done';
+type Step = 'init' | 'capturing-tree' | 'capturing-charts' | 'capturing-3d' | 'generating-pdf' | 'done';
 
-export const ReportGenerationModal: React.FC<Props> = ({ ancestors, onClose }) => {
+export const ReportGenerationModal: React.FC<Props> = ({ ancestors, unions, onClose }) => {
   const [step, setStep] = useState<Step>('init');
-  const [images, setImages] = useState<{tree?: string; three?: string}>({});
+  const [images, setImages] = useState<{tree?: string; three?: string; fan?: string; wheel?: string}>({});
   
   // We use fixed-size containers to ensure consistent high-quality screenshots regardless of screen size
   const captureWidth = 1200;
@@ -31,6 +33,10 @@ export const ReportGenerationModal: React.FC<Props> = ({ ancestors, onClose }) =
             timeoutId = setTimeout(() => {
                 captureTree();
             }, 1500); 
+        } else if (step === 'capturing-charts') {
+            timeoutId = setTimeout(() => {
+                captureCharts();
+            }, 500);
         } else if (step === 'capturing-3d') {
             // Give WebGL time to load textures
             timeoutId = setTimeout(() => {
@@ -51,31 +57,31 @@ export const ReportGenerationModal: React.FC<Props> = ({ ancestors, onClose }) =
   const captureTree = () => {
       const svgElement = document.querySelector('#report-tree-container svg') as SVGSVGElement;
       if (svgElement) {
-          const svgData = new XMLSerializer().serializeToString(svgElement);
-          const canvas = document.createElement('canvas');
-          canvas.width = captureWidth;
-          canvas.height = captureHeight;
-          const ctx = canvas.getContext('2d');
-          const img = new Image();
-          // Encode svg
-          img.src = 'data:image/svg+xml;base64,' + btoa(unescape(encodeURIComponent(svgData)));
-          
-          img.onload = () => {
-              // Draw white background first (PDFs don't like transparent)
-              if (ctx) {
-                  ctx.fillStyle = '#0f172a'; // Match theme background or white
-                  ctx.fillRect(0, 0, captureWidth, captureHeight);
-                  ctx.drawImage(img, 0, 0);
-                  setImages(prev => ({ ...prev, tree: canvas.toDataURL('image/png') }));
-                  setStep('capturing-3d');
-              }
-          };
+          renderSvgToPng(svgElement, captureWidth, captureHeight)
+              .then(tree => setImages(prev => ({ ...prev, tree })))
+              .catch(() => {})
+              .finally(() => setStep('capturing-charts'));
       } else {
           // Skip if fail
-          setStep('capturing-3d');
+          setStep('capturing-charts');
       }
   };
 
+  // Radial charts are captured in the proportions of their own view box (a half-circle fan is wide)
+  const captureCharts = async () => {
+      const capture = async (selector: string) => {
+          const svgElement = document.querySelector(selector) as SVGSVGElement;
+          if (!svgElement) return undefined;
+          const box = svgElement.viewBox.baseVal;
+          const height = box && box.width ? Math.round(captureWidth * box.height / box.width) : captureWidth;
+          return renderSvgToPng(svgElement, captureWidth, height).catch(() => undefined);
+      };
+      const fan = await capture('#report-fan-container svg');
+      const wheel = await capture('#report-wheel-container svg');
+      setImages(prev => ({ ...prev, fan, wheel }));
+      setStep('capturing-3d');
+  };
+
   const captureThree = () => {
       const canvas = document.querySelector('#report-three-container canvas') as HTMLCanvasElement;
       if (canvas) {
@@ -103,7 +109,8 @@ export const ReportGenerationModal: React.FC<Props> = ({ ancestors, onClose }) =
                         className="h-full bg-gradient-to-r from-indigo-500 to-fuchsia-500 transition-all duration-500"
                         style={{
                             width: step === 'init' ? '5%' : 
-                                   step === 'capturing-tree' ? '30%' : 
+                                   step === 'capturing-tree' ? '25%' : 
+                                   step === 'capturing-charts' ? '45%' : 
                                    step === 'capturing-3d' ? '60%' : 
                                    step === 'generating-pdf' ? '90%' : '100%'
                         }}
@@ -113,6 +120,7 @@ export const ReportGenerationModal: React.FC<Props> = ({ ancestors, onClose }) =
             
             <p className="text-sm text-slate-500">
                 {step === 'capturing-tree' && "Capturing high-res tree visualizations..."}
+                {step === 'capturing-charts' && "Drawing fan and descendant charts..."}
                 {step === 'capturing-3d' && "Mapping global migration paths..."}
                 {step === 'generating-pdf' && "Compiling pages and creating PDF..."}
                 {step === 'done' && "Download starting!"}
@@ -128,15 +136,28 @@ export const ReportGenerationModal: React.FC<Props> = ({ ancestors, onClose }) =
                 <div id="report-tree-container" style={{ width: captureWidth, height: captureHeight, background: '#0f172a' }}>
                     <TreeVisualization 
                         ancestors={ancestors} 
+                        unions={unions}
                         filteredIds={null} 
                         onSelectNode={() => {}} 
                     />
                 </div>
             )}
 
+            {/* Radial Chart Containers */}
+            {step === 'capturing-charts' && (
+                <>
+                    <div id="report-fan-container" style={{ width: captureWidth, height: captureWidth }}>
+                        <RadialChart ancestors={ancestors} initialKind="fan" showControls={false} onSelectNode={() => {}} />
+                    </div>
+                    <div id="report-wheel-container" style={{ width: captureWidth, height: captureWidth }}>
+                        <RadialChart ancestors={ancestors} initialKind="descendants" showControls={false} onSelectNode={() => {}} />
+                    </div>
+                </>
+            )}
+
             {/* 3D Container */}
             {/* Note: WebGL context needs to be created, so we mount it when needed */}
-            {(step === 'capturing-tree' || step === 'capturing-3d') && (
+            {(step === 'capturing-tree' || step === 'capturing-charts' || step === 'capturing-3d') && (
                 <div id="report-three-container" style={{ width: captureWidth, height: captureHeight, background: '#0f172a' }}>
                     <ThreeView 
                         ancestors={ancestors} 
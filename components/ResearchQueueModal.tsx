@@ -0,0 +1,233 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Ancestor } from '../types';
+import { ResearchQueue } from '../services/researchQueue';
+import {
+  RESEARCH_KINDS,
+  ResearchBranch,
+  ResearchJob,
+  ResearchKind,
+  ResearchTask,
+  ResearchTaskStatus,
+  selectBranch,
+  summarizeJob
+} from '../utils/research';
+
+interface Props {
+  ancestors: Ancestor[];
+  treeId: string;
+  initialPersonId?: string | null;
+  onSelectAncestor: (id: string) => void;
+  onClose: () => void;
+}
+
+type BranchType = ResearchBranch['type'];
+
+const TASK_ICONS: Record<ResearchTaskStatus, { icon: string; className: string }> = {
+  queued: { icon: 'schedule', className: 'text-slate-400' },
+  running: { icon: 'progress_activity', className: 'text-indigo-500 animate-spin' },
+  done: { icon: 'check_circle', className: 'text-emerald-500' },
+  failed: { icon: 'error', className: 'text-red-500' },
+  skipped: { icon: 'skip_next', className: 'text-slate-400' }
+};
+
+const KIND_LABELS = Object.fromEntries(RESEARCH_KINDS.map(k => [k.kind, k.label])) as Record<ResearchKind, string>;
+
+const JOB_STATUS_LABELS: Record<ResearchJob['status'], string> = {
+  running: 'Running',
+  paused: 'Paused',
+  cancelled: 'Cancelled',
+  done: 'Finished'
+};
+
+// Queue AI research over a branch of the tree and follow the jobs. Jobs keep running in
+// the background (and after a reload) once this is closed.
+export const ResearchQueueModal: React.FC<Props> = ({ ancestors, treeId, initialPersonId, onSelectAncestor, onClose }) => {
+  const [branchType, setBranchType] = useState<BranchType>('ancestors');
+  const [personId, setPersonId] = useState<string>(initialPersonId || ancestors[0]?.id || '');
+  const [threshold, setThreshold] = useState(60);
+  const [kinds, setKinds] = useState<ResearchKind[]>(RESEARCH_KINDS.map(k => k.kind));
+  const [skipFresh, setSkipFresh] = useState(true);
+  const [queueing, setQueueing] = useState(false);
+  const [jobs, setJobs] = useState<ResearchJob[]>([]);
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+
+  useEffect(() => ResearchQueue.subscribe(setJobs), []);
+
+  const sortedPeople = useMemo(() => [...ancestors].sort((a, b) => a.name.localeCompare(b.name)), [ancestors]);
+
+  const branch: ResearchBranch = branchType === 'all'
+    ? { type: 'all' }
+    : branchType === 'incomplete'
+      ? { type: 'incomplete', threshold }
+      : { type: branchType, personId };
+
+  const peopleCount = useMemo(() => selectBranch(ancestors, branch).length, [ancestors, branchType, personId, threshold]);
+  const treeJobs = jobs.filter(j => j.treeId === treeId).reverse();
+  const otherTreeJobs = jobs.filter(j => j.treeId !== treeId && (j.status === 'running' || j.status === 'paused')).length;
+
+  const toggleKind = (kind: ResearchKind) => {
+    setKinds(prev => prev.includes(kind) ? prev.filter(k => k !== kind) : RESEARCH_KINDS.map(k => k.kind).filter(k => k === kind || prev.includes(k)));
+  };
+
+  const handleQueue = async () => {
+    setQueueing(true);
+    try {
+      const job = await ResearchQueue.enqueue({ treeId, ancestors, branch, kinds, skipFresh });
+      setExpandedJobId(job.id);
+    } catch (e) {
+      alert("Could not queue the research.");
+    } finally {
+      setQueueing(false);
+    }
+  };
+
+  const selectClass = "w-full rounded-lg border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 p-2.5 outline-none transition text-sm border";
+  const jobButtonClass = "px-2 py-1 rounded text-xs font-medium border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition";
+
+  const renderTask = (task: ResearchTask) => {
+    const { icon, className } = TASK_ICONS[task.status];
+    return (
+      <li key={task.id} className="flex gap-2 py-1.5">
+        <span className={`material-symbols-outlined text-[18px] shrink-0 ${className}`}>{icon}</span>
+        <div className="min-w-0 flex-1">
+          <p className="text-xs text-slate-700 dark:text-slate-200">
+            <button onClick={() => onSelectAncestor(task.ancestorId)} className="font-semibold hover:underline">{task.ancestorName}</button>
+            <span className="text-slate-400"> · {KIND_LABELS[task.kind]}</span>
+            {task.attempts > 1 && <span className="text-slate-400"> · attempt {task.attempts}</span>}
+          </p>
+          {task.status === 'done' && task.preview && <p className="text-[11px] text-slate-500 dark:text-slate-400 truncate">{task.preview}</p>}
+          {task.status === 'skipped' && <p className="text-[11px] text-slate-400">Already up to date</p>}
+          {task.error && task.status !== 'done' && (
+            <p className={`text-[11px] ${task.status === 'failed' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}>
+              {task.error}{task.retryAt && task.status === 'queued' ? ` Retrying at ${new Date(task.retryAt).toLocaleTimeString()}.` : ''}
+            </p>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  const renderJob = (job: ResearchJob) => {
+    const summary = summarizeJob(job);
+    const finished = summary.done + summary.failed + summary.skipped;
+    const expanded = expandedJobId === job.id;
+    return (
+      <div key={job.id} className="border border-slate-200 dark:border-slate-700 rounded-xl p-3">
+        <div className="flex items-start justify-between gap-3">
+          <button onClick={() => setExpandedJobId(expanded ? null : job.id)} className="text-left min-w-0">
+            <p className="text-sm font-semibold text-slate-800 dark:text-white truncate">{job.label}</p>
+            <p className="text-[11px] text-slate-500 dark:text-slate-400">
+              {job.kinds.map(k => KIND_LABELS[k]).join(', ')} · {JOB_STATUS_LABELS[job.status]} · {new Date(job.dateAdded).toLocaleString()}
+            </p>
+          </button>
+          <div className="flex gap-1 shrink-0">
+            {job.status === 'running' && <button onClick={() => ResearchQueue.pause(job.id)} className={jobButtonClass}>Pause</button>}
+            {job.status === 'paused' && <button onClick={() => ResearchQueue.resume(job.id)} className={jobButtonClass}>Resume</button>}
+            {(job.status === 'running' || job.status === 'paused') && <button onClick={() => ResearchQueue.cancel(job.id)} className={jobButtonClass}>Cancel</button>}
+            {summary.failed > 0 && job.status !== 'running' && <button onClick={() => ResearchQueue.retryFailed(job.id)} className={jobButtonClass}>Retry failed</button>}
+            {(job.status === 'done' || job.status === 'cancelled') && <button onClick={() => ResearchQueue.remove(job.id)} className={jobButtonClass}>Clear</button>}
+          </div>
+        </div>
+        {job.error && <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">{job.error}</p>}
+        <div className="mt-2 h-1.5 w-full bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden flex">
+          <div className="h-full bg-emerald-500 transition-all" style={{ width: `${summary.total ? (summary.done / summary.total) * 100 : 0}%` }}></div>
+          <div className="h-full bg-slate-400 transition-all" style={{ width: `${summary.total ? (summary.skipped / summary.total) * 100 : 0}%` }}></div>
+          <div className="h-full bg-red-500 transition-all" style={{ width: `${summary.total ? (summary.failed / summary.total) * 100 : 0}%` }}></div>
+        </div>
+        <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">
+          {finished} / {summary.total} · {summary.done} done{summary.skipped > 0 ? `, ${summary.skipped} up to date` : ''}{summary.failed > 0 ? `, ${summary.failed} failed` : ''}
+          {job.status === 'cancelled' && summary.remaining > 0 ? `, ${summary.remaining} not run` : ''}
+        </p>
+        {expanded && (
+          <ul className="mt-2 max-h-64 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700">
+            {job.tasks.map(renderTask)}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4 animate-fade-in backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden border border-slate-200 dark:border-slate-700 flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <span className="material-symbols-outlined">travel_explore</span>
+            Batch AI Research
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">People</label>
+                <select value={branchType} onChange={(e) => setBranchType(e.target.value as BranchType)} className={selectClass}>
+                  <option value="ancestors">Ancestors of one person</option>
+                  <option value="descendants">Descendants of one person</option>
+                  <option value="incomplete">Incomplete records</option>
+                  <option value="all">Whole tree</option>
+                </select>
+              </div>
+              {(branchType === 'ancestors' || branchType === 'descendants') && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Starting person</label>
+                  <select value={personId} onChange={(e) => setPersonId(e.target.value)} className={selectClass}>
+                    {sortedPeople.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                  </select>
+                </div>
+              )}
+              {branchType === 'incomplete' && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Completeness below {threshold}%</label>
+                  <input type="range" min={20} max={100} step={20} value={threshold} onChange={(e) => setThreshold(Number(e.target.value))} className="w-full mt-2" />
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Research</label>
+              <div className="grid grid-cols-2 gap-2">
+                {RESEARCH_KINDS.map(({ kind, label }) => (
+                  <label key={kind} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                    <input type="checkbox" checked={kinds.includes(kind)} onChange={() => toggleKind(kind)} />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input type="checkbox" checked={skipFresh} onChange={(e) => setSkipFresh(e.target.checked)} />
+              Skip people whose results are still up to date
+            </label>
+
+            <button
+              onClick={handleQueue}
+              disabled={queueing || peopleCount === 0 || kinds.length === 0}
+              className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg shadow-lg shadow-indigo-500/30 transition flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <span className="material-symbols-outlined">playlist_add</span>
+              Queue {peopleCount} {peopleCount === 1 ? 'person' : 'people'} · up to {peopleCount * kinds.length} AI calls
+            </button>
+          </div>
+
+          <div>
+            <h3 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-3">Jobs</h3>
+            {treeJobs.length === 0 ? (
+              <p className="text-sm text-slate-400 dark:text-slate-500 text-center py-6 border-2 border-dashed border-slate-100 dark:border-slate-700 rounded-xl">No research queued for this tree.</p>
+            ) : (
+              <div className="space-y-3">{treeJobs.map(renderJob)}</div>
+            )}
+            {otherTreeJobs > 0 && (
+              <p className="mt-3 text-xs text-slate-400">{otherTreeJobs} {otherTreeJobs === 1 ? 'job waits' : 'jobs wait'} for another tree to be opened.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Ancestor } from '../types';
 import { naturalLanguageSearch } from '../services/geminiService';
+import { describeAiError } from '../services/aiProvider';
 
 interface Props {
   ancestors: Ancestor[];
@@ -12,6 +13,7 @@ export const SmartSearch: React.FC<Props> = ({ ancestors, onFilter, onClear }) =
   const [query, setQuery] = useState('');
   const [loading, setLoading] = useState(false);
   const [active, setActive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -19,11 +21,13 @@ export const SmartSearch: React.FC<Props> = ({ ancestors, onFilter, onClear }) =
 
     setLoading(true);
     setActive(true);
+    setError(null);
     try {
       const filteredIds = await naturalLanguageSearch(query, ancestors);
       onFilter(filteredIds);
     } catch (err) {
       console.error(err);
+      setError(describeAiError(err));
     } finally {
       setLoading(false);
     }
@@ -32,6 +36,7 @@ export const SmartSearch: React.FC<Props> = ({ ancestors, onFilter, onClear }) =
   const handleClear = () => {
     setQuery('');
     setActive(false);
+    setError(null);
     onClear();
   };
 
@@ -81,6 +86,7 @@ export const SmartSearch: React.FC<Props> = ({ ancestors, onFilter, onClear }) =
              </button>
         )}
       </form>
+      {error && <p className="mt-2 text-center text-xs text-red-600 dark:text-red-400">{error}</p>}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Source } from '../types';
+import { StorageService } from '../services/storage';
+
+interface Props {
+  source?: Source; // Editing when present, otherwise creating
+  onClose: () => void;
+}
+
+type SourceFields = 'title' | 'author' | 'repository' | 'archiveReference' | 'url' | 'notes';
+
+const FIELD_LABELS: Record<SourceFields, { label: string; placeholder: string }> = {
+  title: { label: 'Title', placeholder: 'e.g. 1881 Census of England' },
+  author: { label: 'Author', placeholder: 'Person or body that created it' },
+  repository: { label: 'Repository', placeholder: 'Archive or library holding it' },
+  archiveReference: { label: 'Archive reference', placeholder: 'Call number, film or shelf mark' },
+  url: { label: 'URL', placeholder: 'https://' },
+  notes: { label: 'Notes', placeholder: '' }
+};
+
+export const SourceForm: React.FC<Props> = ({ source, onClose }) => {
+  const [fields, setFields] = useState<Record<SourceFields, string>>({
+    title: source?.title || '',
+    author: source?.author || '',
+    repository: source?.repository || '',
+    archiveReference: source?.archiveReference || '',
+    url: source?.url || '',
+    notes: source?.notes || ''
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!fields.title.trim()) return;
+    setSaving(true);
+    setError(null);
+    // Cleared fields are stored as null when editing so the old value is removed
+    const data: Record<string, string | null> = {};
+    (Object.keys(fields) as SourceFields[]).forEach(key => {
+      const value = fields[key].trim();
+      if (value) data[key] = value;
+      else if (source) data[key] = null;
+    });
+    try {
+      if (source) await StorageService.updateSource(source.id, data as Partial<Source>);
+      else await StorageService.addSource(data as Omit<Source, 'id' | 'dateAdded'>);
+      onClose();
+    } catch (e) {
+      setError("Could not save the source.");
+      setSaving(false);
+    }
+  };
+
+  const inputClass = "w-full bg-background border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-primary/50";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4 animate-fade-in backdrop-blur-sm">
+      <div className="bg-surface rounded-2xl shadow-2xl w-full max-w-md overflow-hidden border border-white/10 flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b border-white/5 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <span className="material-symbols-outlined">menu_book</span>
+            {source ? 'Edit Source' : 'New Source'}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="p-5 space-y-3 overflow-y-auto">
+          {(Object.keys(FIELD_LABELS) as SourceFields[]).map(key => (
+            <div key={key}>
+              <label className="block text-xs font-medium text-gray-400 mb-1">{FIELD_LABELS[key].label}</label>
+              {key === 'notes' ? (
+                <textarea value={fields.notes} onChange={(e) => setFields({ ...fields, notes: e.target.value })} rows={3} className={inputClass} />
+              ) : (
+                <input
+                  value={fields[key]}
+                  onChange={(e) => setFields({ ...fields, [key]: e.target.value })}
+                  placeholder={FIELD_LABELS[key].placeholder}
+                  className={inputClass}
+                />
+              )}
+            </div>
+          ))}
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <button
+            onClick={handleSave}
+            disabled={!fields.title.trim() || saving}
+            className="w-full py-2.5 bg-primary hover:bg-primary-dark text-white font-bold rounded-xl shadow-lg shadow-primary/20 transition disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Source'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
 import { Ancestor } from '../types';
+import { getTreeIndex } from '../utils/treeIndex';
 
 interface Props {
   ancestors: Ancestor[];
@@ -264,27 +265,13 @@ export const ThreeView: React.FC<Props> = ({ ancestors, onClose }) => {
     // --- RENDER MODES ---
 
     const renderTree = () => {
-        const roots = ancestors.filter(a => !a.fatherId && !a.motherId);
-        if (roots.length === 0 && ancestors.length > 0) {
-            ancestors.sort((a, b) => (a.birthYear || 0) - (b.birthYear || 0));
-            roots.push(ancestors[0]);
-        }
-    
-        const generationMap = new Map<string, number>();
-        const assignGeneration = (id: string, gen: number) => {
-            if (generationMap.has(id) && generationMap.get(id)! >= gen) return;
-            generationMap.set(id, gen);
-            const children = ancestors.filter(a => a.fatherId === id || a.motherId === id);
-            children.forEach(c => assignGeneration(c.id, gen + 1));
-        };
-    
-        roots.forEach(r => assignGeneration(r.id, 0));
-        ancestors.forEach(a => { if (!generationMap.has(a.id)) assignGeneration(a.id, 0); });
-    
+        // Rows from the shared tree index: each person one below their lowest recorded parent
+        const { generationOf: generationMap, generations } = getTreeIndex(ancestors);
         const byGen: { [key: number]: string[] } = {};
-        generationMap.forEach((gen, id) => {
-            if (!byGen[gen]) byGen[gen] = [];
-            byGen[gen].push(id);
+        const slotInRow = new Map<string, number>();
+        generations.forEach((people, gen) => {
+            byGen[gen] = people.map(p => p.id);
+            people.forEach((p, i) => slotInRow.set(p.id, i));
         });
     
         const nodeGroup = new THREE.Group();
@@ -296,7 +283,7 @@ export const ThreeView: React.FC<Props> = ({ ancestors, onClose }) => {
         ancestors.forEach(person => {
             const gen = generationMap.get(person.id) || 0;
             const peers = byGen[gen] || [person.id];
-            const idx = peers.indexOf(person.id);
+            const idx = slotInRow.get(person.id) ?? 0;
             const rowWidth = (peers.length - 1) * SPACING_X;
             const xPos = (idx * SPACING_X) - (rowWidth / 2);
             const zPos = (gen * SPACING_Z);
@@ -362,6 +349,7 @@ export const ThreeView: React.FC<Props> = ({ ancestors, onClose }) => {
         isGlobe: boolean
     ): THREE.Group => {
         const linkGroup = new THREE.Group();
+        const { byId } = getTreeIndex(ancestorList);
         
         ancestorList.forEach(person => {
             if (!person.country || !COUNTRY_COORDS[person.country]) return;
@@ -382,7 +370,7 @@ export const ThreeView: React.FC<Props> = ({ ancestors, onClose }) => {
             // Draw line to parents
             [person.fatherId, person.motherId].forEach(pid => {
                 if (pid) {
-                    const parent = ancestorList.find(a => a.id === pid);
+                    const parent = byId.get(pid);
                     if (parent && parent.country && COUNTRY_COORDS[parent.country]) {
                         // Skip if same country to avoid clutter (or we could draw small loops)
                         if (parent.country === person.country) return;
@@ -1,5 +1,6 @@
 import React, { useState, useRef } from 'react';
 import { generateStylizedImage } from '../services/geminiService';
+import { describeAiError, isAiError } from '../services/aiProvider';
 
 interface Props {
   onClose: () => void;
@@ -43,7 +44,7 @@ export const TimeTravelStudio: React.FC<Props> = ({ onClose }) => {
       setGeneratedImage(result);
     } catch (err) {
       console.error(err);
-      alert("Failed to generate image. Please try again.");
+      alert(isAiError(err) ? describeAiError(err) : "Failed to generate image. Please try again.");
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { Ancestor, HistoryEntry, Source, Union } from '../types';
+import { StorageService } from '../services/storage';
+import { canRestoreEntry, describeChangeAuthor, describeHistoryEntry, getCurrentVersion, getStatesAt, sameRecord } from '../utils/history';
+
+interface Props {
+  treeName: string;
+  ancestors: Ancestor[];
+  unions: Union[];
+  sources: Source[];
+  canRollback: boolean; // Owners only
+  onClose: () => void;
+}
+
+const RECENT_LIMIT = 50;
+
+// Title of the record an entry concerns, from whichever version still has one
+const describeSubject = (entry: HistoryEntry) => {
+  const version = entry.after || entry.before || {};
+  if (entry.collection === 'familyTree') return version.name || 'Unnamed person';
+  if (entry.collection === 'sources') return version.title || 'Untitled source';
+  return version.type || 'Partnership';
+};
+
+// Datetime-local value for a timestamp, in the browser's time zone
+const toLocalInput = (timestamp: number) => {
+  const date = new Date(timestamp - new Date(timestamp).getTimezoneOffset() * 60000);
+  return date.toISOString().slice(0, 16);
+};
+
+// Tree-wide change log: recent changes, deleted people to bring back, and rolling the
+// whole tree back to an earlier moment
+export const TreeHistoryModal: React.FC<Props> = ({ treeName, ancestors, unions, sources, canRollback, onClose }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [rollbackTo, setRollbackTo] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => StorageService.subscribeHistory(setEntries), []);
+
+  const records = { ancestors, unions, sources };
+
+  // Latest deletion of each person who is still missing
+  const deleted = entries
+    .filter(e => e.collection === 'familyTree' && e.action === 'delete' && !ancestors.some(a => a.id === e.docId))
+    .filter((e, i, list) => list.findIndex(other => other.docId === e.docId) === i);
+
+  const rollbackTimestamp = rollbackTo ? new Date(rollbackTo).getTime() : null;
+  const rollbackCount = rollbackTimestamp
+    ? getStatesAt(entries, rollbackTimestamp).filter(record => !sameRecord(getCurrentVersion(record, records), record.state)).length
+    : 0;
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = (entry: HistoryEntry) => {
+    run(() => StorageService.restoreVersion(entry), "Could not restore the record.");
+  };
+
+  const handleRollback = () => {
+    if (!rollbackTimestamp) return;
+    const when = new Date(rollbackTimestamp).toLocaleString();
+    if (!window.confirm(`Roll "${treeName}" back to ${when}? ${rollbackCount} record(s) will change. The rollback is recorded too, so it can be reversed.`)) return;
+    run(async () => {
+      const changed = await StorageService.rollbackTree(rollbackTimestamp);
+      setMessage(`Rolled back ${changed} record(s) to ${when}.`);
+      setRollbackTo('');
+    }, "Could not roll the tree back. Some records may already have been restored; check the recent changes.");
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4 animate-fade-in backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden border border-slate-200 dark:border-slate-700 flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <span className="material-symbols-outlined">history</span>
+              Change History
+            </h2>
+            <p className="text-xs text-slate-400 mt-0.5">{treeName}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-200 text-sm rounded-lg flex items-center gap-2">
+              <span className="material-symbols-outlined text-lg">error</span>
+              {error}
+            </div>
+          )}
+          {message && (
+            <div className="p-3 bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-200 text-sm rounded-lg flex items-center gap-2">
+              <span className="material-symbols-outlined text-lg">check_circle</span>
+              {message}
+            </div>
+          )}
+
+          {/* Roll back */}
+          {canRollback && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Roll the tree back to</label>
+              <div className="flex gap-2">
+                <input
+                  type="datetime-local"
+                  value={rollbackTo}
+                  max={toLocalInput(Date.now())}
+                  onChange={(e) => setRollbackTo(e.target.value)}
+                  className="flex-1 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white p-2 text-sm outline-none focus:border-indigo-500"
+                />
+                <button
+                  onClick={handleRollback}
+                  disabled={!rollbackTimestamp || rollbackCount === 0 || busy}
+                  className="px-4 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold transition disabled:opacity-50"
+                >
+                  Roll back
+                </button>
+              </div>
+              <p className="text-xs text-slate-500 dark:text-gray-400">
+                {rollbackTimestamp
+                  ? `${rollbackCount} person, partnership and source record(s) changed since then.`
+                  : 'People, partnerships and sources return to how they were at that moment.'}
+              </p>
+            </div>
+          )}
+
+          {/* Deleted people */}
+          {deleted.length > 0 && (
+            <div>
+              <h3 className="text-xs font-bold uppercase text-slate-400 mb-2">Deleted people</h3>
+              <div className="space-y-2">
+                {deleted.map(entry => (
+                  <div key={entry.id} className="flex items-center gap-2 p-2 rounded-lg border border-dashed border-slate-300 dark:border-slate-600">
+                    <span className="material-symbols-outlined text-slate-400 text-[20px]">person_off</span>
+                    <span className="flex-1 min-w-0">
+                      <span className="block text-sm text-slate-800 dark:text-white truncate">{describeSubject(entry)}</span>
+                      <span className="block text-[10px] text-slate-400">{describeChangeAuthor(entry)} · {new Date(entry.dateAdded).toLocaleString()}</span>
+                    </span>
+                    <button
+                      onClick={() => handleRestore(entry)}
+                      disabled={busy}
+                      className="text-xs font-medium text-indigo-600 dark:text-indigo-300 hover:underline disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Recent changes */}
+          <div>
+            <h3 className="text-xs font-bold uppercase text-slate-400 mb-2">Recent changes</h3>
+            {entries.length === 0 && (
+              <p className="text-sm text-slate-500 dark:text-gray-400">No changes recorded yet.</p>
+            )}
+            <div className="space-y-1">
+              {entries.slice(0, RECENT_LIMIT).map(entry => (
+                <div key={entry.id} className="flex items-center gap-2 p-2 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm text-slate-800 dark:text-white truncate">
+                      <span className="font-medium">{describeSubject(entry)}</span>
+                      <span className="text-slate-500 dark:text-gray-400"> – {describeHistoryEntry(entry)}</span>
+                    </span>
+                    <span className="block text-[10px] text-slate-400">{describeChangeAuthor(entry)} · {new Date(entry.dateAdded).toLocaleString()}</span>
+                  </span>
+                  {canRestoreEntry(entry, records) && (
+                    <button
+                      onClick={() => handleRestore(entry)}
+                      disabled={busy}
+                      title="Put this version back"
+                      className="text-slate-400 hover:text-indigo-500 disabled:opacity-30"
+                    >
+                      <span className="material-symbols-outlined text-[18px]">restore</span>
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { FamilyTree, TreeMember, TreeRole } from '../types';
+import { StorageService } from '../services/storage';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, TREE_ROLES, normalizeEmail } from '../utils/roles';
+
+interface Props {
+  tree: FamilyTree;
+  currentUserId: string;
+  onClose: () => void;
+}
+
+// Owners invite people by email, change their roles and revoke access
+export const TreeMembersModal: React.FC<Props> = ({ tree, currentUserId, onClose }) => {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<TreeRole>('viewer');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const members = (Object.entries(tree.members || {}) as [string, TreeMember][]).sort((a, b) => a[1].dateAdded - b[1].dateAdded);
+  const invites = Object.entries(tree.invites || {}) as [string, TreeRole][];
+  const emailValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+  const alreadyMember = members.some(([, m]) => m.email === normalizeEmail(email));
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!emailValid || alreadyMember) return;
+    run(async () => {
+      await StorageService.inviteMember(tree, email, role);
+      setEmail('');
+    }, "Could not send the invitation.");
+  };
+
+  const handleRemove = (userId: string, label: string) => {
+    if (!window.confirm(`Revoke ${label}'s access to "${tree.name}"?`)) return;
+    run(() => StorageService.removeMember(tree, userId), "Could not revoke access.");
+  };
+
+  const selectClass = "rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-xs p-1.5 outline-none disabled:opacity-50";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4 animate-fade-in backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden border border-slate-200 dark:border-slate-700 flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <span className="material-symbols-outlined">group</span>
+              Members
+            </h2>
+            <p className="text-xs text-slate-400 mt-0.5">{tree.name}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-200 text-sm rounded-lg flex items-center gap-2">
+              <span className="material-symbols-outlined text-lg">error</span>
+              {error}
+            </div>
+          )}
+
+          {/* Invite */}
+          <form onSubmit={handleInvite} className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Invite by email</label>
+            <div className="flex gap-2">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="name@example.com"
+                className="flex-1 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white p-2 text-sm outline-none focus:border-indigo-500"
+              />
+              <select value={role} onChange={(e) => setRole(e.target.value as TreeRole)} className={selectClass}>
+                {TREE_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+              </select>
+              <button
+                type="submit"
+                disabled={!emailValid || alreadyMember || busy}
+                className="px-4 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold transition disabled:opacity-50"
+              >
+                Invite
+              </button>
+            </div>
+            <p className="text-xs text-slate-500 dark:text-gray-400">
+              {alreadyMember ? 'Already a member of this tree.' : `${ROLE_LABELS[role]}: ${ROLE_DESCRIPTIONS[role].toLowerCase()}. They join when they sign in with this address.`}
+            </p>
+          </form>
+
+          {/* Members */}
+          <div>
+            <h3 className="text-xs font-bold uppercase text-slate-400 mb-2">Members</h3>
+            <div className="space-y-2">
+              {members.map(([userId, member]) => {
+                const isSelf = userId === currentUserId;
+                const label = member.email || `User ${userId.slice(0, 6)}`;
+                return (
+                  <div key={userId} className="flex items-center gap-2 p-2 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+                    <span className="material-symbols-outlined text-slate-400 text-[20px]">person</span>
+                    <span className="flex-1 text-sm text-slate-800 dark:text-white truncate">
+                      {label}{isSelf && <span className="text-slate-400"> (you)</span>}
+                    </span>
+                    <select
+                      value={member.role}
+                      disabled={isSelf || busy}
+                      title={isSelf ? 'Owners cannot change their own role' : undefined}
+                      onChange={(e) => run(() => StorageService.setMemberRole(tree, userId, e.target.value as TreeRole), "Could not change the role.")}
+                      className={selectClass}
+                    >
+                      {TREE_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                    </select>
+                    <button
+                      onClick={() => handleRemove(userId, label)}
+                      disabled={isSelf || busy}
+                      title="Revoke access"
+                      className="text-slate-400 hover:text-red-500 disabled:opacity-30 disabled:hover:text-slate-400"
+                    >
+                      <span className="material-symbols-outlined text-[18px]">person_remove</span>
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Pending invitations */}
+          {invites.length > 0 && (
+            <div>
+              <h3 className="text-xs font-bold uppercase text-slate-400 mb-2">Pending invitations</h3>
+              <div className="space-y-2">
+                {invites.map(([inviteEmail, inviteRole]) => (
+                  <div key={inviteEmail} className="flex items-center gap-2 p-2 rounded-lg border border-dashed border-slate-300 dark:border-slate-600">
+                    <span className="material-symbols-outlined text-slate-400 text-[20px]">mail</span>
+                    <span className="flex-1 text-sm text-slate-800 dark:text-white truncate">{inviteEmail}</span>
+                    <span className="text-xs text-slate-500 dark:text-gray-400">{ROLE_LABELS[inviteRole]}</span>
+                    <button
+                      onClick={() => run(() => StorageService.revokeInvite(tree, inviteEmail), "Could not revoke the invitation.")}
+                      disabled={busy}
+                      className="text-xs font-medium text-red-500 hover:underline disabled:opacity-50"
+                    >
+                      Revoke
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Role legend */}
+          <div className="text-xs text-slate-500 dark:text-gray-400 space-y-1 border-t border-slate-200 dark:border-slate-700 pt-4">
+            {TREE_ROLES.map(r => (
+              <p key={r}><span className="font-bold text-slate-700 dark:text-slate-300">{ROLE_LABELS[r]}</span> – {ROLE_DESCRIPTIONS[r]}</p>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { FamilyTree } from '../types';
+import { StorageService } from '../services/storage';
+import { ROLE_LABELS, canEditTree, canManageTree, getPendingInvite, getTreeRole } from '../utils/roles';
+
+interface Props {
+  trees: FamilyTree[]; // Trees the account belongs to or is invited to
+  activeTreeId: string;
+  userId?: string;
+  userEmail?: string | null;
+  canCreate: boolean; // Signed in with an account rather than anonymously
+  onSelect: (treeId: string) => void;
+  onManageMembers: (treeId: string) => void;
+  onShowHistory: () => void; // Change history of the active tree
+}
+
+type EditMode = { kind: 'create' } | { kind: 'rename'; tree: FamilyTree } | { kind: 'duplicate'; tree: FamilyTree };
+
+const EDIT_LABELS: Record<EditMode['kind'], string> = {
+  create: 'New tree',
+  rename: 'Rename tree',
+  duplicate: 'Duplicate tree'
+};
+
+// Header menu listing the tree catalogue: switch, create, rename, duplicate and delete
+// trees, open member management and change history, and accept invitations. Actions follow the account's role.
+export const TreeSwitcher: React.FC<Props> = ({ trees, activeTreeId, userId, userEmail, canCreate, onSelect, onManageMembers, onShowHistory }) => {
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<EditMode | null>(null);
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const memberTrees = trees.filter(t => getTreeRole(t, userId));
+  const invitations = trees.filter(t => !getTreeRole(t, userId) && getPendingInvite(t, userEmail));
+  const activeTree = memberTrees.find(t => t.id === activeTreeId);
+
+  const startEdit = (mode: EditMode) => {
+    setEditing(mode);
+    setError(null);
+    setName(mode.kind === 'create' ? '' : mode.kind === 'rename' ? mode.tree.name : `${mode.tree.name} (copy)`);
+  };
+
+  const handleSave = async () => {
+    if (!editing || !name.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      if (editing.kind === 'create') {
+        onSelect(await StorageService.createTree({ name: name.trim() }));
+      } else if (editing.kind === 'rename') {
+        await StorageService.updateTree(editing.tree, { name: name.trim() });
+      } else {
+        onSelect(await StorageService.duplicateTree(editing.tree, name.trim()));
+      }
+      setEditing(null);
+    } catch (e) {
+      setError("Could not save the tree.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (tree: FamilyTree) => {
+    if (!window.confirm(`Delete "${tree.name}" and everyone in it? This cannot be undone.`)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      if (tree.id === activeTreeId) onSelect(memberTrees.find(t => t.id !== tree.id)!.id);
+      await StorageService.deleteTree(tree.id);
+    } catch (e) {
+      setError("Could not delete the tree.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleJoin = async (tree: FamilyTree) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await StorageService.acceptInvite(tree);
+      onSelect(tree.id);
+    } catch (e) {
+      setError("Could not join the tree.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-3 py-2 rounded-full bg-white/50 dark:bg-white/10 backdrop-blur-md text-slate-700 dark:text-white border border-slate-200 dark:border-white/10 hover:bg-white dark:hover:bg-white/20 transition shadow-sm flex items-center gap-2 max-w-[200px]"
+        title="Switch family tree"
+      >
+        <span className="material-symbols-outlined text-[20px]">account_tree</span>
+        <span className="text-xs font-bold truncate hidden sm:inline">{activeTree?.name || 'No tree'}</span>
+        {invitations.length > 0 && <span className="w-2 h-2 rounded-full bg-amber-400 shrink-0"></span>}
+        <span className="material-symbols-outlined text-[18px]">{open ? 'expand_less' : 'expand_more'}</span>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-slate-200 dark:border-white/10 overflow-hidden animate-fade-in">
+          <p className="px-4 pt-3 pb-1 text-[10px] font-bold uppercase text-slate-400">Family trees</p>
+          <div className="max-h-72 overflow-y-auto">
+            {memberTrees.length === 0 && (
+              <p className="px-4 py-2 text-xs text-slate-500 dark:text-gray-400">You are not a member of any tree yet.</p>
+            )}
+            {memberTrees.map(tree => {
+              const role = getTreeRole(tree, userId);
+              return (
+              <div
+                key={tree.id}
+                className={`group flex items-center gap-2 px-4 py-2 cursor-pointer transition ${tree.id === activeTreeId ? 'bg-primary/10' : 'hover:bg-slate-100 dark:hover:bg-white/5'}`}
+                onClick={() => { onSelect(tree.id); setOpen(false); }}
+              >
+                <span className={`material-symbols-outlined text-[18px] ${tree.id === activeTreeId ? 'text-primary' : 'text-slate-400'}`}>
+                  {tree.id === activeTreeId ? 'radio_button_checked' : 'radio_button_unchecked'}
+                </span>
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm text-slate-800 dark:text-white truncate">{tree.name}</span>
+                  {role && <span className="block text-[10px] text-slate-400">{ROLE_LABELS[role]}</span>}
+                </span>
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition" onClick={(e) => e.stopPropagation()}>
+                  {tree.id === activeTreeId && canEditTree(role) && (
+                    <button onClick={() => { onShowHistory(); setOpen(false); }} title="Change history" className="text-slate-400 hover:text-primary">
+                      <span className="material-symbols-outlined text-[16px]">history</span>
+                    </button>
+                  )}
+                  {canManageTree(role) && (
+                    <>
+                      <button onClick={() => { onManageMembers(tree.id); setOpen(false); }} title="Members" className="text-slate-400 hover:text-primary">
+                        <span className="material-symbols-outlined text-[16px]">group</span>
+                      </button>
+                      <button onClick={() => startEdit({ kind: 'rename', tree })} title="Rename" className="text-slate-400 hover:text-primary">
+                        <span className="material-symbols-outlined text-[16px]">edit</span>
+                      </button>
+                    </>
+                  )}
+                  {canCreate && canEditTree(role) && (
+                    <button onClick={() => startEdit({ kind: 'duplicate', tree })} title="Duplicate" className="text-slate-400 hover:text-primary">
+                      <span className="material-symbols-outlined text-[16px]">content_copy</span>
+                    </button>
+                  )}
+                  {canManageTree(role) && (
+                    <button
+                      onClick={() => handleDelete(tree)}
+                      disabled={memberTrees.length < 2 || busy}
+                      title={memberTrees.length < 2 ? 'The last tree cannot be deleted' : 'Delete'}
+                      className="text-slate-400 hover:text-red-400 disabled:opacity-30 disabled:hover:text-slate-400"
+                    >
+                      <span className="material-symbols-outlined text-[16px]">delete</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+              );
+            })}
+          </div>
+
+          {invitations.length > 0 && (
+            <div className="border-t border-slate-200 dark:border-white/10">
+              <p className="px-4 pt-3 pb-1 text-[10px] font-bold uppercase text-slate-400">Invitations</p>
+              {invitations.map(tree => (
+                <div key={tree.id} className="flex items-center gap-2 px-4 py-2">
+                  <span className="material-symbols-outlined text-[18px] text-amber-400">mail</span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm text-slate-800 dark:text-white truncate">{tree.name}</span>
+                    <span className="block text-[10px] text-slate-400">as {ROLE_LABELS[getPendingInvite(tree, userEmail)!]}</span>
+                  </span>
+                  <button
+                    onClick={() => handleJoin(tree)}
+                    disabled={busy}
+                    className="px-3 py-1 rounded-lg text-xs font-bold bg-primary text-white hover:bg-primary-dark transition disabled:opacity-50"
+                  >
+                    Join
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {canCreate && (
+            <div className="border-t border-slate-200 dark:border-white/10 p-3">
+              {editing ? (
+                <div className="space-y-2">
+                  <p className="text-xs font-medium text-slate-500 dark:text-gray-400">{EDIT_LABELS[editing.kind]}</p>
+                  <input
+                    autoFocus
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                    placeholder="e.g. Smith family"
+                    className="w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white p-2 text-sm outline-none focus:border-primary"
+                  />
+                  <div className="flex gap-2">
+                    <button onClick={() => setEditing(null)} className="flex-1 py-1.5 rounded-lg text-xs font-medium text-slate-500 dark:text-gray-400 hover:bg-slate-100 dark:hover:bg-white/5 transition">
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleSave}
+                      disabled={!name.trim() || busy}
+                      className="flex-1 py-1.5 rounded-lg text-xs font-bold bg-primary text-white hover:bg-primary-dark transition disabled:opacity-50"
+                    >
+                      {busy ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button onClick={() => startEdit({ kind: 'create' })} className="w-full flex items-center justify-center gap-1 py-1.5 rounded-lg text-xs font-bold text-primary hover:bg-primary/10 transition">
+                  <span className="material-symbols-outlined text-[18px]">add</span>
+                  New tree
+                </button>
+              )}
+              {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
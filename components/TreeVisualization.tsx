@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { 
   select, 
   zoom, 
@@ -6,16 +6,87 @@ import {
   hierarchy, 
   tree, 
   linkVertical, 
-  zoomTransform
+  zoomTransform,
+  ZoomTransform
 } from 'd3';
-import { Ancestor } from '../types';
+import { Ancestor, Union } from '../types';
+import { getLifeDate } from '../utils/dates';
+import { getAncestorIds, getDescendantIds } from '../utils/genealogy';
+import { CHART_MODES, ChartMode, ChartNode, MAX_CHART_GENERATIONS, getChartLayouts, getDefaultFocusId } from '../utils/charts';
+import { findSharedAncestors, layoutFamilyGraph } from '../utils/familyGraph';
+import { getTreeIndex } from '../utils/treeIndex';
 
 interface TreeProps {
   ancestors: Ancestor[];
+  unions?: Union[];
   filteredIds: string[] | null;
+  highlightPath?: string[] | null; // e.g. a relationship path from the kinship calculator
   onSelectNode: (id: string) => void;
 }
 
+// Extent in chart coordinates, used to skip whatever lies outside the viewport
+interface Box {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// What gets drawn, whichever layout placed it: person cards and parent-to-child lines.
+// Every item has a stable key (for joining as the viewport moves) and its extent.
+interface SceneNode {
+  key: string;
+  person: Ancestor;
+  generation: number;
+  x: number;
+  y: number;
+  repeated: boolean; // Drawn more than once in this chart (a focused chart with pedigree collapse)
+  box: Box;
+}
+
+interface SceneLink {
+  key: string;
+  source: { x: number; y: number };
+  target: { x: number; y: number };
+  parentIds: string[]; // Both parents when the line comes from a couple
+  childId: string;
+  box: Box;
+}
+
+// The stem from a couple (or lone parent) down to where their children's lines start
+interface SceneFamily {
+  key: string;
+  parentIds: string[];
+  path: string;
+  x: number;
+  y: number;
+  box: Box;
+}
+
+interface SceneSiblingGroup {
+  key: string;
+  x: number;
+  y: number;
+  width: number;
+  box: Box;
+}
+
+interface SceneCouple {
+  key: string;
+  union: Union;
+  a: { x: number; y: number };
+  b: { x: number; y: number };
+  box: Box;
+}
+
+interface Scene {
+  nodes: SceneNode[];
+  links: SceneLink[];
+  families: SceneFamily[];
+  siblingGroups: SceneSiblingGroup[];
+  couples: SceneCouple[];
+}
+
 // Visual Palette for Generations
 const GENERATION_COLORS = [
     "#64748b", // Gen 0: Slate (Root)
@@ -31,7 +102,197 @@ const GENERATION_COLORS = [
     "#f43f5e"  // Gen 10: Rose
 ];
 
-export const TreeVisualization: React.FC<TreeProps> = ({ ancestors, filteredIds, onSelectNode }) => {
+const generationColor = (d: SceneNode) => GENERATION_COLORS[Math.abs(d.generation) % GENERATION_COLORS.length];
+
+const LINEAGE_COLORS = { paternal: '#14b8a6', maternal: '#ec4899', both: '#8b5cf6' };
+
+// Below this zoom cards are drawn as plain outlines: names and photos would be unreadable
+const DETAIL_SCALE = 0.45;
+
+const boxAround = (points: { x: number; y: number }[], top: number, bottom: number, side: number): Box => ({
+  x0: Math.min(...points.map(p => p.x)) - side,
+  y0: Math.min(...points.map(p => p.y)) - top,
+  x1: Math.max(...points.map(p => p.x)) + side,
+  y1: Math.max(...points.map(p => p.y)) + bottom
+});
+
+// A card spans 160 x 80 below its anchor, plus the badges above its corners
+const cardBox = (x: number, y: number): Box => boxAround([{ x, y }], 20, 90, 95);
+
+// Lays out the chart once per data or mode change; zooming and panning only pick from it
+const buildScene = (
+  ancestors: Ancestor[],
+  unions: Union[],
+  chartMode: ChartMode,
+  focus: Ancestor | undefined,
+  generations: number
+): Scene => {
+    const scene: Scene = { nodes: [], links: [], families: [], siblingGroups: [], couples: [] };
+    const toNode = (person: Ancestor, generation: number, x: number, y: number): SceneNode => ({
+        key: `n${scene.nodes.length}`, person, generation, x, y, repeated: false, box: cardBox(x, y)
+    });
+    const toLink = (source: { x: number; y: number }, target: { x: number; y: number }, parentIds: string[], childId: string): SceneLink => ({
+        key: `l${scene.links.length}`, source, target, parentIds, childId, box: boxAround([source, target], 0, 0, 0)
+    });
+
+    if (chartMode === 'family' || !focus) {
+        // Whole family: a graph, so everyone is drawn once and children hang from their couple
+        const graph = layoutFamilyGraph(ancestors, unions);
+        graph.nodes.forEach(n => scene.nodes.push(toNode(n.person, n.generation, n.x, n.y)));
+        const nodeById = new Map<string, SceneNode>(scene.nodes.map(n => [n.person.id, n]));
+        graph.families.forEach((family, i) => {
+            family.childIds.forEach(childId => scene.links.push(toLink({ x: family.x, y: family.y }, nodeById.get(childId)!, family.parentIds, childId)));
+
+            // Couple stems: from the bottom of each parent's card down to the point the children hang from
+            const [first, second] = family.parentIds.map(id => nodeById.get(id)!);
+            const start = `M${first.x},${first.y + 80} V${family.y}`;
+            scene.families.push({
+                key: `f${i}`,
+                parentIds: family.parentIds,
+                path: second ? `${start} H${second.x} V${second.y + 80}` : start,
+                x: family.x,
+                y: family.y,
+                box: boxAround(second ? [first, second, family] : [first, family], 0, 80, 4)
+            });
+        });
+    } else {
+        const layouts = getChartLayouts(chartMode, focus, ancestors, generations);
+
+        // Layout
+        const nodeWidth = 200;
+        const nodeHeight = 100;
+        const treeLayout = tree<ChartNode>().nodeSize([nodeWidth + 40, nodeHeight + 80]);
+        const laidOut = layouts.map(layout => {
+            const root = treeLayout(hierarchy(layout.root));
+            // Upward charts are mirrored so ancestors sit above the focus
+            if (layout.direction === -1) root.each(n => { n.y = -n.y; });
+            return { root, direction: layout.direction };
+        });
+
+        // The focus is not drawn twice in an hourglass
+        laidOut.forEach(({ root }, i) => root.descendants()
+            .filter(n => !(i > 0 && n.depth === 0))
+            .forEach(n => scene.nodes.push(toNode(n.data.person, n.data.generation, n.x!, n.y!))));
+        const counts = new Map<string, number>();
+        scene.nodes.forEach(n => counts.set(n.person.id, (counts.get(n.person.id) || 0) + 1));
+        scene.nodes.forEach(n => { n.repeated = counts.get(n.person.id)! > 1; });
+
+        // Links always run from the parent's end, whichever way the chart grows
+        laidOut.forEach(({ root, direction }) => root.links().forEach(l => {
+            const [parent, child] = direction === 1 ? [l.source, l.target] : [l.target, l.source];
+            scene.links.push(toLink({ x: l.source.x!, y: l.source.y! }, { x: l.target.x!, y: l.target.y! }, [parent.data.person.id], child.data.person.id));
+        }));
+
+        // --- SIBLING GROUP HIGHLIGHTS ---
+        laidOut.filter(l => l.direction === 1).forEach(({ root }) => {
+            root.descendants().forEach(d => {
+                if (d.children && d.children.length > 1) {
+                    const xs = d.children.map(c => c.x!);
+                    const x = Math.min(...xs) - 95;
+                    const y = d.children[0].y! - 15;
+                    const width = Math.max(...xs) - Math.min(...xs) + 190;
+                    scene.siblingGroups.push({ key: `s${scene.siblingGroups.length}`, x, y, width, box: { x0: x, y0: y, x1: x + width, y1: y + 110 } });
+                }
+            });
+        });
+    }
+
+    // --- COUPLE CONNECTORS ---
+    // Only unions where both partners are laid out can be drawn
+    const positions = new Map<string, { x: number; y: number }>();
+    scene.nodes.forEach(d => {
+        if (!positions.has(d.person.id)) positions.set(d.person.id, { x: d.x, y: d.y });
+    });
+    unions
+        .filter(u => u.partner2Id && positions.has(u.partner1Id) && positions.has(u.partner2Id))
+        .forEach((union, i) => {
+            const a = positions.get(union.partner1Id)!;
+            const b = positions.get(union.partner2Id!)!;
+            scene.couples.push({ key: `c${i}`, union, a, b, box: boxAround([a, b], 0, 80, 0) });
+        });
+
+    return scene;
+};
+
+// Highlight and filter styling. Runs animated when the highlight changes, and instantly
+// on whatever the viewport has just brought in.
+const styleScene = (
+  svg: any,
+  highlightedIds: Set<string> | null,
+  filtered: Set<string> | null,
+  animate: boolean
+) => {
+    const update = (selection: any) => (animate ? selection.transition().duration(300) : selection);
+
+    const HIGHLIGHT_COLOR = "#F59E0B"; // Amber 500 for the distinct path
+    const DIMMED_OPACITY = 0.15;
+    const NORMAL_OPACITY = 1;
+    const onPath = (d: SceneLink) => !!highlightedIds && d.parentIds.some(id => highlightedIds.has(id)) && highlightedIds.has(d.childId);
+
+    // Update Nodes
+    update(svg.selectAll(".node"))
+       .attr("opacity", (d: SceneNode) => {
+           if (highlightedIds) {
+               return highlightedIds.has(d.person.id) ? NORMAL_OPACITY : DIMMED_OPACITY;
+           }
+           return filtered && !filtered.has(d.person.id) ? 0.3 : NORMAL_OPACITY;
+       });
+    
+    // Update Node Stroke (Highlight)
+    update(svg.selectAll(".node rect.node-rect"))
+       .attr("stroke", (d: SceneNode) => {
+           if (highlightedIds && highlightedIds.has(d.person.id)) return HIGHLIGHT_COLOR;
+           if (filtered && filtered.has(d.person.id)) return "#2563EB";
+           // Fallback to Generation Color
+           return generationColor(d);
+       })
+       .attr("stroke-width", (d: SceneNode) => {
+           if (highlightedIds && highlightedIds.has(d.person.id)) return 4;
+           if (filtered && filtered.has(d.person.id)) return 3;
+           return 2;
+       });
+
+    // Update Links
+    update(svg.selectAll(".link"))
+       .attr("stroke", (d: SceneLink) => (onPath(d) ? HIGHLIGHT_COLOR : "#94a3b8")) // Slate 400
+       .attr("stroke-opacity", (d: SceneLink) => {
+           if (highlightedIds) return onPath(d) ? 1 : DIMMED_OPACITY;
+           return 0.6;
+       })
+       .attr("stroke-width", (d: SceneLink) => {
+           if (highlightedIds) return onPath(d) ? 3 : 1;
+           return 1.5;
+       });
+       
+     // Couple connectors follow the same highlight rules as parent links
+     update(svg.selectAll(".union-link, .union-marker"))
+        .attr("opacity", (d: SceneCouple) => {
+            if (highlightedIds) {
+                const a = highlightedIds.has(d.union.partner1Id);
+                const b = !!d.union.partner2Id && highlightedIds.has(d.union.partner2Id);
+                return (a || b) ? 1 : DIMMED_OPACITY;
+            }
+            return 0.9;
+        });
+
+     // Couple stems light up with either parent
+     update(svg.selectAll(".family-link, .family-dot"))
+        .attr("opacity", (d: SceneFamily) => {
+            if (highlightedIds) {
+                return d.parentIds.some(id => highlightedIds.has(id)) ? 1 : DIMMED_OPACITY;
+            }
+            return 0.8;
+        });
+
+     // Lineage dots opacity
+     update(svg.selectAll(".lineage-dot"))
+        .attr("opacity", (d: SceneLink) => {
+            if (highlightedIds) return onPath(d) ? 1 : 0; // Hide lineage dots if unconnected
+            return 1;
+        });
+};
+
+export const TreeVisualization: React.FC<TreeProps> = ({ ancestors, unions = [], filteredIds, highlightPath, onSelectNode }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
   const zoomBehaviorRef = useRef<any>(null); // Store d3 zoom behavior
@@ -40,26 +301,64 @@ export const TreeVisualization: React.FC<TreeProps> = ({ ancestors, filteredIds,
   const [lineageMode, setLineageMode] = useState(true);
   const [highlightedIds, setHighlightedIds] = useState<Set<string> | null>(null);
   const [selectedNode, setSelectedNode] = useState<Ancestor | null>(null);
+  const [chartMode, setChartMode] = useState<ChartMode>('family');
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const [generations, setGenerations] = useState(4);
+  const lastLayoutKeyRef = useRef<string | null>(null);
+
+  // The chosen focus, or a sensible default while none is chosen (or it was deleted)
+  const focusedMode = chartMode !== 'family';
+  const { byId } = getTreeIndex(ancestors);
+  const defaultFocusId = useMemo(() => getDefaultFocusId(ancestors), [ancestors]);
+  const activeFocusId = focusId && byId.has(focusId) ? focusId : defaultFocusId;
+  const sharedAncestorIds = useMemo(() => findSharedAncestors(ancestors), [ancestors]);
+  const filtered = useMemo(() => (filteredIds ? new Set(filteredIds) : null), [filteredIds]);
+
+  const scene = useMemo(
+    () => buildScene(ancestors, unions, chartMode, activeFocusId ? byId.get(activeFocusId) : undefined, generations),
+    [ancestors, unions, chartMode, activeFocusId, generations]
+  );
+
+  // Read by the drawing effect whenever the viewport brings new cards in
+  const styleRef = useRef({ highlightedIds, filtered });
+  styleRef.current = { highlightedIds, filtered };
+
+  // An externally supplied path replaces any lineage highlight from clicking a node
+  useEffect(() => {
+    setHighlightedIds(highlightPath && highlightPath.length ? new Set(highlightPath) : null);
+    setSelectedNode(null);
+  }, [highlightPath]);
+
+  // Where the chart starts: ancestors grow upward from near the bottom, hourglasses from the middle
+  const getInitialTransform = (width: number, height: number) => {
+    const top = chartMode === 'pedigree' ? height - 180 : chartMode === 'hourglass' ? height / 2 - 40 : 50;
+    return zoomIdentity.translate(width/2, top).scale(0.8);
+  };
 
   // --- DRAWING EFFECT ---
-  // Re-runs only when data structure (ancestors) or lineage toggle changes.
+  // Re-runs only when the scene (data, chart mode or focus) or the lineage toggle changes.
+  // Only what lies in and around the viewport is in the DOM: panning and zooming join the
+  // scene's visible items by key, so large trees stay responsive.
   useEffect(() => {
     if (!ancestors.length || !svgRef.current || !wrapperRef.current) return;
+    const svgElement = svgRef.current;
 
     const width = wrapperRef.current.clientWidth;
     const height = wrapperRef.current.clientHeight || 800;
     
-    // Save current transform if it exists
-    let currentTransform = zoomIdentity.translate(width/2, 50).scale(0.8);
-    if (svgRef.current) {
-        const t = zoomTransform(svgRef.current);
+    // Keep the current transform while the same chart is redrawn; a new mode or focus starts fresh
+    const layoutKey = `${chartMode}|${focusedMode ? activeFocusId : ''}`;
+    let currentTransform = getInitialTransform(width, height);
+    if (lastLayoutKeyRef.current === layoutKey) {
+        const t = zoomTransform(svgElement);
         if (t.k !== 1 || t.x !== 0 || t.y !== 0) currentTransform = t;
     }
+    lastLayoutKeyRef.current = layoutKey;
 
     // Clear previous
-    select(svgRef.current).selectAll("*").remove();
+    select(svgElement).selectAll("*").remove();
 
-    const svg = select(svgRef.current)
+    const svg = select(svgElement)
       .attr("width", width)
       .attr("height", height)
       .style("background", "transparent");
@@ -67,11 +366,291 @@ export const TreeVisualization: React.FC<TreeProps> = ({ ancestors, filteredIds,
     const g = svg.append("g");
     gRef.current = g;
 
-    // Zoom setup
+    // Layers keep their stacking order as items come and go
+    const siblingLayer = g.append("g");
+    const familyLayer = g.append("g");
+    const linkLayer = g.append("g");
+    const lineageLayer = g.append("g");
+    const unionLayer = g.append("g");
+    const nodeLayer = g.append("g");
+
+    const handleClick = (e: any, d: SceneNode) => {
+        e.stopPropagation();
+        const person = d.person;
+        setSelectedNode(person);
+        // Focused charts re-centre on the clicked person
+        if (focusedMode) {
+            setFocusId(person.id);
+            setHighlightedIds(null);
+            return;
+        }
+        // INTERACTIVE HIGHLIGHT LOGIC
+        // Everyone in the person's direct line: their ancestors and their descendants
+        const related = new Set([...getAncestorIds(ancestors, person.id), ...getDescendantIds(ancestors, person.id)]);
+        setHighlightedIds(related);
+    };
+
+    // The card outline, drawn at every zoom
+    const appendCard = (nodes: any) => {
+        // The focus person of a focused chart gets an outline
+        if (focusedMode) {
+            nodes.filter((d: SceneNode) => d.person.id === activeFocusId && d.generation === 0)
+              .append("rect")
+              .attr("x", -88).attr("y", -8).attr("width", 176).attr("height", 96).attr("rx", 20)
+              .attr("fill", "none")
+              .attr("stroke", "#2563EB")
+              .attr("stroke-width", 2)
+              .attr("stroke-dasharray", "6,4");
+        }
+
+        // Main Card
+        nodes.append("rect")
+          .attr("x", -80).attr("y", 0).attr("width", 160).attr("height", 80).attr("rx", 16)
+          .attr("fill", "#1e293b")
+          // Remove generic stroke class, apply dynamic stroke
+          .attr("class", "node-rect fill-white dark:fill-slate-800")
+          .attr("stroke", generationColor)
+          .attr("stroke-width", 2)
+          // A second appearance of the same person is dashed
+          .attr("stroke-dasharray", (d: SceneNode) => (d.repeated ? "6,4" : null))
+          .style("filter", "drop-shadow(0 4px 6px rgba(0,0,0,0.1))");
+
+        // Gender Indicator
+        nodes.append("rect")
+           .attr("x", -15).attr("y", -6).attr("width", 30).attr("height", 6).attr("rx", 3)
+           .attr("fill", (d: SceneNode) => d.person.gender === 'Male' ? '#14b8a6' : '#ec4899');
+    };
+
+    // Badges, photo and text, only once the card is large enough to read
+    const appendDetail = (nodes: any) => {
+        const detail = nodes.append("g").attr("class", "node-detail");
+
+        // Shared Ancestor Badge (Top Left): reached through more than one line (pedigree collapse)
+        const sharedBadge = detail.filter((d: SceneNode) => sharedAncestorIds.has(d.person.id))
+            .append("g")
+            .attr("transform", "translate(-76, -10)");
+
+        sharedBadge.append("title").text("Shared ancestor: reached through more than one line of descent");
+
+        sharedBadge.append("rect")
+            .attr("width", 26)
+            .attr("height", 16)
+            .attr("rx", 8)
+            .attr("fill", "#f59e0b");
+
+        sharedBadge.append("text")
+            .attr("x", 13)
+            .attr("y", 12)
+            .attr("text-anchor", "middle")
+            .style("font-family", "Material Symbols Outlined")
+            .style("font-size", "12px")
+            .style("fill", "white")
+            .text("call_merge");
+
+        // Generation Badge (Top Right)
+        const genBadge = detail.append("g")
+            .attr("transform", "translate(50, -10)");
+            
+        genBadge.append("rect")
+            .attr("width", 26)
+            .attr("height", 16)
+            .attr("rx", 8)
+            .attr("fill", generationColor);
+            
+        genBadge.append("text")
+            .attr("x", 13)
+            .attr("y", 11)
+            .attr("text-anchor", "middle")
+            .style("font-family", "Inter")
+            .style("font-size", "9px")
+            .style("font-weight", "bold")
+            .style("fill", "white")
+            .text((d: SceneNode) => `G${d.generation}`);
+
+        // Avatar
+        // People can appear more than once (both sides of an hourglass), so clip ids go by scene key
+        detail.append("clipPath").attr("id", (d: SceneNode) => `clip-${d.key}`)
+          .append("circle").attr("cx", 0).attr("cy", 0).attr("r", 24);
+        
+        detail.append("circle").attr("cx", 0).attr("cy", 0).attr("r", 26)
+          .attr("class", "fill-slate-100 dark:fill-slate-800 stroke-slate-200 dark:stroke-white/10")
+          .attr("stroke-width", 1);
+
+        detail.each(function(this: SVGGElement, d: SceneNode) {
+            const gNode = select(this);
+            const person = d.person;
+            if (person.photoUrl) {
+                gNode.append("image")
+                    .attr("xlink:href", person.photoUrl)
+                    .attr("x", -24).attr("y", -24).attr("width", 48).attr("height", 48)
+                    .attr("clip-path", `url(#clip-${d.key})`).attr("preserveAspectRatio", "xMidYMid slice");
+            } else {
+                 gNode.append("text").attr("y", 8).attr("text-anchor", "middle")
+                    .style("font-family", "Inter").style("font-weight", "bold").style("font-size", "18px")
+                    .attr("class", "fill-slate-400")
+                    .text(person.name.charAt(0));
+            }
+        });
+
+        // Text
+        detail.append("text").attr("dy", 45).attr("text-anchor", "middle")
+          .style("font-family", "Inter").style("font-weight", "600").style("font-size", "12px")
+          .attr("class", "fill-slate-900 dark:fill-white")
+          .text((d: SceneNode) => d.person.name.length > 18 ? d.person.name.substring(0,16)+'...' : d.person.name);
+
+        detail.append("text").attr("dy", 62).attr("text-anchor", "middle")
+          .style("font-family", "Inter").style("font-size", "10px")
+          .attr("class", "fill-slate-500 dark:fill-slate-400")
+          .text((d: SceneNode) => {
+              // Compact label: a leading "~" marks any approximate date
+              const person = d.person;
+              const birth = getLifeDate(person, 'birth');
+              const death = getLifeDate(person, 'death');
+              const approx = (birth && birth.qualifier !== 'exact') || (death && death.qualifier !== 'exact');
+              return `${approx ? '~' : ''}${person.birthYear || '?'} - ${person.deathYear || ''}`;
+          });
+    };
+
+    const render = (transform: ZoomTransform) => {
+        // The viewport in chart coordinates, widened by half a screen each way so panning
+        // does not reveal empty space before the next frame
+        const spanX = width / transform.k;
+        const spanY = height / transform.k;
+        const left = -transform.x / transform.k;
+        const top = -transform.y / transform.k;
+        const view: Box = { x0: left - spanX / 2, y0: top - spanY / 2, x1: left + spanX * 1.5, y1: top + spanY * 1.5 };
+        const inView = <T extends { box: Box }>(items: T[]) => items.filter(({ box }) =>
+            box.x1 >= view.x0 && box.x0 <= view.x1 && box.y1 >= view.y0 && box.y0 <= view.y1);
+        const key = (d: any) => d.key;
+
+        siblingLayer.selectAll(".sibling-group")
+            .data(inView(scene.siblingGroups), key)
+            .join(enter => enter.append("rect")
+                .attr("class", "sibling-group fill-slate-200/40 dark:fill-white/5 stroke-slate-300/50 dark:stroke-white/10")
+                .attr("x", d => d.x)
+                .attr("y", d => d.y)
+                .attr("width", d => d.width)
+                .attr("height", 110)
+                .attr("rx", 24)
+                .attr("ry", 24));
+
+        const families = inView(scene.families);
+        familyLayer.selectAll(".family-link")
+          .data(families, key)
+          .join(enter => enter.append("path")
+            .attr("class", "family-link")
+            .attr("fill", "none")
+            .attr("stroke", "#94a3b8")
+            .attr("stroke-width", 1.5)
+            .attr("d", d => d.path));
+        familyLayer.selectAll(".family-dot")
+          .data(families, key)
+          .join(enter => enter.append("circle")
+            .attr("class", "family-dot")
+            .attr("cx", d => d.x)
+            .attr("cy", d => d.y)
+            .attr("r", 3)
+            .attr("fill", "#94a3b8"));
+
+        // Links
+        const links = inView(scene.links);
+        linkLayer.selectAll(".link")
+          .data(links, key)
+          .join(enter => enter.append("path")
+            .attr("class", "link") // Changed class for selection
+            .attr("fill", "none")
+            .attr("stroke", "#475569")
+            .attr("stroke-width", 1.5)
+            .attr("d", linkVertical<SceneLink, { x: number; y: number }>()
+              .x(d => d.x)
+              .y(d => d.y)));
+
+        // Lineage Dots
+        if (lineageMode) {
+            lineageLayer.selectAll(".lineage-dot")
+               .data(links, key)
+               .join(enter => enter.append("circle")
+                 .attr("class", "lineage-dot")
+                 .attr("cx", d => (d.source.x + d.target.x) / 2)
+                 .attr("cy", d => (d.source.y + d.target.y) / 2)
+                 .attr("r", 4)
+                 .attr("fill", d => {
+                     if (d.parentIds.length > 1) return LINEAGE_COLORS.both;
+                     return byId.get(d.parentIds[0])?.gender === 'Male' ? LINEAGE_COLORS.paternal : LINEAGE_COLORS.maternal;
+                 })
+                 .attr("stroke", "#0f172a")
+                 .attr("stroke-width", 2));
+        }
+
+        const couples = inView(scene.couples);
+        unionLayer.selectAll(".union-link")
+          .data(couples, key)
+          .join(enter => enter.append("path")
+            .attr("class", "union-link")
+            .attr("fill", "none")
+            .attr("stroke", "#f59e0b")
+            .attr("stroke-width", 2)
+            .attr("stroke-dasharray", d => d.union.divorceYear ? "2,6" : "6,4")
+            .attr("d", d => {
+                // Connect the vertical middle of both cards, bowing upward when they sit on different rows
+                const y1 = d.a.y + 40;
+                const y2 = d.b.y + 40;
+                const midX = (d.a.x + d.b.x) / 2;
+                const bow = Math.min(y1, y2) - 40;
+                return `M${d.a.x},${y1} Q${midX},${y1 === y2 ? y1 - 30 : bow} ${d.b.x},${y2}`;
+            }));
+
+        unionLayer.selectAll(".union-marker")
+          .data(couples, key)
+          .join(enter => enter.append("text")
+            .attr("class", "union-marker")
+            .attr("x", d => (d.a.x + d.b.x) / 2)
+            .attr("y", d => (d.a.y === d.b.y ? d.a.y + 30 : Math.min(d.a.y, d.b.y) + 20))
+            .attr("text-anchor", "middle")
+            .style("font-family", "Material Symbols Outlined")
+            .style("font-size", "14px")
+            .style("fill", "#f59e0b")
+            .text("favorite"));
+
+        // Nodes
+        const nodes = nodeLayer.selectAll(".node")
+          .data(inView(scene.nodes), key)
+          .join(enter => {
+              const entered = enter.append("g")
+                .attr("class", "node cursor-pointer")
+                .attr("transform", d => `translate(${d.x},${d.y})`)
+                .on("click", handleClick)
+                .on("dblclick", (e, d) => {
+                    e.stopPropagation();
+                    onSelectNode(d.person.id);
+                });
+              appendCard(entered);
+              return entered;
+          });
+
+        // Level of detail follows the zoom
+        if (transform.k >= DETAIL_SCALE) {
+            appendDetail(nodes.filter(function(this: SVGGElement) { return select(this).select(".node-detail").empty(); }));
+        } else {
+            nodes.selectAll(".node-detail").remove();
+        }
+
+        const { highlightedIds: highlighted, filtered: filteredSet } = styleRef.current;
+        styleScene(svg, highlighted, filteredSet, false);
+    };
+
+    // Zoom setup; the visible set is recomputed at most once per frame
+    let frame: number | null = null;
     const zoomBehavior = zoom<SVGSVGElement, unknown>()
       .scaleExtent([0.2, 3])
       .on("zoom", (event) => {
         g.attr("transform", event.transform);
+        if (frame === null) {
+            frame = requestAnimationFrame(() => {
+                frame = null;
+                render(zoomTransform(svgElement));
+            });
+        }
       });
     
     zoomBehaviorRef.current = zoomBehavior;
@@ -79,263 +658,19 @@ export const TreeVisualization: React.FC<TreeProps> = ({ ancestors, filteredIds,
     
     // Restore or Init Transform
     svg.call(zoomBehavior.transform as any, currentTransform);
+    render(currentTransform);
 
-    // Data Prep
-    const roots = ancestors.filter(a => !a.fatherId && !a.motherId);
-    const rootAncestor = roots.length > 0 ? roots[0] : ancestors[0];
-
-    if (!rootAncestor) return;
-
-    const buildTree = (personId: string): any => {
-      const person = ancestors.find(a => a.id === personId);
-      if (!person) return null;
-      const children = ancestors
-        .filter(a => a.fatherId === personId || a.motherId === personId)
-        .map(child => buildTree(child.id))
-        .filter(Boolean);
-      return { ...person, children: children.length ? children : undefined };
+    return () => {
+        if (frame !== null) cancelAnimationFrame(frame);
     };
-
-    const treeData = buildTree(rootAncestor.id);
-    const rootHierarchy = hierarchy(treeData);
-    
-    // Layout
-    const nodeWidth = 200;
-    const nodeHeight = 100;
-    const treeLayout = tree().nodeSize([nodeWidth + 40, nodeHeight + 80]);
-    const root = treeLayout(rootHierarchy as any);
-
-    // --- SIBLING GROUP HIGHLIGHTS ---
-    const siblingMap = new Map<string, any[]>();
-    root.descendants().forEach((d: any) => {
-        if (d.parent) {
-            const pid = d.parent.data.id;
-            if (!siblingMap.has(pid)) siblingMap.set(pid, []);
-            siblingMap.get(pid)?.push(d);
-        }
-    });
-
-    const siblingGroups = Array.from(siblingMap.values()).filter(g => g.length > 1);
-
-    g.selectAll(".sibling-group")
-        .data(siblingGroups)
-        .enter()
-        .append("rect")
-        .attr("class", "sibling-group fill-slate-200/40 dark:fill-white/5 stroke-slate-300/50 dark:stroke-white/10")
-        .attr("x", (grp: any[]) => Math.min(...grp.map(n => n.x)) - 95)
-        .attr("y", (grp: any[]) => grp[0].y - 15)
-        .attr("width", (grp: any[]) => (Math.max(...grp.map(n => n.x)) - Math.min(...grp.map(n => n.x))) + 190)
-        .attr("height", 110)
-        .attr("rx", 24)
-        .attr("ry", 24);
-
-    // Links
-    g.selectAll(".link")
-      .data(root.links())
-      .enter()
-      .append("path")
-      .attr("class", "link") // Changed class for selection
-      .attr("fill", "none")
-      .attr("stroke", "#475569")
-      .attr("stroke-width", 1.5)
-      .attr("d", linkVertical()
-        .x((d: any) => d.x)
-        .y((d: any) => d.y) as any
-      );
-
-    // Lineage Dots
-    if (lineageMode) {
-        g.selectAll(".lineage-dot")
-           .data(root.links())
-           .enter()
-           .append("circle")
-           .attr("class", "lineage-dot")
-           .attr("cx", (d: any) => (d.source.x + d.target.x) / 2)
-           .attr("cy", (d: any) => (d.source.y + d.target.y) / 2)
-           .attr("r", 4)
-           .attr("fill", (d: any) => {
-               const parent = d.source.data;
-               return parent.gender === 'Male' ? '#14b8a6' : '#ec4899';
-           })
-           .attr("stroke", "#0f172a")
-           .attr("stroke-width", 2);
-    }
-
-    // Nodes
-    const nodes = g.selectAll(".node")
-      .data(root.descendants())
-      .enter()
-      .append("g")
-      .attr("class", "node cursor-pointer")
-      .attr("transform", (d: any) => `translate(${d.x},${d.y})`)
-      .on("click", (e, d: any) => {
-          e.stopPropagation();
-          // INTERACTIVE HIGHLIGHT LOGIC
-          // Find all ancestors (path up) and descendants (path down)
-          const related = new Set<string>();
-          
-          // d.ancestors() in D3 hierarchy returns the path from node to root
-          d.ancestors().forEach((n: any) => related.add(n.data.id));
-          
-          // d.descendants() returns the node and all its children/grandchildren
-          d.descendants().forEach((n: any) => related.add(n.data.id));
-          
-          setHighlightedIds(related);
-          setSelectedNode(d.data);
-      })
-      .on("dblclick", (e, d: any) => {
-          e.stopPropagation();
-          onSelectNode(d.data.id);
-      });
-
-    // Node Visuals...
-    // Main Card
-    nodes.append("rect")
-      .attr("x", -80).attr("y", 0).attr("width", 160).attr("height", 80).attr("rx", 16)
-      .attr("fill", "#1e293b")
-      // Remove generic stroke class, apply dynamic stroke
-      .attr("class", "node-rect fill-white dark:fill-slate-800")
-      .attr("stroke", (d: any) => GENERATION_COLORS[d.depth % GENERATION_COLORS.length])
-      .attr("stroke-width", 2)
-      .style("filter", "drop-shadow(0 4px 6px rgba(0,0,0,0.1))");
-
-    // Generation Badge (Top Right)
-    const genBadge = nodes.append("g")
-        .attr("transform", "translate(50, -10)");
-        
-    genBadge.append("rect")
-        .attr("width", 26)
-        .attr("height", 16)
-        .attr("rx", 8)
-        .attr("fill", (d: any) => GENERATION_COLORS[d.depth % GENERATION_COLORS.length]);
-        
-    genBadge.append("text")
-        .attr("x", 13)
-        .attr("y", 11)
-        .attr("text-anchor", "middle")
-        .style("font-family", "Inter")
-        .style("font-size", "9px")
-        .style("font-weight", "bold")
-        .style("fill", "white")
-        .text((d: any) => `G${d.depth}`);
-
-    // Gender Indicator
-    nodes.append("rect")
-       .attr("x", -15).attr("y", -6).attr("width", 30).attr("height", 6).attr("rx", 3)
-       .attr("fill", (d: any) => d.data.gender === 'Male' ? '#14b8a6' : '#ec4899');
-
-    // Avatar
-    nodes.append("clipPath").attr("id", (d: any) => `clip-${d.data.id}`)
-      .append("circle").attr("cx", 0).attr("cy", 0).attr("r", 24);
-    
-    nodes.append("circle").attr("cx", 0).attr("cy", 0).attr("r", 26)
-      .attr("class", "fill-slate-100 dark:fill-slate-800 stroke-slate-200 dark:stroke-white/10")
-      .attr("stroke-width", 1);
-
-    nodes.each(function(d: any) {
-        const gNode = select(this);
-        if (d.data.photoUrl) {
-            gNode.append("image")
-                .attr("xlink:href", d.data.photoUrl)
-                .attr("x", -24).attr("y", -24).attr("width", 48).attr("height", 48)
-                .attr("clip-path", `url(#clip-${d.data.id})`).attr("preserveAspectRatio", "xMidYMid slice");
-        } else {
-             gNode.append("text").attr("y", 8).attr("text-anchor", "middle")
-                .style("font-family", "Inter").style("font-weight", "bold").style("font-size", "18px")
-                .attr("class", "fill-slate-400")
-                .text(d.data.name.charAt(0));
-        }
-    });
-
-    // Text
-    nodes.append("text").attr("dy", 45).attr("text-anchor", "middle")
-      .style("font-family", "Inter").style("font-weight", "600").style("font-size", "12px")
-      .attr("class", "fill-slate-900 dark:fill-white")
-      .text((d: any) => d.data.name.length > 18 ? d.data.name.substring(0,16)+'...' : d.data.name);
-
-    nodes.append("text").attr("dy", 62).attr("text-anchor", "middle")
-      .style("font-family", "Inter").style("font-size", "10px")
-      .attr("class", "fill-slate-500 dark:fill-slate-400")
-      .text((d: any) => `${d.data.birthYear || '?'} - ${d.data.deathYear || ''}`);
-
-  }, [ancestors, lineageMode]); // Redraw only if data or layout mode changes
+  }, [scene, lineageMode, sharedAncestorIds]); // Redraw only if data or layout mode changes
 
   // --- STYLING EFFECT ---
   // Updates styles without removing nodes, preserving zoom state
   useEffect(() => {
     if (!svgRef.current) return;
-    const svg = select(svgRef.current);
-    
-    const HIGHLIGHT_COLOR = "#F59E0B"; // Amber 500 for the distinct path
-    const DIMMED_OPACITY = 0.15;
-    const NORMAL_OPACITY = 1;
-
-    // Update Nodes
-    svg.selectAll(".node")
-       .transition().duration(300)
-       .attr("opacity", (d: any) => {
-           if (highlightedIds) {
-               return highlightedIds.has(d.data.id) ? NORMAL_OPACITY : DIMMED_OPACITY;
-           }
-           return filteredIds && !filteredIds.includes(d.data.id) ? 0.3 : NORMAL_OPACITY;
-       });
-    
-    // Update Node Stroke (Highlight)
-    svg.selectAll(".node rect.node-rect")
-       .transition().duration(300)
-       .attr("stroke", (d: any) => {
-           if (highlightedIds && highlightedIds.has(d.data.id)) return HIGHLIGHT_COLOR;
-           if (filteredIds && filteredIds.includes(d.data.id)) return "#2563EB";
-           // Fallback to Generation Color
-           return GENERATION_COLORS[d.depth % GENERATION_COLORS.length];
-       })
-       .attr("stroke-width", (d: any) => {
-           if (highlightedIds && highlightedIds.has(d.data.id)) return 4;
-           if (filteredIds && filteredIds.includes(d.data.id)) return 3;
-           return 2;
-       });
-
-    // Update Links
-    svg.selectAll(".link")
-       .transition().duration(300)
-       .attr("stroke", (d: any) => {
-           if (highlightedIds) {
-               const s = highlightedIds.has(d.source.data.id);
-               const t = highlightedIds.has(d.target.data.id);
-               return (s && t) ? HIGHLIGHT_COLOR : "#94a3b8";
-           }
-           return "#94a3b8"; // Slate 400
-       })
-       .attr("stroke-opacity", (d: any) => {
-           if (highlightedIds) {
-               const s = highlightedIds.has(d.source.data.id);
-               const t = highlightedIds.has(d.target.data.id);
-               return (s && t) ? 1 : DIMMED_OPACITY;
-           }
-           return 0.6;
-       })
-       .attr("stroke-width", (d: any) => {
-           if (highlightedIds) {
-               const s = highlightedIds.has(d.source.data.id);
-               const t = highlightedIds.has(d.target.data.id);
-               return (s && t) ? 3 : 1;
-           }
-           return 1.5;
-       });
-       
-     // Lineage dots opacity
-     svg.selectAll(".lineage-dot")
-        .transition().duration(300)
-        .attr("opacity", (d: any) => {
-            if (highlightedIds) {
-               const s = highlightedIds.has(d.source.data.id);
-               const t = highlightedIds.has(d.target.data.id);
-               return (s && t) ? 1 : 0; // Hide lineage dots if unconnected
-           }
-           return 1;
-        });
-
-  }, [highlightedIds, filteredIds, ancestors]);
+    styleScene(select(svgRef.current), highlightedIds, filtered, true);
+  }, [highlightedIds, filtered]);
 
   // --- CONTROLS ---
   const handleZoom = (factor: number) => {
@@ -350,9 +685,8 @@ export const TreeVisualization: React.FC<TreeProps> = ({ ancestors, filteredIds,
 
   const handleResetZoom = () => {
     if (!svgRef.current || !zoomBehaviorRef.current || !wrapperRef.current) return;
-    const width = wrapperRef.current.clientWidth;
     select(svgRef.current).transition().duration(750)
-      .call(zoomBehaviorRef.current.transform, zoomIdentity.translate(width/2, 50).scale(0.8));
+      .call(zoomBehaviorRef.current.transform, getInitialTransform(wrapperRef.current.clientWidth, wrapperRef.current.clientHeight || 800));
   };
 
   const handleBackgroundClick = () => {
@@ -382,6 +716,18 @@ export const TreeVisualization: React.FC<TreeProps> = ({ ancestors, filteredIds,
                     <div className="w-2 h-2 rounded-full bg-pink-500 shadow-[0_0_8px_rgba(236,72,153,0.5)]"></div>
                     <span className="text-[11px] font-medium text-slate-600 dark:text-gray-300">Maternal</span>
                 </div>
+                <div className="flex items-center gap-2">
+                    <div className="w-2 h-2 rounded-full bg-violet-500 shadow-[0_0_8px_rgba(139,92,246,0.5)]"></div>
+                    <span className="text-[11px] font-medium text-slate-600 dark:text-gray-300">Both parents</span>
+                </div>
+                <div className="flex items-center gap-2">
+                    <div className="w-3 h-0 border-t-2 border-dashed border-amber-500"></div>
+                    <span className="text-[11px] font-medium text-slate-600 dark:text-gray-300">Partners</span>
+                </div>
+                <div className="flex items-center gap-2">
+                    <span className="material-symbols-outlined text-[12px] text-white bg-amber-500 rounded-full px-1">call_merge</span>
+                    <span className="text-[11px] font-medium text-slate-600 dark:text-gray-300">Shared ancestor</span>
+                </div>
                 
                 <div className="flex justify-between items-center pb-1 border-b border-slate-200 dark:border-white/5 mt-2">
                     <p className="text-[10px] text-slate-500 dark:text-gray-400 font-bold uppercase tracking-wider">Depth</p>
@@ -400,6 +746,33 @@ export const TreeVisualization: React.FC<TreeProps> = ({ ancestors, filteredIds,
              <button onClick={() => setLineageMode(!lineageMode)} className="w-10 h-10 rounded-xl bg-white/80 dark:bg-slate-800/80 backdrop-blur border border-slate-200 dark:border-white/10 flex items-center justify-center text-slate-400 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white hover:bg-primary/20 hover:border-primary/50 transition shadow-lg" title="Toggle Lineage Dots">
                  <span className={`material-symbols-outlined text-[20px] ${lineageMode ? 'text-primary' : ''}`}>layers</span>
              </button>
+
+             {/* Chart Mode */}
+             <div className="w-10 rounded-xl bg-white/80 dark:bg-slate-800/80 backdrop-blur border border-slate-200 dark:border-white/10 flex flex-col items-center py-1 shadow-lg">
+                 {CHART_MODES.map(({ mode, label, icon }) => (
+                     <button
+                        key={mode}
+                        onClick={() => { setChartMode(mode); setHighlightedIds(null); }}
+                        className={`w-8 h-8 rounded-lg flex items-center justify-center transition ${chartMode === mode ? 'text-primary bg-primary/10' : 'text-slate-400 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white'}`}
+                        title={label}
+                     >
+                         <span className="material-symbols-outlined text-[20px]">{icon}</span>
+                     </button>
+                 ))}
+             </div>
+
+             {/* Generations shown around the focus */}
+             {focusedMode && (
+                 <div className="w-10 rounded-xl bg-white/80 dark:bg-slate-800/80 backdrop-blur border border-slate-200 dark:border-white/10 flex flex-col items-center py-1 shadow-lg" title="Generations">
+                     <button onClick={() => setGenerations(Math.min(MAX_CHART_GENERATIONS, generations + 1))} disabled={generations >= MAX_CHART_GENERATIONS} className="w-8 h-6 flex items-center justify-center text-slate-400 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white disabled:opacity-30">
+                         <span className="material-symbols-outlined text-[18px]">add</span>
+                     </button>
+                     <span className="text-[11px] font-bold text-slate-600 dark:text-gray-300">{generations}</span>
+                     <button onClick={() => setGenerations(Math.max(1, generations - 1))} disabled={generations <= 1} className="w-8 h-6 flex items-center justify-center text-slate-400 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white disabled:opacity-30">
+                         <span className="material-symbols-outlined text-[18px]">remove</span>
+                     </button>
+                 </div>
+             )}
         </div>
 
         {/* Zoom & Pan Controls */}
@@ -444,7 +817,15 @@ export const TreeVisualization: React.FC<TreeProps> = ({ ancestors, filteredIds,
                 >
                     View Profile
                 </button>
-                <button 
+                {!focusedMode && (
+                    <button
+                        onClick={() => { setFocusId(selectedNode.id); setChartMode('hourglass'); setHighlightedIds(null); }}
+                        className="ml-2 text-xs font-bold px-3 py-1.5 rounded-full text-primary hover:bg-primary/10 transition"
+                    >
+                        Centre Chart
+                    </button>
+                )}
+                <button
                     onClick={handleBackgroundClick}
                     className="ml-2 p-1 text-slate-400 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white rounded-full hover:bg-slate-100 dark:hover:bg-white/10 transition"
                 >
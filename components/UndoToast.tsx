@@ -0,0 +1,36 @@
+import React, { useEffect } from 'react';
+
+interface Props {
+  message: string;
+  busy: boolean;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+const TOAST_DURATION_MS = 8000;
+
+// Confirmation after a destructive action, with a one-click undo while it is showing
+export const UndoToast: React.FC<Props> = ({ message, busy, onUndo, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  return (
+    <div className="absolute bottom-24 left-0 right-0 flex justify-center z-[60] pointer-events-none px-4">
+      <div className="pointer-events-auto bg-slate-900 dark:bg-slate-800 text-white border border-white/10 rounded-xl shadow-2xl pl-4 pr-2 py-2 flex items-center gap-3 max-w-md animate-fade-in">
+        <span className="text-sm truncate">{message}</span>
+        <button
+          onClick={onUndo}
+          disabled={busy}
+          className="px-3 py-1 rounded-lg text-sm font-bold text-primary hover:bg-white/10 transition disabled:opacity-50 shrink-0"
+        >
+          {busy ? 'Undoing...' : 'Undo'}
+        </button>
+        <button onClick={onDismiss} className="text-slate-400 hover:text-white shrink-0">
+          <span className="material-symbols-outlined text-[18px]">close</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import { AiContentEntry, AiContentKind, Ancestor } from '../types';
+import { StorageService } from './storage';
+import {
+  analyzeMissingData,
+  generateAlternateHistory,
+  generateFamilyStory,
+  generateGroundedHistory,
+  generateTimeline,
+  getAiModelInfo,
+  predictSES
+} from './geminiService';
+import { getAiRecordData, getAiRecordHash } from '../utils/aiContent';
+
+// --- AI CONTENT SERVICE ---
+// Generates AI content about a person and keeps every version in the tree's 'aiContent'
+// collection, so visiting the person again costs nothing. Components read versions back
+// with StorageService.subscribeAiContent.
+
+// What some kinds are asked for on top of the record
+export interface AiContentOptions {
+  style?: string; // story
+  scenario?: string; // simulation
+}
+
+const generateResult = (kind: AiContentKind, ancestor: Ancestor, ancestors: Ancestor[], options: AiContentOptions): Promise<AiContentEntry['result']> => {
+  switch (kind) {
+    case 'history': return generateGroundedHistory(ancestor);
+    case 'story': return generateFamilyStory(ancestor, ancestors, options.style);
+    case 'timeline': return generateTimeline(ancestor);
+    case 'insights': return predictSES(ancestor);
+    case 'suggestions': return analyzeMissingData(ancestor);
+    case 'simulation': return generateAlternateHistory(ancestor, options.scenario || '');
+  }
+};
+
+// An entry that could not be kept has no id
+export const isUnsavedAiContent = (entry: AiContentEntry) => !entry.id;
+
+// Generate a new version and keep it. Failed generations reject and are not kept. When
+// keeping fails (no write access, for one) the version is still returned, unsaved, so it
+// can be shown for the session.
+export const generateAiContent = async (
+  kind: AiContentKind,
+  ancestor: Ancestor,
+  ancestors: Ancestor[],
+  options: AiContentOptions = {}
+): Promise<AiContentEntry> => {
+  const result = await generateResult(kind, ancestor, ancestors, options);
+  const data = {
+    ancestorIds: [ancestor.id],
+    kind,
+    result,
+    inputs: { ...getAiRecordData(kind, ancestor, ancestors), ...options },
+    recordHash: getAiRecordHash(kind, ancestor, ancestors),
+    ...getAiModelInfo(),
+    dateAdded: Date.now()
+  } as Omit<AiContentEntry, 'id' | 'generatedBy'>;
+  try {
+    const id = await StorageService.addAiContent(data);
+    return { ...data, id, generatedBy: null } as AiContentEntry;
+  } catch (e) {
+    return { ...data, id: '', generatedBy: null } as AiContentEntry;
+  }
+};
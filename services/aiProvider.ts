@@ -0,0 +1,154 @@
+import { AiFeature, AiTokenUsage, GroundingSource } from '../types';
+
+// --- AI PROVIDERS ---
+// geminiService builds the prompts for every AI feature and hands them to one of these
+// providers, chosen at startup. Providers know how to reach a model and nothing about
+// genealogy, so features run unchanged against Gemini, an OpenAI-compatible server
+// (including self-hosted ones) or the offline mock.
+
+export type AiProviderName = 'gemini' | 'openai' | 'mock';
+
+// The subset of JSON Schema the features use. Gemini takes it as its response schema;
+// other providers get it written into the prompt.
+export type JsonSchema =
+  | { type: 'string' | 'number' | 'integer' | 'boolean'; description?: string; enum?: string[]; nullable?: boolean }
+  | { type: 'array'; items: JsonSchema; description?: string }
+  | { type: 'object'; properties: Record<string, JsonSchema>; required?: string[]; description?: string };
+
+export interface TextRequest {
+  feature: AiFeature;
+  prompt: string;
+  system?: string;
+  grounded?: boolean; // May search the web; providers without search answer from the model alone
+}
+
+export interface JsonRequest extends TextRequest {
+  schema: JsonSchema;
+}
+
+export interface ImageData {
+  mimeType: string;
+  data: string; // Base64, without a data: prefix
+}
+
+export interface ImageRequest {
+  feature: AiFeature;
+  prompt: string;
+  image: ImageData;
+}
+
+// Results carry the tokens the call used, or null when the provider reports none (the
+// mock, some self-hosted servers); aiUsageService then counts them from the text
+export interface TextResult {
+  text: string;
+  sources: GroundingSource[];
+  usage: AiTokenUsage | null;
+}
+
+export interface JsonResult {
+  value: unknown; // Parsed JSON as the model returned it
+  usage: AiTokenUsage | null;
+}
+
+export interface ImageResult {
+  image: ImageData | null; // The edited image, or null when the model returned none
+  usage: AiTokenUsage | null;
+}
+
+export interface AiProvider {
+  readonly name: AiProviderName;
+  readonly model: string;
+  readonly imageModel: string;
+  // False when the provider is missing its key or endpoint; features then say so
+  readonly available: boolean;
+  generateText: (request: TextRequest) => Promise<TextResult>;
+  generateJson: (request: JsonRequest) => Promise<JsonResult>;
+  generateImage: (request: ImageRequest) => Promise<ImageResult>;
+}
+
+export interface AiConfig {
+  provider: AiProviderName;
+  apiKey: string;
+  model?: string;
+  imageModel?: string;
+  baseUrl?: string; // OpenAI-compatible servers, e.g. http://localhost:11434/v1
+}
+
+// Picks the provider: ?ai=... in the URL, then an injected window.__ai_provider, then
+// AI_PROVIDER from the build environment, defaulting to Gemini
+export const selectAiProvider = (): AiProviderName => {
+  const candidates = [
+    typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('ai') : null,
+    typeof window !== 'undefined' ? window.__ai_provider : undefined,
+    process.env.AI_PROVIDER
+  ];
+  const choice = candidates.find(c => c === 'gemini' || c === 'openai' || c === 'mock');
+  return (choice as AiProviderName) || 'gemini';
+};
+
+export const readAiConfig = (): AiConfig => {
+  const provider = selectAiProvider();
+  return {
+    provider,
+    apiKey: (provider === 'openai' ? process.env.AI_API_KEY : process.env.API_KEY) || '',
+    model: process.env.AI_MODEL || undefined,
+    imageModel: process.env.AI_IMAGE_MODEL || undefined,
+    baseUrl: process.env.AI_BASE_URL || undefined
+  };
+};
+
+declare global {
+  interface Window {
+    __ai_provider?: string;
+  }
+}
+
+// --- Errors ---
+// 'unavailable': no provider is configured; 'invalid-output': the answer still did not
+// match its schema after the repair attempts, with the problems in `issues`;
+// 'over-budget': the call would exceed a monthly budget set to block (see aiUsageService)
+export type AiErrorCode = 'unavailable' | 'invalid-output' | 'over-budget';
+
+export interface AiError extends Error {
+  code: AiErrorCode;
+  issues?: string[];
+}
+
+export const aiError = (code: AiErrorCode, message: string, issues?: string[]): AiError =>
+  Object.assign(new Error(message), { code, ...(issues ? { issues } : {}) });
+
+export const isAiError = (error: any): error is AiError =>
+  error?.code === 'unavailable' || error?.code === 'invalid-output' || error?.code === 'over-budget';
+
+// What to tell the user about a failed AI call
+export const describeAiError = (error: any): string => {
+  if (!isAiError(error)) return "The AI service could not be reached. Please check your connection or API key.";
+  if (error.code === 'unavailable') return "No AI provider is configured.";
+  if (error.code === 'over-budget') return error.message;
+  return "The AI's answer was rejected because it did not have the expected format. Please try again.";
+};
+
+// Models asked for JSON in plain text (with search on, or without native JSON support)
+// often wrap it in a code block or a sentence; take the first JSON value out of the text
+export const extractJson = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)\n?```/);
+  const body = fenced ? fenced[1] : text;
+  const start = body.search(/[[{]/);
+  if (start === -1) return JSON.parse(body.trim());
+  const open = body[start];
+  const close = open === '[' ? ']' : '}';
+  return JSON.parse(body.slice(start, body.lastIndexOf(close) + 1));
+};
+
+// Parse a JSON answer; a SyntaxError carries the usage of the call, which was still paid for
+export const parseJsonAnswer = (text: string, usage: AiTokenUsage | null, parse: (text: string) => unknown = extractJson): JsonResult => {
+  try {
+    return { value: parse(text), usage };
+  } catch (e) {
+    throw Object.assign(e, { usage });
+  }
+};
+
+// The schema as an instruction, for providers that cannot be given one directly
+export const describeSchema = (schema: JsonSchema): string =>
+  `Respond with JSON only, no other text, matching this JSON Schema:\n${JSON.stringify(schema, null, 2)}`;
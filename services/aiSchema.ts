@@ -0,0 +1,105 @@
+import { JsonSchema } from './aiProvider';
+
+// --- STRUCTURED OUTPUT ---
+// Model answers are checked against the schema they were asked for before any feature
+// uses them. Small slips (numbers as strings, an array wrapped in an object, enum values
+// in the wrong case) are repaired here; anything else is reported as a list of issues,
+// which geminiService sends back to the model for another attempt.
+
+type ScalarSchema<T extends string> = { type: T; description?: string; enum?: string[]; nullable?: boolean };
+
+// The schema of a type from types.ts, so schemas and the types they produce cannot drift apart
+export type SchemaFor<T> =
+  T extends string ? ScalarSchema<'string'>
+  : T extends number ? ScalarSchema<'number' | 'integer'>
+  : T extends boolean ? ScalarSchema<'boolean'>
+  : T extends (infer E)[] ? { type: 'array'; items: SchemaFor<E>; description?: string }
+  : {
+    type: 'object';
+    properties: { [K in keyof T]-?: SchemaFor<T[K]> };
+    required?: (keyof T & string)[];
+    description?: string;
+  };
+
+const NUMERIC = /^\s*-?\d+(\.\d+)?\s*$/;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Fix what can be fixed without asking the model again; values that cannot be fixed are
+// returned as they are, for validateJson to report
+export const repairJson = (schema: JsonSchema, value: unknown): unknown => {
+  if (value === null || value === undefined) return value;
+  switch (schema.type) {
+    case 'string': {
+      const text = typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+      if (typeof text !== 'string' || !schema.enum) return text;
+      return schema.enum.find(option => option.toLowerCase() === text.trim().toLowerCase()) ?? text;
+    }
+    case 'number':
+    case 'integer':
+      return typeof value === 'string' && NUMERIC.test(value) ? Number(value) : value;
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'array': {
+      // { "events": [...] } where a bare array was asked for
+      if (isPlainObject(value)) {
+        const arrays = Object.values(value).filter(Array.isArray);
+        if (arrays.length === 1) value = arrays[0];
+      }
+      return Array.isArray(value) ? value.map(item => repairJson(schema.items, item)) : value;
+    }
+    case 'object': {
+      if (!isPlainObject(value)) return value;
+      const repaired: Record<string, unknown> = { ...value };
+      Object.entries(schema.properties).forEach(([key, property]) => {
+        if (!(key in repaired)) return;
+        // null for an optional field that cannot be null means "not known"
+        if (repaired[key] === null && !('nullable' in property && property.nullable) && !schema.required?.includes(key)) {
+          delete repaired[key];
+        } else {
+          repaired[key] = repairJson(property, repaired[key]);
+        }
+      });
+      return repaired;
+    }
+  }
+};
+
+const describeValue = (value: unknown) => {
+  const text = JSON.stringify(value);
+  return text === undefined ? String(value) : text.length > 40 ? `${text.slice(0, 40)}...` : text;
+};
+
+// Everything wrong with the value, one line each with its path (e.g. '$[2].year'); empty when it fits
+export const validateJson = (schema: JsonSchema, value: unknown, path = '$'): string[] => {
+  if (value === null) {
+    return 'nullable' in schema && schema.nullable ? [] : [`${path}: must not be null`];
+  }
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: expected a string, got ${describeValue(value)}`];
+      return schema.enum && !schema.enum.includes(value)
+        ? [`${path}: expected one of ${schema.enum.join(', ')}, got ${describeValue(value)}`]
+        : [];
+    case 'number':
+      return typeof value === 'number' && isFinite(value) ? [] : [`${path}: expected a number, got ${describeValue(value)}`];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${path}: expected a whole number, got ${describeValue(value)}`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected true or false, got ${describeValue(value)}`];
+    case 'array':
+      if (!Array.isArray(value)) return [`${path}: expected an array, got ${describeValue(value)}`];
+      return value.flatMap((item, i) => validateJson(schema.items, item, `${path}[${i}]`));
+    case 'object': {
+      if (!isPlainObject(value)) return [`${path}: expected an object, got ${describeValue(value)}`];
+      const missing = (schema.required || [])
+        .filter(key => value[key] === undefined)
+        .map(key => `${path}.${key}: is required`);
+      const invalid = Object.entries(schema.properties)
+        .filter(([key]) => value[key] !== undefined)
+        .flatMap(([key, property]) => validateJson(property, value[key], `${path}.${key}`));
+      return [...missing, ...invalid];
+    }
+  }
+};
@@ -0,0 +1,100 @@
+import { AiBudget, AiFeature, AiTokenUsage, AiUsageRecord } from '../types';
+import { StorageService } from './storage';
+import { aiError } from './aiProvider';
+import {
+  BudgetLimit,
+  describeLimit,
+  estimateTokens,
+  expectedOutputTokens,
+  findExceededLimit,
+  getAiCost,
+  getBudgetLimits
+} from '../utils/aiUsage';
+
+// --- AI USAGE SERVICE ---
+// geminiService asks here before every AI call and reports back after it. Calls are
+// recorded in the open tree's 'aiUsage' collection; before one is made, its expected cost
+// is checked against the tree's monthly budget, which either blocks it with an
+// 'over-budget' AiError or lets it through with a warning, as the owners chose.
+
+export interface AiUsageSnapshot {
+  records: AiUsageRecord[]; // The open tree's, newest first
+  budget?: AiBudget;
+  // The limit the last call went over in 'warn' mode, until a call fits again
+  warning: BudgetLimit | null;
+}
+
+let snapshot: AiUsageSnapshot = { records: [], warning: null };
+const listeners = new Set<(snapshot: AiUsageSnapshot) => void>();
+
+const update = (changes: Partial<AiUsageSnapshot>) => {
+  snapshot = { ...snapshot, ...changes };
+  listeners.forEach(listener => listener(snapshot));
+};
+
+// What a call sends: its prompt and instructions, plus any image
+export interface AiCallInput {
+  feature: AiFeature;
+  model: string;
+  text: string;
+  imageTokens?: number;
+}
+
+export const AiUsageService = {
+  // Called with the usage now and after every change; returns the unsubscribe function
+  subscribe: (listener: (snapshot: AiUsageSnapshot) => void) => {
+    listeners.add(listener);
+    listener(snapshot);
+    return () => { listeners.delete(listener); };
+  },
+
+  // Follow the open tree's usage; App calls this after switching trees. Returns the
+  // unsubscribe function.
+  watchTree: () => {
+    update({ records: [], warning: null });
+    return StorageService.subscribeAiUsage(records => update({ records }));
+  },
+
+  // The open tree's budget, kept in step with its catalogue entry by App
+  setBudget: (budget?: AiBudget) => {
+    if (budget === snapshot.budget) return;
+    update({ budget, warning: null });
+  },
+
+  // Throws an 'over-budget' AiError when the call would exceed a limit set to block
+  checkBudget: ({ feature, model, text, imageTokens = 0 }: AiCallInput) => {
+    const { records, budget } = snapshot;
+    const limits = getBudgetLimits(budget, records, StorageService.getCurrentUserId());
+    if (limits.length === 0) return;
+    const expected = getAiCost(model, {
+      inputTokens: estimateTokens(text) + imageTokens,
+      outputTokens: expectedOutputTokens(records, feature)
+    });
+    const exceeded = findExceededLimit(limits, expected);
+    if (exceeded && budget.onExceed === 'block') throw aiError('over-budget', describeLimit(exceeded));
+    if (exceeded) console.warn(`AI ${feature} call goes over budget:`, describeLimit(exceeded));
+    if (exceeded || snapshot.warning) update({ warning: exceeded });
+  },
+
+  // Record a finished call. Tokens the provider did not report are counted from the text.
+  // The answer is used even when recording fails (StorageService logs why).
+  record: async (call: AiCallInput, usage: AiTokenUsage | null, answer: string, provider: string) => {
+    const tokens = usage || {
+      inputTokens: estimateTokens(call.text) + (call.imageTokens || 0),
+      outputTokens: estimateTokens(answer)
+    };
+    try {
+      await StorageService.addAiUsage({
+        feature: call.feature,
+        provider,
+        model: call.model,
+        ...tokens,
+        costUsd: getAiCost(call.model, tokens),
+        ...(usage ? {} : { estimated: true }),
+        dateAdded: Date.now()
+      });
+    } catch (e) {
+      // Not recorded; the call still happened
+    }
+  }
+};
@@ -0,0 +1,167 @@
+import { Ancestor, DuplicateDismissal } from '../types';
+import { AnalyticsProgress, AnalyticsResponse, TreeAnalytics, computeAnalytics } from '../utils/analytics';
+import { getTreeIndex } from '../utils/treeIndex';
+
+// --- ANALYTICS SERVICE ---
+// Runs the dashboard analytics (utils/analytics.ts) in a Web Worker. Results are kept per
+// tree revision, so moving between the dashboards does not recompute, and callers asking
+// for the same revision share one run. Asking for a newer revision cancels the older run.
+// Where workers are unavailable the same steps run on the main thread.
+
+const CACHE_SIZE = 4;
+
+interface Job {
+  id: number;
+  revision: string;
+  ancestors: Ancestor[];
+  dismissedKeys: string[];
+  promise: Promise<TreeAnalytics>;
+  resolve: (result: TreeAnalytics) => void;
+  reject: (error: any) => void;
+  progress: AnalyticsProgress | null;
+  listeners: Set<(progress: AnalyticsProgress) => void>;
+}
+
+const cache = new Map<string, TreeAnalytics>();
+const jobs = new Map<number, Job>();
+let current: Job | null = null;
+let nextJobId = 1;
+let worker: Worker | null | undefined; // undefined until first needed, null when unavailable
+
+// Snapshots are replaced rather than changed in place, so each array is one revision
+const snapshotIds = new WeakMap<object, number>();
+let nextSnapshotId = 1;
+const snapshotId = (snapshot: object) => {
+  if (!snapshotIds.has(snapshot)) snapshotIds.set(snapshot, nextSnapshotId++);
+  return snapshotIds.get(snapshot)!;
+};
+
+const cancelledError = () => Object.assign(new Error('Analytics run cancelled'), { code: 'cancelled' });
+
+export const isAnalyticsCancelled = (error: any) => error?.code === 'cancelled';
+
+// Structured cloning copies the people in the result; point duplicates back at the live records
+const rehydrate = (result: TreeAnalytics, ancestors: Ancestor[]): TreeAnalytics => {
+  const { byId } = getTreeIndex(ancestors);
+  return {
+    ...result,
+    duplicates: result.duplicates.map(d => ({ ...d, a: byId.get(d.a.id) || d.a, b: byId.get(d.b.id) || d.b }))
+  };
+};
+
+const settle = (job: Job) => {
+  jobs.delete(job.id);
+  if (current === job) current = null;
+};
+
+const handleResponse = (response: AnalyticsResponse) => {
+  const job = jobs.get(response.jobId);
+  if (!job) return; // Cancelled already
+  if (response.type === 'progress') {
+    job.progress = response.progress;
+    job.listeners.forEach(listener => listener(response.progress));
+  } else if (response.type === 'result') {
+    settle(job);
+    const result = rehydrate(response.result, job.ancestors);
+    cache.set(job.revision, result);
+    if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!);
+    job.resolve(result);
+  } else if (response.type === 'cancelled') {
+    settle(job);
+    job.reject(cancelledError());
+  } else {
+    settle(job);
+    job.reject(new Error(response.message));
+  }
+};
+
+const runOnMainThread = (job: Job) => {
+  const jobId = job.id;
+  computeAnalytics(
+    job.ancestors,
+    job.dismissedKeys,
+    progress => handleResponse({ type: 'progress', jobId, progress }),
+    () => !jobs.has(jobId)
+  )
+    .then(result => handleResponse(result ? { type: 'result', jobId, result } : { type: 'cancelled', jobId }))
+    .catch(e => handleResponse({ type: 'error', jobId, message: e?.message || String(e) }));
+};
+
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  worker = null;
+  if (typeof Worker === 'undefined') return worker;
+  try {
+    const created = new Worker(new URL('./analyticsWorker.ts', import.meta.url), { type: 'module' });
+    created.addEventListener('message', (event: MessageEvent<AnalyticsResponse>) => handleResponse(event.data));
+    // A worker that fails to load hands its jobs to the main thread
+    created.addEventListener('error', (event) => {
+      console.warn("Analytics worker failed, running on the main thread:", event.message);
+      created.terminate();
+      worker = null;
+      jobs.forEach(runOnMainThread);
+    });
+    worker = created;
+  } catch (e) {
+    console.warn("Analytics worker unavailable, running on the main thread:", e);
+  }
+  return worker;
+};
+
+const startJob = (revision: string, ancestors: Ancestor[], dismissals: DuplicateDismissal[]): Job => {
+  let resolve!: (result: TreeAnalytics) => void;
+  let reject!: (error: any) => void;
+  const promise = new Promise<TreeAnalytics>((res, rej) => { resolve = res; reject = rej; });
+  const job: Job = {
+    id: nextJobId++,
+    revision,
+    ancestors,
+    dismissedKeys: dismissals.map(d => d.id),
+    promise,
+    resolve,
+    reject,
+    progress: null,
+    listeners: new Set()
+  };
+  jobs.set(job.id, job);
+
+  const target = getWorker();
+  if (target) target.postMessage({ type: 'analyze', jobId: job.id, ancestors, dismissedKeys: job.dismissedKeys });
+  else runOnMainThread(job);
+  return job;
+};
+
+const cancelJob = (job: Job) => {
+  settle(job);
+  worker?.postMessage({ type: 'cancel', jobId: job.id });
+  job.reject(cancelledError());
+};
+
+export const AnalyticsService = {
+  getTreeRevision: (ancestors: Ancestor[], dismissals: DuplicateDismissal[]) =>
+    `${snapshotId(ancestors)}.${snapshotId(dismissals)}`,
+
+  // Finished results for this revision, if any
+  getCached: (ancestors: Ancestor[], dismissals: DuplicateDismissal[]): TreeAnalytics | null =>
+    cache.get(AnalyticsService.getTreeRevision(ancestors, dismissals)) || null,
+
+  // Resolves to the analytics for this revision; rejects with code 'cancelled' when a
+  // newer revision is requested first. Progress goes to `onProgress` until the run ends.
+  analyze: (
+    ancestors: Ancestor[],
+    dismissals: DuplicateDismissal[],
+    onProgress?: (progress: AnalyticsProgress) => void
+  ): Promise<TreeAnalytics> => {
+    const revision = AnalyticsService.getTreeRevision(ancestors, dismissals);
+    const cached = cache.get(revision);
+    if (cached) return Promise.resolve(cached);
+
+    if (current && current.revision !== revision) cancelJob(current);
+    if (!current) current = startJob(revision, ancestors, dismissals);
+    if (onProgress) {
+      current.listeners.add(onProgress);
+      if (current.progress) onProgress(current.progress);
+    }
+    return current.promise;
+  }
+};
@@ -0,0 +1,33 @@
+import { AnalyticsRequest, AnalyticsResponse, computeAnalytics } from '../utils/analytics';
+
+// Web Worker entry for AnalyticsService. A cancel is noted and picked up by its job
+// between steps; one for a job that already finished is ignored.
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+const post = (message: AnalyticsResponse) => (self as unknown as Worker).postMessage(message);
+
+self.addEventListener('message', async (event: MessageEvent<AnalyticsRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    if (running.has(request.jobId)) cancelled.add(request.jobId);
+    return;
+  }
+
+  const { jobId } = request;
+  running.add(jobId);
+  try {
+    const result = await computeAnalytics(
+      request.ancestors,
+      request.dismissedKeys,
+      progress => post({ type: 'progress', jobId, progress }),
+      () => cancelled.has(jobId)
+    );
+    post(result ? { type: 'result', jobId, result } : { type: 'cancelled', jobId });
+  } catch (e: any) {
+    post({ type: 'error', jobId, message: e?.message || String(e) });
+  } finally {
+    running.delete(jobId);
+    cancelled.delete(jobId);
+  }
+});
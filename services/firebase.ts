@@ -1,6 +1,6 @@
 import { initializeApp } from "firebase/app";
-import { getFirestore } from "firebase/firestore";
-import { getAuth } from "firebase/auth";
+import { getFirestore, connectFirestoreEmulator } from "firebase/firestore";
+import { getAuth, connectAuthEmulator } from "firebase/auth";
 import { getAnalytics } from "firebase/analytics";
 
 // Define the global config type expected from the environment
@@ -33,4 +33,10 @@ const analytics = getAnalytics(app);
 
 // Initialize Firestore & Auth
 export const db = getFirestore(app);
-export const auth = getAuth(app);
\ No newline at end of file
+export const auth = getAuth(app);
+
+// Talk to the local emulators instead (see firebase.json), e.g. to exercise firestore.rules
+if (process.env.FIREBASE_EMULATORS === 'true') {
+  connectFirestoreEmulator(db, '127.0.0.1', 8080);
+  connectAuthEmulator(auth, 'http://127.0.0.1:9099', { disableWarnings: true });
+}
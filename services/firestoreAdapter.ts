@@ -0,0 +1,101 @@
+import { db, firebaseConfig } from './firebase';
+import {
+  collection,
+  addDoc,
+  doc,
+  getDoc,
+  onSnapshot,
+  query,
+  orderBy,
+  where,
+  getDocs,
+  limit,
+  writeBatch
+} from 'firebase/firestore';
+import { CollectionPath, StorageAdapter, StoredDoc, SyncStatus, WriteOp, sortNewestFirst } from './storageAdapter';
+
+// Ensure appId is present to avoid "undefined" in path
+const appId = firebaseConfig.appId || '1:927330435478:web:d0d6c70c99765ae182ddb7';
+
+// Collections live under the security rule path: /artifacts/{appId}/public/data/{path}/
+const collectionPath = (path: CollectionPath) => `artifacts/${appId}/public/data/${path}`;
+
+// Talks to Firestore directly; the SDK's own cache covers brief disconnects
+export const createFirestoreAdapter = (): StorageAdapter => {
+  const currentStatus = (): SyncStatus => ({
+    backend: 'firestore',
+    online: typeof navigator === 'undefined' ? true : navigator.onLine,
+    pending: 0,
+    syncing: false
+  });
+
+  return {
+    backend: 'firestore',
+
+    subscribe: (name, callback, onError, filter) => {
+      // Filtered queries are sorted here; orderBy alongside the filter would need a composite index
+      const ref = collection(db, collectionPath(name));
+      const q = filter ? query(ref, where(filter.field, 'array-contains', filter.value)) : query(ref, orderBy('dateAdded', 'desc'));
+      // Only the documents that changed are read out of each snapshot; the rest keep their
+      // object identity, so consumers (and the local mirror) can skip them. docChanges()
+      // indexes apply in order to the previous snapshot, which keeps `docs` in query order.
+      let docs: StoredDoc[] = [];
+      let first = true;
+      return onSnapshot(q, (snapshot) => {
+        const changes = snapshot.docChanges();
+        if (changes.length === 0 && !first) return;
+        first = false;
+        docs = docs.slice();
+        changes.forEach(change => {
+          if (change.oldIndex !== -1) docs.splice(change.oldIndex, 1);
+          if (change.newIndex !== -1) docs.splice(change.newIndex, 0, { id: change.doc.id, ...change.doc.data() });
+        });
+        callback(filter ? sortNewestFirst(docs) : docs);
+      }, (error) => {
+        if (onError) onError(error);
+      });
+    },
+
+    get: async (name, id) => {
+      const snapshot = await getDoc(doc(db, collectionPath(name), id));
+      return snapshot.exists() ? { id: snapshot.id, ...snapshot.data() } : null;
+    },
+
+    add: async (name, data) => {
+      const ref = await addDoc(collection(db, collectionPath(name)), data);
+      return ref.id;
+    },
+
+    batch: async (ops: WriteOp[]) => {
+      const batch = writeBatch(db);
+      ops.forEach(op => {
+        const ref = doc(db, collectionPath(op.collection), op.id);
+        if (op.type === 'set') batch.set(ref, op.data);
+        else if (op.type === 'update') batch.update(ref, op.data);
+        else batch.delete(ref);
+      });
+      await batch.commit();
+    },
+
+    isEmpty: async (name) => {
+      const snapshot = await getDocs(query(collection(db, collectionPath(name)), limit(1)));
+      return snapshot.empty;
+    },
+
+    getAll: async (name) => {
+      const snapshot = await getDocs(collection(db, collectionPath(name)));
+      return snapshot.docs.map(d => ({ id: d.id, ...d.data() }));
+    },
+
+    subscribeStatus: (callback) => {
+      const notify = () => callback(currentStatus());
+      notify();
+      window.addEventListener('online', notify);
+      window.addEventListener('offline', notify);
+      return () => {
+        window.removeEventListener('online', notify);
+        window.removeEventListener('offline', notify);
+      };
+    }
+  };
+};
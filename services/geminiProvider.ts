@@ -0,0 +1,100 @@
+import { GenerateContentResponse, GoogleGenAI, Schema, Type } from "@google/genai";
+import { AiTokenUsage } from '../types';
+import { AiConfig, AiProvider, JsonSchema, TextRequest, describeSchema, parseJsonAnswer } from './aiProvider';
+
+const GEMINI_TYPES: Record<JsonSchema['type'], Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => {
+  if (schema.type === 'array') {
+    return { type: Type.ARRAY, description: schema.description, items: toGeminiSchema(schema.items) };
+  }
+  if (schema.type === 'object') {
+    const properties: Record<string, Schema> = {};
+    Object.entries(schema.properties).forEach(([key, value]) => { properties[key] = toGeminiSchema(value); });
+    return { type: Type.OBJECT, description: schema.description, properties, required: schema.required };
+  }
+  return { type: GEMINI_TYPES[schema.type], description: schema.description, enum: schema.enum, nullable: schema.nullable };
+};
+
+// Search results read in count as input; thinking is billed as output
+const readUsage = ({ usageMetadata }: GenerateContentResponse): AiTokenUsage | null => usageMetadata ? {
+  inputTokens: (usageMetadata.promptTokenCount || 0) + (usageMetadata.toolUsePromptTokenCount || 0),
+  outputTokens: (usageMetadata.candidatesTokenCount || 0) + (usageMetadata.thoughtsTokenCount || 0)
+} : null;
+
+// Google's Gemini API. NOTE: the key is exposed to the browser; fine for a prototype only.
+export const createGeminiProvider = (config: AiConfig): AiProvider => {
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+  const model = config.model || 'gemini-2.5-flash';
+  const imageModel = config.imageModel || 'gemini-2.5-flash-image';
+
+  const generateText = async ({ prompt, system, grounded }: TextRequest) => {
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        systemInstruction: system,
+        tools: grounded ? [{ googleSearch: {} }] : undefined // Use Grounding
+      }
+    });
+
+    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+    const sources = groundingChunks.flatMap(chunk => (chunk.web?.uri ? [{ uri: chunk.web.uri, title: chunk.web.title || chunk.web.uri }] : []));
+    return { text: response.text || '', sources, usage: readUsage(response) };
+  };
+
+  return {
+    name: 'gemini',
+    model,
+    imageModel,
+    available: !!config.apiKey,
+
+    generateText,
+
+    generateJson: async (request) => {
+      // Search cannot be combined with a response schema, so grounded calls ask in the prompt
+      if (request.grounded) {
+        const { text, usage } = await generateText({ ...request, prompt: `${request.prompt}\n\n${describeSchema(request.schema)}` });
+        return parseJsonAnswer(text, usage);
+      }
+      const response = await ai.models.generateContent({
+        model,
+        contents: request.prompt,
+        config: {
+          systemInstruction: request.system,
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(request.schema)
+        }
+      });
+      return parseJsonAnswer(response.text || 'null', readUsage(response), JSON.parse);
+    },
+
+    generateImage: async ({ prompt, image }) => {
+      const response = await ai.models.generateContent({
+        model: imageModel,
+        contents: {
+          parts: [
+            { inlineData: { mimeType: image.mimeType, data: image.data } },
+            { text: prompt }
+          ]
+        }
+      });
+
+      // Loop to find image part
+      const parts = response.candidates?.[0]?.content?.parts || [];
+      for (const part of parts) {
+        if (part.inlineData && part.inlineData.data) {
+          return { image: { mimeType: part.inlineData.mimeType || 'image/jpeg', data: part.inlineData.data }, usage: readUsage(response) };
+        }
+      }
+      return { image: null, usage: readUsage(response) };
+    }
+  };
+};
@@ -1,19 +1,103 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Ancestor, TimelineEvent, SESResult } from "../types";
+import { Ancestor, TimelineEvent, SESResult, GroundingSource, ExtractedPerson, PredictionResult } from "../types";
+import { AiProvider, ImageRequest, JsonRequest, JsonSchema, TextRequest, aiError, isAiError, readAiConfig } from './aiProvider';
+import { AiUsageService } from './aiUsageService';
+import { SchemaFor, repairJson, validateJson } from './aiSchema';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiProvider } from './openaiProvider';
+import { createMockAiProvider } from './mockAiProvider';
+import { getTreeIndex } from '../utils/treeIndex';
+import { IMAGE_TOKENS } from '../utils/aiUsage';
+
+// The prompts behind every AI feature. Calls go to the configured provider (see
+// selectAiProvider): Gemini by default, an OpenAI-compatible server, or the offline mock.
+const createProvider = (): AiProvider => {
+  const config = readAiConfig();
+  if (config.provider === 'openai') return createOpenAiProvider(config);
+  if (config.provider === 'mock') return createMockAiProvider();
+  return createGeminiProvider(config);
+};
+
+const ai = createProvider();
+
+// The provider and model answering, recorded with content that is kept (see aiContentService)
+export const getAiModelInfo = () => ({ provider: ai.name, model: ai.model });
+
+// Every call is checked against the tree's AI budget first and recorded afterwards (see
+// aiUsageService)
+const generateText = async (request: TextRequest) => {
+    const call = { feature: request.feature, model: ai.model, text: `${request.system || ''}${request.prompt}` };
+    AiUsageService.checkBudget(call);
+    const result = await ai.generateText(request);
+    AiUsageService.record(call, result.usage, result.text, ai.name);
+    return result;
+};
 
-// Initialize the client. 
-// NOTE: In a production app, never expose API keys on the client side.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+const generateJson = async (request: JsonRequest) => {
+    const call = { feature: request.feature, model: ai.model, text: `${request.system || ''}${request.prompt}${JSON.stringify(request.schema)}` };
+    AiUsageService.checkBudget(call);
+    try {
+        const result = await ai.generateJson(request);
+        AiUsageService.record(call, result.usage, JSON.stringify(result.value) || '', ai.name);
+        return result.value;
+    } catch (e) {
+        // Unparseable answers were paid for too
+        if (e instanceof SyntaxError) AiUsageService.record(call, (e as any).usage || null, '', ai.name);
+        throw e;
+    }
+};
+
+const generateImage = async (request: ImageRequest) => {
+    const call = { feature: request.feature, model: ai.imageModel, text: request.prompt, imageTokens: IMAGE_TOKENS };
+    AiUsageService.checkBudget(call);
+    const result = await ai.generateImage(request);
+    AiUsageService.record(call, result.usage, '', ai.name);
+    return result.image;
+};
+
+// The features below reject with an AiError when no provider is configured or an answer
+// is unusable, and pass provider errors on, so a failure is never mistaken for content
+const unavailableError = () => aiError('unavailable', "No AI provider is configured.");
+
+// Attempts per JSON call, the first included
+const MAX_JSON_ATTEMPTS = 3;
+
+// Ask for JSON until an answer fits the schema (see aiSchema). Each retry shows the model
+// its previous answer and what was wrong with it.
+const generateValidated = async <T>(request: Omit<JsonRequest, 'schema'>, schema: SchemaFor<T>): Promise<T> => {
+    const jsonSchema = schema as JsonSchema;
+    let prompt = request.prompt;
+    let issues: string[] = [];
+    for (let attempt = 1; attempt <= MAX_JSON_ATTEMPTS; attempt++) {
+        let answer: unknown;
+        try {
+            answer = await generateJson({ ...request, prompt, schema: jsonSchema });
+        } catch (e) {
+            if (!(e instanceof SyntaxError)) throw e;
+            answer = undefined;
+            issues = [`$: not valid JSON (${e.message})`];
+        }
+        if (answer !== undefined) {
+            const repaired = repairJson(jsonSchema, answer);
+            issues = validateJson(jsonSchema, repaired);
+            if (issues.length === 0) return repaired as T;
+        }
+        console.warn(`AI ${request.feature} answer rejected (attempt ${attempt}):`, issues);
+        prompt = `${request.prompt}
+
+Your previous answer was rejected:
+${issues.slice(0, 20).map(issue => `- ${issue}`).join('\n')}
+${answer !== undefined ? `Previous answer: ${JSON.stringify(answer).slice(0, 2000)}\n` : ''}Answer again with JSON that fixes these problems.`;
+    }
+    throw aiError('invalid-output', `The AI's ${request.feature} answer did not match the expected format`, issues);
+};
 
 export interface HistoricalContextResponse {
     text: string;
-    sources: { uri: string; title: string }[];
+    sources: GroundingSource[];
 }
 
 export const generateGroundedHistory = async (ancestor: Ancestor): Promise<HistoricalContextResponse> => {
-  if (!process.env.API_KEY) {
-    return { text: "API Key is missing.", sources: [] };
-  }
+  if (!ai.available) throw unavailableError();
 
   const birth = ancestor.birthYear ? ancestor.birthYear : 'Unknown';
   const death = ancestor.deathYear ? ancestor.deathYear : 'Present';
@@ -25,37 +109,21 @@ export const generateGroundedHistory = async (ancestor: Ancestor): Promise<Histo
     Focus on events that would have impacted the daily life of a person in that era.
   `;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }] // Use Grounding
-      }
-    });
-
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    const sources = groundingChunks
-        .map((chunk: any) => chunk.web ? { uri: chunk.web.uri, title: chunk.web.title } : null)
-        .filter((s: any) => s !== null);
-
-    return {
-        text: response.text || "No context generated.",
-        sources
-    };
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    return { text: "Failed to retrieve historical context.", sources: [] };
-  }
+  const response = await generateText({ feature: 'history', prompt, grounded: true });
+  return {
+      text: response.text || "No context generated.",
+      sources: response.sources
+  };
 };
 
 export const generateFamilyStory = async (ancestor: Ancestor, allAncestors: Ancestor[], style: string = 'Standard'): Promise<string> => {
-    if (!process.env.API_KEY) return "API Key missing.";
+    if (!ai.available) throw unavailableError();
 
     // Simple context builder
-    const father = allAncestors.find(a => a.id === ancestor.fatherId);
-    const mother = allAncestors.find(a => a.id === ancestor.motherId);
-    const children = allAncestors.filter(a => a.fatherId === ancestor.id || a.motherId === ancestor.id);
+    const { byId, childrenOf } = getTreeIndex(allAncestors);
+    const father = ancestor.fatherId ? byId.get(ancestor.fatherId) : undefined;
+    const mother = ancestor.motherId ? byId.get(ancestor.motherId) : undefined;
+    const children = childrenOf.get(ancestor.id) || [];
     
     const contextLines = [
         `Name: ${ancestor.name}`,
@@ -94,23 +162,12 @@ export const generateFamilyStory = async (ancestor: Ancestor, allAncestors: Ance
              break;
     }
 
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                systemInstruction: systemInstruction
-            }
-        });
-        return response.text || "Could not generate story.";
-    } catch (error) {
-        console.error("Story Generation Error:", error);
-        return "Error generating story.";
-    }
+    const response = await generateText({ feature: 'story', prompt, system: systemInstruction });
+    return response.text || "Could not generate story.";
 };
 
 export const analyzeMissingData = async (ancestor: Ancestor): Promise<string> => {
-    if (!process.env.API_KEY) return "API Key missing.";
+    if (!ai.available) throw unavailableError();
 
     const prompt = `
         Analyze the following ancestor record and suggest high-probability missing information or areas for research.
@@ -125,19 +182,27 @@ export const analyzeMissingData = async (ancestor: Ancestor): Promise<string> =>
         Notes: ${ancestor.notes}
     `;
 
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
-        return response.text || "No suggestions found.";
-    } catch (error) {
-        return "Error analyzing data.";
-    }
+    const response = await generateText({ feature: 'research', prompt });
+    return response.text || "No suggestions found.";
+};
+
+const EXTRACTED_PERSON_SCHEMA: SchemaFor<ExtractedPerson> = {
+    type: 'object',
+    properties: {
+        name: { type: 'string' },
+        birthYear: { type: 'string', description: "Year as string, e.g. '1905'" },
+        deathYear: { type: 'string', description: "Year as string, e.g. '1980'" },
+        gender: { type: 'string', enum: ['Male', 'Female', 'Unknown'] },
+        country: { type: 'string', description: "Country of residence, e.g. 'France'" },
+        notes: { type: 'string', description: "Summary of biographical info" },
+        fatherName: { type: 'string', description: "Name of father if mentioned" },
+        motherName: { type: 'string', description: "Name of mother if mentioned" }
+    },
+    required: ["name", "gender"]
 };
 
-export const parseNaturalLanguageData = async (text: string): Promise<any> => {
-    if (!process.env.API_KEY) return null;
+export const parseNaturalLanguageData = async (text: string): Promise<ExtractedPerson> => {
+    if (!ai.available) throw unavailableError();
 
     const prompt = `
     Extract genealogical data from the text provided below. 
@@ -149,47 +214,27 @@ export const parseNaturalLanguageData = async (text: string): Promise<any> => {
     Text: "${text}"
     `;
 
-    try {
-        const response = await ai.models.generateContent({
-             model: 'gemini-2.5-flash',
-             contents: prompt,
-             config: {
-                 responseMimeType: "application/json",
-                 responseSchema: {
-                     type: Type.OBJECT,
-                     properties: {
-                         name: { type: Type.STRING },
-                         birthYear: { type: Type.STRING, description: "Year as string, e.g. '1905'" },
-                         deathYear: { type: Type.STRING, description: "Year as string, e.g. '1980'" },
-                         gender: { type: Type.STRING, description: "Male, Female, or Unknown" },
-                         country: { type: Type.STRING, description: "Country of residence, e.g. 'France'" },
-                         notes: { type: Type.STRING, description: "Summary of biographical info" },
-                         fatherName: { type: Type.STRING, description: "Name of father if mentioned" },
-                         motherName: { type: Type.STRING, description: "Name of mother if mentioned" }
-                     },
-                     required: ["name", "gender"]
-                 }
-             }
-        });
-        
-        return JSON.parse(response.text);
-    } catch (e) {
-        console.error("Parse error", e);
-        throw new Error("Failed to parse text input.");
-    }
+    return generateValidated<ExtractedPerson>({ feature: 'extract', prompt }, EXTRACTED_PERSON_SCHEMA);
 };
 
-export interface PredictionResult {
-    ancestorId: string;
-    field: string;
-    currentValue?: any;
-    predictedValue: any;
-    reasoning: string;
-    type: 'Missing' | 'Anomaly';
-}
+const PREDICTIONS_SCHEMA: SchemaFor<PredictionResult[]> = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            ancestorId: { type: 'string' },
+            field: { type: 'string', description: "The field to fill or correct, e.g. 'birthYear' or 'deathYear'" },
+            currentValue: { type: 'string', nullable: true },
+            predictedValue: { type: 'string' },
+            reasoning: { type: 'string', description: "e.g. 'Death year 1800 is before birth year 1820.'" },
+            type: { type: 'string', enum: ['Missing', 'Anomaly'] }
+        },
+        required: ['ancestorId', 'field', 'predictedValue', 'reasoning', 'type']
+    }
+};
 
 export const getPredictiveAnalysis = async (ancestors: Ancestor[]): Promise<PredictionResult[]> => {
-    if (!process.env.API_KEY) return [];
+    if (!ai.available) throw unavailableError();
 
     const simplifiedData = ancestors.map(a => ({
         id: a.id,
@@ -209,25 +254,7 @@ export const getPredictiveAnalysis = async (ancestors: Ancestor[]): Promise<Pred
     
     Use Google Search to verify historical plausibility if needed.
 
-    Return a JSON array ONLY in the following format:
-    [
-      { 
-        "ancestorId": "id", 
-        "field": "birthYear", 
-        "currentValue": null, 
-        "predictedValue": 1900, 
-        "reasoning": "Child born 1925...", 
-        "type": "Missing" 
-      },
-      { 
-        "ancestorId": "id", 
-        "field": "deathYear", 
-        "currentValue": 1800, 
-        "predictedValue": 1900, 
-        "reasoning": "Death year 1800 is before birth year 1820.", 
-        "type": "Anomaly" 
-      }
-    ]
+    Return a JSON array of predictions. Use type "Missing" for a missing value and "Anomaly" for a correction.
     
     Only provide predictions with high confidence or clear logical basis.
     
@@ -235,67 +262,44 @@ export const getPredictiveAnalysis = async (ancestors: Ancestor[]): Promise<Pred
     ${JSON.stringify(simplifiedData)}
     `;
 
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                tools: [{ googleSearch: {} }]
-            }
-        });
-
-        const text = response.text || "[]";
-        const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/) || text.match(/\[[\s\S]*\]/);
-        
-        if (jsonMatch) {
-            const jsonStr = jsonMatch[1] || jsonMatch[0];
-            return JSON.parse(jsonStr);
-        }
-        return [];
+    return generateValidated<PredictionResult[]>({ feature: 'predictions', prompt, grounded: true }, PREDICTIONS_SCHEMA);
+};
 
-    } catch (error) {
-        console.error("Predictive Analysis Error:", error);
-        return [];
+const TIMELINE_SCHEMA: SchemaFor<TimelineEvent[]> = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            year: { type: 'integer' },
+            event: { type: 'string', description: "e.g. 'End of World War II'" }
+        },
+        required: ['year', 'event']
     }
 };
 
 export const generateTimeline = async (ancestor: Ancestor): Promise<TimelineEvent[]> => {
-    if (!process.env.API_KEY) return [];
+    if (!ai.available) throw unavailableError();
 
     const countryContext = ancestor.country ? `in ${ancestor.country}` : '';
     const prompt = `
     Create a timeline of 5 to 7 major world, regional, or cultural events that occurred during the lifetime of ${ancestor.name} (${ancestor.birthYear || 'Unknown'} - ${ancestor.deathYear || 'Present'}) ${countryContext}.
     Use Google Search to find relevant events.
-    Return a strictly formatted JSON array:
-    [
-        { "year": 1945, "event": "End of World War II" }
-    ]
     `;
 
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                tools: [{ googleSearch: {} }],
-                // responseMimeType: "application/json" // REMOVED: Cannot be used with tools
-            }
-        });
+    return generateValidated<TimelineEvent[]>({ feature: 'timeline', prompt, grounded: true }, TIMELINE_SCHEMA);
+};
 
-        const text = response.text || "[]";
-        // Extract JSON from potential markdown code block
-        const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/) || text.match(/\[[\s\S]*\]/);
-        const jsonStr = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : text.replace(/```json|```/g, "").trim();
-        
-        return JSON.parse(jsonStr);
-    } catch (e) {
-        console.error("Timeline Generation Error", e);
-        return [];
-    }
+const SES_SCHEMA: SchemaFor<SESResult> = {
+    type: 'object',
+    properties: {
+        socialClass: { type: 'string', description: "e.g., Working Class / Landed Gentry / Urban Professional" },
+        reasoning: { type: 'string', description: "Brief explanation citing historical context or clues." }
+    },
+    required: ['socialClass', 'reasoning']
 };
 
 export const predictSES = async (ancestor: Ancestor): Promise<SESResult> => {
-    if (!process.env.API_KEY) return { socialClass: "Unknown", reasoning: "Unable to analyze." };
+    if (!ai.available) throw unavailableError();
 
     const prompt = `
     Predict the likely Socio-Economic Status (SES) of this ancestor based on their data and historical context.
@@ -307,38 +311,18 @@ export const predictSES = async (ancestor: Ancestor): Promise<SESResult> => {
     Died: ${ancestor.deathYear || '?'}
     Country: ${ancestor.country || '?'}
     Notes: ${ancestor.notes}
-    
-    Return a strict JSON object:
-    {
-        "socialClass": "e.g., Working Class / Landed Gentry / Urban Professional",
-        "reasoning": "Brief explanation citing historical context or clues."
-    }
     `;
 
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                tools: [{ googleSearch: {} }],
-                // responseMimeType: "application/json" // REMOVED: Cannot be used with tools
-            }
-        });
-
-        const text = response.text || "[]";
-        // Extract JSON from potential markdown code block
-        const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/) || text.match(/\{[\s\S]*\}/);
-        const jsonStr = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : text.replace(/```json|```/g, "").trim();
+    return generateValidated<SESResult>({ feature: 'ses', prompt, grounded: true }, SES_SCHEMA);
+};
 
-        return JSON.parse(jsonStr);
-    } catch (e) {
-        console.error("SES Prediction Error", e);
-        return { socialClass: "Analysis Failed", reasoning: "AI error." };
-    }
+const SEARCH_RESULT_SCHEMA: SchemaFor<string[]> = {
+    type: 'array',
+    items: { type: 'string', description: "An ancestor id" }
 };
 
 export const naturalLanguageSearch = async (query: string, ancestors: Ancestor[]): Promise<string[]> => {
-    if (!process.env.API_KEY) return [];
+    if (!ai.available) throw unavailableError();
 
     // Simplified payload for token efficiency
     const simplified = ancestors.map(a => ({
@@ -364,69 +348,34 @@ export const naturalLanguageSearch = async (query: string, ancestors: Ancestor[]
     Task: Return a JSON array containing ONLY the 'id' strings of the ancestors that match the query logic.
     Handle complex logic like "Second cousins of X", "Born in 19th century", "Died same place as father" (infer from notes or country).
     If logic is "siblings of X", find X, find parents, find other children of parents.
-    
-    Return format: ["id1", "id2"]
     `;
 
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                 responseMimeType: "application/json"
-            }
-        });
-
-        const text = response.text || "[]";
-        const cleanText = text.replace(/```json|```/g, "").trim();
-        return JSON.parse(cleanText);
-    } catch (e) {
-        console.error("RQL Search Error", e);
-        return [];
-    }
+    return generateValidated<string[]>({ feature: 'search', prompt }, SEARCH_RESULT_SCHEMA);
 };
 
 export const generateStylizedImage = async (base64Image: string, style: string): Promise<string | null> => {
-    if (!process.env.API_KEY) return null;
+    if (!ai.available) return null;
 
     // IMPORTANT: Strip the prefix if present (e.g., "data:image/jpeg;base64,")
     const cleanBase64 = base64Image.split(',')[1] || base64Image;
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: {
-                parts: [
-                    {
-                        inlineData: {
-                            mimeType: 'image/jpeg',
-                            data: cleanBase64
-                        }
-                    },
-                    {
-                        text: `Transform this portrait to look like a ${style}. Maintain the person's facial features and identity strictly, but change the clothing, hairstyle, background, and photographic medium to match the specified era or style. High quality, photorealistic.`
-                    }
-                ]
-            }
+        const result = await generateImage({
+            feature: 'image',
+            prompt: `Transform this portrait to look like a ${style}. Maintain the person's facial features and identity strictly, but change the clothing, hairstyle, background, and photographic medium to match the specified era or style. High quality, photorealistic.`,
+            image: { mimeType: 'image/jpeg', data: cleanBase64 }
         });
-
-        // Loop to find image part
-        const parts = response.candidates?.[0]?.content?.parts || [];
-        for (const part of parts) {
-            if (part.inlineData && part.inlineData.data) {
-                return `data:image/jpeg;base64,${part.inlineData.data}`;
-            }
-        }
-        return null;
-
+        return result ? `data:${result.mimeType};base64,${result.data}` : null;
     } catch (e) {
+        // A blocked call is the user's to know about; other failures mean no image
+        if (isAiError(e)) throw e;
         console.error("Image Stylization Error", e);
         return null;
     }
 };
 
 export const generateAlternateHistory = async (ancestor: Ancestor, scenario: string): Promise<string> => {
-    if (!process.env.API_KEY) return "API Key missing.";
+    if (!ai.available) throw unavailableError();
 
     const prompt = `
     I am running a "What If?" simulation for my ancestor.
@@ -447,14 +396,6 @@ export const generateAlternateHistory = async (ancestor: Ancestor, scenario: str
     Maintain historical plausibility for the era.
     `;
 
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
-        return response.text || "Simulation inconclusive.";
-    } catch (e) {
-        console.error("Alternate History Error", e);
-        return "Failed to generate simulation.";
-    }
-};
\ No newline at end of file
+    const response = await generateText({ feature: 'simulation', prompt });
+    return response.text || "Simulation inconclusive.";
+};
@@ -0,0 +1,417 @@
+import {
+  ArrayContainsFilter,
+  CollectionPath,
+  StorageAdapter,
+  StoredDoc,
+  SyncStatus,
+  TREE_COLLECTIONS,
+  WriteOp,
+  generateDocId,
+  matchesFilter,
+  sortNewestFirst
+} from './storageAdapter';
+
+// --- LOCAL (INDEXEDDB) BACKEND ---
+// Every collection is kept in IndexedDB and in memory, so the app works with no network.
+// With a remote adapter attached, each local write is also queued in an outbox that is
+// replayed against Firestore in order once it is reachable, and remote snapshots are
+// mirrored back in. Documents with queued changes keep their local version until the
+// queue drains; after that the server copy wins.
+
+const DB_NAME = 'ancestory-local';
+// v1 had one object store per collection; v2 keeps every collection in one store keyed by path
+const DB_VERSION = 2;
+const DOCUMENTS_STORE = 'documents';
+const OUTBOX_STORE = 'outbox';
+const RETRY_DELAY_MS = 30000;
+
+// Rejections that retrying cannot fix; the queued change is dropped
+const REJECTED_CODES = ['permission-denied', 'not-found', 'invalid-argument', 'already-exists'];
+
+interface OutboxEntry {
+  seq: number;
+  ops: WriteOp[];
+  queuedAt: number;
+}
+
+interface StoredRecord {
+  collection: CollectionPath;
+  id: string;
+  data: StoredDoc;
+}
+
+interface Listener {
+  callback: (docs: StoredDoc[]) => void;
+  filter?: ArrayContainsFilter;
+}
+
+interface RemoteSubscription {
+  path: CollectionPath;
+  filter?: ArrayContainsFilter;
+  unsubscribe: () => void;
+}
+
+const subscriptionKey = (path: CollectionPath, filter?: ArrayContainsFilter) => {
+  return filter ? `${path}?${filter.field}=${filter.value}` : path;
+};
+
+interface DocChange {
+  collection: CollectionPath;
+  id: string;
+  doc: StoredDoc | null;
+}
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+// Move v1 per-collection stores into the shared store; they all belonged to the default tree
+const migrateV1Stores = (database: IDBDatabase, tx: IDBTransaction) => {
+  const documents = tx.objectStore(DOCUMENTS_STORE);
+  TREE_COLLECTIONS.forEach(name => {
+    if (!database.objectStoreNames.contains(name)) return;
+    const cursorRequest = tx.objectStore(name).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        const doc = cursor.value as StoredDoc;
+        documents.put({ collection: name, id: doc.id, data: doc } as StoredRecord);
+        cursor.continue();
+      } else {
+        database.deleteObjectStore(name);
+      }
+    };
+  });
+};
+
+// Resolves to null where IndexedDB is missing (or blocked), leaving data in memory only
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+  return new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(DOCUMENTS_STORE)) {
+        database.createObjectStore(DOCUMENTS_STORE, { keyPath: ['collection', 'id'] });
+      }
+      if (!database.objectStoreNames.contains(OUTBOX_STORE)) {
+        database.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true });
+      }
+      if (request.transaction) migrateV1Stores(database, request.transaction);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn("IndexedDB unavailable, keeping data in memory only:", request.error);
+      resolve(null);
+    };
+  });
+};
+
+const notFoundError = (op: WriteOp) => Object.assign(
+  new Error(`No document to update: ${op.collection}/${op.id}`),
+  { code: 'not-found' }
+);
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+// Pass the Firestore adapter as `remote` to sync; without one the data never leaves the device
+export const createLocalAdapter = (remote: StorageAdapter | null): StorageAdapter => {
+  const docs = new Map<CollectionPath, Map<string, StoredDoc>>();
+  let outbox: OutboxEntry[] = [];
+  let database: IDBDatabase | null = null;
+
+  const listeners = new Map<CollectionPath, Set<Listener>>();
+  const statusListeners = new Set<(status: SyncStatus) => void>();
+  // Firestore listeners by subscription key, with the last snapshot each delivered;
+  // the snapshots are re-applied as queued changes clear
+  const remoteSubscriptions = new Map<string, RemoteSubscription>();
+  const remoteSnapshots = new Map<string, StoredDoc[]>();
+  let flushing = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const collectionDocs = (path: CollectionPath): Map<string, StoredDoc> => {
+    if (!docs.has(path)) docs.set(path, new Map());
+    return docs.get(path)!;
+  };
+
+  const ready = (async () => {
+    database = await openDatabase();
+    if (!database) return;
+    const tx = database.transaction([DOCUMENTS_STORE, OUTBOX_STORE], 'readonly');
+    const stored = await requestResult(tx.objectStore(DOCUMENTS_STORE).getAll() as IDBRequest<StoredRecord[]>);
+    stored.forEach(r => collectionDocs(r.collection).set(r.id, r.data));
+    outbox = await requestResult(tx.objectStore(OUTBOX_STORE).getAll() as IDBRequest<OutboxEntry[]>);
+    outbox.sort((a, b) => a.seq - b.seq);
+  })();
+
+  const currentStatus = (): SyncStatus => ({
+    backend: remote ? 'local' : 'local-only',
+    online: isOnline(),
+    pending: outbox.length,
+    syncing: flushing
+  });
+
+  const emitStatus = () => {
+    const status = currentStatus();
+    statusListeners.forEach(listener => listener(status));
+  };
+
+  const snapshotFor = (path: CollectionPath, filter?: ArrayContainsFilter) => {
+    return sortNewestFirst(Array.from(collectionDocs(path).values()).filter(d => matchesFilter(d, filter)));
+  };
+
+  const notify = (path: CollectionPath) => {
+    listeners.get(path)?.forEach(listener => listener.callback(snapshotFor(path, listener.filter)));
+  };
+
+  const pendingIds = (path: CollectionPath): Set<string> => {
+    const ids = new Set<string>();
+    outbox.forEach(entry => entry.ops.forEach(op => { if (op.collection === path) ids.add(op.id); }));
+    return ids;
+  };
+
+  // Server documents, except where a queued local change has not reached the server yet
+  const overlayPending = (path: CollectionPath, remoteDocs: StoredDoc[]): Map<string, StoredDoc> => {
+    const keep = pendingIds(path);
+    const combined = new Map<string, StoredDoc>();
+    remoteDocs.forEach(d => { if (!keep.has(d.id)) combined.set(d.id, d); });
+    collectionDocs(path).forEach((d, id) => { if (keep.has(id)) combined.set(id, d); });
+    return combined;
+  };
+
+  // Write final document states (and optionally an outbox entry) in one IndexedDB transaction
+  const persist = async (changes: DocChange[], queued?: Omit<OutboxEntry, 'seq'>) => {
+    if (!database) return undefined;
+    const tx = database.transaction(queued ? [DOCUMENTS_STORE, OUTBOX_STORE] : [DOCUMENTS_STORE], 'readwrite');
+    const documents = tx.objectStore(DOCUMENTS_STORE);
+    changes.forEach(c => {
+      if (c.doc) documents.put({ collection: c.collection, id: c.id, data: c.doc } as StoredRecord);
+      else documents.delete([c.collection, c.id]);
+    });
+    const seqRequest = queued ? tx.objectStore(OUTBOX_STORE).add(queued) : null;
+    await transactionDone(tx);
+    return seqRequest ? seqRequest.result as number : undefined;
+  };
+
+  // Bring the documents a Firestore listener covers in line with its last snapshot
+  const mirror = async (key: string) => {
+    const remoteDocs = remoteSnapshots.get(key);
+    const subscription = remoteSubscriptions.get(key);
+    if (!remoteDocs || !subscription) return;
+    const { path, filter } = subscription;
+    const current = collectionDocs(path);
+    const keep = pendingIds(path);
+    const next = new Map(current);
+    current.forEach((d, id) => { if (!keep.has(id) && matchesFilter(d, filter)) next.delete(id); });
+    remoteDocs.forEach(d => { if (!keep.has(d.id)) next.set(d.id, d); });
+
+    const changes: DocChange[] = [];
+    current.forEach((_, id) => { if (!next.has(id)) changes.push({ collection: path, id, doc: null }); });
+    next.forEach((d, id) => { if (current.get(id) !== d) changes.push({ collection: path, id, doc: d }); });
+    if (changes.length === 0) return;
+
+    docs.set(path, next);
+    notify(path);
+    try {
+      await persist(changes);
+    } catch (e) {
+      console.error("Error caching remote documents locally: ", e);
+    }
+  };
+
+  const mirrorCollection = (path: CollectionPath) => {
+    return Promise.all(Array.from(remoteSubscriptions.entries()).filter(([, sub]) => sub.path === path).map(([key]) => mirror(key)));
+  };
+
+  // Firestore listeners follow local ones, so only collections in view are mirrored
+  const connectRemote = (path: CollectionPath, filter?: ArrayContainsFilter) => {
+    const key = subscriptionKey(path, filter);
+    if (!remote || remoteSubscriptions.has(key)) return;
+    const unsubscribe = remote.subscribe(path, (remoteDocs) => {
+      remoteSnapshots.set(key, remoteDocs);
+      ready.then(() => mirror(key));
+    }, (error) => {
+      // Keep working from the local copy; the listener is re-attached on the next reconnect
+      remoteSubscriptions.delete(key);
+      remoteSnapshots.delete(key);
+      console.warn(`Firestore sync for ${key} unavailable:`, error?.code || error);
+    }, filter);
+    remoteSubscriptions.set(key, { path, filter, unsubscribe });
+  };
+
+  const disconnectRemote = (key: string) => {
+    remoteSubscriptions.get(key)?.unsubscribe();
+    remoteSubscriptions.delete(key);
+    remoteSnapshots.delete(key);
+  };
+
+  const reconnect = () => {
+    listeners.forEach((set, path) => set.forEach(listener => connectRemote(path, listener.filter)));
+    flush();
+  };
+
+  const scheduleRetry = () => {
+    if (retryTimer) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      reconnect();
+    }, RETRY_DELAY_MS);
+  };
+
+  // Replay queued changes against Firestore, oldest first, each batch as it was written
+  const flush = async () => {
+    if (!remote || flushing || !isOnline()) return;
+    flushing = true;
+    emitStatus();
+    try {
+      await ready;
+      while (outbox.length > 0) {
+        const entry = outbox[0];
+        try {
+          await remote.batch(entry.ops);
+        } catch (e: any) {
+          if (!REJECTED_CODES.includes(e?.code)) {
+            scheduleRetry();
+            break;
+          }
+          console.warn("Firestore rejected a queued change; keeping the server copy:", e);
+        }
+        if (database) {
+          const tx = database.transaction(OUTBOX_STORE, 'readwrite');
+          tx.objectStore(OUTBOX_STORE).delete(entry.seq);
+          await transactionDone(tx);
+        }
+        outbox = outbox.slice(1);
+        emitStatus();
+        await Promise.all(Array.from(new Set(entry.ops.map(op => op.collection))).map(mirrorCollection));
+      }
+    } catch (e) {
+      console.error("Error syncing local changes: ", e);
+      scheduleRetry();
+    } finally {
+      flushing = false;
+      emitStatus();
+    }
+  };
+
+  // Apply a batch all-or-nothing: stage it on copies, persist, then swap the copies in
+  const write = async (ops: WriteOp[]) => {
+    await ready;
+    const staged = new Map<CollectionPath, Map<string, StoredDoc>>();
+    const stage = (path: CollectionPath) => {
+      if (!staged.has(path)) staged.set(path, new Map(collectionDocs(path)));
+      return staged.get(path)!;
+    };
+    ops.forEach(op => {
+      const target = stage(op.collection);
+      if (op.type === 'set') {
+        target.set(op.id, { ...op.data, id: op.id });
+      } else if (op.type === 'update') {
+        const existing = target.get(op.id);
+        if (!existing) throw notFoundError(op);
+        target.set(op.id, { ...existing, ...op.data, id: op.id });
+      } else {
+        target.delete(op.id);
+      }
+    });
+
+    const touched = new Map<string, { collection: CollectionPath; id: string }>();
+    ops.forEach(op => touched.set(`${op.collection}/${op.id}`, { collection: op.collection, id: op.id }));
+    const changes = Array.from(touched.values()).map(t => ({ ...t, doc: staged.get(t.collection)!.get(t.id) || null }));
+    const queued = remote ? { ops, queuedAt: Date.now() } : undefined;
+    const seq = await persist(changes, queued);
+
+    staged.forEach((next, path) => { docs.set(path, next); });
+    if (queued) outbox = [...outbox, { ...queued, seq: seq ?? Date.now() }];
+    staged.forEach((_, path) => notify(path));
+    emitStatus();
+    flush();
+  };
+
+  if (remote && typeof window !== 'undefined') {
+    window.addEventListener('online', reconnect);
+    window.addEventListener('offline', emitStatus);
+  }
+  ready.then(flush);
+
+  return {
+    backend: remote ? 'local' : 'local-only',
+
+    subscribe: (path, callback, _onError, filter) => {
+      const listener: Listener = { callback, filter };
+      if (!listeners.has(path)) listeners.set(path, new Set());
+      listeners.get(path)!.add(listener);
+      ready.then(() => {
+        if (listeners.get(path)?.has(listener)) callback(snapshotFor(path, filter));
+      });
+      // Subscriptions start after sign-in, so Firestore is only contacted once it can answer
+      connectRemote(path, filter);
+      return () => {
+        const set = listeners.get(path);
+        set?.delete(listener);
+        const key = subscriptionKey(path, filter);
+        if (!Array.from(set || []).some(l => subscriptionKey(path, l.filter) === key)) disconnectRemote(key);
+      };
+    },
+
+    get: async (path, id) => {
+      await ready;
+      if (remote && isOnline() && !pendingIds(path).has(id)) {
+        try {
+          return await remote.get(path, id);
+        } catch (e: any) {
+          if (e?.code === 'permission-denied') throw e;
+        }
+      }
+      return collectionDocs(path).get(id) || null;
+    },
+
+    add: async (path, data) => {
+      const id = generateDocId();
+      await write([{ type: 'set', collection: path, id, data }]);
+      return id;
+    },
+
+    batch: write,
+
+    // Ask Firestore when it is reachable, so a fresh device does not seed over an existing tree
+    isEmpty: async (path) => {
+      await ready;
+      if (collectionDocs(path).size > 0) return false;
+      if (remote && isOnline()) {
+        try {
+          return await remote.isEmpty(path);
+        } catch (e) {
+          return false; // Unsure, so do not seed
+        }
+      }
+      return true;
+    },
+
+    // Prefer the server's copy when reachable; collections never opened here may not be cached
+    getAll: async (path) => {
+      await ready;
+      if (remote && isOnline()) {
+        try {
+          return Array.from(overlayPending(path, await remote.getAll(path)).values());
+        } catch (e) {
+          console.warn(`Reading ${path} from Firestore failed, using the local copy:`, e);
+        }
+      }
+      return Array.from(collectionDocs(path).values());
+    },
+
+    subscribeStatus: (callback) => {
+      statusListeners.add(callback);
+      callback(currentStatus());
+      return () => { statusListeners.delete(callback); };
+    }
+  };
+};
@@ -0,0 +1,110 @@
+import { AiFeature, GroundingSource } from '../types';
+import { AiProvider, JsonSchema } from './aiProvider';
+
+// Canned answers per feature, for working on AI features offline and for tests. Text
+// features have a few variants; the prompt picks one, so the same input always gets the
+// same answer. The mock reports no token usage; it is counted from the text instead.
+export interface MockAiFixtures {
+  text: Partial<Record<AiFeature, string[]>>;
+  json: Partial<Record<AiFeature, unknown>>;
+  sources: GroundingSource[];
+}
+
+export const MOCK_AI_FIXTURES: MockAiFixtures = {
+  text: {
+    history: [
+      "This lifetime spanned rapid industrialisation: railways reached most market towns, factory work drew families from the land, and compulsory schooling was introduced.",
+      "Their years were shaped by war and recovery. Rationing, conscription and the rebuilding that followed touched almost every household in the region."
+    ],
+    story: [
+      "Born into a close household, they grew up amid the rhythms of the local community. Work came early, family came first, and the stories they left behind are still told by their descendants.",
+      "Records sketch a life of steady labour and quiet resilience. They married, raised children, and saw the world around them change beyond recognition."
+    ],
+    research: [
+      "- Search the census returns for each decade of their life.\n- Check parish or civil registers for a marriage record.\n- Look for military service records if they were of age during a major conflict."
+    ],
+    simulation: [
+      "Had events turned out differently, they might have left home for the city, trading the family trade for a clerk's desk. Their children would have grown up in rented rooms rather than on the land, and the family's story would have followed the growth of the city instead."
+    ]
+  },
+  json: {
+    extract: {
+      name: "Mary Example",
+      birthYear: "1872",
+      deathYear: "1941",
+      gender: "Female",
+      country: "England",
+      notes: "Worked as a seamstress. Married Thomas Example in 1895.",
+      fatherName: "John Example",
+      motherName: "Ann Example"
+    },
+    predictions: [],
+    timeline: [
+      { year: 1851, event: "The Great Exhibition opens in London" },
+      { year: 1869, event: "The Suez Canal opens" },
+      { year: 1914, event: "The First World War begins" },
+      { year: 1918, event: "The First World War ends" },
+      { year: 1929, event: "The Wall Street Crash starts the Great Depression" }
+    ],
+    ses: {
+      socialClass: "Working Class",
+      reasoning: "Mock answer: occupations recorded for the family and the era point to manual work."
+    },
+    search: []
+  },
+  sources: [
+    { uri: "https://example.org/history/industrial-revolution", title: "The Industrial Revolution (mock source)" },
+    { uri: "https://example.org/history/daily-life", title: "Daily life in the nineteenth century (mock source)" }
+  ]
+};
+
+// FNV-1a; enough to spread prompts over a handful of variants
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// A placeholder value of the right shape, for features without a fixture
+const sampleFromSchema = (schema: JsonSchema): unknown => {
+  switch (schema.type) {
+    case 'string': return schema.enum ? schema.enum[0] : 'mock';
+    case 'number':
+    case 'integer': return 0;
+    case 'boolean': return false;
+    case 'array': return [];
+    case 'object': {
+      const value: Record<string, unknown> = {};
+      (schema.required || []).forEach(key => { value[key] = sampleFromSchema(schema.properties[key]); });
+      return value;
+    }
+  }
+};
+
+export const createMockAiProvider = (fixtures: MockAiFixtures = MOCK_AI_FIXTURES): AiProvider => ({
+  name: 'mock',
+  model: 'mock',
+  imageModel: 'mock',
+  available: true,
+
+  generateText: async ({ feature, prompt, grounded }) => {
+    const variants = fixtures.text[feature] || [`Mock ${feature} response.`];
+    return {
+      text: variants[hashText(prompt) % variants.length],
+      sources: grounded ? fixtures.sources : [],
+      usage: null
+    };
+  },
+
+  // Copied, so callers can change what they get back without touching the fixtures
+  generateJson: async ({ feature, schema }) => {
+    const fixture = feature in fixtures.json ? fixtures.json[feature] : sampleFromSchema(schema);
+    return { value: JSON.parse(JSON.stringify(fixture ?? null)), usage: null };
+  },
+
+  // The portrait comes back unchanged
+  generateImage: async ({ image }) => ({ image: { ...image }, usage: null })
+});
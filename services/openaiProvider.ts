@@ -0,0 +1,70 @@
+import { AiTokenUsage } from '../types';
+import { AiConfig, AiProvider, TextRequest, TextResult, describeSchema, parseJsonAnswer } from './aiProvider';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+const httpError = async (response: Response) => Object.assign(
+  new Error(`AI server responded ${response.status}: ${(await response.text()).slice(0, 200)}`),
+  { code: response.status }
+);
+
+// Chat completions report prompt/completion tokens, image edits input/output tokens;
+// servers that count nothing send no usage at all
+const readUsage = (usage: any): AiTokenUsage | null => usage ? {
+  inputTokens: usage.prompt_tokens ?? usage.input_tokens ?? 0,
+  outputTokens: usage.completion_tokens ?? usage.output_tokens ?? 0
+} : null;
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, or self-hosted
+// models behind Ollama, vLLM, llama.cpp and the like. There is no web search, so grounded
+// requests are answered from the model alone and cite no sources.
+export const createOpenAiProvider = (config: AiConfig): AiProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+  const model = config.model || 'gpt-4o-mini';
+  const imageModel = config.imageModel || 'gpt-image-1';
+  const authHeaders: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+  const complete = async ({ prompt, system }: TextRequest): Promise<TextResult> => {
+    const messages = [
+      ...(system ? [{ role: 'system', content: system }] : []),
+      { role: 'user', content: prompt }
+    ];
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify({ model, messages })
+    });
+    if (!response.ok) throw await httpError(response);
+    const data = await response.json();
+    return { text: data.choices?.[0]?.message?.content || '', sources: [], usage: readUsage(data.usage) };
+  };
+
+  return {
+    name: 'openai',
+    model,
+    imageModel,
+    // Self-hosted servers usually need no key, only an address
+    available: !!config.apiKey || !!config.baseUrl,
+
+    generateText: complete,
+
+    // Servers differ in how (and whether) they enforce a schema, so it goes in the prompt
+    generateJson: async (request) => {
+      const { text, usage } = await complete({ ...request, prompt: `${request.prompt}\n\n${describeSchema(request.schema)}` });
+      return parseJsonAnswer(text, usage);
+    },
+
+    generateImage: async ({ prompt, image }) => {
+      const bytes = Uint8Array.from(atob(image.data), c => c.charCodeAt(0));
+      const form = new FormData();
+      form.append('model', imageModel);
+      form.append('prompt', prompt);
+      form.append('image', new Blob([bytes], { type: image.mimeType }), 'portrait');
+      const response = await fetch(`${baseUrl}/images/edits`, { method: 'POST', headers: authHeaders, body: form });
+      if (!response.ok) throw await httpError(response);
+      const data = await response.json();
+      const result = data.data?.[0]?.b64_json;
+      return { image: result ? { mimeType: 'image/png', data: result } : null, usage: readUsage(data.usage) };
+    }
+  };
+};
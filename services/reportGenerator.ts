@@ -1,12 +1,71 @@
 import { jsPDF } from "jspdf";
 import { Ancestor } from "../types";
 import { calculateStats } from "../utils/genealogy";
+import { compareByBirth, formatLifeDate } from "../utils/dates";
 
 interface ReportImages {
   tree?: string;
   three?: string;
+  fan?: string;
+  wheel?: string;
 }
 
+// Rasterises a rendered chart for the PDF. Styles must be inline attributes: classes
+// (Tailwind) do not survive serialisation.
+export const renderSvgToPng = (svg: SVGSVGElement, width: number, height: number, background = '#0f172a'): Promise<string> => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  const svgData = new XMLSerializer().serializeToString(clone);
+  return new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    const img = new Image();
+    img.onload = () => {
+      if (!ctx) return reject(new Error('Canvas unavailable'));
+      // PDFs don't like transparent images
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, width, height);
+      ctx.drawImage(img, 0, 0, width, height);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    img.onerror = () => reject(new Error('Chart could not be rendered'));
+    img.src = 'data:image/svg+xml;base64,' + btoa(unescape(encodeURIComponent(svgData)));
+  });
+};
+
+// One chart on a landscape page, for printing and sharing a single view
+export const generateChartReport = (title: string, subtitle: string, image: string, fileName: string) => {
+  const doc = new jsPDF({ orientation: 'landscape' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 12;
+
+  doc.setFontSize(18);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(15, 23, 42);
+  doc.text(title, pageWidth / 2, margin + 4, { align: "center" });
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(100, 116, 139);
+  doc.text(subtitle, pageWidth / 2, margin + 10, { align: "center" });
+
+  // Fit the image into what is left of the page, keeping its proportions
+  const top = margin + 16;
+  const props = doc.getImageProperties(image);
+  const scale = Math.min((pageWidth - margin * 2) / props.width, (pageHeight - top - margin) / props.height);
+  const width = props.width * scale;
+  const height = props.height * scale;
+  doc.addImage(image, 'PNG', (pageWidth - width) / 2, top, width, height);
+
+  doc.setFontSize(8);
+  doc.setTextColor(150);
+  doc.text(`Generated on ${new Date().toLocaleDateString()}`, pageWidth - margin, pageHeight - 5, { align: "right" });
+  doc.save(fileName);
+};
+
 export const generateFamilyReport = (ancestors: Ancestor[], images?: ReportImages) => {
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.getWidth();
@@ -70,7 +129,7 @@ export const generateFamilyReport = (ancestors: Ancestor[], images?: ReportImage
     doc.setTextColor(0);
   };
 
-  const sortedAncestors = [...ancestors].sort((a, b) => (a.birthYear || 9999) - (b.birthYear || 9999));
+  const sortedAncestors = [...ancestors].sort(compareByBirth);
   const stats = calculateStats(ancestors);
 
   // ==========================
@@ -106,6 +165,7 @@ export const generateFamilyReport = (ancestors: Ancestor[], images?: ReportImage
   const toc = [
       "Family Overview & Statistics",
       "Family Tree Visualization",
+      "Fan Chart & Descendant Wheel",
       "3D World Map",
       "Ancestral Records (Chronological)"
   ];
@@ -158,6 +218,21 @@ export const generateFamilyReport = (ancestors: Ancestor[], images?: ReportImage
     addNewPage();
   }
 
+  // RADIAL CHARTS (one per page, scaled to fit)
+  const addChartPage = (title: string, image: string) => {
+    addSectionTitle(title);
+    try {
+        const props = doc.getImageProperties(image);
+        const scale = Math.min((pageWidth - margin * 2) / props.width, (pageHeight - cursorY - margin) / props.height);
+        doc.addImage(image, 'PNG', (pageWidth - props.width * scale) / 2, cursorY, props.width * scale, props.height * scale);
+    } catch (e) {
+        addText(`(${title} Not Available)`);
+    }
+    addNewPage();
+  };
+  if (images?.fan) addChartPage("Fan Chart", images.fan);
+  if (images?.wheel) addChartPage("Descendant Wheel", images.wheel);
+
   // 3D VIEW
   if (images?.three) {
     addSectionTitle("Global Family Footprint");
@@ -194,7 +269,7 @@ export const generateFamilyReport = (ancestors: Ancestor[], images?: ReportImage
     // Dates
     doc.setFont("helvetica", "normal");
     doc.setTextColor(71, 85, 105);
-    const dateStr = `${person.birthYear || '?'} - ${person.deathYear || 'Present'}`;
+    const dateStr = `${formatLifeDate(person, 'birth') || '?'} - ${formatLifeDate(person, 'death') || 'Present'}`;
     doc.text(dateStr, pageWidth - margin - 5, cursorY + 3, { align: "right" });
     
     cursorY += 12;
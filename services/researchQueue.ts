@@ -0,0 +1,250 @@
+import { Ancestor } from '../types';
+import { StorageService } from './storage';
+import { generateAiContent } from './aiContentService';
+import { describeAiError, isAiError } from './aiProvider';
+import { generateDocId } from './storageAdapter';
+import { getAiRecordHash } from '../utils/aiContent';
+import { getTreeIndex } from '../utils/treeIndex';
+import {
+  ResearchBranch,
+  ResearchJob,
+  ResearchKind,
+  ResearchTask,
+  describeBranch,
+  previewAiContent,
+  selectBranch
+} from '../utils/research';
+
+// --- RESEARCH QUEUE ---
+// Runs batch research jobs (utils/research.ts) in the background while the app is open.
+// Calls are spread out to stay within the provider's limits, failures are retried with
+// backoff, and the queue is saved in the browser so jobs carry on after a reload. Only
+// jobs of the open tree run; App keeps the queue told which tree that is.
+
+const STORAGE_KEY = 'ancestry-research-queue';
+const MAX_CONCURRENT = 2;
+const MAX_CALLS_PER_MINUTE = 10;
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_MS = 5000; // Doubled for every further attempt
+
+// Tasks cut off by a reload are queued again
+const loadJobs = (): ResearchJob[] => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    const saved: ResearchJob[] = stored ? JSON.parse(stored) : [];
+    return saved.map(job => ({
+      ...job,
+      tasks: job.tasks.map(task => (task.status === 'running' ? { ...task, status: 'queued' } : task))
+    }));
+  } catch (e) {
+    console.warn("Could not restore the research queue:", e);
+    return [];
+  }
+};
+
+let jobs = loadJobs(); // Oldest first, which is also the order they run in
+const listeners = new Set<(jobs: ResearchJob[]) => void>();
+let openTree: { treeId: string; ancestors: Ancestor[] } | null = null;
+let running = 0;
+const callTimes: number[] = []; // When calls started, over the last minute
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+const saveJobs = () => {
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+  } catch (e) {
+    console.warn("Could not save the research queue:", e);
+  }
+};
+
+// Running jobs with nothing left to do are done
+const withStatus = (job: ResearchJob): ResearchJob =>
+  job.status === 'running' && !job.tasks.some(t => t.status === 'queued' || t.status === 'running')
+    ? { ...job, status: 'done' }
+    : job;
+
+const setJobs = (next: ResearchJob[]) => {
+  jobs = next.map(withStatus);
+  saveJobs();
+  listeners.forEach(listener => listener(jobs));
+};
+
+const updateJob = (jobId: string, update: (job: ResearchJob) => ResearchJob) => {
+  setJobs(jobs.map(job => (job.id === jobId ? update(job) : job)));
+};
+
+const updateTask = (jobId: string, taskId: string, changes: Partial<ResearchTask>) => {
+  updateJob(jobId, job => ({ ...job, tasks: job.tasks.map(t => (t.id === taskId ? { ...t, ...changes } : t)) }));
+};
+
+// Provider errors worth another attempt: network failures, rate limits and server errors.
+// Answers that failed validation were already retried (see geminiService).
+const isRetryable = (error: any) => {
+  if (isAiError(error)) return false;
+  const status = error?.status ?? (typeof error?.code === 'number' ? error.code : undefined);
+  return !(status >= 400 && status < 500 && status !== 408 && status !== 429);
+};
+
+const retryDelay = (attempts: number) => RETRY_BASE_MS * 2 ** (attempts - 1) * (0.75 + Math.random() * 0.5);
+
+const runTask = async (job: ResearchJob, task: ResearchTask, ancestors: Ancestor[]) => {
+  const attempts = task.attempts + 1;
+  running++;
+  callTimes.push(Date.now());
+  updateTask(job.id, task.id, { status: 'running', attempts, retryAt: undefined });
+  try {
+    const person = getTreeIndex(ancestors).byId.get(task.ancestorId);
+    if (!person) {
+      updateTask(job.id, task.id, { status: 'failed', error: "No longer in the tree.", finishedAt: Date.now() });
+      return;
+    }
+    const entry = await generateAiContent(task.kind, person, ancestors);
+    updateTask(job.id, task.id, {
+      status: 'done',
+      entryId: entry.id || undefined,
+      preview: previewAiContent(entry),
+      error: undefined,
+      finishedAt: Date.now()
+    });
+  } catch (e) {
+    const error = describeAiError(e);
+    if (isAiError(e) && (e.code === 'unavailable' || e.code === 'over-budget')) {
+      // Every task would fail the same way, so the job waits to be resumed
+      updateTask(job.id, task.id, { status: 'queued', attempts: task.attempts, error });
+      updateJob(job.id, j => (j.status === 'running' ? { ...j, status: 'paused', error } : j));
+    } else if (isRetryable(e) && attempts < MAX_ATTEMPTS) {
+      console.warn(`Research task ${task.id} failed (attempt ${attempts}), retrying:`, e);
+      updateTask(job.id, task.id, { status: 'queued', retryAt: Date.now() + retryDelay(attempts), error });
+    } else {
+      console.error(`Research task ${task.id} failed:`, e);
+      updateTask(job.id, task.id, { status: 'failed', error, finishedAt: Date.now() });
+    }
+  } finally {
+    running--;
+    setTimeout(pump, 0); // Not from inside pump's own loop
+  }
+};
+
+// Start as many tasks as the limits allow, and wake up again when the next one may start
+const pump = () => {
+  if (wakeTimer) clearTimeout(wakeTimer);
+  wakeTimer = null;
+  if (!openTree || openTree.ancestors.length === 0) return; // Not loaded yet
+  const { treeId, ancestors } = openTree;
+  const now = Date.now();
+  while (callTimes.length > 0 && callTimes[0] <= now - 60000) callTimes.shift();
+
+  let wakeAt = Infinity;
+  const started = new Set<string>();
+  while (running < MAX_CONCURRENT) {
+    if (callTimes.length >= MAX_CALLS_PER_MINUTE) {
+      wakeAt = Math.min(wakeAt, callTimes[0] + 60000);
+      break;
+    }
+    let next: { job: ResearchJob; task: ResearchTask } | null = null;
+    for (const job of jobs) {
+      if (job.status !== 'running' || job.treeId !== treeId) continue;
+      for (const task of job.tasks) {
+        if (task.status !== 'queued' || started.has(task.id)) continue;
+        if (task.retryAt && task.retryAt > now) {
+          wakeAt = Math.min(wakeAt, task.retryAt);
+          continue;
+        }
+        next = { job, task };
+        break;
+      }
+      if (next) break;
+    }
+    if (!next) break;
+    started.add(next.task.id);
+    runTask(next.job, next.task, ancestors);
+  }
+  if (wakeAt < Infinity) wakeTimer = setTimeout(pump, Math.max(0, wakeAt - now));
+};
+
+export interface ResearchRequest {
+  treeId: string;
+  ancestors: Ancestor[];
+  branch: ResearchBranch;
+  kinds: ResearchKind[];
+  // Leave out people whose kept content of a kind is still up to date
+  skipFresh: boolean;
+}
+
+export const ResearchQueue = {
+  // Called with the jobs now and after every change; returns the unsubscribe function
+  subscribe: (listener: (jobs: ResearchJob[]) => void) => {
+    listeners.add(listener);
+    listener(jobs);
+    return () => { listeners.delete(listener); };
+  },
+
+  // The open tree and its people; jobs of other trees wait until theirs is opened
+  setTree: (treeId: string, ancestors: Ancestor[]) => {
+    openTree = { treeId, ancestors };
+    pump();
+  },
+
+  enqueue: async ({ treeId, ancestors, branch, kinds, skipFresh }: ResearchRequest): Promise<ResearchJob> => {
+    const people = selectBranch(ancestors, branch);
+    const fresh = new Set<string>();
+    if (skipFresh) {
+      const { byId } = getTreeIndex(ancestors);
+      (await StorageService.getAllAiContent()).forEach(entry => {
+        const person = byId.get(entry.ancestorIds[0]);
+        if (person && entry.recordHash === getAiRecordHash(entry.kind, person, ancestors)) fresh.add(`${person.id}/${entry.kind}`);
+      });
+    }
+    const tasks = people.flatMap(person => kinds.map((kind): ResearchTask => ({
+      id: `${person.id}/${kind}`,
+      ancestorId: person.id,
+      ancestorName: person.name,
+      kind,
+      status: fresh.has(`${person.id}/${kind}`) ? 'skipped' : 'queued',
+      attempts: 0
+    })));
+    const job: ResearchJob = {
+      id: generateDocId(),
+      treeId,
+      label: describeBranch(ancestors, branch),
+      kinds,
+      status: 'running',
+      tasks,
+      dateAdded: Date.now()
+    };
+    setJobs([...jobs, job]);
+    pump();
+    return jobs.find(j => j.id === job.id)!;
+  },
+
+  // Tasks already started finish; the rest wait
+  pause: (jobId: string) => {
+    updateJob(jobId, job => (job.status === 'running' ? { ...job, status: 'paused' } : job));
+  },
+
+  resume: (jobId: string) => {
+    updateJob(jobId, job => (job.status === 'paused' ? { ...job, status: 'running', error: undefined } : job));
+    pump();
+  },
+
+  // Stop for good; what finished is kept
+  cancel: (jobId: string) => {
+    updateJob(jobId, job => (job.status === 'running' || job.status === 'paused' ? { ...job, status: 'cancelled' } : job));
+  },
+
+  // Queue the failed tasks again with a fresh set of attempts
+  retryFailed: (jobId: string) => {
+    updateJob(jobId, job => ({
+      ...job,
+      status: 'running',
+      error: undefined,
+      tasks: job.tasks.map(t => (t.status === 'failed' ? { ...t, status: 'queued', attempts: 0, retryAt: undefined, error: undefined } : t))
+    }));
+    pump();
+  },
+
+  // Drop a job from the list; its results stay with the people
+  remove: (jobId: string) => {
+    setJobs(jobs.filter(job => job.id !== jobId));
+  }
+};
@@ -1,23 +1,147 @@
-import { db, firebaseConfig } from './firebase';
-import { 
-  collection, 
-  addDoc, 
-  updateDoc, 
-  deleteDoc, 
-  doc, 
-  onSnapshot, 
-  query, 
-  orderBy, 
-  getDocs,
-  limit
-} from 'firebase/firestore';
-import { Ancestor } from '../types';
-
-// Ensure appId is present to avoid "undefined" in path
-const appId = firebaseConfig.appId || '1:927330435478:web:d0d6c70c99765ae182ddb7';
-
-// Update collection name to match the security rule path: /artifacts/{appId}/public/data/familyTree/
-const COLLECTION_NAME = `artifacts/${appId}/public/data/familyTree`;
+import { AiContentEntry, AiUsageRecord, Ancestor, ChangeAuthor, DuplicateDismissal, EditProposal, FamilyTree, HistoryCollection, HistoryEntry, RecordChange, Source, TreeRole, Union } from '../types';
+import { MergePlan } from '../utils/merge';
+import { duplicatePairKey } from '../utils/genealogy';
+import { createMember, isUnclaimed, normalizeEmail, withMembership } from '../utils/roles';
+import { RecordState, getConcernedAncestors, getRestorableVersion, getStatesAt, sameRecord } from '../utils/history';
+import {
+  CollectionPath,
+  DEFAULT_TREE_ID,
+  StorageAdapter,
+  StoredDoc,
+  SyncStatus,
+  TREE_COLLECTIONS,
+  TREES_COLLECTION,
+  TreeCollection,
+  WriteOp,
+  generateDocId,
+  selectStorageBackend,
+  treeCollectionPath
+} from './storageAdapter';
+import { createFirestoreAdapter } from './firestoreAdapter';
+import { createLocalAdapter } from './localAdapter';
+
+// The backend is fixed for the session: Firestore directly, IndexedDB synced with
+// Firestore, or IndexedDB alone (see selectStorageBackend)
+const createAdapter = (): StorageAdapter => {
+  const backend = selectStorageBackend();
+  if (backend === 'local') return createLocalAdapter(createFirestoreAdapter());
+  if (backend === 'local-only') return createLocalAdapter(null);
+  return createFirestoreAdapter();
+};
+
+const adapter = createAdapter();
+
+// Every call below reads and writes the active tree; App re-subscribes after switching
+let activeTreeId = DEFAULT_TREE_ID;
+
+const inTree = (name: TreeCollection) => treeCollectionPath(activeTreeId, name);
+
+// Firestore rejects batches over 500 writes; copying or deleting a tree can exceed that
+const BATCH_LIMIT = 450;
+
+const commitInChunks = async (ops: WriteOp[]) => {
+  for (let i = 0; i < ops.length; i += BATCH_LIMIT) {
+    await adapter.batch(ops.slice(i, i + BATCH_LIMIT));
+  }
+};
+
+interface CurrentUser {
+  uid: string;
+  email: string | null;
+  isAnonymous: boolean;
+}
+
+let currentUser: CurrentUser | null = null;
+
+const asAuthor = (user: CurrentUser): ChangeAuthor => ({ uid: user.uid, email: user.email });
+
+const ownerMembers = (user: CurrentUser) => ({ [user.uid]: createMember('owner', user.email) });
+
+// Tree documents are always written whole, so member maps keyed by email or id never
+// have to be addressed as field paths
+const saveTree = async (tree: FamilyTree) => {
+  const { id, ...data } = tree;
+  await adapter.batch([{ type: 'set', collection: TREES_COLLECTION, id, data: sanitizeData(data) }]);
+};
+
+// --- Change history ---
+// Writes to these collections are logged in 'history', in the same batch as the write
+const HISTORY_COLLECTIONS: HistoryCollection[] = ['familyTree', 'unions', 'sources'];
+
+const historyCollectionOf = (path: CollectionPath) => HISTORY_COLLECTIONS.find(name => inTree(name) === path);
+
+// Record states keyed by `${collection}/${id}`; null means the record does not exist
+type KnownStates = Map<string, Record<string, any> | null>;
+
+const withoutId = (doc: StoredDoc | null) => {
+  if (!doc) return null;
+  const { id: _, ...data } = doc;
+  return data;
+};
+
+// Undo recordings in progress (see startRecording); each committed change is added to all
+const recordings = new Set<RecordChange[]>();
+
+// Appends one history entry per audited write. States the caller already knows (null
+// for freshly generated ids) are taken from `known`; the rest are read first.
+const withHistory = async (ops: WriteOp[], known: KnownStates = new Map(), restoredFrom?: number) => {
+  const states: KnownStates = new Map(known);
+  const entries: WriteOp[] = [];
+  const changes: RecordChange[] = [];
+  const dateAdded = Date.now();
+  for (const op of ops) {
+    const collection = historyCollectionOf(op.collection);
+    if (!collection) continue;
+    const key = `${collection}/${op.id}`;
+    const before = states.has(key) ? states.get(key) || null : withoutId(await adapter.get(op.collection, op.id));
+    const after = op.type === 'delete' ? null : op.type === 'set' ? op.data : { ...(before || {}), ...op.data };
+    states.set(key, after);
+    changes.push({ collection, docId: op.id, before, after });
+    entries.push({
+      type: 'set',
+      collection: inTree('history'),
+      id: generateDocId(),
+      data: sanitizeData({
+        collection,
+        docId: op.id,
+        action: !before ? 'add' : after ? 'update' : 'delete',
+        before,
+        after,
+        ancestorIds: getConcernedAncestors(collection, op.id, before, after),
+        author: currentUser ? asAuthor(currentUser) : null,
+        restoredFrom,
+        dateAdded
+      })
+    });
+  }
+  return { ops: [...ops, ...entries], changes };
+};
+
+const commitWithHistory = async (ops: WriteOp[], known?: KnownStates, restoredFrom?: number) => {
+  const logged = await withHistory(ops, known, restoredFrom);
+  await adapter.batch(logged.ops);
+  recordings.forEach(recording => recording.push(...logged.changes));
+};
+
+// Every write gains a history entry, so large rewrites go in chunks of half the batch limit
+const HISTORY_CHUNK = Math.floor(BATCH_LIMIT / 2);
+
+// Put records into the given states: replaced whole, or deleted where the state is null
+const writeStates = async (states: RecordState[], known?: KnownStates, restoredFrom?: number) => {
+  const ops = states.map(({ collection, docId, state }): WriteOp => state
+    ? { type: 'set', collection: inTree(collection), id: docId, data: state }
+    : { type: 'delete', collection: inTree(collection), id: docId });
+  for (let i = 0; i < ops.length; i += HISTORY_CHUNK) {
+    await commitWithHistory(ops.slice(i, i + HISTORY_CHUNK), known, restoredFrom);
+  }
+};
+
+// Create a record under a new id, logged like any other write
+const addWithHistory = async (name: HistoryCollection, data: Record<string, any>): Promise<string> => {
+  const id = generateDocId();
+  await commitWithHistory([{ type: 'set', collection: inTree(name), id, data }], new Map([[`${name}/${id}`, null]]));
+  return id;
+};
 
 // Helper to sanitize data for Firestore
 // Firestore throws an error if a field is 'undefined'.
@@ -39,19 +163,13 @@ const sanitizeData = (data: any) => {
 export const StorageService = {
   // Subscribe to updates (Real-time listener)
   subscribe: (callback: (data: Ancestor[]) => void, onError?: (error: any) => void) => {
-    // Order by dateAdded descending to match previous behavior
-    const q = query(collection(db, COLLECTION_NAME), orderBy('dateAdded', 'desc'));
-    
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const ancestors = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      } as Ancestor));
-      callback(ancestors);
+    // Newest first, matching previous behavior
+    const unsubscribe = adapter.subscribe(inTree('familyTree'), (docs) => {
+      callback(docs as Ancestor[]);
     }, (error) => {
       // Pass error to callback without logging to console here if it's permission-denied
       if (error.code !== 'permission-denied') {
-          console.error("Firestore subscription error:", error);
+          console.error("Storage subscription error:", error);
       }
       if (onError) onError(error);
     });
@@ -59,11 +177,11 @@ export const StorageService = {
     return unsubscribe;
   },
 
-  // Add new ancestor
-  add: async (data: Omit<Ancestor, 'id' | 'dateAdded'>) => {
+  // Add new ancestor, resolving to the generated document id
+  add: async (data: Omit<Ancestor, 'id' | 'dateAdded'>): Promise<string> => {
     try {
       const safeData = sanitizeData(data);
-      await addDoc(collection(db, COLLECTION_NAME), {
+      return await addWithHistory('familyTree', {
         ...safeData,
         dateAdded: Date.now()
       });
@@ -78,10 +196,9 @@ export const StorageService = {
   // Update ancestor
   update: async (id: string, updates: Partial<Ancestor>) => {
     try {
-      const docRef = doc(db, COLLECTION_NAME, id);
       // Ensure we don't accidentally try to write the ID field into the document data
       const { id: _, ...cleanUpdates } = updates as any;
-      await updateDoc(docRef, sanitizeData(cleanUpdates));
+      await commitWithHistory([{ type: 'update', collection: inTree('familyTree'), id, data: sanitizeData(cleanUpdates) }]);
     } catch (e: any) {
       if (e.code !== 'permission-denied') {
         console.error("Error updating document: ", e);
@@ -93,7 +210,7 @@ export const StorageService = {
   // Delete ancestor
   delete: async (id: string) => {
     try {
-      await deleteDoc(doc(db, COLLECTION_NAME, id));
+      await commitWithHistory([{ type: 'delete', collection: inTree('familyTree'), id }]);
     } catch (e: any) {
       if (e.code !== 'permission-denied') {
         console.error("Error deleting document: ", e);
@@ -102,13 +219,661 @@ export const StorageService = {
     }
   },
 
-  // Check and Seed initial data if empty
+  // Subscribe to partnership records
+  subscribeUnions: (callback: (data: Union[]) => void, onError?: (error: any) => void) => {
+    return adapter.subscribe(inTree('unions'), (docs) => {
+      callback(docs as Union[]);
+    }, (error) => {
+      if (error.code !== 'permission-denied') {
+          console.error("Storage union subscription error:", error);
+      }
+      if (onError) onError(error);
+    });
+  },
+
+  // Add new union
+  addUnion: async (data: Omit<Union, 'id' | 'dateAdded'>): Promise<string> => {
+    try {
+      return await addWithHistory('unions', {
+        ...sanitizeData(data),
+        dateAdded: Date.now()
+      });
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error adding union: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Update union
+  updateUnion: async (id: string, updates: Partial<Union>) => {
+    try {
+      const { id: _, ...cleanUpdates } = updates as any;
+      await commitWithHistory([{ type: 'update', collection: inTree('unions'), id, data: sanitizeData(cleanUpdates) }]);
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error updating union: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Delete union
+  deleteUnion: async (id: string) => {
+    try {
+      await commitWithHistory([{ type: 'delete', collection: inTree('unions'), id }]);
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error deleting union: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Subscribe to the source catalogue
+  subscribeSources: (callback: (data: Source[]) => void, onError?: (error: any) => void) => {
+    return adapter.subscribe(inTree('sources'), (docs) => {
+      callback(docs as Source[]);
+    }, (error) => {
+      if (error.code !== 'permission-denied') {
+          console.error("Storage source subscription error:", error);
+      }
+      if (onError) onError(error);
+    });
+  },
+
+  // Add new source
+  addSource: async (data: Omit<Source, 'id' | 'dateAdded'>): Promise<string> => {
+    try {
+      return await addWithHistory('sources', {
+        ...sanitizeData(data),
+        dateAdded: Date.now()
+      });
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error adding source: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Update source
+  updateSource: async (id: string, updates: Partial<Source>) => {
+    try {
+      const { id: _, ...cleanUpdates } = updates as any;
+      await commitWithHistory([{ type: 'update', collection: inTree('sources'), id, data: sanitizeData(cleanUpdates) }]);
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error updating source: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Delete source
+  deleteSource: async (id: string) => {
+    try {
+      await commitWithHistory([{ type: 'delete', collection: inTree('sources'), id }]);
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error deleting source: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Subscribe to "not a duplicate" decisions
+  subscribeDuplicateDismissals: (callback: (data: DuplicateDismissal[]) => void, onError?: (error: any) => void) => {
+    return adapter.subscribe(inTree('duplicateDismissals'), (docs) => {
+      callback(docs as DuplicateDismissal[]);
+    }, (error) => {
+      if (error.code !== 'permission-denied') {
+          console.error("Storage dismissal subscription error:", error);
+      }
+      if (onError) onError(error);
+    });
+  },
+
+  // Record that two people are not duplicates of each other
+  dismissDuplicate: async (idA: string, idB: string) => {
+    try {
+      await adapter.batch([{
+        type: 'set',
+        collection: inTree('duplicateDismissals'),
+        id: duplicatePairKey(idA, idB),
+        data: { ancestorIds: [idA, idB], dateAdded: Date.now() }
+      }]);
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error dismissing duplicate: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Merge a duplicate into its survivor in one atomic batch: update the survivor,
+  // re-point children and partnerships, delete the duplicate
+  mergeAncestors: async (plan: MergePlan) => {
+    const { survivor, duplicate, survivorUpdates } = plan;
+    try {
+      const { id: _, ...cleanUpdates } = survivorUpdates as any;
+      const ops: WriteOp[] = [
+        { type: 'update', collection: inTree('familyTree'), id: survivor.id, data: sanitizeData(cleanUpdates) },
+        ...plan.childRepoints.map((r): WriteOp => ({ type: 'update', collection: inTree('familyTree'), id: r.id, data: { [r.field]: survivor.id } })),
+        ...plan.unionRepoints.map((r): WriteOp => ({ type: 'update', collection: inTree('unions'), id: r.id, data: { [r.field]: survivor.id } })),
+        ...plan.unionDeletes.map((u): WriteOp => ({ type: 'delete', collection: inTree('unions'), id: u.id })),
+        { type: 'delete', collection: inTree('familyTree'), id: duplicate.id }
+      ];
+      await commitWithHistory(ops);
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error merging documents: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // --- Edit proposals ---
+
+  // Subscribe to the review queue (owners only; the rules hide it from everyone else)
+  subscribeProposals: (callback: (data: EditProposal[]) => void, onError?: (error: any) => void) => {
+    return adapter.subscribe(inTree('proposals'), (docs) => {
+      callback(docs as EditProposal[]);
+    }, (error) => {
+      if (error.code !== 'permission-denied') {
+          console.error("Storage proposal subscription error:", error);
+      }
+      if (onError) onError(error);
+    });
+  },
+
+  // Submit an addition or edit for review by the tree's owners
+  submitProposal: async (data: Pick<EditProposal, 'kind' | 'ancestorId' | 'changes' | 'source'>): Promise<string> => {
+    try {
+      if (!currentUser) throw new Error("Sign in to propose changes");
+      return await adapter.add(inTree('proposals'), {
+        ...sanitizeData(data),
+        changes: sanitizeData(data.changes),
+        submittedBy: asAuthor(currentUser),
+        status: 'pending',
+        dateAdded: Date.now()
+      });
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error submitting proposal: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Apply a proposal and close it in one batch. Pass `amendedChanges` when the reviewer
+  // changed the proposed values. Resolves to the id of the person added or edited.
+  acceptProposal: async (proposal: EditProposal, amendedChanges?: EditProposal['changes'], reviewNote?: string): Promise<string> => {
+    try {
+      if (!currentUser) throw new Error("Sign in to review proposals");
+      const ancestorId = proposal.kind === 'add' ? generateDocId() : proposal.ancestorId;
+      if (!ancestorId) throw new Error("Proposal does not name a person");
+      const { id: _, dateAdded: __, ...cleanChanges } = (amendedChanges || proposal.changes) as any;
+      const personOp: WriteOp = proposal.kind === 'add'
+        ? { type: 'set', collection: inTree('familyTree'), id: ancestorId, data: { ...sanitizeData(cleanChanges), dateAdded: Date.now() } }
+        : { type: 'update', collection: inTree('familyTree'), id: ancestorId, data: sanitizeData(cleanChanges) };
+      await commitWithHistory([
+        personOp,
+        {
+          type: 'update',
+          collection: inTree('proposals'),
+          id: proposal.id,
+          data: sanitizeData({
+            status: 'accepted',
+            ancestorId,
+            amended: !!amendedChanges,
+            reviewedBy: asAuthor(currentUser),
+            reviewedAt: Date.now(),
+            reviewNote: reviewNote || undefined
+          })
+        }
+      ]);
+      return ancestorId;
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error accepting proposal: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Close a proposal without applying it
+  rejectProposal: async (proposal: EditProposal, reviewNote?: string) => {
+    try {
+      if (!currentUser) throw new Error("Sign in to review proposals");
+      await adapter.batch([{
+        type: 'update',
+        collection: inTree('proposals'),
+        id: proposal.id,
+        data: sanitizeData({
+          status: 'rejected',
+          reviewedBy: asAuthor(currentUser),
+          reviewedAt: Date.now(),
+          reviewNote: reviewNote || undefined
+        })
+      }]);
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error rejecting proposal: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // --- Change history ---
+
+  // Subscribe to the change log, newest first; pass a person's id for their timeline only
+  subscribeHistory: (callback: (data: HistoryEntry[]) => void, ancestorId?: string, onError?: (error: any) => void) => {
+    return adapter.subscribe(inTree('history'), (docs) => {
+      callback(docs as HistoryEntry[]);
+    }, (error) => {
+      if (error.code !== 'permission-denied') {
+          console.error("Storage history subscription error:", error);
+      }
+      if (onError) onError(error);
+    }, ancestorId ? { field: 'ancestorIds', value: ancestorId } : undefined);
+  },
+
+  // Put one record back to the version a history entry recorded (see getRestorableVersion);
+  // the restore is itself logged, so it can be undone the same way
+  restoreVersion: async (entry: HistoryEntry) => {
+    try {
+      const version = getRestorableVersion(entry);
+      if (!version) return;
+      await writeStates([{ collection: entry.collection, docId: entry.docId, state: version }], undefined, entry.dateAdded);
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error restoring version: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Return every person, union and source to how it stood at `timestamp`. Large trees
+  // are written in several batches; each change is logged, so a rollback can itself be
+  // rolled back. Resolves to the number of records changed.
+  rollbackTree: async (timestamp: number): Promise<number> => {
+    try {
+      const entries = await adapter.getAll(inTree('history')) as HistoryEntry[];
+      const current: KnownStates = new Map();
+      for (const name of HISTORY_COLLECTIONS) {
+        const docs = await adapter.getAll(inTree(name));
+        docs.forEach(d => current.set(`${name}/${d.id}`, withoutId(d)));
+      }
+
+      const changed = getStatesAt(entries, timestamp)
+        .filter(({ collection, docId, state }) => !sameRecord(current.get(`${collection}/${docId}`) || null, state));
+      await writeStates(changed, current, timestamp);
+      return changed.length;
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error rolling back tree: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // --- Undo ---
+
+  // Collect every change committed from now until stop() into one list; App turns each
+  // recording into an undo step. Recordings that overlap each see all changes.
+  startRecording: () => {
+    const changes: RecordChange[] = [];
+    recordings.add(changes);
+    return {
+      stop: () => {
+        recordings.delete(changes);
+        return changes;
+      }
+    };
+  },
+
+  // Put records back into recorded states (undo and redo); logged like any other change
+  applyRecordStates: async (states: RecordState[]) => {
+    try {
+      await writeStates(states);
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error applying record states: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // --- AI content ---
+
+  // Subscribe to the AI content kept for one person, every kind and version, newest first
+  subscribeAiContent: (ancestorId: string, callback: (data: AiContentEntry[]) => void, onError?: (error: any) => void) => {
+    return adapter.subscribe(inTree('aiContent'), (docs) => {
+      callback(docs as AiContentEntry[]);
+    }, (error) => {
+      if (error.code !== 'permission-denied') {
+          console.error("Storage AI content subscription error:", error);
+      }
+      if (onError) onError(error);
+    }, { field: 'ancestorIds', value: ancestorId });
+  },
+
+  // One-off read of the AI content kept for the whole tree
+  getAllAiContent: async (): Promise<AiContentEntry[]> => {
+    try {
+      return (await adapter.getAll(inTree('aiContent'))) as AiContentEntry[];
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error reading AI content: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Keep a newly generated version under the current account, resolving to its id
+  addAiContent: async (data: Omit<AiContentEntry, 'id' | 'generatedBy'>): Promise<string> => {
+    try {
+      const id = generateDocId();
+      await adapter.batch([{
+        type: 'set',
+        collection: inTree('aiContent'),
+        id,
+        data: sanitizeData({ ...data, generatedBy: currentUser ? asAuthor(currentUser) : null })
+      }]);
+      return id;
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error saving AI content: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Make a version the canonical one of its kind for its person, unpinning the previous
+  // one; `versions` are the person's entries as subscribed. Pass false to unpin.
+  pinAiContent: async (entry: AiContentEntry, versions: AiContentEntry[], pinned = true) => {
+    try {
+      const ops: WriteOp[] = versions
+        .filter(v => v.kind === entry.kind && v.pinned && v.id !== entry.id)
+        .map(v => ({ type: 'update', collection: inTree('aiContent'), id: v.id, data: { pinned: false } }));
+      ops.push({ type: 'update', collection: inTree('aiContent'), id: entry.id, data: { pinned } });
+      await adapter.batch(ops);
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error pinning AI content: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // --- AI usage ---
+
+  // Subscribe to every AI call recorded in the tree, newest first
+  subscribeAiUsage: (callback: (data: AiUsageRecord[]) => void, onError?: (error: any) => void) => {
+    return adapter.subscribe(inTree('aiUsage'), (docs) => {
+      callback(docs as AiUsageRecord[]);
+    }, (error) => {
+      if (error.code !== 'permission-denied') {
+          console.error("Storage AI usage subscription error:", error);
+      }
+      if (onError) onError(error);
+    });
+  },
+
+  // One-off read of another tree's AI calls, to compare trees
+  getAiUsage: async (treeId: string): Promise<AiUsageRecord[]> => {
+    try {
+      return (await adapter.getAll(treeCollectionPath(treeId, 'aiUsage'))) as AiUsageRecord[];
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error reading AI usage: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Record a call under the current account
+  addAiUsage: async (data: Omit<AiUsageRecord, 'id' | 'user'>): Promise<string> => {
+    try {
+      const id = generateDocId();
+      await adapter.batch([{
+        type: 'set',
+        collection: inTree('aiUsage'),
+        id,
+        data: sanitizeData({ ...data, user: currentUser ? asAuthor(currentUser) : null })
+      }]);
+      return id;
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error recording AI usage: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // --- Tree catalogue & membership ---
+
+  getActiveTree: () => activeTreeId,
+
+  getCurrentUserId: () => currentUser?.uid || null,
+
+  // Scope every later call to this tree
+  setActiveTree: (treeId: string) => {
+    activeTreeId = treeId;
+  },
+
+  // The signed-in account, used to list its trees and to record it as owner of new ones
+  setCurrentUser: (user: CurrentUser | null) => {
+    currentUser = user;
+  },
+
+  // Subscribe to the trees the current account belongs to or is invited to, oldest first
+  subscribeTrees: (callback: (data: FamilyTree[]) => void, onError?: (error: any) => void) => {
+    if (!currentUser) {
+      callback([]);
+      return () => {};
+    }
+    let memberOf: FamilyTree[] = [];
+    let invitedTo: FamilyTree[] = [];
+    const emit = () => {
+      const byId = new Map<string, FamilyTree>();
+      [...invitedTo, ...memberOf].forEach(t => byId.set(t.id, t));
+      callback(Array.from(byId.values()).sort((a, b) => (a.dateAdded || 0) - (b.dateAdded || 0)));
+    };
+    const handleError = (error: any) => {
+      if (error.code !== 'permission-denied') {
+          console.error("Storage tree subscription error:", error);
+      }
+      if (onError) onError(error);
+    };
+
+    const unsubscribes = [
+      adapter.subscribe(TREES_COLLECTION, (docs) => {
+        memberOf = docs as FamilyTree[];
+        emit();
+      }, handleError, { field: 'memberIds', value: currentUser.uid })
+    ];
+    if (currentUser.email) {
+      unsubscribes.push(adapter.subscribe(TREES_COLLECTION, (docs) => {
+        invitedTo = docs as FamilyTree[];
+        emit();
+      }, handleError, { field: 'invitedEmails', value: normalizeEmail(currentUser.email) }));
+    }
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  },
+
+  // Create an empty tree owned by the current account, resolving to its id
+  createTree: async (data: Omit<FamilyTree, 'id' | 'dateAdded'>): Promise<string> => {
+    try {
+      if (!currentUser) throw new Error("Sign in to create a tree");
+      const id = generateDocId();
+      await saveTree(withMembership({ ...data, id, dateAdded: Date.now() }, ownerMembers(currentUser), {}));
+      return id;
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error creating tree: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Rename or re-describe a tree
+  updateTree: async (tree: FamilyTree, updates: Partial<FamilyTree>) => {
+    try {
+      const { id: _, ...cleanUpdates } = updates as any;
+      await saveTree({ ...tree, ...cleanUpdates });
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error updating tree: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Copy every record of a tree into a new one owned by the current account. Ids are
+  // kept, so relationships and citations stay intact. The catalogue entry has to exist
+  // before the records (the rules check membership of the target tree), so a copy that
+  // fails half way is removed again.
+  duplicateTree: async (tree: FamilyTree, name: string): Promise<string> => {
+    const newId = generateDocId();
+    try {
+      if (!currentUser) throw new Error("Sign in to duplicate a tree");
+      const ops: WriteOp[] = [];
+      // The review queue, change history and AI usage belong to the original tree
+      for (const collection of TREE_COLLECTIONS.filter(c => c !== 'proposals' && c !== 'history' && c !== 'aiUsage')) {
+        const docs = await adapter.getAll(treeCollectionPath(tree.id, collection));
+        docs.forEach(({ id, ...data }) => ops.push({ type: 'set', collection: treeCollectionPath(newId, collection), id, data }));
+      }
+      const copy: FamilyTree = { id: newId, name, dateAdded: Date.now(), ...(tree.description ? { description: tree.description } : {}) };
+      await saveTree(withMembership(copy, ownerMembers(currentUser), {}));
+      try {
+        await commitInChunks(ops);
+      } catch (e) {
+        await StorageService.deleteTree(newId).catch(() => undefined);
+        throw e;
+      }
+      return newId;
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error duplicating tree: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Delete a tree with all its records. The records go first, so a failure leaves the
+  // tree listed and the delete can be retried.
+  deleteTree: async (treeId: string) => {
+    try {
+      const ops: WriteOp[] = [];
+      for (const collection of TREE_COLLECTIONS) {
+        const path = treeCollectionPath(treeId, collection);
+        const docs = await adapter.getAll(path);
+        docs.forEach(d => ops.push({ type: 'delete', collection: path, id: d.id }));
+      }
+      await commitInChunks(ops);
+      await adapter.batch([{ type: 'delete', collection: TREES_COLLECTION, id: treeId }]);
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error deleting tree: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // The tree that predates the catalogue (and roles) belongs to nobody until the first
+  // signed-in account claims it as owner. Anonymous sessions never claim.
+  claimLegacyTree: async () => {
+    if (!currentUser || currentUser.isAnonymous) return;
+    try {
+      const existing = await adapter.get(TREES_COLLECTION, DEFAULT_TREE_ID) as FamilyTree | null;
+      if (existing && !isUnclaimed(existing)) return;
+      const tree: FamilyTree = existing || { id: DEFAULT_TREE_ID, name: 'Family Tree', dateAdded: Date.now() };
+      await saveTree(withMembership(tree, ownerMembers(currentUser), tree.invites || {}));
+    } catch (e: any) {
+      // Someone else already owns it; that is not an error for this account
+      if (e.code !== 'permission-denied') {
+        console.error("Error claiming tree: ", e);
+      }
+    }
+  },
+
+  // Invite someone by email; they join with this role the next time they sign in with it
+  inviteMember: async (tree: FamilyTree, email: string, role: TreeRole) => {
+    try {
+      const invites = { ...(tree.invites || {}), [normalizeEmail(email)]: role };
+      await saveTree(withMembership(tree, tree.members || {}, invites));
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error inviting member: ", e);
+      }
+      throw e;
+    }
+  },
+
+  revokeInvite: async (tree: FamilyTree, email: string) => {
+    try {
+      const { [normalizeEmail(email)]: _, ...invites } = tree.invites || {};
+      await saveTree(withMembership(tree, tree.members || {}, invites));
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error revoking invite: ", e);
+      }
+      throw e;
+    }
+  },
+
+  setMemberRole: async (tree: FamilyTree, userId: string, role: TreeRole) => {
+    try {
+      const member = tree.members?.[userId];
+      if (!member) return;
+      await saveTree(withMembership(tree, { ...tree.members, [userId]: { ...member, role } }, tree.invites || {}));
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error changing member role: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Revoke a member's access; their past edits stay in the tree
+  removeMember: async (tree: FamilyTree, userId: string) => {
+    try {
+      const { [userId]: _, ...members } = tree.members || {};
+      await saveTree(withMembership(tree, members, tree.invites || {}));
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error removing member: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Turn the current account's pending invitation into membership with the invited role
+  acceptInvite: async (tree: FamilyTree) => {
+    try {
+      const email = currentUser?.email ? normalizeEmail(currentUser.email) : null;
+      const role = email ? tree.invites?.[email] : undefined;
+      if (!currentUser || !email || !role) throw new Error("No invitation for this account");
+      const { [email]: _, ...invites } = tree.invites || {};
+      await saveTree(withMembership(tree, { ...(tree.members || {}), [currentUser.uid]: createMember(role, email) }, invites));
+    } catch (e: any) {
+      if (e.code !== 'permission-denied') {
+        console.error("Error accepting invite: ", e);
+      }
+      throw e;
+    }
+  },
+
+  // Which backend this session uses, whether it is online and how many changes wait to sync
+  subscribeSyncStatus: (callback: (status: SyncStatus) => void) => adapter.subscribeStatus(callback),
+
+  // Check and Seed initial data if the active tree is empty
   checkAndSeed: async () => {
     try {
-        const q = query(collection(db, COLLECTION_NAME), limit(1));
-        const snapshot = await getDocs(q);
-        
-        if (snapshot.empty) {
+        if (await adapter.isEmpty(inTree('familyTree'))) {
             const seedData: Omit<Ancestor, 'id'> = {
                 name: 'John Doe (Example)',
                 birthYear: 1980,
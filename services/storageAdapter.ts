@@ -0,0 +1,109 @@
+// --- STORAGE ADAPTERS ---
+// StorageService talks to one of these backends, chosen at startup. Both speak in
+// plain documents grouped into collections addressed by path; all model knowledge
+// stays in StorageService so the backends are interchangeable.
+
+// Collections every tree has
+export type TreeCollection = 'familyTree' | 'unions' | 'sources' | 'duplicateDismissals' | 'proposals' | 'history' | 'aiContent' | 'aiUsage';
+
+export const TREE_COLLECTIONS: TreeCollection[] = ['familyTree', 'unions', 'sources', 'duplicateDismissals', 'proposals', 'history', 'aiContent', 'aiUsage'];
+
+// The tree catalogue
+export const TREES_COLLECTION = 'trees';
+
+// The tree that predates the catalogue; its collections stay at the top level
+export const DEFAULT_TREE_ID = 'default';
+
+// A collection's path below the app's data root, e.g. 'trees/abc/unions'
+export type CollectionPath = string;
+
+export const treeCollectionPath = (treeId: string, name: TreeCollection): CollectionPath => {
+  return treeId === DEFAULT_TREE_ID ? name : `${TREES_COLLECTION}/${treeId}/${name}`;
+};
+
+export interface StoredDoc {
+  id: string;
+  [field: string]: any;
+}
+
+// One write inside an atomic batch; 'update' merges fields, 'set' replaces the document
+export type WriteOp =
+  | { type: 'set'; collection: CollectionPath; id: string; data: Record<string, any> }
+  | { type: 'update'; collection: CollectionPath; id: string; data: Record<string, any> }
+  | { type: 'delete'; collection: CollectionPath; id: string };
+
+// Narrows a subscription to documents whose array field contains the value. Security
+// rules only allow listing trees through such a query, so it is part of the contract.
+export interface ArrayContainsFilter {
+  field: string;
+  value: string;
+}
+
+export const matchesFilter = (doc: StoredDoc, filter?: ArrayContainsFilter) => {
+  return !filter || (Array.isArray(doc[filter.field]) && doc[filter.field].includes(filter.value));
+};
+
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  // Live view of a collection, newest first by dateAdded. Each call gets a new array, but
+  // documents that did not change keep their object identity. Returns the unsubscribe function.
+  subscribe: (
+    collection: CollectionPath,
+    callback: (docs: StoredDoc[]) => void,
+    onError?: (error: any) => void,
+    filter?: ArrayContainsFilter
+  ) => () => void;
+  // One document, or null when it does not exist
+  get: (collection: CollectionPath, id: string) => Promise<StoredDoc | null>;
+  // Create a document with a generated id, resolving to that id
+  add: (collection: CollectionPath, data: Record<string, any>) => Promise<string>;
+  // Apply writes all-or-nothing
+  batch: (ops: WriteOp[]) => Promise<void>;
+  isEmpty: (collection: CollectionPath) => Promise<boolean>;
+  // One-off read of a whole collection
+  getAll: (collection: CollectionPath) => Promise<StoredDoc[]>;
+  // Connectivity and the number of local changes still waiting to reach Firestore
+  subscribeStatus: (callback: (status: SyncStatus) => void) => () => void;
+}
+
+export interface SyncStatus {
+  backend: StorageBackend;
+  online: boolean;
+  pending: number;
+  syncing: boolean;
+}
+
+// 'firestore' talks to the cloud directly; 'local' keeps an IndexedDB copy, works
+// offline and syncs with Firestore when it can; 'local-only' never touches the network
+export type StorageBackend = 'firestore' | 'local' | 'local-only';
+
+// Picks the backend: ?storage=... in the URL, then an injected window.__storage_backend,
+// then STORAGE_BACKEND from the build environment, defaulting to Firestore
+export const selectStorageBackend = (): StorageBackend => {
+  const candidates = [
+    typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('storage') : null,
+    typeof window !== 'undefined' ? window.__storage_backend : undefined,
+    process.env.STORAGE_BACKEND
+  ];
+  const choice = candidates.find(c => c === 'firestore' || c === 'local' || c === 'local-only');
+  return (choice as StorageBackend) || 'firestore';
+};
+
+declare global {
+  interface Window {
+    __storage_backend?: string;
+  }
+}
+
+// Document ids in Firestore's alphabet, so documents created offline keep their id once synced
+const ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+export const generateDocId = (): string => {
+  const bytes = new Uint8Array(20);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => ID_ALPHABET[b % ID_ALPHABET.length]).join('');
+};
+
+export const sortNewestFirst = (docs: StoredDoc[]): StoredDoc[] => {
+  return [...docs].sort((a, b) => (b.dateAdded || 0) - (a.dateAdded || 0));
+};
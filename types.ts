@@ -1,29 +1,201 @@
 export type Gender = 'Male' | 'Female' | 'Unknown';
 
+export type DateQualifier = 'exact' | 'about' | 'calculated' | 'estimated' | 'before' | 'after' | 'between';
+export type Calendar = 'Gregorian' | 'Julian';
+
+// A genealogical date with its precision and qualifier preserved
+export interface GenealogicalDate {
+  qualifier: DateQualifier;
+  year: number;
+  month?: number; // 1-12
+  day?: number;
+  // Upper bound, only for 'between'
+  endYear?: number;
+  endMonth?: number;
+  endDay?: number;
+  calendar: Calendar;
+}
+
 export interface Ancestor {
   id: string;
   name: string;
+  // Representative years kept alongside the structured dates for sorting and older records
   birthYear: number | null;
   deathYear: number | null;
+  birthDate?: GenealogicalDate | null;
+  deathDate?: GenealogicalDate | null;
   gender: Gender;
   country?: string; 
+  birthPlace?: string; // Full place name, e.g. "Leeds, Yorkshire, England"
+  deathPlace?: string;
+  alternateNames?: string[]; // Maiden, married or other recorded names
+  occupations?: string[];
   fatherId: string | null;
   motherId: string | null;
   notes: string;
   photoUrl?: string; // New field for avatar images
+  citations?: Citation[]; // Evidence for individual facts, pointing into the source catalogue
   dateAdded: number; 
 }
 
+// --- Sources & Citations ---
+
+// A document, register, book or website in the source catalogue
+export interface Source {
+  id: string;
+  title: string;
+  author?: string;
+  repository?: string; // Archive or library holding it
+  url?: string;
+  archiveReference?: string; // Call number, film number or shelf mark
+  notes?: string;
+  dateAdded: number;
+}
+
+// Facts on a person that a citation can support; 'general' backs the record as a whole
+export type CitationFact = 'general' | 'birth' | 'death' | 'parentage' | 'country';
+
+// Evidence quality, mirroring the GEDCOM QUAY scale from 3 (primary) down to 0
+export type CitationQuality = 'primary' | 'secondary' | 'questionable' | 'unreliable';
+
+export interface Citation {
+  sourceId: string;
+  fact: CitationFact;
+  page?: string; // Where in the source: page, entry, folio
+  detail?: string; // Transcription or remarks
+  quality?: CitationQuality;
+}
+
+export interface DateFormData {
+  qualifier: DateQualifier;
+  value: string; // e.g. "3 Mar 1901"
+  endValue: string; // Upper bound for 'between'
+  calendar: Calendar;
+}
+
 export interface AncestorFormData {
   name: string;
-  birthYear: string;
-  deathYear: string;
+  birthDate: DateFormData;
+  deathDate: DateFormData;
   gender: Gender;
   country: string;
   fatherId: string;
   motherId: string;
   notes: string;
   photoUrl?: string;
+  unions: UnionFormData[];
+}
+
+export type UnionType = 'Marriage' | 'Civil Partnership' | 'Cohabitation' | 'Engagement' | 'Unknown';
+
+// A partnership between two people, stored independently of any shared children
+export interface Union {
+  id: string;
+  partner1Id: string;
+  partner2Id: string | null; // null when the partner is not recorded in the tree
+  type: UnionType;
+  marriageYear: number | null;
+  divorceYear: number | null;
+  place?: string;
+  notes?: string;
+  dateAdded: number;
+}
+
+// A pair of people the user confirmed are *not* the same person, so duplicate
+// detection stops suggesting them. The id is the pair key (see duplicatePairKey).
+export interface DuplicateDismissal {
+  id: string;
+  ancestorIds: [string, string];
+  dateAdded: number;
+}
+
+// Access levels within one tree, from most to least privileged. Contributors can
+// read and propose edits; only editors and owners change records directly.
+export type TreeRole = 'owner' | 'editor' | 'contributor' | 'viewer';
+
+export interface TreeMember {
+  role: TreeRole;
+  email?: string;
+  dateAdded: number;
+}
+
+// An entry in the tree catalogue. People, unions, sources and dismissals are stored
+// per tree, so each family's tree is independent of the others.
+export interface FamilyTree {
+  id: string;
+  name: string;
+  description?: string;
+  dateAdded: number;
+  members?: Record<string, TreeMember>; // Keyed by user id
+  memberIds?: string[]; // Keys of members, so "trees I belong to" can be queried
+  invites?: Record<string, TreeRole>; // Pending invitations keyed by lower-case email
+  invitedEmails?: string[]; // Keys of invites, for the same reason
+  aiBudget?: AiBudget;
+}
+
+// The account behind a proposal, review or recorded change
+export interface ChangeAuthor {
+  uid: string;
+  email?: string | null;
+}
+
+// --- Edit Proposals ---
+
+export type ProposalStatus = 'pending' | 'accepted' | 'rejected';
+
+// A change suggested by a contributor, waiting for an owner to accept, amend or reject it.
+// Edits hold only the fields they change; additions hold the whole new record.
+export interface EditProposal {
+  id: string;
+  kind: 'add' | 'edit';
+  ancestorId?: string; // The person being edited; for additions, set once accepted
+  changes: Partial<Omit<Ancestor, 'id' | 'dateAdded'>>;
+  source?: string; // Where the contributor found the information
+  submittedBy: ChangeAuthor;
+  status: ProposalStatus;
+  reviewedBy?: ChangeAuthor;
+  reviewedAt?: number;
+  reviewNote?: string;
+  amended?: boolean; // Accepted after the reviewer changed the proposed values
+  dateAdded: number;
+}
+
+// --- Change History ---
+
+export type HistoryCollection = 'familyTree' | 'unions' | 'sources';
+export type HistoryAction = 'add' | 'update' | 'delete';
+
+// One append-only record of a change to a person, union or source, written in the same
+// batch as the change. Whole before/after copies make any version restorable.
+export interface HistoryEntry {
+  id: string;
+  collection: HistoryCollection;
+  docId: string;
+  action: HistoryAction;
+  before: Record<string, any> | null; // null when the record was created
+  after: Record<string, any> | null; // null when it was deleted
+  ancestorIds: string[]; // People the change concerns, for their timelines
+  author: ChangeAuthor;
+  restoredFrom?: number; // Set when the change restored an earlier version: the time restored to
+  dateAdded: number;
+}
+
+// A record's state on both sides of a change; undo puts `before` back, redo `after`
+export interface RecordChange {
+  collection: HistoryCollection;
+  docId: string;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+}
+
+// Union as edited from the perspective of one person in AncestorForm
+export interface UnionFormData {
+  id?: string; // Present when editing an existing union
+  partnerId: string;
+  type: UnionType;
+  marriageYear: string;
+  divorceYear: string;
+  place: string;
 }
 
 export interface TimelineEvent {
@@ -34,4 +206,105 @@ export interface TimelineEvent {
 export interface SESResult {
   socialClass: string;
   reasoning: string;
-}
\ No newline at end of file
+}
+
+// A person as the AI read them from pasted text, used to prefill the form; parents are
+// names, matched against the tree there
+export interface ExtractedPerson {
+  name: string;
+  birthYear?: string;
+  deathYear?: string;
+  gender: Gender;
+  country?: string;
+  notes?: string;
+  fatherName?: string;
+  motherName?: string;
+}
+
+// A value the AI suggests filling in ('Missing') or correcting ('Anomaly')
+export interface PredictionResult {
+  ancestorId: string;
+  field: string; // e.g. 'birthYear'
+  currentValue?: string | null;
+  predictedValue: string;
+  reasoning: string;
+  type: 'Missing' | 'Anomaly';
+}
+
+// What an AI call is for
+export type AiFeature =
+  | 'history'
+  | 'story'
+  | 'research'
+  | 'extract'
+  | 'predictions'
+  | 'timeline'
+  | 'ses'
+  | 'search'
+  | 'image'
+  | 'simulation';
+
+// A web page an AI answer was grounded on
+export interface GroundingSource {
+  uri: string;
+  title: string;
+}
+
+// --- AI Content ---
+
+// What each kind of AI content about a person holds
+export interface AiContentResults {
+  history: { text: string; sources: GroundingSource[] };
+  story: string;
+  timeline: TimelineEvent[];
+  insights: SESResult;
+  suggestions: string;
+  simulation: string;
+}
+
+export type AiContentKind = keyof AiContentResults;
+
+interface AiContentFields {
+  id: string;
+  ancestorIds: string[]; // The person it is about; a list so it can be queried like history entries
+  inputs: Record<string, any>; // What the prompt was built from: the record's fields, style or scenario
+  recordHash: string; // Of the record's fields at the time (see getAiRecordHash), to tell when it went stale
+  provider: string;
+  model: string;
+  generatedBy: ChangeAuthor | null;
+  pinned?: boolean; // Chosen by the family as the canonical version of its kind
+  dateAdded: number;
+}
+
+// One generated version of a piece of AI content about a person. Versions are kept, so
+// the family only pays for content once and can go back to one they preferred.
+export type AiContentEntry = {
+  [K in AiContentKind]: AiContentFields & { kind: K; result: AiContentResults[K] }
+}[AiContentKind];
+
+// --- AI Usage ---
+
+// Tokens one call used
+export interface AiTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// One AI call, recorded in the tree it was made from
+export interface AiUsageRecord extends AiTokenUsage {
+  id: string;
+  feature: AiFeature;
+  provider: string;
+  model: string;
+  costUsd: number; // Estimated from the model's list price (see utils/aiUsage.ts); 0 when it has none
+  estimated?: boolean; // The provider reported no usage, so tokens were counted from the text
+  user: ChangeAuthor | null;
+  dateAdded: number;
+}
+
+// A tree's monthly spending limits on AI calls, in US dollars, set by its owners
+export interface AiBudget {
+  treeMonthlyUsd?: number;
+  memberMonthlyUsd?: number; // For each member on their own
+  onExceed: 'warn' | 'block'; // What happens to a call that would go over a limit
+}
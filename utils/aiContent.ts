@@ -0,0 +1,56 @@
+import { AiContentEntry, AiContentKind, Ancestor } from '../types';
+import { getTreeIndex } from './treeIndex';
+
+// --- AI content ---
+// Helpers for the AI content kept per person (see aiContentService): which parts of a
+// record a kind of content was written from, and which version to show.
+
+export const AI_CONTENT_KINDS: AiContentKind[] = ['history', 'story', 'timeline', 'insights', 'suggestions', 'simulation'];
+
+// The fields the prompts in geminiService read. Stories also name the parents and children,
+// so a story goes stale when those change.
+export const getAiRecordData = (kind: AiContentKind, ancestor: Ancestor, ancestors: Ancestor[]): Record<string, any> => {
+  const data: Record<string, any> = {
+    name: ancestor.name,
+    birthYear: ancestor.birthYear ?? null,
+    deathYear: ancestor.deathYear ?? null,
+    gender: ancestor.gender,
+    country: ancestor.country || '',
+    notes: ancestor.notes || ''
+  };
+  if (kind !== 'story') return data;
+  const { byId, childrenOf } = getTreeIndex(ancestors);
+  return {
+    ...data,
+    father: (ancestor.fatherId && byId.get(ancestor.fatherId)?.name) || null,
+    mother: (ancestor.motherId && byId.get(ancestor.motherId)?.name) || null,
+    children: (childrenOf.get(ancestor.id) || []).map(c => c.name)
+  };
+};
+
+// FNV-1a over the fields, in a fixed order; only ever compared for equality
+export const getAiRecordHash = (kind: AiContentKind, ancestor: Ancestor, ancestors: Ancestor[]): string => {
+  const text = JSON.stringify(getAiRecordData(kind, ancestor, ancestors));
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// True when the record changed since the content was generated
+export const isAiContentStale = (entry: AiContentEntry, ancestor: Ancestor, ancestors: Ancestor[]) =>
+  entry.recordHash !== getAiRecordHash(entry.kind, ancestor, ancestors);
+
+// Versions of one kind, newest first
+export const getAiVersions = <K extends AiContentKind>(entries: AiContentEntry[], kind: K) =>
+  entries
+    .filter((e): e is Extract<AiContentEntry, { kind: K }> => e.kind === kind)
+    .sort((a, b) => b.dateAdded - a.dateAdded);
+
+// The version shown by default: the pinned one, else the newest
+export const getShownAiVersion = <K extends AiContentKind>(entries: AiContentEntry[], kind: K) => {
+  const versions = getAiVersions(entries, kind);
+  return versions.find(v => v.pinned) || versions[0] || null;
+};
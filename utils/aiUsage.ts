@@ -0,0 +1,134 @@
+import { AiBudget, AiFeature, AiTokenUsage, AiUsageRecord } from '../types';
+
+// --- AI usage & cost ---
+// Every AI call is recorded with the tokens it used (see services/aiUsageService.ts).
+// Costs are estimates from list prices; Google Search grounding is billed separately per
+// prompt and is not included.
+
+// US dollars per million tokens. Models are matched by their longest listed prefix, so
+// dated or preview variants are priced like their family.
+export const AI_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash-image': { input: 0.3, output: 30 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-image-1': { input: 10, output: 40 }
+};
+
+export const AI_FEATURE_LABELS: Record<AiFeature, string> = {
+  history: 'Historical context',
+  story: 'Stories',
+  research: 'Research suggestions',
+  extract: 'Text extraction',
+  predictions: 'Gap filler',
+  timeline: 'Timelines',
+  ses: 'Social status',
+  search: 'Smart search',
+  image: 'Image styling',
+  simulation: 'What-if simulations'
+};
+
+const getPrice = (model: string) => {
+  const match = Object.keys(AI_PRICES)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? AI_PRICES[match] : null;
+};
+
+// Self-hosted models and the mock cost nothing as far as we know
+export const isPricedModel = (model: string) => getPrice(model) !== null;
+
+export const getAiCost = (model: string, usage: AiTokenUsage): number => {
+  const price = getPrice(model);
+  return price ? (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1e6 : 0;
+};
+
+// Roughly four characters a token, for providers that report no usage and for estimates
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// What an image counts as, in and out, when nothing better is known
+export const IMAGE_TOKENS = 1290;
+
+// Expected answer length of a feature that has not been used yet
+const DEFAULT_OUTPUT_TOKENS = 1000;
+// Answers averaged for the expected length of the next one
+const OUTPUT_SAMPLE = 20;
+
+// How many tokens the next answer of a feature will likely take: the average of its recent
+// answers, newest first as subscribed
+export const expectedOutputTokens = (records: AiUsageRecord[], feature: AiFeature): number => {
+  const recent = records.filter(r => r.feature === feature).slice(0, OUTPUT_SAMPLE);
+  if (recent.length === 0) return feature === 'image' ? IMAGE_TOKENS : DEFAULT_OUTPUT_TOKENS;
+  return Math.round(recent.reduce((sum, r) => sum + r.outputTokens, 0) / recent.length);
+};
+
+// 'YYYY-MM' in local time; budgets run per calendar month
+export const getUsageMonth = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export interface UsageTotals extends AiTokenUsage {
+  calls: number;
+  costUsd: number;
+}
+
+const EMPTY_TOTALS: UsageTotals = { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+
+export const sumUsage = (records: AiUsageRecord[]): UsageTotals =>
+  records.reduce((totals, r) => ({
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + r.inputTokens,
+    outputTokens: totals.outputTokens + r.outputTokens,
+    costUsd: totals.costUsd + r.costUsd
+  }), EMPTY_TOTALS);
+
+// Totals per group (feature, member...), most expensive first
+export const groupUsage = (records: AiUsageRecord[], keyOf: (record: AiUsageRecord) => string): { key: string; totals: UsageTotals }[] => {
+  const groups = new Map<string, AiUsageRecord[]>();
+  records.forEach(r => {
+    const key = keyOf(r);
+    groups.set(key, [...(groups.get(key) || []), r]);
+  });
+  return Array.from(groups, ([key, group]) => ({ key, totals: sumUsage(group) }))
+    .sort((a, b) => b.totals.costUsd - a.totals.costUsd || b.totals.calls - a.totals.calls);
+};
+
+export const getRecordsInMonth = (records: AiUsageRecord[], month: string) =>
+  records.filter(r => getUsageMonth(r.dateAdded) === month);
+
+export interface BudgetLimit {
+  scope: 'tree' | 'member';
+  limitUsd: number;
+  spentUsd: number; // This month so far
+}
+
+// The limits of a budget with this month's spending against each; the member limit is
+// measured against the given account's calls only
+export const getBudgetLimits = (budget: AiBudget | undefined, records: AiUsageRecord[], userId: string | null, now = Date.now()): BudgetLimit[] => {
+  if (!budget) return [];
+  const month = getRecordsInMonth(records, getUsageMonth(now));
+  const limits: BudgetLimit[] = [];
+  if (budget.treeMonthlyUsd > 0) {
+    limits.push({ scope: 'tree', limitUsd: budget.treeMonthlyUsd, spentUsd: sumUsage(month).costUsd });
+  }
+  if (budget.memberMonthlyUsd > 0 && userId) {
+    limits.push({ scope: 'member', limitUsd: budget.memberMonthlyUsd, spentUsd: sumUsage(month.filter(r => r.user?.uid === userId)).costUsd });
+  }
+  return limits;
+};
+
+// The first limit a call of this expected cost would go over, or null
+export const findExceededLimit = (limits: BudgetLimit[], expectedCostUsd: number): BudgetLimit | null =>
+  limits.find(limit => limit.spentUsd + expectedCostUsd > limit.limitUsd) || null;
+
+export const formatUsd = (amount: number) =>
+  amount > 0 && amount < 0.01 ? '< $0.01' : `$${amount.toFixed(2)}`;
+
+export const describeLimit = (limit: BudgetLimit) =>
+  `${limit.scope === 'tree' ? "This tree's" : 'Your'} monthly AI budget of ${formatUsd(limit.limitUsd)} would be exceeded (${formatUsd(limit.spentUsd)} spent so far).`;
@@ -0,0 +1,80 @@
+import { Ancestor } from '../types';
+import {
+  Anomaly,
+  DuplicateCandidate,
+  calculateStats,
+  findDuplicateCandidates,
+  findLocalAnomalies,
+  getAverageGenerationSpan,
+  getLifespanDistribution
+} from './genealogy';
+
+// --- TREE ANALYTICS ---
+// The whole-tree checks behind the dashboards. They grow with the tree (duplicate search
+// most of all), so AnalyticsService runs them in a Web Worker, step by step, reporting
+// progress and stopping early when newer data makes the run pointless.
+
+export interface TreeAnalytics {
+  stats: ReturnType<typeof calculateStats>;
+  lifespanDistribution: ReturnType<typeof getLifespanDistribution>;
+  averageGenerationSpan: number | null;
+  anomalies: Anomaly[];
+  duplicates: DuplicateCandidate[];
+}
+
+export type AnalyticsStep = 'stats' | 'lifespans' | 'generations' | 'anomalies' | 'duplicates';
+
+export const ANALYTICS_STEPS: { step: AnalyticsStep; label: string }[] = [
+  { step: 'stats', label: 'Counting people' },
+  { step: 'lifespans', label: 'Measuring lifespans' },
+  { step: 'generations', label: 'Measuring generation gaps' },
+  { step: 'anomalies', label: 'Checking dates' },
+  { step: 'duplicates', label: 'Looking for duplicates' }
+];
+
+export interface AnalyticsProgress {
+  step: AnalyticsStep;
+  label: string;
+  completed: number; // Steps finished before this one
+  total: number;
+}
+
+// --- Worker protocol ---
+export type AnalyticsRequest =
+  | { type: 'analyze'; jobId: number; ancestors: Ancestor[]; dismissedKeys: string[] }
+  | { type: 'cancel'; jobId: number };
+
+export type AnalyticsResponse =
+  | { type: 'progress'; jobId: number; progress: AnalyticsProgress }
+  | { type: 'result'; jobId: number; result: TreeAnalytics }
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'error'; jobId: number; message: string };
+
+// Lets queued messages (a cancel) through between steps
+const yieldToEvents = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Resolves to null when cancelled part way
+export const computeAnalytics = async (
+  ancestors: Ancestor[],
+  dismissedKeys: string[],
+  onProgress: (progress: AnalyticsProgress) => void,
+  isCancelled: () => boolean
+): Promise<TreeAnalytics | null> => {
+  const partial: Partial<TreeAnalytics> = {};
+  const run: Record<AnalyticsStep, () => void> = {
+    stats: () => { partial.stats = calculateStats(ancestors); },
+    lifespans: () => { partial.lifespanDistribution = getLifespanDistribution(ancestors); },
+    generations: () => { partial.averageGenerationSpan = getAverageGenerationSpan(ancestors); },
+    anomalies: () => { partial.anomalies = findLocalAnomalies(ancestors); },
+    duplicates: () => { partial.duplicates = findDuplicateCandidates(ancestors, new Set(dismissedKeys)); }
+  };
+
+  for (let i = 0; i < ANALYTICS_STEPS.length; i++) {
+    await yieldToEvents();
+    if (isCancelled()) return null;
+    const { step, label } = ANALYTICS_STEPS[i];
+    onProgress({ step, label, completed: i, total: ANALYTICS_STEPS.length });
+    run[step]();
+  }
+  return partial as TreeAnalytics;
+};
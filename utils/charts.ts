@@ -0,0 +1,141 @@
+import { Ancestor } from '../types';
+import { byBirth, getTreeIndex } from './treeIndex';
+
+// --- CHART LAYOUTS ---
+// Hierarchies for TreeVisualization to lay out with d3.tree. Each focused mode centres
+// on one person and reaches a set number of generations up, down or both; people
+// reached by more than one line appear once per line, as in a printed pedigree.
+
+export type ChartMode = 'family' | 'pedigree' | 'descendants' | 'hourglass';
+
+export const CHART_MODES: { mode: ChartMode; label: string; icon: string }[] = [
+  { mode: 'family', label: 'Whole family', icon: 'groups' },
+  { mode: 'pedigree', label: 'Pedigree (ancestors)', icon: 'family_history' },
+  { mode: 'descendants', label: 'Descendants', icon: 'account_tree' },
+  { mode: 'hourglass', label: 'Hourglass', icon: 'hourglass_empty' }
+];
+
+export const MAX_CHART_GENERATIONS = 10;
+
+export interface ChartNode {
+  person: Ancestor;
+  generation: number; // Steps from the focus person
+  children?: ChartNode[];
+}
+
+export interface ChartLayout {
+  root: ChartNode;
+  direction: 1 | -1; // -1 grows upward (ancestors)
+}
+
+// Father then mother, up to `generations` levels above the focus. A person reached again
+// through their own line (bad data) is not followed a second time.
+export const buildPedigree = (focus: Ancestor, ancestors: Ancestor[], generations: number): ChartNode => {
+  const { byId, parentsOf } = getTreeIndex(ancestors);
+  const build = (person: Ancestor, generation: number, path: Set<string>): ChartNode => {
+    const parents = generation < generations
+      ? parentsOf(person).filter(id => !path.has(id)).map(id => byId.get(id)!)
+      : [];
+    const nextPath = new Set(path).add(person.id);
+    const children = parents.map(parent => build(parent, generation + 1, nextPath));
+    return { person, generation, children: children.length ? children : undefined };
+  };
+  return build(focus, 0, new Set());
+};
+
+// Every child of the focus and of each descendant, oldest first, `generations` levels down
+export const buildDescendants = (focus: Ancestor, ancestors: Ancestor[], generations: number): ChartNode => {
+  const { childrenOf } = getTreeIndex(ancestors);
+  const build = (person: Ancestor, generation: number, path: Set<string>): ChartNode => {
+    const kids = generation < generations ? (childrenOf.get(person.id) || []).filter(c => !path.has(c.id)) : [];
+    const nextPath = new Set(path).add(person.id);
+    const children = kids.map(child => build(child, generation + 1, nextPath));
+    return { person, generation, children: children.length ? children : undefined };
+  };
+  return build(focus, 0, new Set());
+};
+
+// Default focus for the focused modes: the person with the longest recorded line above them
+export const getDefaultFocusId = (ancestors: Ancestor[]): string | null => {
+  const { generationOf } = getTreeIndex(ancestors);
+  // Ties go to the youngest
+  let best: Ancestor | null = null;
+  for (const person of ancestors) {
+    const depth = generationOf.get(person.id)!;
+    if (!best || depth > generationOf.get(best.id)! || (depth === generationOf.get(best.id)! && byBirth(best, person) < 0)) best = person;
+  }
+  return best ? best.id : null;
+};
+
+// The hierarchies to draw for a focused mode (the whole-family view is a graph, see
+// familyGraph.ts). The hourglass is two: descendants below the focus and ancestors above
+// it, sharing the focus as their root.
+export const getChartLayouts = (
+  mode: Exclude<ChartMode, 'family'>,
+  focus: Ancestor,
+  ancestors: Ancestor[],
+  generations: number
+): ChartLayout[] => {
+  if (mode === 'pedigree') return [{ root: buildPedigree(focus, ancestors, generations), direction: -1 }];
+  if (mode === 'descendants') return [{ root: buildDescendants(focus, ancestors, generations), direction: 1 }];
+  return [
+    { root: buildDescendants(focus, ancestors, generations), direction: 1 },
+    { root: buildPedigree(focus, ancestors, generations), direction: -1 }
+  ];
+};
+
+// --- RADIAL CHARTS ---
+// The fan chart gives every ancestor a fixed slot by Ahnentafel number (father of n is
+// 2n, mother 2n + 1), so missing ancestors leave visible gaps. The descendant wheel
+// shares each ring out by the number of descendants below.
+
+export type RadialChartKind = 'fan' | 'descendants';
+export type FanShape = 'half' | 'full';
+export type FanColorMode = 'gender' | 'country' | 'completeness';
+
+export const FAN_COLOR_MODES: { mode: FanColorMode; label: string }[] = [
+  { mode: 'gender', label: 'Gender' },
+  { mode: 'country', label: 'Country' },
+  { mode: 'completeness', label: 'Completeness' }
+];
+
+export const MIN_FAN_GENERATIONS = 4;
+
+// Ahnentafel number -> person, for the focus (1) and up to `generations` generations above
+export const getAhnentafel = (focus: Ancestor, ancestors: Ancestor[], generations: number): Map<number, Ancestor> => {
+  const { byId } = getTreeIndex(ancestors);
+  const slots = new Map<number, Ancestor>();
+  const place = (person: Ancestor, number: number, generation: number, path: Set<string>) => {
+    slots.set(number, person);
+    if (generation >= generations) return;
+    const nextPath = new Set(path).add(person.id);
+    const father = person.fatherId ? byId.get(person.fatherId) : undefined;
+    const mother = person.motherId ? byId.get(person.motherId) : undefined;
+    if (father && !nextPath.has(father.id)) place(father, number * 2, generation + 1, nextPath);
+    if (mother && !nextPath.has(mother.id)) place(mother, number * 2 + 1, generation + 1, nextPath);
+  };
+  place(focus, 1, 0, new Set());
+  return slots;
+};
+
+// Default centre of the descendant wheel: the person without parents with most descendants
+export const getDefaultDescendantFocusId = (ancestors: Ancestor[]): string | null => {
+  const { parentsOf, childrenOf } = getTreeIndex(ancestors);
+  const countBelow = (id: string) => {
+    const seen = new Set<string>();
+    const stack = [id];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (seen.has(current)) continue;
+      seen.add(current);
+      (childrenOf.get(current) || []).forEach(c => stack.push(c.id));
+    }
+    return seen.size;
+  };
+  let best: { id: string; count: number } | null = null;
+  for (const person of ancestors.filter(a => parentsOf(a).length === 0)) {
+    const count = countBelow(person.id);
+    if (!best || count > best.count) best = { id: person.id, count };
+  }
+  return best ? best.id : ancestors[0]?.id || null;
+};
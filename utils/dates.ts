@@ -0,0 +1,258 @@
+import { Ancestor, Calendar, DateFormData, DateQualifier, GenealogicalDate } from '../types';
+
+// --- GENEALOGICAL DATES ---
+// Parsing, formatting and comparison of qualified dates ("ABT 1850", "BEF 3 MAR 1901",
+// "BET 1840 AND 1845"). The GEDCOM keywords are the canonical text form so that
+// qualifiers survive a round trip through import and export.
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// How far an approximate date may plausibly be from its stated year
+const QUALIFIER_SPAN: Partial<Record<DateQualifier, number>> = {
+  about: 2,
+  calculated: 1,
+  estimated: 5
+};
+
+const GEDCOM_KEYWORDS: Record<DateQualifier, string> = {
+  exact: '',
+  about: 'ABT',
+  calculated: 'CAL',
+  estimated: 'EST',
+  before: 'BEF',
+  after: 'AFT',
+  between: 'BET'
+};
+
+const DISPLAY_PREFIX: Record<DateQualifier, string> = {
+  exact: '',
+  about: 'abt.',
+  calculated: 'calc.',
+  estimated: 'est.',
+  before: 'bef.',
+  after: 'aft.',
+  between: 'bet.'
+};
+
+interface DatePart {
+  year: number;
+  month?: number;
+  day?: number;
+}
+
+// Parse a single date value: "3 MAR 1901", "MAR 1901", "1901", "1901-03-03", "March 3, 1901"
+const parseDatePart = (raw: string): DatePart | null => {
+  const text = raw.trim().toUpperCase().replace(/,/g, ' ');
+  if (!text) return null;
+
+  const iso = text.match(/^(\d{3,4})-(\d{1,2})(?:-(\d{1,2}))?$/);
+  if (iso) {
+    const part: DatePart = { year: parseInt(iso[1], 10), month: parseInt(iso[2], 10) };
+    if (iso[3]) part.day = parseInt(iso[3], 10);
+    return part;
+  }
+
+  const tokens = text.split(/\s+/);
+  let year: number | null = null;
+  let month: number | undefined;
+  let day: number | undefined;
+
+  for (const token of tokens) {
+    const monthIndex = MONTHS.findIndex(m => token.startsWith(m));
+    if (monthIndex >= 0) {
+      month = monthIndex + 1;
+    } else if (/^\d{3,4}(\/\d{1,2})?$/.test(token)) {
+      // Dual-dated years ("1700/01") are stored by their first year
+      year = parseInt(token, 10);
+    } else if (/^\d{1,2}$/.test(token)) {
+      day = parseInt(token, 10);
+    }
+  }
+
+  if (year === null) return null;
+  const part: DatePart = { year };
+  if (month) {
+    part.month = month;
+    if (day) part.day = day;
+  }
+  return part;
+};
+
+const formatDatePart = (part: DatePart, monthNames: string[]): string => {
+  const pieces: string[] = [];
+  if (part.day && part.month) pieces.push(String(part.day));
+  if (part.month) pieces.push(monthNames[part.month - 1]);
+  pieces.push(String(part.year));
+  return pieces.join(' ');
+};
+
+// Assemble a date without undefined keys; Firestore rejects undefined field values
+const buildDate = (qualifier: DateQualifier, start: DatePart, calendar: Calendar, end?: DatePart | null): GenealogicalDate => {
+  const date: GenealogicalDate = { qualifier, year: start.year, calendar };
+  if (start.month) date.month = start.month;
+  if (start.day) date.day = start.day;
+  if (end) {
+    date.endYear = end.year;
+    if (end.month) date.endMonth = end.month;
+    if (end.day) date.endDay = end.day;
+  }
+  return date;
+};
+
+// Parse a GEDCOM date or a loosely formatted user-entered date
+export const parseGenealogicalDate = (input: string | undefined | null): GenealogicalDate | null => {
+  if (!input) return null;
+  let text = input.trim().toUpperCase();
+  if (!text) return null;
+
+  // Calendar escapes precede each date: "ABT @#DJULIAN@ 1700" (GEDCOM 5.5.1) or "ABT JULIAN 1700" (GEDCOM 7)
+  let calendar: Calendar = 'Gregorian';
+  if (/@#DJULIAN@|\bJULIAN\b/.test(text)) calendar = 'Julian';
+  text = text.replace(/@#D[A-Z ]+@/g, ' ').replace(/\b(JULIAN|GREGORIAN)\b/g, ' ').replace(/\s+/g, ' ').trim();
+
+  // Interpreted dates keep their date and drop the free-text phrase
+  text = text.replace(/^INT\s+/, '').replace(/\(.*\)$/, '').trim();
+
+  const range = text.match(/^(?:BET|BETWEEN|FROM)\s+(.+?)\s+(?:AND|TO)\s+(.+)$/) || text.match(/^(\d{3,4})\s*[-–]\s*(\d{3,4})$/);
+  if (range) {
+    const start = parseDatePart(range[1]);
+    const end = parseDatePart(range[2]);
+    if (start && end) return buildDate('between', start, calendar, end);
+    if (start) return buildDate('after', start, calendar);
+    if (end) return buildDate('before', end, calendar);
+    return null;
+  }
+
+  const prefixes: [RegExp, DateQualifier][] = [
+    [/^(CAL|CALCULATED)\s+/, 'calculated'],
+    [/^(ABT|ABOUT|CIRCA|CA\.|CA|C\.|~)(?=[\s\d])\s*/, 'about'],
+    [/^(EST|ESTIMATED)\s+/, 'estimated'],
+    [/^(BEF|BEFORE|TO)\s+/, 'before'],
+    [/^(AFT|AFTER|FROM)\s+/, 'after']
+  ];
+
+  for (const [pattern, qualifier] of prefixes) {
+    const match = text.match(pattern);
+    if (match) {
+      const part = parseDatePart(text.slice(match[0].length));
+      return part ? buildDate(qualifier, part, calendar) : null;
+    }
+  }
+
+  const part = parseDatePart(text);
+  return part ? buildDate('exact', part, calendar) : null;
+};
+
+// GEDCOM text form. 5.5.1 marks calendars with an @#D...@ escape, 7.0 with a bare keyword.
+export const formatGedcomDate = (date: GenealogicalDate, version: '5.5.1' | '7.0' = '5.5.1'): string => {
+  const calendarPrefix = date.calendar === 'Julian' ? (version === '7.0' ? 'JULIAN ' : '@#DJULIAN@ ') : '';
+  const start = calendarPrefix + formatDatePart(date, MONTHS);
+
+  if (date.qualifier === 'between' && date.endYear) {
+    const end = calendarPrefix + formatDatePart({ year: date.endYear, month: date.endMonth, day: date.endDay }, MONTHS);
+    return `BET ${start} AND ${end}`;
+  }
+  const keyword = GEDCOM_KEYWORDS[date.qualifier];
+  return keyword ? `${keyword} ${start}` : start;
+};
+
+// Human readable form, e.g. "abt. 1850", "bef. 3 Mar 1901", "bet. 1840 and 1845 (Julian)"
+export const formatDisplayDate = (date: GenealogicalDate): string => {
+  const start = formatDatePart(date, MONTH_NAMES);
+  let text: string;
+  if (date.qualifier === 'between' && date.endYear) {
+    const end = formatDatePart({ year: date.endYear, month: date.endMonth, day: date.endDay }, MONTH_NAMES);
+    text = `bet. ${start} and ${end}`;
+  } else {
+    const prefix = DISPLAY_PREFIX[date.qualifier];
+    text = prefix ? `${prefix} ${start}` : start;
+  }
+  return date.calendar === 'Julian' ? `${text} (Julian)` : text;
+};
+
+// Single representative year, used for sorting and the legacy birthYear/deathYear fields
+export const getSortYear = (date: GenealogicalDate): number => {
+  if (date.qualifier === 'between' && date.endYear) {
+    return Math.round((date.year + date.endYear) / 2);
+  }
+  return date.year;
+};
+
+const toDecimalYear = (year: number, month?: number, day?: number): number => {
+  return year + (month ? (month - 1) / 12 : 0) + (day ? (day - 1) / 365 : 0);
+};
+
+export interface DateBounds {
+  earliest: number;
+  latest: number;
+  central: number;
+}
+
+// Range of decimal years a date could refer to. Open-ended qualifiers are unbounded on one side.
+export const getDateBounds = (date: GenealogicalDate): DateBounds => {
+  const point = toDecimalYear(date.year, date.month, date.day);
+  const span = QUALIFIER_SPAN[date.qualifier] || 0;
+
+  switch (date.qualifier) {
+    case 'before':
+      return { earliest: -Infinity, latest: point, central: point };
+    case 'after':
+      return { earliest: point, latest: Infinity, central: point };
+    case 'between': {
+      const end = date.endYear ? toDecimalYear(date.endYear, date.endMonth, date.endDay) : point;
+      return { earliest: point, latest: end, central: (point + end) / 2 };
+    }
+    default:
+      return { earliest: point - span, latest: point + span, central: point };
+  }
+};
+
+export const isApproximate = (date: GenealogicalDate): boolean => date.qualifier !== 'exact';
+
+// Structured date of a life event, falling back to the legacy year field for older records
+export const getLifeDate = (ancestor: Ancestor, event: 'birth' | 'death'): GenealogicalDate | null => {
+  const date = event === 'birth' ? ancestor.birthDate : ancestor.deathDate;
+  if (date) return date;
+  const year = event === 'birth' ? ancestor.birthYear : ancestor.deathYear;
+  return year ? { qualifier: 'exact', year, calendar: 'Gregorian' } : null;
+};
+
+export const formatLifeDate = (ancestor: Ancestor, event: 'birth' | 'death'): string | null => {
+  const date = getLifeDate(ancestor, event);
+  return date ? formatDisplayDate(date) : null;
+};
+
+// Orders by birth date with day precision; undated people sort last
+export const compareByBirth = (a: Ancestor, b: Ancestor): number => {
+  const dateA = getLifeDate(a, 'birth');
+  const dateB = getLifeDate(b, 'birth');
+  if (!dateA && !dateB) return 0;
+  if (!dateA) return 1;
+  if (!dateB) return -1;
+  return getDateBounds(dateA).central - getDateBounds(dateB).central;
+};
+
+// --- FORM CONVERSION ---
+
+export const emptyDateForm: DateFormData = { qualifier: 'exact', value: '', endValue: '', calendar: 'Gregorian' };
+
+export const dateToFormData = (date: GenealogicalDate | null | undefined): DateFormData => {
+  if (!date) return { ...emptyDateForm };
+  return {
+    qualifier: date.qualifier,
+    value: formatDatePart(date, MONTH_NAMES),
+    endValue: date.endYear ? formatDatePart({ year: date.endYear, month: date.endMonth, day: date.endDay }, MONTH_NAMES) : '',
+    calendar: date.calendar
+  };
+};
+
+export const formDataToDate = (form: DateFormData): GenealogicalDate | null => {
+  const start = parseDatePart(form.value);
+  if (!start) return null;
+  if (form.qualifier === 'between') {
+    const end = parseDatePart(form.endValue);
+    return end ? buildDate('between', start, form.calendar, end) : buildDate('after', start, form.calendar);
+  }
+  return buildDate(form.qualifier, start, form.calendar);
+};
@@ -0,0 +1,351 @@
+import { Ancestor, Citation, CitationFact, Source, Union, UnionType } from '../types';
+import { formatGedcomDate, getLifeDate, parseGenealogicalDate } from './dates';
+import { qualityToQuay } from './sources';
+
+// --- GEDCOM EXPORTER ---
+// Writes the tree as GEDCOM 5.5.1 or 7.0. Everything written here is read back
+// by parseGEDCOM, so an export followed by an import reproduces the same people,
+// parent links, unions, sources and citations.
+
+export type GedcomVersion = '5.5.1' | '7.0';
+
+export interface GedcomExportOptions {
+  version: GedcomVersion;
+  // Restrict the export to these people; links to anyone outside are dropped
+  includeIds?: Set<string> | null;
+  // Source catalogue; a subset export only carries the sources its people cite
+  sources?: Source[];
+}
+
+// 5.5.1 caps lines at 255 characters; long values continue on CONC lines
+const MAX_VALUE_LENGTH = 200;
+
+const GEDCOM_MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// Union types other than marriage and engagement are written as typed FAM events
+const EVENT_UNION_TYPES: UnionType[] = ['Civil Partnership', 'Cohabitation'];
+
+// The last word is taken as the surname: "Mary Ann Smith" -> Mary Ann / Smith
+export const splitName = (name: string): { given: string; surname: string } => {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length <= 1) return { given: parts[0] || '', surname: '' };
+  return { given: parts.slice(0, -1).join(' '), surname: parts[parts.length - 1] };
+};
+
+// Name types GEDCOM can carry in NAME.TYPE; anything else is written as an aka
+const NAME_TYPES = ['aka', 'birth', 'immigrant', 'maiden', 'married', 'professional'];
+
+// Splits "Joe Miller (aka)" or "Weaver (1881)" into the text and its trailing qualifier
+const splitQualifier = (text: string): { text: string; qualifier?: string } => {
+  const match = text.match(/^(.*?)\s*\(([^)]*)\)$/);
+  return match ? { text: match[1], qualifier: match[2] } : { text };
+};
+
+const guessImageForm = (url: string): { legacy: string; mime: string } => {
+  const ext = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+  if (ext === 'png') return { legacy: 'png', mime: 'image/png' };
+  if (ext === 'gif') return { legacy: 'gif', mime: 'image/gif' };
+  if (ext === 'webp') return { legacy: 'webp', mime: 'image/webp' };
+  return { legacy: 'jpg', mime: 'image/jpeg' };
+};
+
+// Find a split point that does not fall next to a space (readers trim line ends)
+// or inside an escaped @@
+const chunkValue = (value: string): string[] => {
+  const chunks: string[] = [];
+  let rest = value;
+  while (rest.length > MAX_VALUE_LENGTH) {
+    let cut = MAX_VALUE_LENGTH;
+    while (cut > 1 && (rest[cut - 1] === ' ' || rest[cut] === ' ' || rest[cut - 1] === '@')) cut--;
+    if (cut <= 1) cut = MAX_VALUE_LENGTH;
+    chunks.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  chunks.push(rest);
+  return chunks;
+};
+
+export const exportGEDCOM = (
+  ancestors: Ancestor[],
+  unions: Union[],
+  options: GedcomExportOptions
+): string => {
+  const { version, includeIds, sources = [] } = options;
+  const people = includeIds ? ancestors.filter(a => includeIds.has(a.id)) : ancestors;
+  const peopleById = new Map(people.map(p => [p.id, p]));
+  const lines: string[] = [];
+
+  const escapeText = (text: string): string => {
+    // 5.5.1 doubles every @ in text; 7.0 only a leading one
+    return version === '5.5.1' ? text.replace(/@/g, '@@') : text.replace(/^@/, '@@');
+  };
+
+  const push = (level: number, tag: string, value?: string) => {
+    lines.push(value ? `${level} ${tag} ${value}` : `${level} ${tag}`);
+  };
+
+  // Multi-line text: CONT for line breaks, and in 5.5.1 CONC for over-long lines
+  const pushText = (level: number, tag: string, text: string) => {
+    const textLines = escapeText(text).split(/\r?\n/);
+    textLines.forEach((textLine, i) => {
+      const chunks = version === '5.5.1' ? chunkValue(textLine) : [textLine];
+      chunks.forEach((chunk, j) => {
+        if (i === 0 && j === 0) push(level, tag, chunk);
+        else push(level + 1, j === 0 ? 'CONT' : 'CONC', chunk);
+      });
+    });
+  };
+
+  // --- Cross-reference ids ---
+  const indiXref = new Map<string, string>();
+  people.forEach((p, i) => indiXref.set(p.id, `@I${i + 1}@`));
+
+  // Sources cited by the exported people, or the whole catalogue for a full export
+  const citedIds = new Set(people.flatMap(p => (p.citations || []).map(c => c.sourceId)));
+  const exportedSources = includeIds ? sources.filter(s => citedIds.has(s.id)) : sources;
+  const sourXref = new Map<string, string>();
+  exportedSources.forEach((source, i) => sourXref.set(source.id, `@S${i + 1}@`));
+
+  // Citations for one fact, written below the line they support
+  const pushCitations = (level: number, citations: Citation[] | undefined, fact: CitationFact) => {
+    (citations || []).filter(c => c.fact === fact && sourXref.has(c.sourceId)).forEach(c => {
+      push(level, 'SOUR', sourXref.get(c.sourceId));
+      if (c.page) push(level + 1, 'PAGE', escapeText(c.page));
+      if (c.detail) {
+        push(level + 1, 'DATA');
+        pushText(level + 2, 'TEXT', c.detail);
+      }
+      if (c.quality) push(level + 1, 'QUAY', qualityToQuay(c.quality));
+    });
+  };
+
+  // --- Families ---
+  // Every union becomes a FAM, and children attach to the union of their two parents.
+  // Parent pairs without a recorded union (or single known parents) get their own FAM.
+  interface FamRecord {
+    xref: string;
+    partners: string[];
+    children: string[];
+    union?: Union;
+  }
+  const families: FamRecord[] = [];
+  const familyByPair = new Map<string, FamRecord>();
+  const pairKey = (a: string | null, b: string | null) => [a || '', b || ''].sort().join('|');
+
+  const addFamily = (partners: string[], union?: Union): FamRecord => {
+    const fam: FamRecord = { xref: `@F${families.length + 1}@`, partners, children: [], union };
+    families.push(fam);
+    return fam;
+  };
+
+  unions.forEach(u => {
+    const partners = [u.partner1Id, u.partner2Id].filter((id): id is string => !!id && peopleById.has(id));
+    if (partners.length === 0) return;
+    const fam = addFamily(partners, u);
+    // Only a union with both partners present adopts their children; a lone-partner
+    // FAM without children is what marks a union with an unrecorded partner
+    if (partners.length < 2) return;
+    const key = pairKey(partners[0], partners[1]);
+    if (!familyByPair.has(key)) familyByPair.set(key, fam);
+  });
+
+  people.forEach(p => {
+    const fatherId = p.fatherId && peopleById.has(p.fatherId) ? p.fatherId : null;
+    const motherId = p.motherId && peopleById.has(p.motherId) ? p.motherId : null;
+    if (!fatherId && !motherId) return;
+
+    const key = pairKey(fatherId, motherId);
+    let fam = familyByPair.get(key);
+    if (!fam) {
+      fam = addFamily([fatherId, motherId].filter((id): id is string => !!id));
+      familyByPair.set(key, fam);
+    }
+    fam.children.push(p.id);
+  });
+
+  const famc = new Map<string, string>();
+  const fams = new Map<string, string[]>();
+  families.forEach(fam => {
+    fam.children.forEach(id => famc.set(id, fam.xref));
+    fam.partners.forEach(id => fams.set(id, [...(fams.get(id) || []), fam.xref]));
+  });
+
+  // --- Header ---
+  const now = new Date();
+  const headerDate = `${now.getDate()} ${GEDCOM_MONTHS[now.getMonth()]} ${now.getFullYear()}`;
+  push(0, 'HEAD');
+  if (version === '7.0') {
+    push(1, 'GEDC');
+    push(2, 'VERS', '7.0');
+    push(1, 'SOUR', 'ANCESTRYAI');
+    push(2, 'NAME', 'Ancestry AI');
+    push(1, 'DATE', headerDate);
+  } else {
+    push(1, 'SOUR', 'ANCESTRYAI');
+    push(2, 'NAME', 'Ancestry AI');
+    push(1, 'DATE', headerDate);
+    push(1, 'GEDC');
+    push(2, 'VERS', '5.5.1');
+    push(2, 'FORM', 'LINEAGE-LINKED');
+    push(1, 'CHAR', 'UTF-8');
+  }
+
+  // --- Individuals ---
+  // 7.0 only allows OBJE as a pointer, so photos there become multimedia records
+  const mediaRecords: { xref: string; url: string }[] = [];
+
+  people.forEach(p => {
+    push(0, `${indiXref.get(p.id)} INDI`);
+
+    const { given, surname } = splitName(p.name);
+    push(1, 'NAME', surname ? `${escapeText(given)} /${escapeText(surname)}/`.trim() : escapeText(given));
+    if (given) push(2, 'GIVN', escapeText(given));
+    if (surname) push(2, 'SURN', escapeText(surname));
+
+    const alternates = (p.alternateNames || []).map(splitQualifier);
+    alternates.filter(a => a.qualifier === 'nickname').forEach(a => push(2, 'NICK', escapeText(a.text)));
+    alternates.filter(a => a.qualifier !== 'nickname').forEach(a => {
+      const alt = splitName(a.text);
+      push(1, 'NAME', alt.surname ? `${escapeText(alt.given)} /${escapeText(alt.surname)}/`.trim() : escapeText(alt.given));
+      const type = a.qualifier && NAME_TYPES.includes(a.qualifier) ? a.qualifier : 'aka';
+      // 5.5.1 has no "professional" type; 7.0 uses upper-case enumerations
+      push(2, 'TYPE', version === '7.0' ? type.toUpperCase() : type === 'professional' ? 'aka' : type);
+    });
+
+    push(1, 'SEX', p.gender === 'Male' ? 'M' : p.gender === 'Female' ? 'F' : 'U');
+
+    const birth = getLifeDate(p, 'birth');
+    const birthPlace = p.birthPlace || p.country;
+    if (birth || birthPlace) {
+      push(1, 'BIRT');
+      if (birth) push(2, 'DATE', formatGedcomDate(birth, version));
+      if (birthPlace) push(2, 'PLAC', escapeText(birthPlace));
+      pushCitations(2, p.citations, 'birth');
+    }
+
+    const death = getLifeDate(p, 'death');
+    if (death || p.deathPlace) {
+      push(1, 'DEAT');
+      if (death) push(2, 'DATE', formatGedcomDate(death, version));
+      if (p.deathPlace) push(2, 'PLAC', escapeText(p.deathPlace));
+      pushCitations(2, p.citations, 'death');
+    }
+
+    // Evidence for the country rides on a nationality fact, which the importer reads back as the country
+    if (p.country && (p.citations || []).some(c => c.fact === 'country' && sourXref.has(c.sourceId))) {
+      push(1, 'NATI', escapeText(p.country));
+      pushCitations(2, p.citations, 'country');
+    }
+
+    (p.occupations || []).forEach(entry => {
+      const { text, qualifier } = splitQualifier(entry);
+      const date = qualifier ? parseGenealogicalDate(qualifier) : null;
+      push(1, 'OCCU', escapeText(date ? text : entry));
+      if (date) push(2, 'DATE', formatGedcomDate(date, version));
+    });
+
+    if (p.photoUrl) {
+      const form = guessImageForm(p.photoUrl);
+      if (version === '7.0') {
+        const xref = `@O${mediaRecords.length + 1}@`;
+        mediaRecords.push({ xref, url: p.photoUrl });
+        push(1, 'OBJE', xref);
+      } else {
+        push(1, 'OBJE');
+        push(2, 'FILE', p.photoUrl);
+        push(3, 'FORM', form.legacy);
+      }
+    }
+
+    if (p.notes) pushText(1, 'NOTE', p.notes);
+    pushCitations(1, p.citations, 'general');
+
+    const childOf = famc.get(p.id);
+    if (childOf) {
+      push(1, 'FAMC', childOf);
+      pushCitations(2, p.citations, 'parentage');
+    }
+    (fams.get(p.id) || []).forEach(xref => push(1, 'FAMS', xref));
+  });
+
+  // --- Families ---
+  families.forEach(fam => {
+    push(0, `${fam.xref} FAM`);
+
+    // HUSB/WIFE follow gender where possible; same-sex couples keep their recorded order
+    const [first, second] = fam.partners.map(id => peopleById.get(id)!);
+    let husb: Ancestor | undefined = first;
+    let wife: Ancestor | undefined = second;
+    if (!second) {
+      if (first.gender === 'Female') { husb = undefined; wife = first; }
+    } else if (first.gender === 'Female' && second.gender !== 'Female') {
+      husb = second;
+      wife = first;
+    }
+    if (husb) push(1, 'HUSB', indiXref.get(husb.id));
+    if (wife) push(1, 'WIFE', indiXref.get(wife.id));
+
+    const union = fam.union;
+    if (union) {
+      const place = union.place ? escapeText(union.place) : '';
+      if (union.type === 'Marriage') {
+        push(1, 'MARR');
+        if (union.marriageYear) push(2, 'DATE', String(union.marriageYear));
+        if (place) push(2, 'PLAC', place);
+      } else if (union.type === 'Engagement') {
+        push(1, 'ENGA');
+        if (union.marriageYear) push(2, 'DATE', String(union.marriageYear));
+        if (place) push(2, 'PLAC', place);
+      } else if (EVENT_UNION_TYPES.includes(union.type)) {
+        push(1, 'EVEN');
+        push(2, 'TYPE', union.type);
+        if (union.marriageYear) push(2, 'DATE', String(union.marriageYear));
+        if (place) push(2, 'PLAC', place);
+      }
+      if (union.divorceYear) {
+        push(1, 'DIV');
+        push(2, 'DATE', String(union.divorceYear));
+      }
+      if (union.notes) pushText(1, 'NOTE', union.notes);
+    }
+
+    fam.children.forEach(id => push(1, 'CHIL', indiXref.get(id)));
+  });
+
+  // --- Sources ---
+  // Repositories become records of their own, shared by every source held there
+  const repoXref = new Map<string, string>();
+  exportedSources.forEach(source => {
+    if (source.repository && !repoXref.has(source.repository)) repoXref.set(source.repository, `@R${repoXref.size + 1}@`);
+  });
+
+  exportedSources.forEach(source => {
+    push(0, `${sourXref.get(source.id)} SOUR`);
+    pushText(1, 'TITL', source.title);
+    if (source.author) pushText(1, 'AUTH', source.author);
+    if (source.repository) {
+      push(1, 'REPO', repoXref.get(source.repository));
+      if (source.archiveReference) push(2, 'CALN', escapeText(source.archiveReference));
+    } else if (source.archiveReference) {
+      push(1, 'REFN', escapeText(source.archiveReference));
+    }
+    // Neither version has a URL field on sources, so it is written as a note
+    if (source.url) pushText(1, 'NOTE', source.url);
+    if (source.notes) pushText(1, 'NOTE', source.notes);
+  });
+
+  repoXref.forEach((xref, name) => {
+    push(0, `${xref} REPO`);
+    push(1, 'NAME', escapeText(name));
+  });
+
+  // --- Multimedia (7.0) ---
+  mediaRecords.forEach(media => {
+    push(0, `${media.xref} OBJE`);
+    push(1, 'FILE', media.url);
+    push(2, 'FORM', guessImageForm(media.url).mime);
+  });
+
+  push(0, 'TRLR');
+  return lines.join('\n') + '\n';
+};
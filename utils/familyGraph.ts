@@ -0,0 +1,240 @@
+import { Ancestor, Union } from '../types';
+import { getTreeIndex } from './treeIndex';
+
+// --- FAMILY GRAPH LAYOUT ---
+// Lays the whole tree out as a graph rather than a hierarchy, so everyone is drawn once
+// however many lines lead to them (cousin marriages, remarriages, pedigree collapse):
+//  1. Generations: parents sit at least one row above their children, partners share a row.
+//  2. Couples: partners on a row are kept side by side; the children of each pair of
+//     parents hang from one couple node between them.
+//  3. Order: rows are re-sorted by the average position of parents and children, sweeping
+//     down and up, to cut down crossing lines.
+//  4. Position: each row is packed left to right and right to left towards where its
+//     parents (or children) are, and the two packings are averaged.
+
+export const GRAPH_COLUMN_WIDTH = 240;
+export const GRAPH_ROW_HEIGHT = 180;
+const CARD_HEIGHT = 80;
+const ORDER_SWEEPS = 8;
+const POSITION_SWEEPS = 3;
+
+export interface GraphNode {
+  person: Ancestor;
+  generation: number; // Row, counted from the oldest generation
+  x: number;
+  y: number;
+}
+
+// A child's parents: both when recorded together (a couple node), or a lone parent
+export interface GraphFamily {
+  parentIds: string[];
+  childIds: string[];
+  x: number; // Where lines to the children start
+  y: number;
+}
+
+export interface FamilyGraphLayout {
+  nodes: GraphNode[];
+  families: GraphFamily[];
+}
+
+export const layoutFamilyGraph = (ancestors: Ancestor[], unions: Union[]): FamilyGraphLayout => {
+  const { byId, parentsOf, childrenOf, order, rank, generationOf } = getTreeIndex(ancestors);
+
+  const partners = new Map<string, Set<string>>();
+  const addPartners = (a: string, b: string) => {
+    if (a === b || !byId.has(a) || !byId.has(b)) return;
+    if (!partners.has(a)) partners.set(a, new Set());
+    if (!partners.has(b)) partners.set(b, new Set());
+    partners.get(a)!.add(b);
+    partners.get(b)!.add(a);
+  };
+  unions.forEach(u => u.partner2Id && addPartners(u.partner1Id, u.partner2Id));
+  ancestors.forEach(a => a.fatherId && a.motherId && addPartners(a.fatherId, a.motherId));
+
+  // --- 1. Generations ---
+  // Start from the index's rows: parents before children, loops ignored
+  const parentsAbove = (person: Ancestor) => parentsOf(person).filter(id => rank.get(id)! < rank.get(person.id)!);
+
+  const level = new Map<string, number>(generationOf);
+  // People without parents move down to just above their highest child
+  [...order].reverse().forEach(person => {
+    if (parentsOf(person).length > 0) return;
+    const kids = (childrenOf.get(person.id) || []).map(c => level.get(c.id)!);
+    if (kids.length > 0) level.set(person.id, Math.min(...kids) - 1);
+  });
+  // Partners share the lower row, pushing children further down, until nothing moves
+  for (let pass = 0; pass < ancestors.length; pass++) {
+    let moved = false;
+    partners.forEach((others, id) => {
+      others.forEach(other => {
+        if (level.get(other)! < level.get(id)!) {
+          level.set(other, level.get(id)!);
+          moved = true;
+        }
+      });
+    });
+    order.forEach(person => {
+      const min = Math.max(-1, ...parentsAbove(person).map(id => level.get(id)!)) + 1;
+      if (level.get(person.id)! < min) {
+        level.set(person.id, min);
+        moved = true;
+      }
+    });
+    if (!moved) break;
+  }
+  const top = ancestors.reduce((min, a) => Math.min(min, level.get(a.id)!), Infinity);
+  ancestors.forEach(a => level.set(a.id, level.get(a.id)! - top));
+
+  // --- 2. Couples ---
+  // Partners on the same row form a block; someone with several partners sits between them
+  const rowCount = ancestors.reduce((max, a) => Math.max(max, level.get(a.id)! + 1), 0);
+  const rows: Ancestor[][] = Array.from({ length: rowCount }, () => []);
+  order.forEach(person => rows[level.get(person.id)!].push(person));
+  const blockRows: string[][][] = rows.map(row => {
+    const onRow = new Set(row.map(p => p.id));
+    const rowPartners = (id: string) => Array.from(partners.get(id) || []).filter(other => onRow.has(other));
+    const seen = new Set<string>();
+    const blocks: string[][] = [];
+    row.forEach(person => {
+      if (seen.has(person.id)) return;
+      // Collect the block, then walk it from an end so partners end up next to each other
+      const members: string[] = [];
+      const stack = [person.id];
+      while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        members.push(id);
+        rowPartners(id).forEach(other => stack.push(other));
+      }
+      const start = members.reduce((best, id) => (rowPartners(id).length < rowPartners(best).length ? id : best), members[0]);
+      const chain: string[] = [];
+      const walk = (id: string) => {
+        if (chain.includes(id)) return;
+        chain.push(id);
+        rowPartners(id).forEach(walk);
+      };
+      walk(start);
+      blocks.push(chain);
+    });
+    return blocks;
+  });
+
+  // --- 3. Order ---
+  const position = new Map<string, number>();
+  const numberRow = (blocks: string[][]) => {
+    let i = 0;
+    blocks.forEach(block => block.forEach(id => position.set(id, i++)));
+  };
+  blockRows.forEach(numberRow);
+
+  const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const neighbours = (id: string, direction: 'up' | 'down') => direction === 'up'
+    ? parentsOf(byId.get(id)!)
+    : (childrenOf.get(id) || []).map(c => c.id);
+  const sortRow = (row: number, direction: 'up' | 'down') => {
+    const keyed = blockRows[row].map(block => {
+      const linked = block.flatMap(id => neighbours(id, direction)).map(id => position.get(id)!);
+      return { block, key: linked.length ? average(linked) : average(block.map(id => position.get(id)!)) };
+    });
+    keyed.sort((a, b) => a.key - b.key);
+    blockRows[row] = keyed.map(k => k.block);
+    numberRow(blockRows[row]);
+  };
+  for (let sweep = 0; sweep < ORDER_SWEEPS; sweep++) {
+    for (let row = 1; row < blockRows.length; row++) sortRow(row, 'up');
+    for (let row = blockRows.length - 2; row >= 0; row--) sortRow(row, 'down');
+  }
+
+  // --- 4. Position ---
+  const x = new Map<string, number>();
+  blockRows.forEach(blocks => {
+    let i = 0;
+    blocks.forEach(block => block.forEach(id => x.set(id, (i++) * GRAPH_COLUMN_WIDTH)));
+  });
+
+  const placeRow = (row: number, direction: 'up' | 'down') => {
+    const blocks = blockRows[row];
+    const widths = blocks.map(block => block.length * GRAPH_COLUMN_WIDTH);
+    // Where each block would like its left edge: under its members' parents (or above their children)
+    const wanted = blocks.map(block => {
+      const wishes = block.flatMap((id, offset) => {
+        const linked = neighbours(id, direction);
+        return linked.length ? [average(linked.map(other => x.get(other)!)) - offset * GRAPH_COLUMN_WIDTH] : [];
+      });
+      return wishes.length ? average(wishes) : x.get(block[0])!;
+    });
+    const fromLeft: number[] = [];
+    wanted.forEach((want, i) => { fromLeft[i] = i === 0 ? want : Math.max(want, fromLeft[i - 1] + widths[i - 1]); });
+    const fromRight: number[] = [];
+    for (let i = wanted.length - 1; i >= 0; i--) {
+      fromRight[i] = i === wanted.length - 1 ? wanted[i] : Math.min(wanted[i], fromRight[i + 1] - widths[i]);
+    }
+    blocks.forEach((block, i) => {
+      const left = (fromLeft[i] + fromRight[i]) / 2;
+      block.forEach((id, offset) => x.set(id, left + offset * GRAPH_COLUMN_WIDTH));
+    });
+  };
+  for (let sweep = 0; sweep < POSITION_SWEEPS; sweep++) {
+    for (let row = 1; row < blockRows.length; row++) placeRow(row, 'up');
+    for (let row = blockRows.length - 2; row >= 0; row--) placeRow(row, 'down');
+  }
+  for (let row = 1; row < blockRows.length; row++) placeRow(row, 'up');
+
+  // Centre the drawing on the oldest generation
+  const shift = blockRows.length && blockRows[0].length ? average(blockRows[0].flat().map(id => x.get(id)!)) : 0;
+
+  const nodes: GraphNode[] = order.map(person => ({
+    person,
+    generation: level.get(person.id)!,
+    x: x.get(person.id)! - shift,
+    y: level.get(person.id)! * GRAPH_ROW_HEIGHT
+  }));
+  const nodeById = new Map(nodes.map(n => [n.person.id, n]));
+
+  // Children of the same parents share a family; lines start below the lower parent's card
+  const families = new Map<string, GraphFamily>();
+  order.forEach(child => {
+    const parentIds = parentsOf(child);
+    if (parentIds.length === 0) return;
+    const key = parentIds.join('|');
+    if (!families.has(key)) {
+      const parents = parentIds.map(id => nodeById.get(id)!);
+      families.set(key, {
+        parentIds,
+        childIds: [],
+        x: average(parents.map(p => p.x)),
+        y: Math.max(...parents.map(p => p.y)) + CARD_HEIGHT + 20
+      });
+    }
+    families.get(key)!.childIds.push(child.id);
+  });
+
+  return { nodes, families: Array.from(families.values()) };
+};
+
+// People reached through more than one line of someone's ancestry: the ancestors shared by
+// a person's father's and mother's sides (pedigree collapse)
+export const findSharedAncestors = (ancestors: Ancestor[]): Set<string> => {
+  const { byId, parentsOf } = getTreeIndex(ancestors);
+  const memo = new Map<string, Set<string>>();
+  const lineOf = (id: string, path: Set<string>): Set<string> => {
+    if (memo.has(id)) return memo.get(id)!;
+    const line = new Set<string>([id]);
+    const nextPath = new Set(path).add(id);
+    parentsOf(byId.get(id)!).filter(p => !path.has(p)).forEach(p => lineOf(p, nextPath).forEach(a => line.add(a)));
+    memo.set(id, line);
+    return line;
+  };
+  const shared = new Set<string>();
+  ancestors.forEach(person => {
+    const parents = parentsOf(person);
+    if (parents.length < 2) return;
+    const fatherLine = lineOf(parents[0], new Set([person.id]));
+    lineOf(parents[1], new Set([person.id])).forEach(id => {
+      if (fatherLine.has(id)) shared.add(id);
+    });
+  });
+  return shared;
+};
@@ -0,0 +1,187 @@
+// --- GEDCOM TOKENIZER ---
+// Decodes the raw bytes of a .ged file and builds the level-based record tree that
+// the importer walks. Continuation lines (CONT/CONC) are folded into their parent's
+// value here, so consumers only ever see complete text values.
+
+export interface GedcomNode {
+  level: number;
+  xref?: string; // Record id without @ delimiters, e.g. "I1"
+  tag: string;
+  value: string;
+  pointer?: string; // Set when the value is a cross-reference, without @ delimiters
+  children: GedcomNode[];
+  line: number; // 1-based source line, for the import report
+}
+
+export interface GedcomDocument {
+  records: GedcomNode[];
+  malformedLines: number[];
+}
+
+export type GedcomEncoding = 'UTF-8' | 'UTF-16LE' | 'UTF-16BE' | 'ANSEL' | 'WINDOWS-1252';
+
+// --- ANSEL ---
+// ANSEL (ANSI Z39.47) is the default character set of GEDCOM 5.5.1. Spacing characters
+// map one-to-one; diacritics are combining marks written *before* their base letter.
+
+const ANSEL_SPACING: Record<number, string> = {
+  0xA1: 'Ł', 0xA2: 'Ø', 0xA3: 'Đ', 0xA4: 'Þ', 0xA5: 'Æ', 0xA6: 'Œ',
+  0xA7: 'ʹ', 0xA8: '·', 0xA9: '♭', 0xAA: '®', 0xAB: '±', 0xAC: 'Ơ',
+  0xAD: 'Ư', 0xAE: 'ʼ', 0xB0: 'ʻ', 0xB1: 'ł', 0xB2: 'ø', 0xB3: 'đ',
+  0xB4: 'þ', 0xB5: 'æ', 0xB6: 'œ', 0xB7: 'ʺ', 0xB8: 'ı', 0xB9: '£',
+  0xBA: 'ð', 0xBC: 'ơ', 0xBD: 'ư', 0xBE: '□', 0xBF: '■', 0xC0: '°',
+  0xC1: 'ℓ', 0xC2: '℗', 0xC3: '©', 0xC4: '♯', 0xC5: '¿', 0xC6: '¡',
+  0xC7: 'ß', 0xC8: '€', 0xCD: 'e', 0xCE: 'o', 0xCF: 'ß'
+};
+
+const ANSEL_COMBINING: Record<number, string> = {
+  0xE0: '\u0309', 0xE1: '\u0300', 0xE2: '\u0301', 0xE3: '\u0302', 0xE4: '\u0303', 0xE5: '\u0304',
+  0xE6: '\u0306', 0xE7: '\u0307', 0xE8: '\u0308', 0xE9: '\u030C', 0xEA: '\u030A', 0xEB: '\uFE20',
+  0xEC: '\uFE21', 0xED: '\u0315', 0xEE: '\u030B', 0xEF: '\u0310', 0xF0: '\u0327', 0xF1: '\u0328',
+  0xF2: '\u0323', 0xF3: '\u0324', 0xF4: '\u0325', 0xF5: '\u0333', 0xF6: '\u0332', 0xF7: '\u0326',
+  0xF8: '\u031C', 0xF9: '\u032E', 0xFA: '\uFE22', 0xFB: '\uFE23', 0xFE: '\u0313'
+};
+
+const decodeAnsel = (bytes: Uint8Array): string => {
+  let out = '';
+  let pendingMarks = '';
+  for (const byte of bytes) {
+    if (ANSEL_COMBINING[byte]) {
+      pendingMarks += ANSEL_COMBINING[byte];
+      continue;
+    }
+    const char = byte < 0x80 ? String.fromCharCode(byte) : (ANSEL_SPACING[byte] || '\uFFFD');
+    out += char + pendingMarks;
+    pendingMarks = '';
+  }
+  return (out + pendingMarks).normalize('NFC');
+};
+
+// Declared character set from "1 CHAR ..." in the header, read as plain ASCII
+const readDeclaredCharset = (bytes: Uint8Array): string | null => {
+  const head = String.fromCharCode(...Array.from(bytes.subarray(0, 4096)));
+  const match = head.match(/[\r\n]\s*1\s+CHAR\s+([^\r\n]+)/);
+  return match ? match[1].trim().toUpperCase() : null;
+};
+
+// Detect the encoding from a byte order mark, the shape of the first line, or the
+// header's CHAR declaration, in that order of trust.
+export const detectGedcomEncoding = (bytes: Uint8Array): GedcomEncoding => {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'UTF-8';
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'UTF-16LE';
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'UTF-16BE';
+  // "0 HEAD" without a BOM: a zero byte on either side of the "0"
+  if (bytes[0] === 0x30 && bytes[1] === 0x00) return 'UTF-16LE';
+  if (bytes[0] === 0x00 && bytes[1] === 0x30) return 'UTF-16BE';
+
+  const declared = readDeclaredCharset(bytes);
+  if (declared === 'ANSEL') return 'ANSEL';
+  if (declared === 'ANSI' || declared === 'IBMPC' || declared === 'IBM WINDOWS' || declared === 'WINDOWS-1252') return 'WINDOWS-1252';
+  if (declared === 'UNICODE') return 'UTF-16LE';
+  // UTF-8, ASCII, or undeclared (GEDCOM 7 is always UTF-8)
+  return 'UTF-8';
+};
+
+export const decodeGedcom = (input: ArrayBuffer | Uint8Array): { text: string; encoding: GedcomEncoding } => {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  let encoding = detectGedcomEncoding(bytes);
+  let text: string;
+
+  switch (encoding) {
+    case 'ANSEL':
+      text = decodeAnsel(bytes);
+      break;
+    case 'UTF-16LE':
+      text = new TextDecoder('utf-16le').decode(bytes);
+      break;
+    case 'UTF-16BE':
+      text = new TextDecoder('utf-16be').decode(bytes);
+      break;
+    case 'WINDOWS-1252':
+      text = new TextDecoder('windows-1252').decode(bytes);
+      break;
+    default:
+      try {
+        text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+      } catch {
+        // Mislabelled legacy file: fall back to the usual Windows code page
+        encoding = 'WINDOWS-1252';
+        text = new TextDecoder('windows-1252').decode(bytes);
+      }
+  }
+
+  return { text: text.replace(/^\uFEFF/, ''), encoding };
+};
+
+// --- TREE BUILDER ---
+
+// level [@xref@] TAG [value]
+const LINE_PATTERN = /^\s*(\d{1,2})\s+(?:@([^@\s]+)@\s+)?([A-Za-z0-9_]+)(?: (.*))?$/;
+const POINTER_PATTERN = /^@([^@#\s][^@]*)@$/;
+
+export const parseGedcomTree = (text: string): GedcomDocument => {
+  const records: GedcomNode[] = [];
+  const malformedLines: number[] = [];
+  const stack: GedcomNode[] = [];
+
+  text.split(/\r\n|\r|\n/).forEach((raw, index) => {
+    if (!raw.trim()) return;
+    const match = raw.match(LINE_PATTERN);
+    if (!match) {
+      malformedLines.push(index + 1);
+      return;
+    }
+
+    const level = parseInt(match[1], 10);
+    const tag = match[3].toUpperCase();
+    const value = match[4] ?? '';
+
+    // Continuations extend the value of the line they belong to
+    if ((tag === 'CONT' || tag === 'CONC') && stack.length > 0 && level > 0) {
+      const parent = stack[Math.min(level, stack.length) - 1];
+      parent.value += (tag === 'CONT' ? '\n' : '') + value;
+      return;
+    }
+
+    // A level may only be one deeper than its parent; deeper jumps attach to the last node
+    if (level > stack.length) malformedLines.push(index + 1);
+    const depth = Math.min(level, stack.length);
+
+    const pointerMatch = value.trim().match(POINTER_PATTERN);
+    const node: GedcomNode = {
+      level,
+      tag,
+      value,
+      children: [],
+      line: index + 1
+    };
+    if (match[2]) node.xref = match[2];
+    if (pointerMatch && pointerMatch[1] !== 'VOID') node.pointer = pointerMatch[1];
+
+    if (depth === 0) records.push(node);
+    else stack[depth - 1].children.push(node);
+
+    stack.length = depth;
+    stack.push(node);
+  });
+
+  return { records, malformedLines };
+};
+
+// --- NODE HELPERS ---
+
+export const findChild = (node: GedcomNode, tag: string): GedcomNode | undefined => {
+  return node.children.find(c => c.tag === tag);
+};
+
+export const findChildren = (node: GedcomNode, tag: string): GedcomNode[] => {
+  return node.children.filter(c => c.tag === tag);
+};
+
+export const childValue = (node: GedcomNode, tag: string): string | undefined => {
+  const child = findChild(node, tag);
+  return child ? unescapeGedcomText(child.value).trim() || undefined : undefined;
+};
+
+// Text values escape a literal @ as @@
+export const unescapeGedcomText = (value: string): string => value.replace(/@@/g, '@');
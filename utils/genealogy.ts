@@ -1,4 +1,8 @@
-import { Ancestor } from '../types';
+import { Ancestor, Union } from '../types';
+import { DateBounds, formatDisplayDate, getDateBounds, getLifeDate, isApproximate } from './dates';
+import { daitchMokotoff, doubleMetaphone, soundex } from './phonetics';
+import { areGivenNameVariants } from './nicknames';
+import { getTreeIndex } from './treeIndex';
 
 // Check for circular references (e.g., A is father of B, B cannot be father of A)
 export const hasCircularReference = (
@@ -9,9 +13,7 @@ export const hasCircularReference = (
   if (!proposedParentId) return false;
   if (personId === proposedParentId) return true;
 
-  // Build a map for O(1) lookups
-  const map = new Map<string, Ancestor>();
-  ancestors.forEach((a) => map.set(a.id, a));
+  const map = getTreeIndex(ancestors).byId;
 
   // BFS or DFS to see if 'personId' is an ancestor of 'proposedParentId'
   // If 'personId' is already an ancestor of the proposed parent, 
@@ -37,65 +39,251 @@ export const hasCircularReference = (
   return false;
 };
 
-// Simple relationship calculator logic
-export const calculateRelationship = (
+// Unions in which the given person is one of the partners
+export const getUnionsForPerson = (unions: Union[], personId: string): Union[] => {
+  return unions.filter(u => u.partner1Id === personId || u.partner2Id === personId);
+};
+
+// The other side of a union, seen from one partner
+export const getPartnerId = (union: Union, personId: string): string | null => {
+  return union.partner1Id === personId ? union.partner2Id : union.partner1Id;
+};
+
+// Ids of a person and everyone above them through father/mother links
+export const getAncestorIds = (ancestors: Ancestor[], personId: string): Set<string> => {
+  const map = getTreeIndex(ancestors).byId;
+  const result = new Set<string>();
+  const stack = [personId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    const person = map.get(id);
+    if (!person || result.has(id)) continue;
+    result.add(id);
+    if (person.fatherId) stack.push(person.fatherId);
+    if (person.motherId) stack.push(person.motherId);
+  }
+  return result;
+};
+
+// Ids of a person and everyone descended from them
+export const getDescendantIds = (ancestors: Ancestor[], personId: string): Set<string> => {
+  const { childrenOf } = getTreeIndex(ancestors);
+  const result = new Set<string>();
+  const stack = [personId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (result.has(id)) continue;
+    result.add(id);
+    (childrenOf.get(id) || []).forEach(child => stack.push(child.id));
+  }
+  return result;
+};
+
+// --- Kinship ---
+// Blood relationships are named from the lowest common ancestors of two people:
+// the number of generations from each person up to a shared ancestor fixes the
+// relationship (parent, sibling, grand-aunt, nth cousin m times removed, ...).
+
+export interface KinshipResult {
+  label: string; // e.g. "first cousin once removed"
+  description: string; // e.g. "Anna is Ben's first cousin once removed"
+  path: string[]; // Person ids from A up to the common ancestor and down to B
+  commonAncestorIds: string[];
+  generationsFromA: number;
+  generationsFromB: number;
+  isHalf: boolean;
+  isDouble: boolean;
+}
+
+interface AncestorTrace {
+  depth: Map<string, number>; // ancestorId -> generations above the start person
+  via: Map<string, string>; // ancestorId -> the child through which it was first reached
+}
+
+// BFS up the parent links, so every ancestor is recorded at its nearest generation
+const traceAncestors = (map: Map<string, Ancestor>, startId: string): AncestorTrace => {
+  const depth = new Map<string, number>([[startId, 0]]);
+  const via = new Map<string, string>();
+  const queue = [startId];
+
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    const person = map.get(currentId);
+    if (!person) continue;
+    for (const parentId of [person.fatherId, person.motherId]) {
+      if (!parentId || depth.has(parentId) || !map.has(parentId)) continue;
+      depth.set(parentId, depth.get(currentId)! + 1);
+      via.set(parentId, currentId);
+      queue.push(parentId);
+    }
+  }
+
+  return { depth, via };
+};
+
+// Walk back down from an ancestor to the traced person: [ancestor, ..., person]
+const descentFrom = (trace: AncestorTrace, ancestorId: string): string[] => {
+  const line = [ancestorId];
+  let current = ancestorId;
+  while (trace.via.has(current)) {
+    current = trace.via.get(current)!;
+    line.push(current);
+  }
+  return line;
+};
+
+const ORDINALS = ['zeroth', 'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+
+const ordinal = (n: number): string => ORDINALS[n] || `${n}th`;
+
+const removedText = (n: number): string => {
+  if (n === 1) return 'once removed';
+  if (n === 2) return 'twice removed';
+  return `${n} times removed`;
+};
+
+const greatPrefix = (n: number): string => {
+  if (n <= 0) return '';
+  if (n <= 2) return 'great-'.repeat(n);
+  return `${n}x great-`;
+};
+
+const gendered = (person: Ancestor, male: string, female: string, neutral: string): string => {
+  if (person.gender === 'Male') return male;
+  if (person.gender === 'Female') return female;
+  return neutral;
+};
+
+// Name of the relationship of A to B, given generations up to the common ancestor from each side
+const nameKinship = (personA: Ancestor, fromA: number, fromB: number, isHalf: boolean, isDouble: boolean): string => {
+  const half = isHalf ? 'half-' : '';
+  const double = isDouble ? 'double ' : '';
+
+  if (fromA === 0 && fromB === 0) return 'self';
+
+  if (fromA === 0) {
+    const base = gendered(personA, 'father', 'mother', 'parent');
+    return fromB === 1 ? base : `${greatPrefix(fromB - 2)}grand${base}`;
+  }
+
+  if (fromB === 0) {
+    const base = gendered(personA, 'son', 'daughter', 'child');
+    return fromA === 1 ? base : `${greatPrefix(fromA - 2)}grand${base}`;
+  }
+
+  if (fromA === 1 && fromB === 1) {
+    return `${half}${gendered(personA, 'brother', 'sister', 'sibling')}`;
+  }
+
+  if (fromA === 1) {
+    const base = gendered(personA, 'uncle', 'aunt', 'aunt/uncle');
+    return fromB === 2 ? `${half}${base}` : `${half}${greatPrefix(fromB - 3)}grand-${base}`;
+  }
+
+  if (fromB === 1) {
+    const base = gendered(personA, 'nephew', 'niece', 'niece/nephew');
+    return fromA === 2 ? `${half}${base}` : `${half}${greatPrefix(fromA - 3)}grand-${base}`;
+  }
+
+  const degree = Math.min(fromA, fromB) - 1;
+  const removed = Math.abs(fromA - fromB);
+  const cousin = `${isHalf ? 'half ' : ''}${double}${ordinal(degree)} cousin`;
+  return removed > 0 ? `${cousin} ${removedText(removed)}` : cousin;
+};
+
+// Every blood relationship between A and B, closest first. Pedigree collapse can
+// relate two people along several lines, each reported separately.
+export const computeKinship = (
   ancestors: Ancestor[],
   personAId: string,
   personBId: string
-): string => {
-  if (personAId === personBId) return "Self";
-
-  const map = new Map<string, Ancestor>();
-  ancestors.forEach((a) => map.set(a.id, a));
+): KinshipResult[] => {
+  const map = getTreeIndex(ancestors).byId;
 
   const personA = map.get(personAId);
   const personB = map.get(personBId);
+  if (!personA || !personB) return [];
 
-  if (!personA || !personB) return "Unknown";
+  const traceA = traceAncestors(map, personAId);
+  const traceB = traceAncestors(map, personBId);
 
-  // Check direct parent
-  if (personA.fatherId === personBId || personA.motherId === personBId) return "Child of selected";
-  if (personB.fatherId === personAId || personB.motherId === personAId) return "Parent of selected";
+  const common = Array.from(traceA.depth.keys()).filter(id => traceB.depth.has(id));
 
-  // Check Siblings (share at least one parent)
-  const shareFather = personA.fatherId && personA.fatherId === personB.fatherId;
-  const shareMother = personA.motherId && personA.motherId === personB.motherId;
+  // Drop common ancestors that are only shared because a nearer common ancestor descends from them
+  const superseded = new Set<string>();
+  common.forEach(id => {
+    traceAncestors(map, id).depth.forEach((_, ancestorId) => {
+      if (ancestorId !== id) superseded.add(ancestorId);
+    });
+  });
+  const lowest = common.filter(id => !superseded.has(id));
+
+  // Group by generation distance; a couple shows up as two ancestors in the same group
+  const groups = new Map<string, string[]>();
+  lowest.forEach(id => {
+    const key = `${traceA.depth.get(id)}:${traceB.depth.get(id)}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(id);
+  });
 
-  if (shareFather && shareMother) return "Full Sibling";
-  if (shareFather || shareMother) return "Half Sibling";
+  const results: KinshipResult[] = [];
+  groups.forEach(ids => {
+    const fromA = traceA.depth.get(ids[0])!;
+    const fromB = traceB.depth.get(ids[0])!;
+
+    // Half relations: one shared ancestor where both lines have a different, known other parent
+    let isHalf = false;
+    if (fromA > 0 && fromB > 0 && ids.length === 1) {
+      const childA = map.get(traceA.via.get(ids[0])!);
+      const childB = map.get(traceB.via.get(ids[0])!);
+      isHalf = !!(childA?.fatherId && childA.motherId && childB?.fatherId && childB.motherId);
+    }
 
-  // Basic Cousin Check (Parents are siblings)
-  const parentsA = [personA.fatherId, personA.motherId].filter(Boolean) as string[];
-  const parentsB = [personB.fatherId, personB.motherId].filter(Boolean) as string[];
+    // Double relations: the shared ancestors are reached through more than one child line on A's side
+    const childLinesA = new Set(ids.map(id => traceA.via.get(id)));
+    const isDouble = fromA > 0 && fromB > 0 && childLinesA.size > 1;
+
+    const up = descentFrom(traceA, ids[0]).reverse();
+    const down = descentFrom(traceB, ids[0]);
+    const label = nameKinship(personA, fromA, fromB, isHalf, isDouble);
+
+    results.push({
+      label,
+      description: `${personA.name} is ${personB.name}'s ${label}`,
+      path: [...up, ...down.slice(1)],
+      commonAncestorIds: ids,
+      generationsFromA: fromA,
+      generationsFromB: fromB,
+      isHalf,
+      isDouble
+    });
+  });
 
-  for (const pA of parentsA) {
-    for (const pB of parentsB) {
-      if (calculateRelationship(ancestors, pA, pB).includes("Sibling")) {
-        return "First Cousin";
-      }
-    }
-  }
+  return results.sort((a, b) => (a.generationsFromA + a.generationsFromB) - (b.generationsFromA + b.generationsFromB));
+};
 
-  // Grandparent check
-  if (parentsA.includes(personBId)) return "Child"; // Already checked, but logic flows
-  // Check if B is parent of A's parent
-  for (const pA of parentsA) {
-    const parentNode = map.get(pA);
-    if (parentNode && (parentNode.fatherId === personBId || parentNode.motherId === personBId)) {
-      return "Grandchild of selected";
-    }
-  }
-  
-  // Check if A is parent of B's parent
-  for (const pB of parentsB) {
-    const parentNode = map.get(pB);
-    if (parentNode && (parentNode.fatherId === personAId || parentNode.motherId === personAId)) {
-      return "Grandparent of selected";
-    }
-  }
+// Single-line summary of the closest relationship
+export const calculateRelationship = (
+  ancestors: Ancestor[],
+  personAId: string,
+  personBId: string
+): string => {
+  if (personAId === personBId) return "Self";
+  if (!ancestors.some(a => a.id === personAId) || !ancestors.some(a => a.id === personBId)) return "Unknown";
 
-  // Fallback for complex graph traversal
-  return "Distant Relative or No Relation Found (Basic Search)";
+  const [closest] = computeKinship(ancestors, personAId, personBId);
+  return closest ? closest.description : "No blood relation found";
+};
+
+// Bounds of a life event date, or null when undated
+const getLifeBounds = (ancestor: Ancestor, event: 'birth' | 'death'): DateBounds | null => {
+  const date = getLifeDate(ancestor, event);
+  return date ? getDateBounds(date) : null;
+};
+
+const describeLifeDate = (ancestor: Ancestor, event: 'birth' | 'death'): string => {
+  const date = getLifeDate(ancestor, event);
+  return date ? formatDisplayDate(date) : '?';
 };
 
 // Calculate General Stats
@@ -111,9 +299,15 @@ export const calculateStats = (ancestors: Ancestor[]) => {
     else if (a.gender === 'Female') femaleCount++;
     else unknownCount++;
 
-    if (a.birthYear && a.deathYear && a.deathYear > a.birthYear) {
-      totalLifespan += (a.deathYear - a.birthYear);
-      countWithDates++;
+    // Open-ended dates (before/after) say nothing reliable about a lifespan
+    const birth = getLifeBounds(a, 'birth');
+    const death = getLifeBounds(a, 'death');
+    if (birth && death && isFinite(birth.earliest) && isFinite(birth.latest) && isFinite(death.earliest) && isFinite(death.latest)) {
+      const lifespan = death.central - birth.central;
+      if (lifespan > 0) {
+        totalLifespan += lifespan;
+        countWithDates++;
+      }
     }
   });
 
@@ -141,21 +335,355 @@ export const calculateCompleteness = (a: Ancestor): number => {
   return Math.round((score / totalWeight) * 100);
 };
 
-export const findPotentialDuplicates = (ancestors: Ancestor[]): Ancestor[][] => {
+// --- Record Matching ---
+// Scores how likely two records describe the same person. Used both for duplicates
+// inside the tree and for matching incoming import records against existing ones.
+// Surnames are compared by sound (see phonetics.ts) and given names through the
+// nickname tables, so "Johann Schmidt" and "John Smith" are recognised as one name.
+
+export interface MatchScore {
+  score: number; // 0-1
+  reasons: string[];
+}
+
+// Lowercase, strip accents and punctuation: "Müller, José" -> "muller jose"
+export const normalizeName = (name: string): string => {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+const stringSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+};
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+const sharesCode = (a: string[], b: string[]) => a.some(code => code && b.includes(code));
+
+// Each comparison returns the similarity and, when it is worth showing, why
+interface PartMatch {
+  score: number;
+  reason: string | null;
+}
+
+const compareSurnames = (a: string, b: string): PartMatch => {
+  if (a === b) return { score: 1, reason: 'Same surname' };
+  const pair = `${capitalize(a)} / ${capitalize(b)}`;
+  const spelling = stringSimilarity(a, b);
+  if (sharesCode(doubleMetaphone(a), doubleMetaphone(b))) return { score: Math.max(spelling, 0.9), reason: `Surnames sound alike (${pair}, Double Metaphone)` };
+  if (sharesCode(daitchMokotoff(a), daitchMokotoff(b))) return { score: Math.max(spelling, 0.85), reason: `Surnames sound alike (${pair}, Daitch–Mokotoff)` };
+  if (soundex(a) === soundex(b)) return { score: Math.max(spelling, 0.75), reason: `Surnames sound alike (${pair}, Soundex)` };
+  return { score: spelling, reason: spelling >= 0.7 ? `Similar surnames (${pair})` : null };
+};
+
+const compareGivenNames = (a: string, b: string): PartMatch => {
+  if (a === b) return { score: 1, reason: 'Same given name' };
+  const pair = `${capitalize(a)} / ${capitalize(b)}`;
+  const spelling = stringSimilarity(a, b);
+  if (areGivenNameVariants(a, b)) return { score: Math.max(spelling, 0.9), reason: `Given name variants (${pair})` };
+  // A given name recorded only by its initial ("J Smith")
+  if ((a.length === 1 || b.length === 1) && a[0] === b[0]) return { score: 0.7, reason: `Initial matches (${pair})` };
+  if (sharesCode(doubleMetaphone(a), doubleMetaphone(b))) return { score: Math.max(spelling, 0.8), reason: `Given names sound alike (${pair})` };
+  return { score: spelling, reason: spelling >= 0.7 ? `Similar given names (${pair})` : null };
+};
+
+// Surname weighs most; a lone name (no surname) is compared as a surname but counts less
+export const compareNames = (nameA: string, nameB: string): MatchScore => {
+  const a = normalizeName(nameA).split(' ').filter(Boolean);
+  const b = normalizeName(nameB).split(' ').filter(Boolean);
+  if (a.length === 0 || b.length === 0) return { score: 0, reasons: [] };
+  if (a.join(' ') === b.join(' ')) return { score: 1, reasons: ['Same name'] };
+
+  const surname = compareSurnames(a[a.length - 1], b[b.length - 1]);
+  if (a.length === 1 || b.length === 1) {
+    return { score: surname.score * 0.8, reasons: surname.reason ? [surname.reason] : [] };
+  }
+
+  const given = compareGivenNames(a[0], b[0]);
+  return {
+    score: surname.score * 0.6 + given.score * 0.4,
+    reasons: [given.reason, surname.reason].filter((r): r is string => !!r)
+  };
+};
+
+export const nameSimilarity = (nameA: string, nameB: string): number => compareNames(nameA, nameB).score;
+
+// Best comparison across both records' primary and alternate names
+const compareAllNames = (a: Ancestor, b: Ancestor): MatchScore => {
+  const namesA = [a.name, ...(a.alternateNames || [])];
+  const namesB = [b.name, ...(b.alternateNames || [])];
+  let best: MatchScore = { score: 0, reasons: [] };
+  namesA.forEach((na, i) => namesB.forEach((nb, j) => {
+    const match = compareNames(na, nb);
+    if (match.score <= best.score) return;
+    best = i === 0 && j === 0 ? match : { score: match.score, reasons: [...match.reasons, `Via alternate name (${na} / ${nb})`] };
+  }));
+  return best;
+};
+
+// Dates further apart than this still count as consistent, since ages in
+// census and burial records are routinely off by a year or two
+const YEAR_TOLERANCE = 2;
+
+// Similarity of two life dates: 1 when their ranges overlap ("abt 1850" vs 1851),
+// high within the tolerance, fading out over ten years; null when either is unknown
+const lifeDateSimilarity = (a: Ancestor, b: Ancestor, event: 'birth' | 'death'): { score: number; reason: string | null } | null => {
+  const boundsA = getLifeBounds(a, event);
+  const boundsB = getLifeBounds(b, event);
+  if (!boundsA || !boundsB) return null;
+
+  const gap = Math.max(0, Math.max(boundsA.earliest, boundsB.earliest) - Math.min(boundsA.latest, boundsB.latest));
+  const label = event === 'birth' ? 'Birth' : 'Death';
+  const dates = `${describeLifeDate(a, event)} / ${describeLifeDate(b, event)}`;
+
+  if (gap === 0) {
+    const exact = !isApproximate(getLifeDate(a, event)!) && !isApproximate(getLifeDate(b, event)!) && boundsA.central === boundsB.central;
+    return { score: 1, reason: exact ? `Same ${event} date` : `${label} dates overlap (${dates})` };
+  }
+  const years = Math.round(gap);
+  if (gap <= YEAR_TOLERANCE) return { score: 0.85, reason: `${label} dates within ${YEAR_TOLERANCE} years (${dates})` };
+  const score = Math.max(0, 1 - gap / 10);
+  return { score, reason: score > 0 ? `${label} dates ${years} years apart (${dates})` : null };
+};
+
+const parentName = (lookup: Map<string, Ancestor>, id: string | null): string | null => {
+  return id ? lookup.get(id)?.name || null : null;
+};
+
+// Compare two records, each resolved against its own set of people so that
+// parents can be compared by name across a file import
+export const scoreAncestorMatch = (
+  a: Ancestor,
+  b: Ancestor,
+  lookupA: Map<string, Ancestor>,
+  lookupB: Map<string, Ancestor> = lookupA
+): MatchScore => {
+  const name = compareAllNames(a, b);
+  if (name.score < 0.6) return { score: 0, reasons: [] };
+  const reasons = [...name.reasons];
+
+  // Weighted evidence; unknown components count as neutral
+  let total = name.score * 0.5;
+  let weight = 0.5;
+
+  const birth = lifeDateSimilarity(a, b, 'birth');
+  if (birth) {
+    total += birth.score * 0.25;
+    weight += 0.25;
+    if (birth.reason) reasons.push(birth.reason);
+  }
+
+  const death = lifeDateSimilarity(a, b, 'death');
+  if (death) {
+    total += death.score * 0.1;
+    weight += 0.1;
+    if (death.reason) reasons.push(death.reason);
+  }
+
+  (['fatherId', 'motherId'] as const).forEach(key => {
+    const label = key === 'fatherId' ? 'father' : 'mother';
+    // Within one tree, pointing at the very same parent is the strongest signal
+    if (lookupA === lookupB && a[key] && a[key] === b[key]) {
+      total += 0.15;
+      weight += 0.15;
+      reasons.push(`Same ${label}`);
+      return;
+    }
+    const pa = parentName(lookupA, a[key]);
+    const pb = parentName(lookupB, b[key]);
+    if (!pa || !pb) return;
+    const similarity = nameSimilarity(pa, pb);
+    total += similarity * 0.15;
+    weight += 0.15;
+    if (similarity >= 0.85) reasons.push(`Same ${label} name (${pa})`);
+  });
+
+  const countryA = (a.country || '').trim().toLowerCase();
+  const countryB = (b.country || '').trim().toLowerCase();
+  if (countryA && countryB) {
+    const same = countryA === countryB;
+    total += same ? 0.05 : 0;
+    weight += 0.05;
+    if (same) reasons.push(`Same country (${a.country!.trim()})`);
+  }
+
+  let score = total / weight;
+
+  // Hard contradictions
+  if (a.gender !== 'Unknown' && b.gender !== 'Unknown' && a.gender !== b.gender) {
+    score *= 0.3;
+    reasons.push('Different gender');
+  }
+  if (birth && birth.score === 0) {
+    score *= 0.5;
+    reasons.push('Birth dates far apart');
+  }
+
+  return { score, reasons };
+};
+
+// Records are only compared when their surnames share a phonetic code, which keeps
+// large trees fast while still pairing "Schmidt" with "Smith"
+const blockKeys = (a: Ancestor): string[] => {
+  const keys = new Set<string>();
+  [a.name, ...(a.alternateNames || [])].forEach(name => {
+    const parts = normalizeName(name).split(' ');
+    const surname = parts[parts.length - 1];
+    if (!surname) return;
+    const [primary, secondary] = doubleMetaphone(surname);
+    [primary, secondary].filter(Boolean).forEach(code => keys.add(`dm:${code}`));
+    daitchMokotoff(surname).forEach(code => keys.add(`dmk:${code}`));
+    keys.add(`sx:${soundex(surname)}`);
+  });
+  return Array.from(keys);
+};
+
+const buildBlocks = (ancestors: Ancestor[]): Map<string, Ancestor[]> => {
+  const blocks = new Map<string, Ancestor[]>();
+  ancestors.forEach(a => {
+    blockKeys(a).forEach(key => {
+      if (!blocks.has(key)) blocks.set(key, []);
+      blocks.get(key)!.push(a);
+    });
+  });
+  return blocks;
+};
+
+// Stable id for a pair of people regardless of order, used to remember dismissals
+export const duplicatePairKey = (idA: string, idB: string): string => {
+  return idA < idB ? `${idA}__${idB}` : `${idB}__${idA}`;
+};
+
+export interface DuplicateCandidate {
+  key: string;
+  a: Ancestor;
+  b: Ancestor;
+  confidence: number; // 0-1
+  reasons: string[];
+}
+
+const DUPLICATE_CANDIDATE_THRESHOLD = 0.65;
+
+// Scored pairs of records that may be the same person, most likely first.
+// Pairs whose key is in `dismissed` were marked "not a duplicate" and are left out.
+export const findDuplicateCandidates = (
+  ancestors: Ancestor[],
+  dismissed: Set<string> = new Set(),
+  threshold = DUPLICATE_CANDIDATE_THRESHOLD
+): DuplicateCandidate[] => {
+  const lookup = new Map(ancestors.map(a => [a.id, a]));
+  const compared = new Set<string>();
+  const candidates: DuplicateCandidate[] = [];
+
+  buildBlocks(ancestors).forEach(block => {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const key = duplicatePairKey(block[i].id, block[j].id);
+        if (compared.has(key) || dismissed.has(key)) continue;
+        compared.add(key);
+        const match = scoreAncestorMatch(block[i], block[j], lookup);
+        if (match.score >= threshold) {
+          candidates.push({ key, a: block[i], b: block[j], confidence: match.score, reasons: match.reasons });
+        }
+      }
+    }
+  });
+
+  return candidates.sort((x, y) => y.confidence - x.confidence);
+};
+
+const DUPLICATE_THRESHOLD = 0.8;
+
+// Groups of likely duplicates. Union-find over matching pairs, so chains of matches form one group.
+export const findPotentialDuplicates = (
+  ancestors: Ancestor[],
+  threshold = DUPLICATE_THRESHOLD,
+  dismissed: Set<string> = new Set()
+): Ancestor[][] => {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const p = parent.get(id) || id;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+
+  findDuplicateCandidates(ancestors, dismissed, threshold).forEach(c => {
+    parent.set(find(c.b.id), find(c.a.id));
+  });
+
   const groups: Record<string, Ancestor[]> = {};
-  
   ancestors.forEach(a => {
-    // Check by Name + BirthYear
-    // A more robust check might include parents, but this is a good first pass
-    const key = `${a.name.toLowerCase().trim()}-${a.birthYear || '?'}`;
-    if (!groups[key]) groups[key] = [];
-    groups[key].push(a);
+    const root = find(a.id);
+    if (!groups[root]) groups[root] = [];
+    groups[root].push(a);
   });
 
   // Return only groups that have more than 1 entry
   return Object.values(groups).filter(g => g.length > 1);
 };
 
+export interface ImportMatch {
+  incomingId: string;
+  existing: Ancestor;
+  match: MatchScore;
+}
+
+const IMPORT_MATCH_THRESHOLD = 0.75;
+
+// Best existing record for each incoming one. Each existing record is claimed at most
+// once, strongest matches first, so two incoming people never merge into the same person.
+export const findImportMatches = (
+  incoming: Ancestor[],
+  existing: Ancestor[],
+  threshold = IMPORT_MATCH_THRESHOLD
+): ImportMatch[] => {
+  const incomingLookup = new Map(incoming.map(a => [a.id, a]));
+  const existingLookup = new Map(existing.map(a => [a.id, a]));
+  const existingBlocks = buildBlocks(existing);
+
+  const candidates: ImportMatch[] = [];
+  incoming.forEach(a => {
+    const pool = new Set<Ancestor>();
+    blockKeys(a).forEach(key => (existingBlocks.get(key) || []).forEach(b => pool.add(b)));
+    pool.forEach(b => {
+      const match = scoreAncestorMatch(a, b, incomingLookup, existingLookup);
+      if (match.score >= threshold) candidates.push({ incomingId: a.id, existing: b, match });
+    });
+  });
+
+  const claimedIncoming = new Set<string>();
+  const claimedExisting = new Set<string>();
+  return candidates
+    .sort((x, y) => y.match.score - x.match.score)
+    .filter(c => {
+      if (claimedIncoming.has(c.incomingId) || claimedExisting.has(c.existing.id)) return false;
+      claimedIncoming.add(c.incomingId);
+      claimedExisting.add(c.existing.id);
+      return true;
+    });
+};
+
 export const getLifespanDistribution = (ancestors: Ancestor[]) => {
   // Buckets of 10 years: 0-9, 10-19... 90-99, 100+
   const buckets = new Array(11).fill(0);
@@ -178,7 +706,7 @@ export const getAverageGenerationSpan = (ancestors: Ancestor[]): number | null =
   let totalSpan = 0;
   let count = 0;
   
-  const map = new Map(ancestors.map(a => [a.id, a]));
+  const map = getTreeIndex(ancestors).byId;
   
   ancestors.forEach(child => {
       if (child.birthYear) {
@@ -218,92 +746,103 @@ export interface Anomaly {
   message: string;
 }
 
+// Approximate dates only produce an Error when every reading of them is impossible;
+// otherwise a conflict between their central values is reported as a Warning.
 export const findLocalAnomalies = (ancestors: Ancestor[]): Anomaly[] => {
   const anomalies: Anomaly[] = [];
-  const map = new Map(ancestors.map(a => [a.id, a]));
+  const map = getTreeIndex(ancestors).byId;
 
   const currentYear = new Date().getFullYear();
 
   ancestors.forEach(person => {
+    const birth = getLifeBounds(person, 'birth');
+    const death = getLifeBounds(person, 'death');
+    const birthText = describeLifeDate(person, 'birth');
+    const deathText = describeLifeDate(person, 'death');
+
     // 1. Death before Birth
-    if (person.birthYear && person.deathYear && person.deathYear < person.birthYear) {
-      anomalies.push({
-        id: person.id,
-        name: person.name,
-        type: 'Error',
-        message: `Death year (${person.deathYear}) is before birth year (${person.birthYear}).`
-      });
+    if (birth && death) {
+      if (death.latest < birth.earliest) {
+        anomalies.push({
+          id: person.id,
+          name: person.name,
+          type: 'Error',
+          message: `Death (${deathText}) is before birth (${birthText}).`
+        });
+      } else if (death.central < birth.central) {
+        anomalies.push({
+          id: person.id,
+          name: person.name,
+          type: 'Warning',
+          message: `Death (${deathText}) may be before birth (${birthText}).`
+        });
+      }
     }
 
     // 2. Impossible Lifespan
-    if (person.birthYear && person.deathYear && (person.deathYear - person.birthYear > 120)) {
+    if (birth && death && isFinite(death.central - birth.central) && (death.central - birth.central > 120)) {
       anomalies.push({
         id: person.id,
         name: person.name,
         type: 'Warning',
-        message: `Recorded lifespan is ${person.deathYear - person.birthYear} years, which is highly unusual.`
+        message: `Recorded lifespan is ${Math.round(death.central - birth.central)} years, which is highly unusual.`
       });
     }
 
     // 3. Implied Deceased but no Death Year (born > 110 years ago)
-    if (person.birthYear && !person.deathYear && (currentYear - person.birthYear > 110)) {
+    if (birth && !death && (currentYear - birth.latest > 110)) {
       anomalies.push({
         id: person.id,
         name: person.name,
         type: 'Warning',
-        message: `Born in ${person.birthYear} (110+ years ago) but no death year recorded.`
+        message: `Born ${birthText} (110+ years ago) but no death date recorded.`
       });
     }
 
     // 4. Parent Logic
-    if (person.fatherId) {
-      const father = map.get(person.fatherId);
-      if (father && father.birthYear && person.birthYear) {
-        if (father.birthYear >= person.birthYear) {
-          anomalies.push({
-             id: person.id,
-             name: person.name,
-             type: 'Error',
-             message: `Father (${father.name}) born in ${father.birthYear}, same or after child (${person.birthYear}).`
-          });
-        } else if (person.birthYear - father.birthYear < 12) {
-           anomalies.push({
-             id: person.id,
-             name: person.name,
-             type: 'Warning',
-             message: `Father (${father.name}) was only ${person.birthYear - father.birthYear} when child was born.`
-          });
-        }
+    const checkParent = (parentId: string | null, role: 'Father' | 'Mother') => {
+      if (!parentId || !birth) return;
+      const parent = map.get(parentId);
+      if (!parent) return;
+      const parentBirth = getLifeBounds(parent, 'birth');
+      if (!parentBirth) return;
+
+      const parentText = describeLifeDate(parent, 'birth');
+      const age = Math.round(birth.central - parentBirth.central);
+
+      if (parentBirth.earliest >= birth.latest) {
+        anomalies.push({
+           id: person.id,
+           name: person.name,
+           type: 'Error',
+           message: `${role} (${parent.name}) born ${parentText}, same or after child (${birthText}).`
+        });
+      } else if (age <= 0) {
+        anomalies.push({
+           id: person.id,
+           name: person.name,
+           type: 'Warning',
+           message: `${role} (${parent.name}) born ${parentText} may be younger than child (${birthText}).`
+        });
+      } else if (age < 12) {
+        anomalies.push({
+           id: person.id,
+           name: person.name,
+           type: 'Warning',
+           message: `${role} (${parent.name}) was only ${age} when child was born.`
+        });
+      } else if (role === 'Mother' && age > 65) {
+        anomalies.push({
+            id: person.id,
+            name: person.name,
+            type: 'Warning',
+            message: `Mother (${parent.name}) was ${age} when child was born (unusually old).`
+        });
       }
-    }
+    };
 
-    if (person.motherId) {
-      const mother = map.get(person.motherId);
-      if (mother && mother.birthYear && person.birthYear) {
-        if (mother.birthYear >= person.birthYear) {
-          anomalies.push({
-             id: person.id,
-             name: person.name,
-             type: 'Error',
-             message: `Mother (${mother.name}) born in ${mother.birthYear}, same or after child (${person.birthYear}).`
-          });
-        } else if (person.birthYear - mother.birthYear < 12) {
-           anomalies.push({
-             id: person.id,
-             name: person.name,
-             type: 'Warning',
-             message: `Mother (${mother.name}) was only ${person.birthYear - mother.birthYear} when child was born.`
-          });
-        } else if (person.birthYear - mother.birthYear > 65) {
-            anomalies.push({
-                id: person.id,
-                name: person.name,
-                type: 'Warning',
-                message: `Mother (${mother.name}) was ${person.birthYear - mother.birthYear} when child was born (unusually old).`
-             });
-        }
-      }
-    }
+    checkParent(person.fatherId, 'Father');
+    checkParent(person.motherId, 'Mother');
   });
 
   return anomalies;
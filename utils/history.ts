@@ -0,0 +1,137 @@
+import { Ancestor, HistoryCollection, HistoryEntry, Source, Union } from '../types';
+
+// --- CHANGE HISTORY ---
+// Every change to a person, union or source is logged with full before/after copies
+// (see StorageService). These helpers read that log: who a change concerns, what it
+// changed, and what the tree looked like at an earlier moment.
+
+// The people a change concerns: the person themselves, or both partners of a union
+export const getConcernedAncestors = (
+  collection: HistoryCollection,
+  docId: string,
+  before: Record<string, any> | null,
+  after: Record<string, any> | null
+): string[] => {
+  if (collection === 'familyTree') return [docId];
+  if (collection === 'unions') {
+    const ids = [before?.partner1Id, before?.partner2Id, after?.partner1Id, after?.partner2Id].filter(Boolean) as string[];
+    return Array.from(new Set(ids));
+  }
+  return [];
+};
+
+// Key order differs between what was written and what Firestore hands back
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const sameRecord = (a: Record<string, any> | null, b: Record<string, any> | null) => stableStringify(a) === stableStringify(b);
+
+const CHANGE_LABELS: Record<string, string> = {
+  name: 'name',
+  birthDate: 'birth',
+  birthYear: 'birth',
+  deathDate: 'death',
+  deathYear: 'death',
+  birthPlace: 'birth place',
+  deathPlace: 'death place',
+  gender: 'gender',
+  country: 'country',
+  fatherId: 'father',
+  motherId: 'mother',
+  notes: 'notes',
+  photoUrl: 'photo',
+  citations: 'citations',
+  alternateNames: 'other names',
+  occupations: 'occupations',
+  partner1Id: 'partner',
+  partner2Id: 'partner',
+  type: 'type',
+  marriageYear: 'marriage',
+  divorceYear: 'divorce',
+  place: 'place',
+  title: 'title',
+  author: 'author',
+  repository: 'repository',
+  url: 'link',
+  archiveReference: 'reference'
+};
+
+// Readable names of the fields an update touched, e.g. ['birth', 'notes']
+export const getChangedFields = (entry: HistoryEntry): string[] => {
+  if (!entry.before || !entry.after) return [];
+  const keys = new Set([...Object.keys(entry.before), ...Object.keys(entry.after)]);
+  const labels = Array.from(keys)
+    .filter(key => key !== 'dateAdded' && stableStringify(entry.before![key]) !== stableStringify(entry.after![key]))
+    .map(key => CHANGE_LABELS[key] || key);
+  return Array.from(new Set(labels));
+};
+
+const RECORD_NOUNS: Record<HistoryCollection, string> = {
+  familyTree: 'Person',
+  unions: 'Partnership',
+  sources: 'Source'
+};
+
+const ACTION_VERBS: Record<HistoryEntry['action'], string> = {
+  add: 'added',
+  update: 'edited',
+  delete: 'deleted'
+};
+
+// One-line summary, e.g. "Person edited: birth, notes"
+export const describeHistoryEntry = (entry: HistoryEntry): string => {
+  const base = `${RECORD_NOUNS[entry.collection]} ${entry.restoredFrom ? 'restored' : ACTION_VERBS[entry.action]}`;
+  const fields = entry.action === 'update' ? getChangedFields(entry) : [];
+  return fields.length > 0 ? `${base}: ${fields.join(', ')}` : base;
+};
+
+export const describeChangeAuthor = (entry: HistoryEntry) => entry.author?.email || (entry.author ? `User ${entry.author.uid.slice(0, 6)}` : 'Unknown');
+
+// The record as it stood after this change; for a deletion, as it stood just before
+export const getRestorableVersion = (entry: HistoryEntry) => entry.after || entry.before;
+
+export interface RecordState {
+  collection: HistoryCollection;
+  docId: string;
+  state: Record<string, any> | null; // null when the record did not exist yet (or any more)
+}
+
+// What every record changed since `timestamp` looked like at that moment: the `before`
+// of its first change after it. Records untouched since then need nothing.
+export const getStatesAt = (entries: HistoryEntry[], timestamp: number): RecordState[] => {
+  const states = new Map<string, RecordState>();
+  [...entries]
+    .filter(e => e.dateAdded > timestamp)
+    .sort((a, b) => a.dateAdded - b.dateAdded)
+    .forEach(e => {
+      const key = `${e.collection}/${e.docId}`;
+      if (!states.has(key)) states.set(key, { collection: e.collection, docId: e.docId, state: e.before });
+    });
+  return Array.from(states.values());
+};
+
+export interface TreeRecords {
+  ancestors: Ancestor[];
+  unions: Union[];
+  sources: Source[];
+}
+
+// The record an entry (or state) concerns as it stands now, without its id; null when it is gone
+export const getCurrentVersion = (record: Pick<RecordState, 'collection' | 'docId'>, records: TreeRecords): Record<string, any> | null => {
+  const list: { id: string }[] = record.collection === 'familyTree' ? records.ancestors : record.collection === 'unions' ? records.unions : records.sources;
+  const doc = list.find(d => d.id === record.docId);
+  if (!doc) return null;
+  const { id: _, ...data } = doc;
+  return data;
+};
+
+// Whether restoring this entry would change anything
+export const canRestoreEntry = (entry: HistoryEntry, records: TreeRecords) => {
+  const version = getRestorableVersion(entry);
+  return !!version && !sameRecord(getCurrentVersion(entry, records), version);
+};
@@ -1,4 +1,7 @@
-import { Ancestor, Gender } from '../types';
+import { Ancestor, Citation, CitationFact, Gender, GenealogicalDate, Source, Union, UnionType } from '../types';
+import { parseGenealogicalDate, getSortYear } from './dates';
+import { childValue, decodeGedcom, findChild, findChildren, GedcomEncoding, GedcomNode, parseGedcomTree, unescapeGedcomText } from './gedcom';
+import { createCitation, quayToQuality } from './sources';
 
 // Helper to extract a 4-digit year from a date string
 export const extractYear = (dateStr: string | undefined | null): number | null => {
@@ -7,6 +10,12 @@ export const extractYear = (dateStr: string | undefined | null): number | null =
   return match ? parseInt(match[0], 10) : null;
 };
 
+// Helper to read a qualified date together with its representative year
+export const extractDate = (dateStr: string | undefined | null): { date: GenealogicalDate | null; year: number | null } => {
+  const date = parseGenealogicalDate(dateStr);
+  return { date, year: date ? getSortYear(date) : extractYear(dateStr) };
+};
+
 // Helper to normalize gender string
 export const normalizeGender = (g: string | undefined): Gender => {
   if (!g) return 'Unknown';
@@ -17,116 +26,597 @@ export const normalizeGender = (g: string | undefined): Gender => {
 };
 
 // --- GEDCOM PARSER ---
+// Walks the record tree from utils/gedcom. Anything our model has a field for is kept;
+// other facts and extra links are converted into notes; the rest is listed in the
+// import report, so nothing is dropped without the user being told. SOUR records
+// become catalogue sources, and citations on a person's facts are kept per fact.
+
+export type ImportAction = 'kept' | 'converted' | 'discarded';
 
-interface GedcomIndi {
-  id: string;
-  name: string;
-  sex: string;
-  birthDate?: string;
-  deathDate?: string;
-  famc?: string; // Family where they are a child
-  fams?: string[]; // Families where they are a spouse
+export interface ImportReportEntry {
+  action: ImportAction;
+  label: string;
+  count: number;
+  detail?: string;
 }
 
-interface GedcomFam {
-  id: string;
-  husb?: string;
-  wife?: string;
-  children: string[];
+export interface GedcomImportReport {
+  encoding?: GedcomEncoding;
+  version?: string;
+  sourceProgram?: string;
+  entries: ImportReportEntry[];
+  warnings: string[];
 }
 
-export const parseGEDCOM = (content: string): Ancestor[] => {
-  const lines = content.split(/\r?\n/);
-  const indis: Map<string, GedcomIndi> = new Map();
-  const fams: Map<string, GedcomFam> = new Map();
-
-  let currentIndi: GedcomIndi | null = null;
-  let currentFam: GedcomFam | null = null;
-  let currentTag = '';
-
-  // Basic line-based parser
-  for (const line of lines) {
-    const parts = line.trim().split(' ');
-    if (parts.length < 2) continue;
-
-    const level = parts[0];
-    const tagOrId = parts[1];
-    const value = parts.slice(2).join(' ');
-
-    if (level === '0') {
-      // Start record
-      if (value === 'INDI' || parts[2] === 'INDI') {
-        const id = tagOrId.replace(/@/g, ''); // Remove @ delimiters
-        currentIndi = { id, name: 'Unknown', sex: 'U', fams: [] };
-        currentFam = null;
-        indis.set(id, currentIndi);
-      } else if (value === 'FAM' || parts[2] === 'FAM') {
-        const id = tagOrId.replace(/@/g, '');
-        currentFam = { id, children: [] };
-        currentIndi = null;
-        fams.set(id, currentFam);
-      } else {
-        currentIndi = null;
-        currentFam = null;
-      }
-    } else if (currentIndi) {
-        // Individual properties
-        if (tagOrId === 'NAME') currentIndi.name = value.replace(/\//g, '');
-        else if (tagOrId === 'SEX') currentIndi.sex = value;
-        else if (tagOrId === 'BIRT') currentTag = 'BIRT';
-        else if (tagOrId === 'DEAT') currentTag = 'DEAT';
-        else if (tagOrId === 'DATE') {
-            if (currentTag === 'BIRT') currentIndi.birthDate = value;
-            if (currentTag === 'DEAT') currentIndi.deathDate = value;
+export interface ParsedGedcom {
+  ancestors: Ancestor[];
+  unions: Union[];
+  sources: Source[];
+  report: GedcomImportReport;
+}
+
+// Union types carried as "1 EVEN / 2 TYPE ..." on a family
+const UNION_EVENT_TYPES: UnionType[] = ['Civil Partnership', 'Cohabitation'];
+
+// Individual events and attributes without a field of their own, kept as note lines
+const FACT_LABELS: Record<string, string> = {
+  ADOP: 'Adoption', BAPM: 'Baptism', BARM: 'Bar Mitzvah', BASM: 'Bas Mitzvah', BLES: 'Blessing',
+  BURI: 'Burial', CAST: 'Caste', CENS: 'Census', CHR: 'Christening', CHRA: 'Adult christening',
+  CONF: 'Confirmation', CREM: 'Cremation', DSCR: 'Description', EDUC: 'Education', EMIG: 'Emigration',
+  EVEN: 'Event', FACT: 'Fact', FCOM: 'First communion', GRAD: 'Graduation', IDNO: 'Identifier',
+  IMMI: 'Immigration', NATI: 'Nationality', NATU: 'Naturalization', NCHI: 'Number of children',
+  NMR: 'Number of marriages', ORDN: 'Ordination', PROB: 'Probate', PROP: 'Property', RELI: 'Religion',
+  RESI: 'Residence', RETI: 'Retirement', SSN: 'Social security number', TITL: 'Title', WILL: 'Will',
+  // Family events
+  ANUL: 'Annulment', DIVF: 'Divorce filed', MARB: 'Marriage banns', MARC: 'Marriage contract',
+  MARL: 'Marriage licence', MARS: 'Marriage settlement'
+};
+
+// Bookkeeping tags with no genealogical content
+const METADATA_TAGS = ['RIN', 'REFN', 'UID', '_UID', 'CHAN', 'CREA', 'AFN', 'RFN', 'SUBM', 'EXID', 'ANCI', 'DESI', 'RESN'];
+
+// Events whose citations support the person's country
+const COUNTRY_EVENT_TAGS = ['NATI', 'EMIG', 'IMMI', 'NATU'];
+
+// Sub-structures of an event that we read
+const EVENT_DETAIL_TAGS = ['DATE', 'PLAC', 'TYPE', 'NOTE', 'SNOTE', 'SOUR', 'AGE', 'CAUS', 'ADDR'];
+
+const cleanText = (value: string | undefined): string => (value ? unescapeGedcomText(value).trim() : '');
+
+export const parseGEDCOM = (content: string | ArrayBuffer | Uint8Array): ParsedGedcom => {
+  let text: string;
+  let encoding: GedcomEncoding | undefined;
+  if (typeof content === 'string') {
+    text = content;
+  } else {
+    ({ text, encoding } = decodeGedcom(content));
+  }
+
+  const doc = parseGedcomTree(text);
+  const records = new Map<string, GedcomNode>();
+  doc.records.forEach(r => { if (r.xref) records.set(r.xref, r); });
+
+  // --- Report bookkeeping ---
+  const entries = new Map<string, ImportReportEntry>();
+  const warnings: string[] = [];
+  const record = (action: ImportAction, label: string, detail?: string, count = 1) => {
+    const key = `${action}|${label}`;
+    const entry = entries.get(key);
+    if (entry) entry.count += count;
+    else entries.set(key, detail ? { action, label, count, detail } : { action, label, count });
+  };
+
+  if (doc.malformedLines.length > 0) {
+    record('discarded', 'Unreadable lines', `Lines ${doc.malformedLines.slice(0, 10).join(', ')}${doc.malformedLines.length > 10 ? '…' : ''}`, doc.malformedLines.length);
+  }
+
+  const head = doc.records.find(r => r.tag === 'HEAD');
+  const gedc = head ? findChild(head, 'GEDC') : undefined;
+  const sour = head ? findChild(head, 'SOUR') : undefined;
+  const report: GedcomImportReport = { entries: [], warnings };
+  if (encoding) report.encoding = encoding;
+  if (gedc && childValue(gedc, 'VERS')) report.version = childValue(gedc, 'VERS');
+  if (sour) report.sourceProgram = childValue(sour, 'NAME') || cleanText(sour.value) || undefined;
+
+  // --- Pointer resolution ---
+  const resolve = (node: GedcomNode, context: string): GedcomNode | null => {
+    if (!node.pointer) return null;
+    const target = records.get(node.pointer);
+    if (!target) warnings.push(`${context}: missing record @${node.pointer}@ (line ${node.line})`);
+    return target || null;
+  };
+
+  const noteText = (node: GedcomNode, context: string): string => {
+    if (node.pointer) return cleanText(resolve(node, context)?.value);
+    return cleanText(node.value);
+  };
+
+  const sourceText = (node: GedcomNode, context: string): string => {
+    let text = cleanText(node.value);
+    if (node.pointer) {
+      const source = resolve(node, context);
+      text = source ? [childValue(source, 'TITL') || childValue(source, 'ABBR'), childValue(source, 'AUTH')].filter(Boolean).join(', ') : '';
+      if (!text) text = source ? cleanText(source.value) || `Source ${node.pointer}` : `Source ${node.pointer}`;
+    }
+    const page = childValue(node, 'PAGE');
+    const quality = childValue(node, 'QUAY');
+    return `${text}${page ? ` (${page})` : ''}${quality ? ` [quality ${quality}]` : ''}`;
+  };
+
+  const mediaFile = (node: GedcomNode, context: string): string | undefined => {
+    const target = node.pointer ? resolve(node, context) : node;
+    if (!target) return undefined;
+    return childValue(target, 'FILE') || (target.tag === 'FILE' ? cleanText(target.value) : undefined);
+  };
+
+  // --- Source catalogue ---
+  // SOUR records keep their xref as a temporary id; inline "2 SOUR text" citations
+  // get a catalogue entry of their own, shared when the same text repeats
+  const sources: Source[] = [];
+  const sourceIds = new Set<string>();
+  const inlineSources = new Map<string, string>();
+
+  doc.records.filter(r => r.tag === 'SOUR' && r.xref).forEach(r => {
+    const context = `Source ${r.xref}`;
+    const source: Source = {
+      id: r.xref!, // Temporary ID, internal to file
+      title: childValue(r, 'TITL') || childValue(r, 'ABBR') || cleanText(r.value) || `Source ${r.xref}`,
+      dateAdded: Date.now()
+    };
+    const author = childValue(r, 'AUTH');
+    if (author) source.author = author;
+
+    const repoNode = findChild(r, 'REPO');
+    if (repoNode) {
+      const repo = repoNode.pointer ? resolve(repoNode, context) : repoNode;
+      const repository = repo ? childValue(repo, 'NAME') || cleanText(repo.value) : '';
+      if (repository) source.repository = repository;
+      const callNumber = childValue(repoNode, 'CALN');
+      if (callNumber) source.archiveReference = callNumber;
+    }
+    if (!source.archiveReference && childValue(r, 'REFN')) source.archiveReference = childValue(r, 'REFN');
+
+    const notes: string[] = [];
+    const publication = childValue(r, 'PUBL');
+    if (publication) notes.push(`Published: ${publication}`);
+    const url = childValue(r, 'WWW') || childValue(r, '_URL') || childValue(r, '_LINK');
+    if (url) source.url = url;
+    [...findChildren(r, 'NOTE'), ...findChildren(r, 'SNOTE')].forEach(n => {
+      const note = noteText(n, context);
+      // Our own exports write the source URL as a note
+      if (!source.url && /^https?:\/\/\S+$/.test(note)) source.url = note;
+      else if (note) notes.push(note);
+    });
+    const text = findChild(r, 'TEXT') || findChild(findChild(r, 'DATA') || r, 'TEXT');
+    if (text && cleanText(text.value)) notes.push(cleanText(text.value));
+    if (notes.length) source.notes = notes.join('\n\n');
+
+    sources.push(source);
+    sourceIds.add(source.id);
+  });
+  if (sources.length) record('kept', 'Sources', undefined, sources.length);
+
+  const citationFrom = (node: GedcomNode, fact: CitationFact, context: string, label?: string): Citation | null => {
+    let sourceId: string | undefined;
+    if (node.pointer) {
+      if (sourceIds.has(node.pointer)) sourceId = node.pointer;
+      else resolve(node, context);
+    } else {
+      const title = cleanText(node.value);
+      if (title) {
+        sourceId = inlineSources.get(title);
+        if (!sourceId) {
+          sourceId = `inline-source-${inlineSources.size + 1}`;
+          inlineSources.set(title, sourceId);
+          sources.push({ id: sourceId, title, dateAdded: Date.now() });
+          sourceIds.add(sourceId);
+          record('kept', 'Inline sources', 'Added to the source library');
         }
-        else if (tagOrId === 'FAMC') currentIndi.famc = value.replace(/@/g, '');
-        else if (tagOrId === 'FAMS') currentIndi.fams?.push(value.replace(/@/g, ''));
-    } else if (currentFam) {
-        // Family properties
-        if (tagOrId === 'HUSB') currentFam.husb = value.replace(/@/g, '');
-        else if (tagOrId === 'WIFE') currentFam.wife = value.replace(/@/g, '');
-        else if (tagOrId === 'CHIL') currentFam.children.push(value.replace(/@/g, ''));
+      }
     }
-  }
+    if (!sourceId) {
+      record('discarded', 'Citations without a source');
+      return null;
+    }
+
+    const data = findChild(node, 'DATA');
+    const detail = [
+      label,
+      (data && childValue(data, 'TEXT')) || childValue(node, 'TEXT'),
+      ...[...findChildren(node, 'NOTE'), ...findChildren(node, 'SNOTE')].map(n => noteText(n, context))
+    ].filter(Boolean).join(': ');
+    record('kept', 'Source citations');
+    return createCitation(sourceId, fact, {
+      page: childValue(node, 'PAGE'),
+      detail,
+      quality: quayToQuality(childValue(node, 'QUAY'))
+    });
+  };
+
+  // "Burial: 12 MAR 1901, Leeds" from an event node
+  const describeEvent = (label: string, node: GedcomNode): string => {
+    const type = childValue(node, 'TYPE');
+    const details = [cleanText(node.value) === 'Y' ? '' : cleanText(node.value), childValue(node, 'DATE'), childValue(node, 'PLAC'), childValue(node, 'CAUS')].filter(Boolean);
+    return `${type || label}${details.length ? `: ${details.join(', ')}` : ''}`;
+  };
+
+  // Notes attached below an event become note lines prefixed with the event;
+  // its citations are handed to `onSource`
+  const collectEventExtras = (event: GedcomNode, label: string, context: string, facts: string[], onSource: (node: GedcomNode) => void) => {
+    event.children.forEach(child => {
+      if (child.tag === 'SOUR') {
+        onSource(child);
+      } else if (child.tag === 'NOTE' || child.tag === 'SNOTE') {
+        const note = noteText(child, context);
+        if (note) facts.push(`${label} note: ${note}`);
+        record('converted', 'Event notes');
+      } else if (child.tag === 'OBJE') {
+        const file = mediaFile(child, context);
+        if (file) facts.push(`${label} media: ${file}`);
+        record('converted', 'Event media');
+      } else if (!EVENT_DETAIL_TAGS.includes(child.tag)) {
+        record('discarded', `${event.tag} ${child.tag}`);
+      }
+    });
+  };
 
-  // Convert to Ancestor objects
-  // We need to generate new UUIDs to avoid collision with existing app data, 
-  // but we must maintain internal consistency first.
-  
-  // 1. Map old IDs to temp objects
+  const composeNotes = (notes: string[], facts: string[], sources: string[]): string => {
+    const parts = [...notes];
+    if (facts.length) parts.push(`Other facts:\n${facts.map(f => `- ${f}`).join('\n')}`);
+    if (sources.length) parts.push(`Sources:\n${sources.map(s => `- ${s}`).join('\n')}`);
+    return parts.join('\n\n');
+  };
+
+  const nameOf = (node: GedcomNode): string => {
+    const fromValue = cleanText(node.value).replace(/\//g, ' ').replace(/\s+/g, ' ').trim();
+    if (fromValue) return fromValue;
+    return ['NPFX', 'GIVN', 'SPFX', 'SURN', 'NSFX']
+      .map(tag => childValue(node, tag))
+      .filter(Boolean)
+      .join(' ');
+  };
+
+  // --- Families first, so children can find their parents ---
+  const famRecords = doc.records.filter(r => r.tag === 'FAM' && r.xref);
+  const indiRecords = doc.records.filter(r => r.tag === 'INDI' && r.xref);
+  const famParents = new Map<string, { husb?: string; wife?: string }>();
+  famRecords.forEach(fam => {
+    const partner = (tag: string): string | undefined => {
+      const node = findChild(fam, tag);
+      const target = node ? resolve(node, `Family ${fam.xref}`) : null;
+      return target?.tag === 'INDI' ? target.xref : undefined;
+    };
+    famParents.set(fam.xref!, { husb: partner('HUSB'), wife: partner('WIFE') });
+  });
+
+  // Children listed by CHIL but without a FAMC of their own
+  const chilFamily = new Map<string, string>();
+  famRecords.forEach(fam => {
+    findChildren(fam, 'CHIL').forEach(chil => {
+      if (chil.pointer && !chilFamily.has(chil.pointer)) chilFamily.set(chil.pointer, fam.xref!);
+    });
+  });
+
+  const indiNames = new Map<string, string>();
+  indiRecords.forEach(indi => {
+    const name = findChild(indi, 'NAME');
+    indiNames.set(indi.xref!, (name && nameOf(name)) || 'Unknown');
+  });
+
+  const describeFamily = (famId: string): string => {
+    const parents = famParents.get(famId);
+    const names = [parents?.husb, parents?.wife].filter(Boolean).map(id => indiNames.get(id!) || id);
+    return names.length ? names.join(' & ') : `family ${famId}`;
+  };
+
+  // --- Individuals ---
   const ancestors: Ancestor[] = [];
-  const idMap = new Map<string, string>(); // GedcomID -> NewUUID (will be generated in Wizard, here we keep GEDCOM ID for linking then let wizard re-map)
-  
-  // Actually, let's keep it simple: Return objects with GEDCOM IDs as 'id'. 
-  // The Wizard will handle ID collision remapping during the import phase.
-
-  indis.forEach(indi => {
-    // Find parents
-    let fatherId: string | null = null;
-    let motherId: string | null = null;
-
-    if (indi.famc) {
-        const fam = fams.get(indi.famc);
-        if (fam) {
-            if (fam.husb) fatherId = fam.husb;
-            if (fam.wife) motherId = fam.wife;
+
+  indiRecords.forEach(indi => {
+    const id = indi.xref!;
+    const context = `Individual ${id}`;
+    const notes: string[] = [];
+    const facts: string[] = [];
+    const citations: Citation[] = [];
+    const cite = (fact: CitationFact, label?: string) => (node: GedcomNode) => {
+      const citation = citationFrom(node, fact, context, label);
+      if (citation) citations.push(citation);
+    };
+    const alternateNames: string[] = [];
+    const occupations: string[] = [];
+    const media: string[] = [];
+    const births: GedcomNode[] = [];
+    const deaths: GedcomNode[] = [];
+    const nationalities: string[] = [];
+    let sex = '';
+    let primaryName = '';
+    const famcLinks: { famId: string; pedigree: string }[] = [];
+
+    indi.children.forEach(child => {
+      switch (child.tag) {
+        case 'NAME': {
+          const name = nameOf(child);
+          if (!primaryName) {
+            primaryName = name;
+          } else if (name) {
+            const type = childValue(child, 'TYPE');
+            alternateNames.push(type ? `${name} (${type.toLowerCase()})` : name);
+            record('kept', 'Alternate names');
+          }
+          const nick = childValue(child, 'NICK');
+          if (nick) {
+            alternateNames.push(`${nick} (nickname)`);
+            record('kept', 'Alternate names');
+          }
+          findChildren(child, 'SOUR').forEach(cite('general', 'Name'));
+          break;
         }
-    }
+        case 'SEX':
+          sex = cleanText(child.value);
+          break;
+        case 'BIRT':
+        case 'DEAT': {
+          const label = child.tag === 'BIRT' ? 'Birth' : 'Death';
+          (child.tag === 'BIRT' ? births : deaths).push(child);
+          collectEventExtras(child, label, context, facts, cite(child.tag === 'BIRT' ? 'birth' : 'death'));
+          break;
+        }
+        case 'OCCU': {
+          const occupation = cleanText(child.value);
+          const when = childValue(child, 'DATE');
+          if (occupation) {
+            occupations.push(when ? `${occupation} (${when})` : occupation);
+            record('kept', 'Occupations');
+          }
+          collectEventExtras(child, 'Occupation', context, facts, cite('general', 'Occupation'));
+          break;
+        }
+        case 'NOTE':
+        case 'SNOTE': {
+          const note = noteText(child, context);
+          if (note) {
+            notes.push(note);
+            record('kept', 'Notes');
+          }
+          break;
+        }
+        case 'SOUR':
+          cite('general')(child);
+          break;
+        case 'OBJE': {
+          const file = mediaFile(child, context);
+          if (file) media.push(file);
+          break;
+        }
+        case 'NATI': {
+          const nationality = cleanText(child.value);
+          if (nationality) nationalities.push(nationality);
+          collectEventExtras(child, 'Nationality', context, facts, cite('country'));
+          break;
+        }
+        case 'FAMC':
+          findChildren(child, 'SOUR').forEach(cite('parentage'));
+          if (child.pointer && famParents.has(child.pointer)) {
+            famcLinks.push({ famId: child.pointer, pedigree: (childValue(child, 'PEDI') || '').toLowerCase() });
+          } else if (child.pointer) {
+            warnings.push(`${context}: missing family @${child.pointer}@ (line ${child.line})`);
+          }
+          break;
+        case 'FAMS':
+          // Partnerships are read from the FAM records themselves
+          break;
+        default:
+          if (FACT_LABELS[child.tag]) {
+            const label = FACT_LABELS[child.tag];
+            facts.push(describeEvent(label, child));
+            record('converted', `${label}`);
+            collectEventExtras(child, label, context, facts, COUNTRY_EVENT_TAGS.includes(child.tag) ? cite('country', label) : cite('general', label));
+          } else if (METADATA_TAGS.includes(child.tag)) {
+            record('discarded', `Record metadata (${child.tag})`);
+          } else {
+            record('discarded', `INDI ${child.tag}`);
+          }
+      }
+    });
+
+    // The first dated event wins; any others are kept as alternate facts
+    const pickEvent = (events: GedcomNode[], label: string): GedcomNode | undefined => {
+      const chosen = events.find(e => findChild(e, 'DATE')) || events[0];
+      events.filter(e => e !== chosen).forEach(e => {
+        facts.push(describeEvent(`Alternate ${label}`, e));
+        record('converted', 'Conflicting birth/death events');
+      });
+      return chosen;
+    };
+    const birthEvent = pickEvent(births, 'birth');
+    const deathEvent = pickEvent(deaths, 'death');
 
-    ancestors.push({
-        id: indi.id, // Temporary ID, internal to file
-        name: indi.name,
-        birthYear: extractYear(indi.birthDate),
-        deathYear: extractYear(indi.deathDate),
-        gender: normalizeGender(indi.sex),
-        fatherId: fatherId,
-        motherId: motherId,
-        notes: `Imported from GEDCOM. Original ID: ${indi.id}`,
+    // Birth family: the first one marked (or defaulting to) birth; others become notes
+    if (famcLinks.length === 0 && chilFamily.has(id)) famcLinks.push({ famId: chilFamily.get(id)!, pedigree: '' });
+    const birthFamily = famcLinks.find(l => !l.pedigree || l.pedigree === 'birth') || famcLinks[0];
+    famcLinks.filter(l => l !== birthFamily).forEach(l => {
+      facts.push(`Also child of ${describeFamily(l.famId)}${l.pedigree ? ` (${l.pedigree})` : ''}`);
+      record('converted', 'Additional parent families');
+    });
+    const parents = birthFamily ? famParents.get(birthFamily.famId) : undefined;
+    if (parents?.husb || parents?.wife) record('kept', 'Parent links');
+
+    // The first image is the profile photo; further media are listed in the notes
+    const [photoUrl, ...otherMedia] = media;
+    if (photoUrl) record('kept', 'Photos');
+    otherMedia.forEach(file => {
+      facts.push(`Media: ${file}`);
+      record('converted', 'Additional media');
+    });
+
+    const birth = extractDate(birthEvent ? childValue(birthEvent, 'DATE') : undefined);
+    const death = extractDate(deathEvent ? childValue(deathEvent, 'DATE') : undefined);
+    if (birth.date) record('kept', 'Birth dates');
+    if (death.date) record('kept', 'Death dates');
+    if (birthEvent && childValue(birthEvent, 'DATE') && !birth.date) record('discarded', 'Unreadable dates');
+    if (deathEvent && childValue(deathEvent, 'DATE') && !death.date) record('discarded', 'Unreadable dates');
+    if (deathEvent && !death.date) facts.push('Deceased (date unknown)');
+
+    const birthPlace = birthEvent ? childValue(birthEvent, 'PLAC') : undefined;
+    const deathPlace = deathEvent ? childValue(deathEvent, 'PLAC') : undefined;
+    if (birthPlace) record('kept', 'Places');
+    if (deathPlace) record('kept', 'Places');
+    let country = (birthPlace || deathPlace)?.split(',').map(p => p.trim()).filter(Boolean).pop();
+
+    // Nationality fills in a missing country; a different one is kept as a fact
+    nationalities.forEach(nationality => {
+      if (!country) {
+        country = nationality;
+        record('kept', 'Nationality as country');
+      } else if (nationality.toLowerCase() !== country.toLowerCase()) {
+        facts.push(`Nationality: ${nationality}`);
+        record('converted', 'Nationality');
+      }
+    });
+
+    const ancestor: Ancestor = {
+        id, // Temporary ID, internal to file
+        name: primaryName || 'Unknown',
+        birthYear: birth.year,
+        deathYear: death.year,
+        birthDate: birth.date,
+        deathDate: death.date,
+        gender: normalizeGender(sex),
+        fatherId: parents?.husb || null,
+        motherId: parents?.wife || null,
+        notes: composeNotes(notes, facts, []) || `Imported from GEDCOM. Original ID: ${id}`,
         dateAdded: Date.now()
+    };
+    if (country) ancestor.country = country;
+    if (birthPlace) ancestor.birthPlace = birthPlace;
+    if (deathPlace) ancestor.deathPlace = deathPlace;
+    if (alternateNames.length) ancestor.alternateNames = alternateNames;
+    if (occupations.length) ancestor.occupations = occupations;
+    if (photoUrl) ancestor.photoUrl = photoUrl;
+    if (citations.length) ancestor.citations = citations;
+    ancestors.push(ancestor);
+  });
+  record('kept', 'Individuals', undefined, ancestors.length);
+
+  // --- Families ---
+  // Couples become unions, childless or not. A lone parent's family is only a
+  // union when it records a partnership event or has no children at all.
+  const unions: Union[] = [];
+  famRecords.forEach(fam => {
+    const id = fam.xref!;
+    const context = `Family ${id}`;
+    const { husb, wife } = famParents.get(id)!;
+    const children = findChildren(fam, 'CHIL');
+    let unionType: UnionType | undefined;
+    let unionEvent: GedcomNode | undefined;
+    let divorceDate: string | undefined;
+    const notes: string[] = [];
+    const facts: string[] = [];
+    const sources: string[] = [];
+    // Partnerships have no citations of their own yet, so their sources stay in the notes
+    const noteSource = (label: string) => (node: GedcomNode) => {
+      sources.push(`${label}: ${sourceText(node, context)}`);
+      record('converted', 'Family source citations');
+    };
+
+    fam.children.forEach(child => {
+      switch (child.tag) {
+        case 'MARR':
+          if (unionType !== 'Marriage') {
+            unionType = 'Marriage';
+            unionEvent = child;
+          }
+          collectEventExtras(child, 'Marriage', context, facts, noteSource('Marriage'));
+          break;
+        case 'ENGA':
+          if (!unionType) {
+            unionType = 'Engagement';
+            unionEvent = child;
+          } else {
+            facts.push(describeEvent('Engagement', child));
+          }
+          collectEventExtras(child, 'Engagement', context, facts, noteSource('Engagement'));
+          break;
+        case 'EVEN': {
+          const type = UNION_EVENT_TYPES.find(t => t.toLowerCase() === (childValue(child, 'TYPE') || '').toLowerCase());
+          if (type && !unionType) {
+            unionType = type;
+            unionEvent = child;
+          } else {
+            facts.push(describeEvent('Event', child));
+            record('converted', 'Family events');
+          }
+          collectEventExtras(child, 'Event', context, facts, noteSource('Event'));
+          break;
+        }
+        case 'DIV':
+          divorceDate = childValue(child, 'DATE') || divorceDate;
+          if (childValue(child, 'PLAC')) facts.push(describeEvent('Divorce', child));
+          collectEventExtras(child, 'Divorce', context, facts, noteSource('Divorce'));
+          break;
+        case 'NOTE':
+        case 'SNOTE': {
+          const note = noteText(child, context);
+          if (note) notes.push(note);
+          break;
+        }
+        case 'SOUR':
+          sources.push(sourceText(child, context));
+          record('converted', 'Family source citations');
+          break;
+        case 'HUSB':
+        case 'WIFE':
+        case 'CHIL':
+          break;
+        default:
+          if (FACT_LABELS[child.tag]) {
+            facts.push(describeEvent(FACT_LABELS[child.tag], child));
+            record('converted', 'Family events');
+          } else if (METADATA_TAGS.includes(child.tag)) {
+            record('discarded', `Record metadata (${child.tag})`);
+          } else {
+            record('discarded', `FAM ${child.tag}`);
+          }
+      }
     });
+
+    const partner1Id = husb || wife;
+    if (!partner1Id) {
+      if (children.length === 0) record('discarded', 'Empty families');
+      return;
+    }
+    const isCouple = !!(husb && wife);
+    const marriageDate = unionEvent ? childValue(unionEvent, 'DATE') : undefined;
+    if (!isCouple && !unionType && !marriageDate && children.length > 0) return;
+
+    const union: Union = {
+        id, // Temporary ID, internal to file
+        partner1Id,
+        partner2Id: isCouple ? wife! : null,
+        type: unionType || 'Unknown',
+        marriageYear: extractDate(marriageDate).year,
+        divorceYear: extractDate(divorceDate).year,
+        dateAdded: Date.now()
+    };
+    const place = unionEvent ? childValue(unionEvent, 'PLAC') : undefined;
+    if (place) union.place = place;
+    const unionNotes = composeNotes(notes, facts, sources);
+    if (unionNotes) union.notes = unionNotes;
+    unions.push(union);
+  });
+  record('kept', 'Families', undefined, unions.length);
+
+  // --- Other top-level records ---
+  const referencedTags = ['HEAD', 'TRLR', 'INDI', 'FAM', 'SOUR', 'REPO', 'NOTE', 'SNOTE', 'OBJE'];
+  doc.records.forEach(r => {
+    if (!referencedTags.includes(r.tag)) record('discarded', `${r.tag} records`);
   });
 
-  return ancestors;
+  const actionOrder: ImportAction[] = ['kept', 'converted', 'discarded'];
+  report.entries = Array.from(entries.values())
+    .filter(e => e.count > 0)
+    .sort((a, b) => actionOrder.indexOf(a.action) - actionOrder.indexOf(b.action));
+  return { ancestors, unions, sources, report };
 };
 
 // --- CSV PARSER ---
@@ -156,11 +646,15 @@ export const convertCSVToAncestors = (rows: string[][], mapping: CsvMapping): An
     // Rows usually don't have IDs, so we assume Name based linking or Row Index ID
     
     const tempAncestors = rows.map((row, index) => {
+        const birth = extractDate(row[mapping.birthIndex]);
+        const death = extractDate(row[mapping.deathIndex]);
         return {
             tempId: `row-${index}`,
             name: row[mapping.nameIndex] || 'Unknown',
-            birthYear: extractYear(row[mapping.birthIndex]),
-            deathYear: extractYear(row[mapping.deathIndex]),
+            birthYear: birth.year,
+            deathYear: death.year,
+            birthDate: birth.date,
+            deathDate: death.date,
             gender: normalizeGender(row[mapping.genderIndex]),
             fatherName: row[mapping.fatherIndex], // Store name temporarily
             motherName: row[mapping.motherIndex], // Store name temporarily
@@ -188,6 +682,8 @@ export const convertCSVToAncestors = (rows: string[][], mapping: CsvMapping): An
             name: p.name,
             birthYear: p.birthYear,
             deathYear: p.deathYear,
+            birthDate: p.birthDate,
+            deathDate: p.deathDate,
             gender: p.gender,
             fatherId,
             motherId,
@@ -0,0 +1,198 @@
+import { Ancestor, Union } from '../types';
+import { formatLifeDate } from './dates';
+import { hasCircularReference } from './genealogy';
+import { mergeCitations } from './sources';
+
+// --- FIELD MERGING ---
+// Combines two records describing the same person. Blank fields are filled from the
+// other record automatically; fields where both records disagree are resolved by an
+// explicit per-field choice. Used by the import review and the duplicate merge tool.
+
+export type MergeField = 'name' | 'gender' | 'birth' | 'death' | 'birthPlace' | 'deathPlace' | 'country' | 'photoUrl' | 'notes';
+
+// 'base' keeps the record being merged into, 'other' takes the incoming/duplicate value,
+// 'both' (notes only) keeps the two texts one after the other
+export type MergeChoice = 'base' | 'other' | 'both';
+export type MergeChoices = Partial<Record<MergeField, MergeChoice>>;
+
+export interface FieldConflict {
+  field: MergeField;
+  label: string;
+  base: string;
+  other: string;
+}
+
+export const MERGE_FIELD_LABELS: Record<MergeField, string> = {
+  name: 'Name',
+  gender: 'Gender',
+  birth: 'Birth date',
+  death: 'Death date',
+  birthPlace: 'Birth place',
+  deathPlace: 'Death place',
+  country: 'Country',
+  photoUrl: 'Photo',
+  notes: 'Notes'
+};
+
+const MERGE_FIELDS = Object.keys(MERGE_FIELD_LABELS) as MergeField[];
+
+// Comparable display form of a field; empty string when the record has no value
+export const describeField = (a: Ancestor, field: MergeField): string => {
+  switch (field) {
+    case 'gender':
+      return a.gender === 'Unknown' ? '' : a.gender;
+    case 'birth':
+      return formatLifeDate(a, 'birth') || '';
+    case 'death':
+      return formatLifeDate(a, 'death') || '';
+    default:
+      return (a[field] || '').trim();
+  }
+};
+
+export const findFieldConflicts = (base: Ancestor, other: Ancestor): FieldConflict[] => {
+  return MERGE_FIELDS
+    .map(field => ({ field, label: MERGE_FIELD_LABELS[field], base: describeField(base, field), other: describeField(other, field) }))
+    .filter(c => c.base && c.other && c.base !== c.other);
+};
+
+const takeField = (from: Ancestor, field: MergeField): Partial<Ancestor> => {
+  switch (field) {
+    case 'birth':
+      return { birthDate: from.birthDate || null, birthYear: from.birthYear };
+    case 'death':
+      return { deathDate: from.deathDate || null, deathYear: from.deathYear };
+    default:
+      return { [field]: from[field] } as Partial<Ancestor>;
+  }
+};
+
+// Case-insensitive union of two lists, keeping the first spelling seen
+const mergeLists = (a: string[] = [], b: string[] = []): string[] => {
+  const seen = new Set<string>();
+  return [...a, ...b].filter(item => {
+    const key = item.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Updates to apply to `base` so it absorbs `other`. Parent links are not touched;
+// callers resolve those in their own id space.
+export const mergeAncestorFields = (base: Ancestor, other: Ancestor, choices: MergeChoices = {}): Partial<Ancestor> => {
+  const updates: Partial<Ancestor> = {};
+
+  MERGE_FIELDS.forEach(field => {
+    const baseValue = describeField(base, field);
+    const otherValue = describeField(other, field);
+    if (!otherValue || baseValue === otherValue) return;
+
+    const choice = choices[field] || 'base';
+    if (!baseValue || choice === 'other') {
+      Object.assign(updates, takeField(other, field));
+    } else if (choice === 'both' && field === 'notes') {
+      updates.notes = `${base.notes.trim()}\n\n${other.notes.trim()}`;
+    }
+  });
+
+  // The name that loses is remembered as an alternate name
+  const finalName = updates.name || base.name;
+  const alternateNames = mergeLists(base.alternateNames, [...(other.alternateNames || []), base.name, other.name])
+    .filter(n => n.toLowerCase() !== finalName.toLowerCase());
+  if (alternateNames.length !== (base.alternateNames || []).length) updates.alternateNames = alternateNames;
+
+  const occupations = mergeLists(base.occupations, other.occupations);
+  if (occupations.length !== (base.occupations || []).length) updates.occupations = occupations;
+
+  // Evidence is never lost: both records' citations are kept
+  const citations = mergeCitations(base.citations, other.citations);
+  if (citations.length !== (base.citations || []).length) updates.citations = citations;
+
+  return updates;
+};
+
+// --- MERGING TWO PEOPLE IN THE TREE ---
+
+export type ParentField = 'fatherId' | 'motherId';
+
+export interface MergePlan {
+  survivor: Ancestor;
+  duplicate: Ancestor;
+  survivorUpdates: Partial<Ancestor>;
+  childRepoints: { id: string; field: ParentField }[];
+  unionRepoints: { id: string; field: 'partner1Id' | 'partner2Id' }[];
+  // Unions that would join the survivor to itself
+  unionDeletes: Union[];
+}
+
+export const planMerge = (
+  survivor: Ancestor,
+  duplicate: Ancestor,
+  choices: MergeChoices,
+  parentChoices: Partial<Record<ParentField, MergeChoice>>,
+  ancestors: Ancestor[],
+  unions: Union[]
+): MergePlan => {
+  const survivorUpdates = mergeAncestorFields(survivor, duplicate, choices);
+
+  // Parents: fill gaps from the duplicate, or take its parent when chosen
+  (['fatherId', 'motherId'] as ParentField[]).forEach(field => {
+    const other = duplicate[field];
+    if (!other || other === survivor.id || other === survivor[field]) return;
+    if (!survivor[field] || parentChoices[field] === 'other') survivorUpdates[field] = other;
+  });
+
+  // A parent link pointing at the duplicate itself would become a self-link
+  (['fatherId', 'motherId'] as ParentField[]).forEach(field => {
+    const value = field in survivorUpdates ? survivorUpdates[field] : survivor[field];
+    if (value === duplicate.id) survivorUpdates[field] = null;
+  });
+
+  const childRepoints: MergePlan['childRepoints'] = [];
+  ancestors.forEach(a => {
+    if (a.id === survivor.id || a.id === duplicate.id) return;
+    if (a.fatherId === duplicate.id) childRepoints.push({ id: a.id, field: 'fatherId' });
+    if (a.motherId === duplicate.id) childRepoints.push({ id: a.id, field: 'motherId' });
+  });
+
+  const unionRepoints: MergePlan['unionRepoints'] = [];
+  const unionDeletes: Union[] = [];
+  unions.forEach(u => {
+    const involvesDuplicate = u.partner1Id === duplicate.id || u.partner2Id === duplicate.id;
+    if (!involvesDuplicate) return;
+    const involvesSurvivor = u.partner1Id === survivor.id || u.partner2Id === survivor.id;
+    if (involvesSurvivor) {
+      unionDeletes.push(u);
+      return;
+    }
+    unionRepoints.push({ id: u.id, field: u.partner1Id === duplicate.id ? 'partner1Id' : 'partner2Id' });
+  });
+
+  return { survivor, duplicate, survivorUpdates, childRepoints, unionRepoints, unionDeletes };
+};
+
+// The tree as it would look after the merge, for validation before anything is written
+export const applyMergePlan = (plan: MergePlan, ancestors: Ancestor[]): Ancestor[] => {
+  const repointed = new Map<string, ParentField[]>();
+  plan.childRepoints.forEach(r => repointed.set(r.id, [...(repointed.get(r.id) || []), r.field]));
+
+  return ancestors
+    .filter(a => a.id !== plan.duplicate.id)
+    .map(a => {
+      if (a.id === plan.survivor.id) return { ...a, ...plan.survivorUpdates };
+      const fields = repointed.get(a.id);
+      if (!fields) return a;
+      const copy = { ...a };
+      fields.forEach(f => { copy[f] = plan.survivor.id; });
+      return copy;
+    });
+};
+
+// A merge is refused when the survivor would end up as its own ancestor
+export const mergeCreatesCycle = (plan: MergePlan, ancestors: Ancestor[]): boolean => {
+  const merged = applyMergePlan(plan, ancestors);
+  const survivor = merged.find(a => a.id === plan.survivor.id);
+  if (!survivor) return false;
+  return [survivor.fatherId, survivor.motherId].some(parentId => hasCircularReference(merged, survivor.id, parentId));
+};
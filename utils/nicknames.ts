@@ -0,0 +1,93 @@
+// --- GIVEN NAME VARIANTS ---
+// Each group lists one given name with its common nicknames and the forms it takes
+// across the languages that show up most in immigrant records. Two given names are
+// treated as the same person's name when they share a group ("Johann" / "John" / "Jack").
+
+const NAME_GROUPS: string[][] = [
+  ['john', 'johann', 'johannes', 'jon', 'jack', 'johnny', 'hans', 'jan', 'jean', 'juan', 'giovanni', 'joao', 'ivan', 'sean', 'evan', 'ian'],
+  ['william', 'will', 'willie', 'bill', 'billy', 'wilhelm', 'willem', 'guillaume', 'guillermo', 'guglielmo', 'liam'],
+  ['james', 'jim', 'jimmy', 'jamie', 'jacques', 'diego', 'santiago', 'giacomo', 'seamus'],
+  ['jacob', 'jakob', 'jake', 'jacobus', 'jakub', 'jacopo'],
+  ['robert', 'rob', 'robbie', 'bob', 'bobby', 'bert', 'roberto', 'ruprecht', 'rupert'],
+  ['richard', 'rick', 'dick', 'rich', 'ricardo', 'riccardo', 'ryszard'],
+  ['henry', 'harry', 'hank', 'hal', 'heinrich', 'hendrik', 'henri', 'enrique', 'enrico', 'heinz', 'henryk'],
+  ['charles', 'charlie', 'chuck', 'carl', 'karl', 'carlos', 'carlo', 'karel', 'karol'],
+  ['edward', 'ed', 'eddie', 'ned', 'ted', 'teddy', 'eduard', 'edouard', 'eduardo', 'edoardo'],
+  ['thomas', 'tom', 'tommy', 'tomas', 'tomasz', 'tommaso'],
+  ['joseph', 'joe', 'joey', 'josef', 'jozef', 'jose', 'giuseppe', 'beppe', 'sepp'],
+  ['george', 'georg', 'jorge', 'giorgio', 'georges', 'jerzy', 'jurgen', 'yuri'],
+  ['michael', 'mike', 'mick', 'mickey', 'michel', 'miguel', 'michele', 'michal', 'mikhail', 'mikael'],
+  ['peter', 'pete', 'pieter', 'pierre', 'pedro', 'pietro', 'piotr', 'petr', 'pyotr'],
+  ['paul', 'paulo', 'pablo', 'paolo', 'pawel', 'pavel'],
+  ['francis', 'frank', 'frankie', 'franz', 'francois', 'francisco', 'francesco', 'franciszek', 'frantisek'],
+  ['frederick', 'fred', 'freddie', 'fritz', 'friedrich', 'frederic', 'federico', 'fryderyk'],
+  ['alexander', 'alex', 'alec', 'sandy', 'alexandre', 'alejandro', 'alessandro', 'aleksander', 'sasha'],
+  ['andrew', 'andy', 'drew', 'andreas', 'andre', 'andres', 'andrea', 'andrzej', 'andrei'],
+  ['anthony', 'tony', 'anton', 'antoine', 'antonio', 'antoni', 'antonin'],
+  ['stephen', 'steven', 'steve', 'stefan', 'stephan', 'etienne', 'esteban', 'stefano', 'istvan'],
+  ['matthew', 'matt', 'matthias', 'mathias', 'mathieu', 'mateo', 'matteo', 'mateusz'],
+  ['nicholas', 'nick', 'nicky', 'klaus', 'claus', 'nikolaus', 'nicolas', 'nicola', 'niccolo', 'mikolaj', 'nikolai'],
+  ['lawrence', 'laurence', 'larry', 'laurenz', 'lorenz', 'laurent', 'lorenzo', 'wawrzyniec'],
+  ['louis', 'lewis', 'lou', 'ludwig', 'luis', 'luigi', 'ludovico', 'ludwik', 'alois', 'aloysius'],
+  ['patrick', 'pat', 'paddy', 'patricio', 'patrizio'],
+  ['daniel', 'dan', 'danny', 'daniele'],
+  ['david', 'dave', 'davy', 'dawid', 'davide'],
+  ['samuel', 'sam', 'sammy', 'samuele'],
+  ['benjamin', 'ben', 'benny', 'benjamino'],
+  ['abraham', 'abe', 'abram', 'avraham'],
+  ['isaac', 'ike', 'isaak', 'izaak', 'isacco'],
+  ['christopher', 'chris', 'kit', 'christoph', 'christophe', 'cristobal', 'cristoforo', 'krzysztof'],
+  ['christian', 'christiaan', 'cristian', 'krystian', 'kristian'],
+  ['gustav', 'gustave', 'gustavo', 'gus', 'gustaf'],
+  ['albert', 'al', 'bert', 'albrecht', 'alberto'],
+  ['arthur', 'art', 'artie', 'arturo', 'artur'],
+  ['hugh', 'hugo', 'hugues', 'ugo'],
+  ['elizabeth', 'elisabeth', 'eliza', 'elsa', 'elise', 'else', 'elsbeth', 'liesel', 'lisa', 'liza', 'liz', 'lizzie', 'beth', 'betty', 'bess', 'bessie', 'betsy', 'isabel', 'isabella', 'elzbieta', 'elisabetta'],
+  ['margaret', 'margarete', 'margarethe', 'margareta', 'marguerite', 'margarita', 'margherita', 'malgorzata', 'maggie', 'meg', 'peggy', 'greta', 'gretchen', 'gretel', 'madge', 'daisy', 'rita'],
+  ['mary', 'maria', 'marie', 'marja', 'maryann', 'molly', 'polly', 'mae', 'mamie', 'mia', 'marian', 'mariana', 'maura', 'miriam', 'mitzi'],
+  ['catherine', 'katherine', 'kathryn', 'katharina', 'katharine', 'catharina', 'caterina', 'catalina', 'katarzyna', 'kate', 'katie', 'kitty', 'kathy', 'cathy', 'kay', 'kathleen', 'kaethe', 'katja'],
+  ['anne', 'ann', 'anna', 'annie', 'nancy', 'nan', 'hannah', 'hanna', 'anita', 'anneke', 'annette'],
+  ['sarah', 'sara', 'sally', 'sadie'],
+  ['susan', 'susanna', 'susannah', 'suzanne', 'susanne', 'sue', 'susie', 'zuzanna'],
+  ['helen', 'helena', 'helene', 'ellen', 'elena', 'ella', 'nell', 'nellie', 'eleanor', 'elinor', 'leonora', 'nora', 'lena'],
+  ['dorothy', 'dorothea', 'dora', 'dolly', 'dot', 'dottie'],
+  ['martha', 'marta', 'marthe', 'mattie', 'patty'],
+  ['frances', 'fanny', 'francine', 'francesca', 'franziska', 'francoise', 'francisca'],
+  ['johanna', 'joanna', 'joan', 'jane', 'jean', 'jeanne', 'janet', 'jenny', 'jennie', 'juana', 'giovanna', 'hanne', 'jana'],
+  ['caroline', 'carolina', 'carol', 'carrie', 'karoline', 'lina', 'charlotte', 'lottie', 'lotte'],
+  ['louisa', 'louise', 'luise', 'luisa', 'lou', 'lulu', 'ludwika'],
+  ['wilhelmina', 'wilhelmine', 'mina', 'minnie', 'willa', 'helma', 'mimi'],
+  ['rebecca', 'rebekah', 'becky', 'becca', 'rivka'],
+  ['barbara', 'barb', 'babs', 'barbel', 'basia'],
+  ['agnes', 'aggie', 'nessa', 'ines', 'agnieszka', 'agnese'],
+  ['theresa', 'teresa', 'therese', 'tessa', 'tess', 'terry', 'resi'],
+  ['rose', 'rosa', 'rosie', 'rosalie', 'rosina'],
+  ['josephine', 'josefine', 'josefa', 'josie', 'jo', 'giuseppina', 'pepita'],
+  ['christina', 'christine', 'kristina', 'christiane', 'cristina', 'krystyna', 'tina', 'chris', 'kirsten', 'stina'],
+  ['emily', 'emilie', 'emilia', 'emma', 'em', 'millie'],
+  ['amelia', 'amalie', 'amalia', 'emmeline', 'milly'],
+  ['abigail', 'abby', 'nabby', 'gail'],
+  ['eve', 'eva', 'evie'],
+  ['julia', 'julie', 'juliana', 'julianne', 'giulia'],
+  ['sophia', 'sophie', 'sofia', 'zofia', 'sophy']
+];
+
+const VARIANTS = new Map<string, Set<number>>();
+NAME_GROUPS.forEach((group, index) => {
+  group.forEach(name => {
+    if (!VARIANTS.has(name)) VARIANTS.set(name, new Set());
+    VARIANTS.get(name)!.add(index);
+  });
+});
+
+// Expects lowercase, accent-free names (see normalizeName)
+export const areGivenNameVariants = (a: string, b: string): boolean => {
+  if (a === b) return true;
+  const groupsA = VARIANTS.get(a);
+  const groupsB = VARIANTS.get(b);
+  if (!groupsA || !groupsB) return false;
+  for (const group of groupsA) {
+    if (groupsB.has(group)) return true;
+  }
+  return false;
+};
@@ -0,0 +1,637 @@
+// --- PHONETIC NAME CODES ---
+// Surnames in old records are spelled however the clerk heard them, so duplicate
+// detection compares sound-alike codes rather than letters:
+//  - Soundex: the classic US census index code ("Smith" / "Smyth" -> S530)
+//  - Double Metaphone: primary and alternate English/European pronunciations
+//    ("Smith" -> SM0/XMT, "Schmidt" -> XMT/SMT)
+//  - Daitch–Mokotoff: Soundex refined for Slavic and Germanic (Jewish genealogy) names,
+//    with branching codes for ambiguous letters
+
+// Uppercase A-Z only, with accents folded away
+const foldLetters = (name: string): string => {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ß/g, 'SS')
+    .toUpperCase()
+    .replace(/[^A-Z]/g, '');
+};
+
+// --- Soundex ---
+
+const SOUNDEX_CODES: Record<string, string> = {
+  B: '1', F: '1', P: '1', V: '1',
+  C: '2', G: '2', J: '2', K: '2', Q: '2', S: '2', X: '2', Z: '2',
+  D: '3', T: '3',
+  L: '4',
+  M: '5', N: '5',
+  R: '6'
+};
+
+export const soundex = (name: string): string => {
+  const letters = foldLetters(name);
+  if (!letters) return '';
+
+  let code = letters[0];
+  let last = SOUNDEX_CODES[letters[0]] || '';
+  for (let i = 1; i < letters.length && code.length < 4; i++) {
+    const letter = letters[i];
+    const digit = SOUNDEX_CODES[letter] || '';
+    if (digit && digit !== last) code += digit;
+    // H and W do not separate letters with the same code; vowels do
+    if (letter !== 'H' && letter !== 'W') last = digit;
+  }
+  return code.padEnd(4, '0');
+};
+
+// --- Double Metaphone ---
+// Port of Lawrence Philips' algorithm; returns [primary, alternate], each up to 4 characters.
+
+export const doubleMetaphone = (name: string): [string, string] => {
+  const word = foldLetters(name);
+  if (!word) return ['', ''];
+
+  const value = word + '     ';
+  const length = word.length;
+  const last = length - 1;
+  let primary = '';
+  let secondary = '';
+  let index = 0;
+
+  const isVowel = (i: number) => i >= 0 && 'AEIOUY'.includes(value[i]);
+  const at = (start: number, len: number, ...options: string[]) => {
+    if (start < 0) return false;
+    return options.includes(value.substr(start, len));
+  };
+  const add = (main: string, alternate: string = main) => {
+    primary += main;
+    secondary += alternate;
+  };
+  const slavoGermanic = /W|K|CZ|WITZ/.test(word);
+
+  // Silent first letters
+  if (at(0, 2, 'GN', 'KN', 'PN', 'WR', 'PS')) index++;
+  // Initial X is pronounced Z, which maps to S: "Xavier"
+  if (value[0] === 'X') {
+    add('S');
+    index++;
+  }
+
+  while (index < length && (primary.length < 4 || secondary.length < 4)) {
+    const char = value[index];
+
+    switch (char) {
+      case 'A': case 'E': case 'I': case 'O': case 'U': case 'Y':
+        if (index === 0) add('A');
+        index++;
+        break;
+
+      case 'B':
+        add('P');
+        index += value[index + 1] === 'B' ? 2 : 1;
+        break;
+
+      case 'C':
+        // Germanic "ACH": "Bacher", "Macher"
+        if (index > 1 && !isVowel(index - 2) && at(index - 1, 3, 'ACH') &&
+            value[index + 2] !== 'I' && (value[index + 2] !== 'E' || at(index - 2, 6, 'BACHER', 'MACHER'))) {
+          add('K');
+          index += 2;
+          break;
+        }
+        if (index === 0 && at(index, 6, 'CAESAR')) {
+          add('S');
+          index += 2;
+          break;
+        }
+        if (at(index, 4, 'CHIA')) {
+          add('K');
+          index += 2;
+          break;
+        }
+        if (at(index, 2, 'CH')) {
+          if (index > 0 && at(index, 4, 'CHAE')) {
+            add('K', 'X');
+          } else if (index === 0 && (at(index + 1, 5, 'HARAC', 'HARIS') || at(index + 1, 3, 'HOR', 'HYM', 'HIA', 'HEM')) && !at(0, 5, 'CHORE')) {
+            // Greek roots: "Christopher", "Chorus"
+            add('K');
+          } else if (at(0, 4, 'VAN ', 'VON ') || at(0, 3, 'SCH') || at(index - 2, 6, 'ORCHES', 'ARCHIT', 'ORCHID') ||
+                     at(index + 2, 1, 'T', 'S') ||
+                     ((at(index - 1, 1, 'A', 'O', 'U', 'E') || index === 0) && at(index + 2, 1, 'L', 'R', 'N', 'M', 'B', 'H', 'F', 'V', 'W', ' '))) {
+            add('K');
+          } else if (index > 0) {
+            if (at(0, 2, 'MC')) add('K');
+            else add('X', 'K');
+          } else {
+            add('X');
+          }
+          index += 2;
+          break;
+        }
+        // "Czerny"
+        if (at(index, 2, 'CZ') && !at(index - 2, 4, 'WICZ')) {
+          add('S', 'X');
+          index += 2;
+          break;
+        }
+        // "Focaccia"
+        if (at(index + 1, 3, 'CIA')) {
+          add('X');
+          index += 3;
+          break;
+        }
+        // Double C, but not "McClellan"
+        if (at(index, 2, 'CC') && !(index === 1 && value[0] === 'M')) {
+          if (at(index + 2, 1, 'I', 'E', 'H') && !at(index + 2, 2, 'HU')) {
+            // "Accident" and "Succeed", otherwise Italian "Bertucci"
+            if ((index === 1 && value[0] === 'A') || at(index - 1, 5, 'UCCEE', 'UCCES')) add('KS');
+            else add('X');
+            index += 3;
+          } else {
+            add('K');
+            index += 2;
+          }
+          break;
+        }
+        if (at(index, 2, 'CK', 'CG', 'CQ')) {
+          add('K');
+          index += 2;
+          break;
+        }
+        if (at(index, 2, 'CI', 'CE', 'CY')) {
+          if (at(index, 3, 'CIO', 'CIE', 'CIA')) add('S', 'X');
+          else add('S');
+          index += 2;
+          break;
+        }
+        add('K');
+        if (at(index + 1, 1, 'C', 'K', 'Q') && !at(index + 1, 2, 'CE', 'CI')) index += 2;
+        else index++;
+        break;
+
+      case 'D':
+        if (at(index, 2, 'DG')) {
+          // "Edge" vs "Edgar"
+          if (at(index + 2, 1, 'I', 'E', 'Y')) {
+            add('J');
+            index += 3;
+          } else {
+            add('TK');
+            index += 2;
+          }
+          break;
+        }
+        add('T');
+        index += at(index, 2, 'DT', 'DD') ? 2 : 1;
+        break;
+
+      case 'F':
+        add('F');
+        index += value[index + 1] === 'F' ? 2 : 1;
+        break;
+
+      case 'G':
+        if (value[index + 1] === 'H') {
+          if (index > 0 && !isVowel(index - 1)) {
+            add('K');
+            index += 2;
+            break;
+          }
+          if (index === 0) {
+            // "Ghislane" vs "Ghent"
+            add(value[index + 2] === 'I' ? 'J' : 'K');
+            index += 2;
+            break;
+          }
+          // Parker's rule: "Hugh", "Bough", "Broughton" are silent
+          if ((index > 1 && at(index - 2, 1, 'B', 'H', 'D')) ||
+              (index > 2 && at(index - 3, 1, 'B', 'H', 'D')) ||
+              (index > 3 && at(index - 4, 1, 'B', 'H'))) {
+            index += 2;
+            break;
+          }
+          // "Laugh", "McLaughlin", "Cough", "Rough"
+          if (index > 2 && value[index - 1] === 'U' && at(index - 3, 1, 'C', 'G', 'L', 'R', 'T')) add('F');
+          else if (index > 0 && value[index - 1] !== 'I') add('K');
+          index += 2;
+          break;
+        }
+        if (value[index + 1] === 'N') {
+          if (index === 1 && isVowel(0) && !slavoGermanic) add('KN', 'N');
+          else if (!at(index + 2, 2, 'EY') && value[index + 1] !== 'Y' && !slavoGermanic) add('N', 'KN');
+          else add('KN');
+          index += 2;
+          break;
+        }
+        // "Tagliaro"
+        if (at(index + 1, 2, 'LI') && !slavoGermanic) {
+          add('KL', 'L');
+          index += 2;
+          break;
+        }
+        // Initial "Ges-", "Gep-", "Gel-", "Gie-"...
+        if (index === 0 && (value[index + 1] === 'Y' || at(index + 1, 2, 'ES', 'EP', 'EB', 'EL', 'EY', 'IB', 'IL', 'IN', 'IE', 'EI', 'ER'))) {
+          add('K', 'J');
+          index += 2;
+          break;
+        }
+        // "-ger-", "-gy-"
+        if ((at(index + 1, 2, 'ER') || value[index + 1] === 'Y') && !at(0, 6, 'DANGER', 'RANGER', 'MANGER') &&
+            !at(index - 1, 1, 'E', 'I') && !at(index - 1, 3, 'RGY', 'OGY')) {
+          add('K', 'J');
+          index += 2;
+          break;
+        }
+        // Italian "Biaggi"
+        if (at(index + 1, 1, 'E', 'I', 'Y') || at(index - 1, 4, 'AGGI', 'OGGI')) {
+          if (at(0, 4, 'VAN ', 'VON ') || at(0, 3, 'SCH') || at(index + 1, 2, 'ET')) add('K');
+          else if (at(index + 1, 4, 'IER ')) add('J');
+          else add('J', 'K');
+          index += 2;
+          break;
+        }
+        add('K');
+        index += value[index + 1] === 'G' ? 2 : 1;
+        break;
+
+      case 'H':
+        // Only between vowels or at the start before a vowel
+        if ((index === 0 || isVowel(index - 1)) && isVowel(index + 1)) {
+          add('H');
+          index += 2;
+        } else {
+          index++;
+        }
+        break;
+
+      case 'J':
+        // Spanish "Jose", "San Jacinto"
+        if (at(index, 4, 'JOSE') || at(0, 4, 'SAN ')) {
+          if ((index === 0 && value[index + 4] === ' ') || at(0, 4, 'SAN ')) add('H');
+          else add('J', 'H');
+          index++;
+          break;
+        }
+        if (index === 0) add('J', 'A');
+        else if (isVowel(index - 1) && !slavoGermanic && (value[index + 1] === 'A' || value[index + 1] === 'O')) add('J', 'H');
+        else if (index === last) add('J', '');
+        else if (!at(index + 1, 1, 'L', 'T', 'K', 'S', 'N', 'M', 'B', 'Z') && !at(index - 1, 1, 'S', 'K', 'L')) add('J');
+        index += value[index + 1] === 'J' ? 2 : 1;
+        break;
+
+      case 'K':
+        add('K');
+        index += value[index + 1] === 'K' ? 2 : 1;
+        break;
+
+      case 'L':
+        if (value[index + 1] === 'L') {
+          // Spanish "Cabrillo", "Gallegos"
+          if ((index === length - 3 && at(index - 1, 4, 'ILLO', 'ILLA', 'ALLE')) ||
+              ((at(last - 1, 2, 'AS', 'OS') || at(last, 1, 'A', 'O')) && at(index - 1, 4, 'ALLE'))) {
+            add('L', '');
+            index += 2;
+            break;
+          }
+          index += 2;
+        } else {
+          index++;
+        }
+        add('L');
+        break;
+
+      case 'M':
+        add('M');
+        // "Dumb", "Thumbelina"
+        if ((at(index - 1, 3, 'UMB') && (index + 1 === last || at(index + 2, 2, 'ER'))) || value[index + 1] === 'M') index += 2;
+        else index++;
+        break;
+
+      case 'N':
+        add('N');
+        index += value[index + 1] === 'N' ? 2 : 1;
+        break;
+
+      case 'P':
+        if (value[index + 1] === 'H') {
+          add('F');
+          index += 2;
+          break;
+        }
+        add('P');
+        index += at(index + 1, 1, 'P', 'B') ? 2 : 1;
+        break;
+
+      case 'Q':
+        add('K');
+        index += value[index + 1] === 'Q' ? 2 : 1;
+        break;
+
+      case 'R':
+        // French "Rogier", but not "Hochmeier"
+        if (index === last && !slavoGermanic && at(index - 2, 2, 'IE') && !at(index - 4, 2, 'ME', 'MA')) add('', 'R');
+        else add('R');
+        index += value[index + 1] === 'R' ? 2 : 1;
+        break;
+
+      case 'S':
+        // "Island", "Carlisle"
+        if (at(index - 1, 3, 'ISL', 'YSL')) {
+          index++;
+          break;
+        }
+        if (index === 0 && at(index, 5, 'SUGAR')) {
+          add('X', 'S');
+          index++;
+          break;
+        }
+        if (at(index, 2, 'SH')) {
+          // Germanic "Sheim", "Sholz"
+          if (at(index + 1, 4, 'HEIM', 'HOEK', 'HOLM', 'HOLZ')) add('S');
+          else add('X');
+          index += 2;
+          break;
+        }
+        // Italian and Armenian
+        if (at(index, 3, 'SIO', 'SIA') || at(index, 4, 'SIAN')) {
+          if (!slavoGermanic) add('S', 'X');
+          else add('S');
+          index += 3;
+          break;
+        }
+        // German anglicisations: "Smith" matches "Schmidt", "Snider" matches "Schneider"
+        if ((index === 0 && at(index + 1, 1, 'M', 'N', 'L', 'W')) || at(index + 1, 1, 'Z')) {
+          add('S', 'X');
+          index += at(index + 1, 1, 'Z') ? 2 : 1;
+          break;
+        }
+        if (at(index, 2, 'SC')) {
+          // Schlesinger's rule
+          if (value[index + 2] === 'H') {
+            if (at(index + 3, 2, 'OO', 'ER', 'EN', 'UY', 'ED', 'EM')) {
+              // Dutch "School"; "Schermerhorn", "Schenker"
+              if (at(index + 3, 2, 'ER', 'EN')) add('X', 'SK');
+              else add('SK');
+            } else if (index === 0 && !isVowel(3) && value[3] !== 'W') {
+              add('X', 'S');
+            } else {
+              add('X');
+            }
+            index += 3;
+            break;
+          }
+          if (at(index + 2, 1, 'I', 'E', 'Y')) add('S');
+          else add('SK');
+          index += 3;
+          break;
+        }
+        // French "Resnais", "Artois"
+        if (index === last && at(index - 2, 2, 'AI', 'OI')) add('', 'S');
+        else add('S');
+        index += at(index + 1, 1, 'S', 'Z') ? 2 : 1;
+        break;
+
+      case 'T':
+        if (at(index, 4, 'TION') || at(index, 3, 'TIA', 'TCH')) {
+          add('X');
+          index += 3;
+          break;
+        }
+        if (at(index, 2, 'TH') || at(index, 3, 'TTH')) {
+          // "Thomas", "Thames", or Germanic
+          if (at(index + 2, 2, 'OM', 'AM') || at(0, 4, 'VAN ', 'VON ') || at(0, 3, 'SCH')) add('T');
+          else add('0', 'T');
+          index += 2;
+          break;
+        }
+        add('T');
+        index += at(index + 1, 1, 'T', 'D') ? 2 : 1;
+        break;
+
+      case 'V':
+        add('F');
+        index += value[index + 1] === 'V' ? 2 : 1;
+        break;
+
+      case 'W':
+        if (at(index, 2, 'WR')) {
+          add('R');
+          index += 2;
+          break;
+        }
+        if (index === 0 && (isVowel(index + 1) || at(index, 2, 'WH'))) {
+          // "Wasserman" matches "Vasserman"
+          if (isVowel(index + 1)) add('A', 'F');
+          else add('A');
+        }
+        // "Arnow" matches "Arnoff"
+        if ((index === last && isVowel(index - 1)) || at(index - 1, 5, 'EWSKI', 'EWSKY', 'OWSKI', 'OWSKY') || at(0, 3, 'SCH')) {
+          add('', 'F');
+          index++;
+          break;
+        }
+        // Polish "Filipowicz"
+        if (at(index, 4, 'WICZ', 'WITZ')) {
+          add('TS', 'FX');
+          index += 4;
+          break;
+        }
+        index++;
+        break;
+
+      case 'X':
+        // French "Breaux"
+        if (!(index === last && (at(index - 3, 3, 'IAU', 'EAU') || at(index - 2, 2, 'AU', 'OU')))) add('KS');
+        index += at(index + 1, 1, 'C', 'X') ? 2 : 1;
+        break;
+
+      case 'Z':
+        // Pinyin "Zhao"
+        if (value[index + 1] === 'H') {
+          add('J');
+          index += 2;
+          break;
+        }
+        if (at(index + 1, 2, 'ZO', 'ZI', 'ZA') || (slavoGermanic && index > 0 && value[index - 1] !== 'T')) add('S', 'TS');
+        else add('S');
+        index += value[index + 1] === 'Z' ? 2 : 1;
+        break;
+
+      default:
+        index++;
+    }
+  }
+
+  return [primary.slice(0, 4), secondary.slice(0, 4)];
+};
+
+// --- Daitch–Mokotoff Soundex ---
+
+// [at start of name, before a vowel, anywhere else]; '' means not coded.
+// Letters with two pronunciations carry an alternate row, which branches the code.
+type DmCodes = [string, string, string];
+interface DmRule {
+  pattern: string;
+  codes: DmCodes;
+  alternate?: DmCodes;
+}
+
+const DM_RULES: DmRule[] = [
+  { pattern: 'SCHTSCH', codes: ['2', '4', '4'] },
+  { pattern: 'SCHTSH', codes: ['2', '4', '4'] },
+  { pattern: 'SCHTCH', codes: ['2', '4', '4'] },
+  { pattern: 'SHTCH', codes: ['2', '4', '4'] },
+  { pattern: 'SHTSH', codes: ['2', '4', '4'] },
+  { pattern: 'STSCH', codes: ['2', '4', '4'] },
+  { pattern: 'TTSCH', codes: ['4', '4', '4'] },
+  { pattern: 'ZHDZH', codes: ['2', '4', '4'] },
+  { pattern: 'SHCH', codes: ['2', '4', '4'] },
+  { pattern: 'SCHT', codes: ['2', '43', '43'] },
+  { pattern: 'SCHD', codes: ['2', '43', '43'] },
+  { pattern: 'STCH', codes: ['2', '4', '4'] },
+  { pattern: 'STRZ', codes: ['2', '4', '4'] },
+  { pattern: 'STRS', codes: ['2', '4', '4'] },
+  { pattern: 'STSH', codes: ['2', '4', '4'] },
+  { pattern: 'SZCZ', codes: ['2', '4', '4'] },
+  { pattern: 'SZCS', codes: ['2', '4', '4'] },
+  { pattern: 'TTCH', codes: ['4', '4', '4'] },
+  { pattern: 'TSCH', codes: ['4', '4', '4'] },
+  { pattern: 'TTSZ', codes: ['4', '4', '4'] },
+  { pattern: 'ZDZH', codes: ['2', '4', '4'] },
+  { pattern: 'ZSCH', codes: ['4', '4', '4'] },
+  { pattern: 'CHS', codes: ['5', '54', '54'] },
+  { pattern: 'CSZ', codes: ['4', '4', '4'] },
+  { pattern: 'CZS', codes: ['4', '4', '4'] },
+  { pattern: 'DRZ', codes: ['4', '4', '4'] },
+  { pattern: 'DRS', codes: ['4', '4', '4'] },
+  { pattern: 'DSH', codes: ['4', '4', '4'] },
+  { pattern: 'DSZ', codes: ['4', '4', '4'] },
+  { pattern: 'DZH', codes: ['4', '4', '4'] },
+  { pattern: 'DZS', codes: ['4', '4', '4'] },
+  { pattern: 'SCH', codes: ['4', '4', '4'] },
+  { pattern: 'SHT', codes: ['2', '43', '43'] },
+  { pattern: 'SZT', codes: ['2', '43', '43'] },
+  { pattern: 'SHD', codes: ['2', '43', '43'] },
+  { pattern: 'SZD', codes: ['2', '43', '43'] },
+  { pattern: 'TCH', codes: ['4', '4', '4'] },
+  { pattern: 'TRZ', codes: ['4', '4', '4'] },
+  { pattern: 'TRS', codes: ['4', '4', '4'] },
+  { pattern: 'TSH', codes: ['4', '4', '4'] },
+  { pattern: 'TTS', codes: ['4', '4', '4'] },
+  { pattern: 'TTZ', codes: ['4', '4', '4'] },
+  { pattern: 'TZS', codes: ['4', '4', '4'] },
+  { pattern: 'TSZ', codes: ['4', '4', '4'] },
+  { pattern: 'ZDZ', codes: ['2', '4', '4'] },
+  { pattern: 'ZHD', codes: ['2', '43', '43'] },
+  { pattern: 'ZSH', codes: ['4', '4', '4'] },
+  { pattern: 'AI', codes: ['0', '1', ''] },
+  { pattern: 'AJ', codes: ['0', '1', ''] },
+  { pattern: 'AY', codes: ['0', '1', ''] },
+  { pattern: 'AU', codes: ['0', '7', ''] },
+  { pattern: 'CH', codes: ['5', '5', '5'], alternate: ['4', '4', '4'] },
+  { pattern: 'CK', codes: ['5', '5', '5'], alternate: ['45', '45', '45'] },
+  { pattern: 'CZ', codes: ['4', '4', '4'] },
+  { pattern: 'CS', codes: ['4', '4', '4'] },
+  { pattern: 'DS', codes: ['4', '4', '4'] },
+  { pattern: 'DZ', codes: ['4', '4', '4'] },
+  { pattern: 'DT', codes: ['3', '3', '3'] },
+  { pattern: 'EI', codes: ['0', '1', ''] },
+  { pattern: 'EJ', codes: ['0', '1', ''] },
+  { pattern: 'EY', codes: ['0', '1', ''] },
+  { pattern: 'EU', codes: ['1', '1', ''] },
+  { pattern: 'FB', codes: ['7', '7', '7'] },
+  { pattern: 'IA', codes: ['1', '', ''] },
+  { pattern: 'IE', codes: ['1', '', ''] },
+  { pattern: 'IO', codes: ['1', '', ''] },
+  { pattern: 'IU', codes: ['1', '', ''] },
+  { pattern: 'KS', codes: ['5', '54', '54'] },
+  { pattern: 'KH', codes: ['5', '5', '5'] },
+  { pattern: 'MN', codes: ['66', '66', '66'] },
+  { pattern: 'NM', codes: ['66', '66', '66'] },
+  { pattern: 'OI', codes: ['0', '1', ''] },
+  { pattern: 'OJ', codes: ['0', '1', ''] },
+  { pattern: 'OY', codes: ['0', '1', ''] },
+  { pattern: 'PF', codes: ['7', '7', '7'] },
+  { pattern: 'PH', codes: ['7', '7', '7'] },
+  { pattern: 'RZ', codes: ['94', '94', '94'], alternate: ['4', '4', '4'] },
+  { pattern: 'RS', codes: ['94', '94', '94'], alternate: ['4', '4', '4'] },
+  { pattern: 'SH', codes: ['4', '4', '4'] },
+  { pattern: 'SC', codes: ['2', '4', '4'] },
+  { pattern: 'ST', codes: ['2', '43', '43'] },
+  { pattern: 'SD', codes: ['2', '43', '43'] },
+  { pattern: 'SZ', codes: ['4', '4', '4'] },
+  { pattern: 'TH', codes: ['3', '3', '3'] },
+  { pattern: 'TS', codes: ['4', '4', '4'] },
+  { pattern: 'TC', codes: ['4', '4', '4'] },
+  { pattern: 'TZ', codes: ['4', '4', '4'] },
+  { pattern: 'UI', codes: ['0', '1', ''] },
+  { pattern: 'UJ', codes: ['0', '1', ''] },
+  { pattern: 'UY', codes: ['0', '1', ''] },
+  { pattern: 'UE', codes: ['0', '', ''] },
+  { pattern: 'ZD', codes: ['2', '43', '43'] },
+  { pattern: 'ZH', codes: ['4', '4', '4'] },
+  { pattern: 'ZS', codes: ['4', '4', '4'] },
+  { pattern: 'A', codes: ['0', '', ''] },
+  { pattern: 'B', codes: ['7', '7', '7'] },
+  { pattern: 'C', codes: ['5', '5', '5'], alternate: ['4', '4', '4'] },
+  { pattern: 'D', codes: ['3', '3', '3'] },
+  { pattern: 'E', codes: ['0', '', ''] },
+  { pattern: 'F', codes: ['7', '7', '7'] },
+  { pattern: 'G', codes: ['5', '5', '5'] },
+  { pattern: 'H', codes: ['5', '5', ''] },
+  { pattern: 'I', codes: ['0', '', ''] },
+  { pattern: 'J', codes: ['1', '1', '1'], alternate: ['4', '4', '4'] },
+  { pattern: 'K', codes: ['5', '5', '5'] },
+  { pattern: 'L', codes: ['8', '8', '8'] },
+  { pattern: 'M', codes: ['6', '6', '6'] },
+  { pattern: 'N', codes: ['6', '6', '6'] },
+  { pattern: 'O', codes: ['0', '', ''] },
+  { pattern: 'P', codes: ['7', '7', '7'] },
+  { pattern: 'Q', codes: ['5', '5', '5'] },
+  { pattern: 'R', codes: ['9', '9', '9'] },
+  { pattern: 'S', codes: ['4', '4', '4'] },
+  { pattern: 'T', codes: ['3', '3', '3'] },
+  { pattern: 'U', codes: ['0', '', ''] },
+  { pattern: 'V', codes: ['7', '7', '7'] },
+  { pattern: 'W', codes: ['7', '7', '7'] },
+  { pattern: 'X', codes: ['5', '54', '54'] },
+  { pattern: 'Y', codes: ['1', '', ''] },
+  { pattern: 'Z', codes: ['4', '4', '4'] }
+];
+
+const DM_VOWELS = 'AEIOU';
+
+// All six-digit codes a name may carry (several when letters are ambiguous)
+export const daitchMokotoff = (name: string): string[] => {
+  const word = foldLetters(name);
+  if (!word) return [];
+
+  // Each branch tracks its code so far and the last code emitted, to collapse repeats
+  let branches: { code: string; last: string }[] = [{ code: '', last: '' }];
+  let index = 0;
+
+  while (index < word.length) {
+    const rule = DM_RULES.find(r => word.startsWith(r.pattern, index))!;
+    const next = word[index + rule.pattern.length];
+    const position = index === 0 ? 0 : next && DM_VOWELS.includes(next) ? 1 : 2;
+    const options = rule.alternate ? [rule.codes[position], rule.alternate[position]] : [rule.codes[position]];
+
+    const expanded: { code: string; last: string }[] = [];
+    branches.forEach(branch => {
+      options.forEach(option => {
+        if (option === '') {
+          // Uncoded letters (vowels) separate repeated codes
+          expanded.push({ code: branch.code, last: '' });
+        } else if (option === branch.last) {
+          expanded.push(branch);
+        } else {
+          expanded.push({ code: branch.code + option, last: option });
+        }
+      });
+    });
+    branches = expanded;
+    index += rule.pattern.length;
+  }
+
+  return Array.from(new Set(branches.map(b => b.code.slice(0, 6).padEnd(6, '0'))));
+};
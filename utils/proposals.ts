@@ -0,0 +1,99 @@
+import { Ancestor, EditProposal } from '../types';
+import { formatLifeDate } from './dates';
+
+// --- EDIT PROPOSALS ---
+// Contributors suggest additions and edits instead of writing records. An edit keeps
+// only the fields it changes, so the owner reviews a short diff and accepting it does
+// not overwrite anything else changed in the meantime.
+
+export type ProposalField = 'name' | 'gender' | 'birth' | 'death' | 'country' | 'father' | 'mother' | 'photoUrl' | 'notes';
+
+export const PROPOSAL_FIELD_LABELS: Record<ProposalField, string> = {
+  name: 'Name',
+  gender: 'Gender',
+  birth: 'Born',
+  death: 'Died',
+  country: 'Country',
+  father: 'Father',
+  mother: 'Mother',
+  photoUrl: 'Photo',
+  notes: 'Notes'
+};
+
+const PROPOSAL_FIELDS = Object.keys(PROPOSAL_FIELD_LABELS) as ProposalField[];
+
+// The stored keys behind each reviewable field
+const FIELD_KEYS: Record<ProposalField, (keyof Ancestor)[]> = {
+  name: ['name'],
+  gender: ['gender'],
+  birth: ['birthDate', 'birthYear'],
+  death: ['deathDate', 'deathYear'],
+  country: ['country'],
+  father: ['fatherId'],
+  mother: ['motherId'],
+  photoUrl: ['photoUrl'],
+  notes: ['notes']
+};
+
+export interface ProposalDiffRow {
+  field: ProposalField;
+  label: string;
+  current: string;
+  proposed: string;
+}
+
+// Comparable display form of a field; parents are shown by name, empty string when unset
+const describeField = (person: Partial<Ancestor>, field: ProposalField, ancestors: Ancestor[]): string => {
+  switch (field) {
+    case 'birth':
+    case 'death':
+      return formatLifeDate(person as Ancestor, field) || '';
+    case 'father':
+    case 'mother': {
+      const parentId = field === 'father' ? person.fatherId : person.motherId;
+      if (!parentId) return '';
+      return ancestors.find(a => a.id === parentId)?.name || 'Unknown person';
+    }
+    case 'gender':
+      return person.gender && person.gender !== 'Unknown' ? person.gender : '';
+    default:
+      return ((person[field] as string | undefined) || '').trim();
+  }
+};
+
+// Parents are compared by id, since two relatives can share a name
+const sameValue = (a: Partial<Ancestor>, b: Partial<Ancestor>, field: ProposalField, ancestors: Ancestor[]) => {
+  if (field === 'father') return (a.fatherId || null) === (b.fatherId || null);
+  if (field === 'mother') return (a.motherId || null) === (b.motherId || null);
+  return describeField(a, field, ancestors) === describeField(b, field, ancestors);
+};
+
+// The part of a full form payload that actually differs from the current record
+export const getProposalChanges = (current: Ancestor, payload: Partial<Ancestor>, ancestors: Ancestor[]): Partial<Ancestor> => {
+  const next = { ...current, ...payload };
+  const changes: Partial<Ancestor> = {};
+  PROPOSAL_FIELDS.forEach(field => {
+    if (sameValue(current, next, field, ancestors)) return;
+    FIELD_KEYS[field].forEach(key => {
+      if (key in payload) (changes as any)[key] = (payload as any)[key];
+    });
+  });
+  return changes;
+};
+
+// Field-by-field comparison of a proposal with the record it would change. Additions
+// list every field they fill in, against an empty "current" column.
+export const diffProposal = (proposal: EditProposal, current: Ancestor | undefined, ancestors: Ancestor[]): ProposalDiffRow[] => {
+  const before: Partial<Ancestor> = current || {};
+  const after: Partial<Ancestor> = { ...before, ...proposal.changes };
+  return PROPOSAL_FIELDS
+    .filter(field => FIELD_KEYS[field].some(key => key in proposal.changes) && !sameValue(before, after, field, ancestors))
+    .map(field => ({
+      field,
+      label: PROPOSAL_FIELD_LABELS[field],
+      current: describeField(before, field, ancestors),
+      proposed: describeField(after, field, ancestors)
+    }));
+};
+
+export const describeAuthor = (proposal: EditProposal) => proposal.submittedBy.email || `User ${proposal.submittedBy.uid.slice(0, 6)}`;
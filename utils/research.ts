@@ -0,0 +1,97 @@
+import { AiContentEntry, AiContentKind, Ancestor } from '../types';
+import { calculateCompleteness, getAncestorIds, getDescendantIds } from './genealogy';
+
+// --- Batch research ---
+// A research job runs some of the AI features over every person in a branch of the tree,
+// one task per person and feature (see services/researchQueue.ts). Results are kept as AI
+// content, the same as generating them one at a time from AIHistorian.
+
+// The features a job can run
+export type ResearchKind = Extract<AiContentKind, 'history' | 'timeline' | 'suggestions' | 'insights'>;
+
+export const RESEARCH_KINDS: { kind: ResearchKind; label: string }[] = [
+  { kind: 'history', label: 'Historical context' },
+  { kind: 'timeline', label: 'Timeline' },
+  { kind: 'suggestions', label: 'Research suggestions' },
+  { kind: 'insights', label: 'Social status' }
+];
+
+// Who a job covers
+export type ResearchBranch =
+  | { type: 'ancestors' | 'descendants'; personId: string }
+  | { type: 'incomplete'; threshold: number } // Completeness below this percentage
+  | { type: 'all' };
+
+export const selectBranch = (ancestors: Ancestor[], branch: ResearchBranch): Ancestor[] => {
+  if (branch.type === 'all') return ancestors;
+  if (branch.type === 'incomplete') return ancestors.filter(a => calculateCompleteness(a) < branch.threshold);
+  const ids = branch.type === 'ancestors' ? getAncestorIds(ancestors, branch.personId) : getDescendantIds(ancestors, branch.personId);
+  return ancestors.filter(a => ids.has(a.id));
+};
+
+export const describeBranch = (ancestors: Ancestor[], branch: ResearchBranch): string => {
+  if (branch.type === 'all') return 'Whole tree';
+  if (branch.type === 'incomplete') return `Completeness below ${branch.threshold}%`;
+  const name = ancestors.find(a => a.id === branch.personId)?.name || 'Unknown';
+  return branch.type === 'ancestors' ? `Ancestors of ${name}` : `Descendants of ${name}`;
+};
+
+export type ResearchTaskStatus = 'queued' | 'running' | 'done' | 'failed' | 'skipped';
+
+export interface ResearchTask {
+  id: string;
+  ancestorId: string;
+  ancestorName: string;
+  kind: ResearchKind;
+  status: ResearchTaskStatus;
+  attempts: number;
+  retryAt?: number; // Waiting out a backoff until then
+  error?: string; // The last failure, kept while retrying
+  entryId?: string; // The AI content it produced
+  preview?: string; // The start of the result
+  finishedAt?: number;
+}
+
+// 'running' jobs take their turn in the queue; a paused job keeps its place until resumed.
+// Cancelled jobs keep what they finished.
+export type ResearchJobStatus = 'running' | 'paused' | 'cancelled' | 'done';
+
+export interface ResearchJob {
+  id: string;
+  treeId: string;
+  label: string; // The branch, see describeBranch
+  kinds: ResearchKind[];
+  status: ResearchJobStatus;
+  tasks: ResearchTask[];
+  error?: string; // Why the queue paused it, e.g. no AI provider or the budget is spent
+  dateAdded: number;
+}
+
+export interface ResearchJobSummary {
+  total: number;
+  done: number;
+  failed: number;
+  skipped: number;
+  remaining: number;
+}
+
+export const summarizeJob = (job: ResearchJob): ResearchJobSummary => {
+  const count = (status: ResearchTaskStatus) => job.tasks.filter(t => t.status === status).length;
+  const done = count('done');
+  const failed = count('failed');
+  const skipped = count('skipped');
+  return { total: job.tasks.length, done, failed, skipped, remaining: job.tasks.length - done - failed - skipped };
+};
+
+const PREVIEW_LENGTH = 100;
+
+// One line of the result, for the job's task list
+export const previewAiContent = (entry: AiContentEntry): string => {
+  let text: string;
+  if (entry.kind === 'history') text = entry.result.text;
+  else if (entry.kind === 'timeline') text = `${entry.result.length} events: ${entry.result.map(e => e.year).join(', ')}`;
+  else if (entry.kind === 'insights') text = entry.result.socialClass;
+  else text = entry.result;
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > PREVIEW_LENGTH ? `${line.slice(0, PREVIEW_LENGTH)}...` : line;
+};
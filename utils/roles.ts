@@ -0,0 +1,62 @@
+import { FamilyTree, TreeMember, TreeRole } from '../types';
+
+// --- TREE ROLES ---
+// What each member of a tree may do. firestore.rules enforces the same ranking
+// on the server; keep the two in step.
+
+export const TREE_ROLES: TreeRole[] = ['owner', 'editor', 'contributor', 'viewer'];
+
+export const ROLE_LABELS: Record<TreeRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  contributor: 'Contributor',
+  viewer: 'Viewer'
+};
+
+export const ROLE_DESCRIPTIONS: Record<TreeRole, string> = {
+  owner: 'Manages members, renames and deletes the tree',
+  editor: 'Adds, edits and deletes people, sources and relationships',
+  contributor: 'Can view the tree and propose edits',
+  viewer: 'Can view the tree'
+};
+
+const ROLE_RANK: Record<TreeRole, number> = { owner: 4, editor: 3, contributor: 2, viewer: 1 };
+
+const atLeast = (role: TreeRole | null, minimum: TreeRole) => !!role && ROLE_RANK[role] >= ROLE_RANK[minimum];
+
+export const canEditTree = (role: TreeRole | null) => atLeast(role, 'editor');
+export const canProposeEdits = (role: TreeRole | null) => atLeast(role, 'contributor');
+export const canManageTree = (role: TreeRole | null) => atLeast(role, 'owner');
+
+// Invitations are matched on the address Firebase Auth reports, compared case-insensitively
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const getTreeRole = (tree: FamilyTree | undefined, userId: string | undefined): TreeRole | null => {
+  if (!tree || !userId) return null;
+  return tree.members?.[userId]?.role || null;
+};
+
+export const getPendingInvite = (tree: FamilyTree, email: string | null | undefined): TreeRole | null => {
+  if (!email) return null;
+  return tree.invites?.[normalizeEmail(email)] || null;
+};
+
+// Trees written before roles existed have nobody in them; the first account to open one claims it
+export const isUnclaimed = (tree: FamilyTree | undefined) => !tree?.memberIds || tree.memberIds.length === 0;
+
+export const createMember = (role: TreeRole, email?: string | null): TreeMember => {
+  const member: TreeMember = { role, dateAdded: Date.now() };
+  if (email) member.email = normalizeEmail(email);
+  return member;
+};
+
+// Keep the queryable id/email lists in step with the maps they index
+export const withMembership = (tree: FamilyTree, members: Record<string, TreeMember>, invites: Record<string, TreeRole>): FamilyTree => ({
+  ...tree,
+  members,
+  memberIds: Object.keys(members),
+  invites,
+  invitedEmails: Object.keys(invites)
+});
+
+export const countOwners = (tree: FamilyTree) => Object.values(tree.members || {}).filter(m => m.role === 'owner').length;
@@ -0,0 +1,93 @@
+import { Ancestor, Citation, CitationFact, CitationQuality, Source } from '../types';
+
+// --- SOURCES & CITATIONS ---
+// Sources live in their own catalogue; each person carries the citations that tie
+// a specific fact (birth, death, parentage, country) to a source and a page in it.
+
+export const CITATION_FACT_LABELS: Record<CitationFact, string> = {
+  general: 'Person',
+  birth: 'Birth',
+  death: 'Death',
+  parentage: 'Parents',
+  country: 'Country'
+};
+
+export const CITATION_FACTS = Object.keys(CITATION_FACT_LABELS) as CitationFact[];
+
+export const CITATION_QUALITY_LABELS: Record<CitationQuality, string> = {
+  primary: 'Primary evidence',
+  secondary: 'Secondary evidence',
+  questionable: 'Questionable',
+  unreliable: 'Unreliable'
+};
+
+export const CITATION_QUALITIES = Object.keys(CITATION_QUALITY_LABELS) as CitationQuality[];
+
+// GEDCOM QUAY: 3 = direct/primary, 2 = secondary, 1 = questionable, 0 = unreliable
+const QUALITY_TO_QUAY: Record<CitationQuality, string> = { primary: '3', secondary: '2', questionable: '1', unreliable: '0' };
+
+export const qualityToQuay = (quality: CitationQuality): string => QUALITY_TO_QUAY[quality];
+
+export const quayToQuality = (quay: string | undefined): CitationQuality | undefined => {
+  return CITATION_QUALITIES.find(q => QUALITY_TO_QUAY[q] === (quay || '').trim());
+};
+
+// Build a citation without empty optional fields (Firestore rejects undefined inside arrays)
+export const createCitation = (
+  sourceId: string,
+  fact: CitationFact,
+  details: { page?: string; detail?: string; quality?: CitationQuality } = {}
+): Citation => {
+  const citation: Citation = { sourceId, fact };
+  const page = details.page?.trim();
+  const detail = details.detail?.trim();
+  if (page) citation.page = page;
+  if (detail) citation.detail = detail;
+  if (details.quality) citation.quality = details.quality;
+  return citation;
+};
+
+export const getCitationsForFact = (ancestor: Ancestor, fact: CitationFact): Citation[] => {
+  return (ancestor.citations || []).filter(c => c.fact === fact);
+};
+
+const citationKey = (c: Citation) => [c.sourceId, c.fact, c.page || '', c.detail || ''].join('|');
+
+// Union of two citation lists, dropping exact repeats
+export const mergeCitations = (a: Citation[] = [], b: Citation[] = []): Citation[] => {
+  const seen = new Set<string>();
+  return [...a, ...b].filter(c => {
+    const key = citationKey(c);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Everyone citing a source, with the citations they hold
+export const getCitingRecords = (ancestors: Ancestor[], sourceId: string): { ancestor: Ancestor; citations: Citation[] }[] => {
+  return ancestors
+    .map(ancestor => ({ ancestor, citations: (ancestor.citations || []).filter(c => c.sourceId === sourceId) }))
+    .filter(r => r.citations.length > 0);
+};
+
+export const countCitationsBySource = (ancestors: Ancestor[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  ancestors.forEach(a => (a.citations || []).forEach(c => counts.set(c.sourceId, (counts.get(c.sourceId) || 0) + 1)));
+  return counts;
+};
+
+// Short display form: "1881 Census of England, The National Archives"
+export const describeSource = (source: Source): string => {
+  return [source.title, source.author].filter(Boolean).join(', ');
+};
+
+const normalizeTitle = (text: string | undefined) => (text || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// An existing catalogue entry for the same work, so imports do not duplicate sources
+export const findMatchingSource = (sources: Source[], candidate: Pick<Source, 'title' | 'author'>): Source | undefined => {
+  const title = normalizeTitle(candidate.title);
+  if (!title) return undefined;
+  const author = normalizeTitle(candidate.author);
+  return sources.find(s => normalizeTitle(s.title) === title && normalizeTitle(s.author) === author);
+};
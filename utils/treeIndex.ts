@@ -0,0 +1,88 @@
+import { Ancestor } from '../types';
+
+// --- TREE INDEX ---
+// Lookups over one snapshot of the tree, shared by the genealogy utils, the chart
+// layouts and the views. Snapshots are immutable arrays (a change produces a new one),
+// so each is indexed once and the index is reused until the array is replaced.
+
+export interface TreeIndex {
+  byId: Map<string, Ancestor>;
+  // Recorded parents that exist in the tree, father first
+  parentsOf: (person: Ancestor) => string[];
+  childrenOf: Map<string, Ancestor[]>; // parentId -> children, oldest first
+  // Parents before children; a parent link that closes a loop (bad data) is ignored
+  order: Ancestor[];
+  rank: Map<string, number>; // Position in `order`
+  // Rows by longest line of recorded parents: 0 for people without parents, else one
+  // below their lowest parent
+  generationOf: Map<string, number>;
+  generations: Ancestor[][];
+}
+
+export const byBirth = (a: Ancestor, b: Ancestor) =>
+  (a.birthYear ?? Infinity) - (b.birthYear ?? Infinity) || a.name.localeCompare(b.name);
+
+const buildTreeIndex = (ancestors: Ancestor[]): TreeIndex => {
+  const byId = new Map<string, Ancestor>(ancestors.map(a => [a.id, a]));
+  const parentsOf = (person: Ancestor) =>
+    [person.fatherId, person.motherId].filter((id): id is string => !!id && id !== person.id && byId.has(id));
+
+  const childrenOf = new Map<string, Ancestor[]>();
+  ancestors.forEach(child => {
+    parentsOf(child).forEach(parentId => {
+      if (!childrenOf.has(parentId)) childrenOf.set(parentId, []);
+      childrenOf.get(parentId)!.push(child);
+    });
+  });
+  childrenOf.forEach(list => list.sort(byBirth));
+
+  // Iterative depth-first walk, so deep lines cannot overflow the stack
+  const order: Ancestor[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  ancestors.forEach(start => {
+    if (state.has(start.id)) return;
+    const stack: { person: Ancestor; next: number }[] = [{ person: start, next: 0 }];
+    state.set(start.id, 'visiting');
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      const parents = parentsOf(top.person);
+      if (top.next < parents.length) {
+        const parentId = parents[top.next++];
+        if (!state.has(parentId)) {
+          state.set(parentId, 'visiting');
+          stack.push({ person: byId.get(parentId)!, next: 0 });
+        }
+        continue;
+      }
+      stack.pop();
+      state.set(top.person.id, 'done');
+      order.push(top.person);
+    }
+  });
+  const rank = new Map<string, number>(order.map((p, i) => [p.id, i]));
+
+  const generationOf = new Map<string, number>();
+  const generations: Ancestor[][] = [];
+  order.forEach(person => {
+    let generation = 0;
+    parentsOf(person).forEach(id => {
+      if (rank.get(id)! < rank.get(person.id)!) generation = Math.max(generation, generationOf.get(id)! + 1);
+    });
+    generationOf.set(person.id, generation);
+    if (!generations[generation]) generations[generation] = [];
+    generations[generation].push(person);
+  });
+
+  return { byId, parentsOf, childrenOf, order, rank, generationOf, generations };
+};
+
+const indexes = new WeakMap<Ancestor[], TreeIndex>();
+
+export const getTreeIndex = (ancestors: Ancestor[]): TreeIndex => {
+  let index = indexes.get(ancestors);
+  if (!index) {
+    index = buildTreeIndex(ancestors);
+    indexes.set(ancestors, index);
+  }
+  return index;
+};
@@ -0,0 +1,42 @@
+import { RecordChange } from '../types';
+import { RecordState, TreeRecords, getCurrentVersion, sameRecord } from './history';
+
+// --- UNDO / REDO ---
+// App records the changes each user action commits (see StorageService.startRecording)
+// and keeps them as commands. Undo writes every record back to its `before` state and
+// redo to its `after` state, so adds, edits, deletes, imports and merges all work alike.
+
+export interface UndoCommand {
+  label: string; // Past tense, e.g. "Deleted John Smith"
+  changes: RecordChange[];
+  destructive?: boolean; // Offered for undo in a toast straight away
+}
+
+// Runs an action as a single undoable step, resolving to the action's result
+export type UndoableRunner = <T>(label: string, action: () => Promise<T>, options?: { destructive?: boolean }) => Promise<T>;
+
+export const UNDO_LIMIT = 50;
+
+// One change per record: its state before the first write and after the last. Records
+// that ended where they started are dropped.
+export const collapseChanges = (changes: RecordChange[]): RecordChange[] => {
+  const byRecord = new Map<string, RecordChange>();
+  changes.forEach(change => {
+    const key = `${change.collection}/${change.docId}`;
+    const existing = byRecord.get(key);
+    byRecord.set(key, existing ? { ...existing, after: change.after } : change);
+  });
+  return Array.from(byRecord.values()).filter(c => !sameRecord(c.before, c.after));
+};
+
+export const getUndoStates = (command: UndoCommand): RecordState[] =>
+  command.changes.map(c => ({ collection: c.collection, docId: c.docId, state: c.before }));
+
+export const getRedoStates = (command: UndoCommand): RecordState[] =>
+  command.changes.map(c => ({ collection: c.collection, docId: c.docId, state: c.after }));
+
+// How many records were changed again (by anyone) since the command left them; undoing
+// or redoing over those would discard the newer edits
+export const countConflicts = (command: UndoCommand, direction: 'undo' | 'redo', records: TreeRecords) => {
+  return command.changes.filter(c => !sameRecord(getCurrentVersion(c, records), direction === 'undo' ? c.after : c.before)).length;
+};
@@ -12,7 +12,14 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.STORAGE_BACKEND': JSON.stringify(env.STORAGE_BACKEND),
+        'process.env.FIREBASE_EMULATORS': JSON.stringify(env.FIREBASE_EMULATORS),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_API_KEY': JSON.stringify(env.AI_API_KEY),
+        'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL),
+        'process.env.AI_IMAGE_MODEL': JSON.stringify(env.AI_IMAGE_MODEL),
+        'process.env.AI_BASE_URL': JSON.stringify(env.AI_BASE_URL)
       },
       resolve: {
         alias: {